@@ -0,0 +1,18 @@
+// Refund windows for a paid consultation cancelled by the patient, measured
+// against the appointment's scheduledAt:
+//   - at least CANCELLATION_FULL_REFUND_HOURS before → full refund
+//   - later than that, but before the start          → CANCELLATION_PARTIAL_REFUND_PERCENT
+//   - after the start                                → no refund
+// Doctor cancellations and rejections always refund in full.
+const fullHours = Number(process.env.CANCELLATION_FULL_REFUND_HOURS ?? 24);
+const partialPercent = Number(process.env.CANCELLATION_PARTIAL_REFUND_PERCENT ?? 50);
+
+export const CANCELLATION_FULL_REFUND_HOURS = Math.min(
+  Math.max(Number.isFinite(fullHours) ? fullHours : 24, 0),
+  24 * 14 // at most two weeks
+);
+
+export const CANCELLATION_PARTIAL_REFUND_PERCENT = Math.min(
+  Math.max(Number.isFinite(partialPercent) ? partialPercent : 50, 0),
+  100
+);
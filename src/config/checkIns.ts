@@ -0,0 +1,18 @@
+// How long a patient has to answer a check-in. A locked chat stays open for
+// their reply until then.
+const raw = Number(process.env.CHECK_IN_REPLY_WINDOW_HOURS ?? 48);
+
+export const CHECK_IN_REPLY_WINDOW_HOURS = Math.min(
+  Math.max(Number.isFinite(raw) ? raw : 48, 1), // at least an hour
+  7 * 24                                        // at most a week
+);
+
+// Limits on what a doctor can line up for one appointment
+export const CHECK_IN_MAX_PER_APPOINTMENT = 5;
+export const CHECK_IN_MAX_DAYS_AHEAD = 90;
+export const CHECK_IN_MAX_QUESTIONS = 10;
+
+// A check-in that fails to post is retried on a later cron run, this many
+// times in all, before it is marked failed
+export const CHECK_IN_MAX_SEND_ATTEMPTS = 3;
+export const CHECK_IN_RETRY_DELAY_MINUTES = 5;
@@ -0,0 +1,19 @@
+// Reliability scores look back over this many days of appointments
+// (see services/ReliabilityService.ts).
+const windowDays = Number(process.env.RELIABILITY_WINDOW_DAYS ?? 90);
+const noShowLimit = Number(process.env.PATIENT_NO_SHOW_LIMIT ?? 2);
+const restrictedBookings = Number(process.env.NO_SHOW_RESTRICTED_OPEN_BOOKINGS ?? 1);
+
+export const RELIABILITY_WINDOW_DAYS = Math.min(
+  Math.max(Number.isFinite(windowDays) ? windowDays : 90, 7), // at least a week
+  365                                                          // at most a year
+);
+
+// A patient with this many no-shows inside the window is restricted to
+// NO_SHOW_RESTRICTED_OPEN_BOOKINGS upcoming appointments at a time.
+export const PATIENT_NO_SHOW_LIMIT = Math.max(Number.isFinite(noShowLimit) ? noShowLimit : 2, 1);
+
+export const NO_SHOW_RESTRICTED_OPEN_BOOKINGS = Math.max(
+  Number.isFinite(restrictedBookings) ? restrictedBookings : 1,
+  1
+);
@@ -0,0 +1,4 @@
+// Wall-clock times users and doctors enter ("09:00", "HH:mm" medication
+// times, weekly schedules) are interpreted in this timezone unless a record
+// says otherwise. Nigeria has a single zone and no DST.
+export const APP_TIMEZONE = process.env.APP_TIMEZONE || "Africa/Lagos";
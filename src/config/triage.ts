@@ -0,0 +1,14 @@
+// Numbers the chatbot gives out when triage finds a red flag. 112 is
+// Nigeria's national emergency line; the crisis and sexual assault lines are
+// only shown when configured.
+export const TRIAGE_EMERGENCY_NUMBER = process.env.TRIAGE_EMERGENCY_NUMBER || "112";
+export const TRIAGE_CRISIS_LINE = process.env.TRIAGE_CRISIS_LINE || "";
+export const TRIAGE_ASSAULT_LINE = process.env.TRIAGE_ASSAULT_LINE || "";
+
+// How far to look for clinics around the user, in metres, and how many to show
+const raw = Number(process.env.TRIAGE_CLINIC_RADIUS_METERS ?? 15_000);
+export const TRIAGE_CLINIC_RADIUS_METERS = Math.min(
+  Math.max(Number.isFinite(raw) ? raw : 15_000, 1_000),
+  20_000 // the same cap as GET /hospitals/nearby
+);
+export const TRIAGE_MAX_CLINICS = 3;
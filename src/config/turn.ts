@@ -0,0 +1,19 @@
+// Shared secret configured on the TURN server (coturn: static-auth-secret,
+// with use-auth-secret enabled). Without it only STUN servers are handed out.
+export const TURN_SHARED_SECRET = process.env.TURN_SHARED_SECRET || "";
+
+// Comma-separated TURN / TURNS URLs the credentials are valid for,
+// e.g. "turn:turn.example.com:3478?transport=udp,turns:turn.example.com:5349".
+export const TURN_SERVER_URLS = (process.env.TURN_SERVER_URLS || "")
+  .split(",")
+  .map((url) => url.trim())
+  .filter(Boolean);
+
+// How long an issued TURN credential works. Clients fetch a fresh one per
+// call, so this only needs to outlive the longest consultation.
+const raw = Number(process.env.TURN_CREDENTIAL_TTL_SECONDS ?? 4 * 60 * 60);
+
+export const TURN_CREDENTIAL_TTL_SECONDS = Math.min(
+  Math.max(Number.isFinite(raw) ? raw : 4 * 60 * 60, 5 * 60), // at least 5 mins
+  24 * 60 * 60                                               // at most a day
+);
@@ -0,0 +1,13 @@
+// How early before the scheduled time a patient may enter the waiting room.
+// The call itself (/video/token, /video/status canJoin) opens at the same
+// time, so an early admit from the waiting room can always connect.
+const raw = Number(process.env.WAITING_ROOM_OPENS_MINUTES ?? 30);
+
+export const WAITING_ROOM_OPENS_MINUTES = Math.min(
+  Math.max(Number.isFinite(raw) ? raw : 30, 5), // at least 5 mins
+  2 * 60                                        // at most 2 hours
+);
+
+// A waiting patient whose app hasn't checked in for this long is shown to the
+// doctor as away (their screen re-enters every 30s or so while open).
+export const WAITING_ROOM_PRESENCE_SECONDS = 90;
@@ -0,0 +1,9 @@
+// How long a waitlisted patient has to claim a freed slot before it is
+// offered to the next person in line.
+const raw = Number(process.env.WAITLIST_OFFER_MINUTES ?? 15);
+
+export const WAITLIST_OFFER_MINUTES = Math.min(
+  Math.max(Number.isFinite(raw) ? raw : 15, 5), // at least 5 mins
+  24 * 60                                        // at most a day
+);
+
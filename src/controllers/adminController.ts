@@ -9,6 +9,9 @@ import { signAdminJwt } from "../middleware/auth";
 import axios from "axios";
 import { NotificationService } from "../services/NotificationService";
 import { memoryCache } from "../util/memoryCache";
+import { getPatientReliability } from "../services/ReliabilityService";
+import { RELIABILITY_WINDOW_DAYS } from "../config/reliability";
+import { buildCallReport, getCallTelemetryAggregates } from "../services/CallTelemetryService";
 
 const PARTNER_API_URL = process.env.PARTNER_API_URL || "";
 const PARTNER_PREFIX = "/v1/PlanAmWell";
@@ -81,6 +84,47 @@ export const getAllDoctorsAdmin = asyncHandler(async (_req: Request, res: Respon
   res.status(200).json({ success: true, data: doctors });
 });
 
+// ------------------- Doctor Reliability (Admin) -------------------
+// Least reliable first; doctors with nothing to score yet come last.
+export const getDoctorReliabilityAdmin = asyncHandler(async (_req: Request, res: Response) => {
+  const doctors = await Doctor.find({ status: "approved" })
+    .select("firstName lastName specialization email reliability")
+    .lean();
+
+  doctors.sort((a, b) => {
+    const sa = a.reliability?.score ?? Infinity;
+    const sb = b.reliability?.score ?? Infinity;
+    return sa - sb || (b.reliability?.noShows || 0) - (a.reliability?.noShows || 0);
+  });
+
+  res.status(200).json({ success: true, windowDays: RELIABILITY_WINDOW_DAYS, data: doctors });
+});
+
+// ------------------- Call Quality (Admin) -------------------
+// ?from=&to= (ISO dates); defaults to the last 30 days.
+export const getCallTelemetryAdmin = asyncHandler(async (req: Request, res: Response) => {
+  const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+  const from = req.query.from
+    ? new Date(String(req.query.from))
+    : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    res.status(400);
+    throw new Error("Invalid 'from' / 'to' range.");
+  }
+
+  const data = await getCallTelemetryAggregates(from, to);
+  res.status(200).json({ success: true, data });
+});
+
+export const getCallReportAdmin = asyncHandler(async (req: Request, res: Response) => {
+  const report = await buildCallReport(req.params.appointmentId);
+  if (!report) {
+    res.status(404);
+    throw new Error("Appointment not found.");
+  }
+  res.status(200).json({ success: true, data: report });
+});
+
 // ------------------- Get Pending Doctors Only -------------------
 export const getPendingDoctorsAdmin = asyncHandler(async (_req: Request, res: Response) => {
   const doctors: IDoctor[] = await Doctor.find({ status: "submitted" }).select("-passwordHash").populate("doctorImage");
@@ -162,6 +206,7 @@ export const getUserByIdAdmin = asyncHandler(async (req: Request, res: Response)
   res.status(200).json({
     success: true,
     data: user,
+    reliability: await getPatientReliability(user._id as any),
   });
 });
 
@@ -5,6 +5,7 @@ import { Comment } from "../models/comment";
 import asyncHandler from "../middleware/asyncHandler";
 import { uploadToCloudinary } from "../middleware/claudinary";
 import { memoryCache } from "../util/memoryCache";
+import { indexArticle, removeArticleFromIndex } from "../services/AdvocacyRetrievalService";
 
 import slugify from "slugify";
 
@@ -331,6 +332,8 @@ export const createArticle = asyncHandler(async (req: Request, res: Response) =>
   });
 
   memoryCache.invalidatePrefix(ADVOCACY_CACHE_PREFIX);
+  // The chatbot answers from published articles; a failed index only costs it this one
+  await indexArticle(String(article._id)).catch((err) => console.error("❌ Failed to index article:", err));
 
   res.status(201).json({
     success: true,
@@ -396,6 +399,7 @@ export const updateArticle = asyncHandler(async (req: Request, res: Response) =>
   }
 
   memoryCache.invalidatePrefix(ADVOCACY_CACHE_PREFIX);
+  await indexArticle(String(article._id)).catch((err) => console.error("❌ Failed to index article:", err));
 
   res.status(200).json({
     success: true,
@@ -419,6 +423,7 @@ export const deleteArticle = asyncHandler(async (req: Request, res: Response) =>
   }
 
   memoryCache.invalidatePrefix(ADVOCACY_CACHE_PREFIX);
+  await removeArticleFromIndex(id).catch((err) => console.error("❌ Failed to unindex article:", err));
 
   res.status(200).json({
     success: true,
@@ -2,13 +2,43 @@
 import mongoose from "mongoose";
 import { Request, Response } from "express";
 import asyncHandler from "../middleware/asyncHandler";
-import { Appointment, IAppointment } from "../models/appointment";
+import { Appointment, IAppointment, StatusChangeActor } from "../models/appointment";
 import { Doctor } from "../models/doctor";
 import { User } from "../models/user";
+import { FamilyMember } from "../models/FamilyMember";
 import { NotificationService } from "../services/NotificationService";
 import { createNotificationForUser } from "../util/sendPushNotification";
 import { Conversation } from "../models/conversation";
-import { emitAppointmentEnded, emitConversationUnlocked } from "../index";
+import {
+  emitAppointmentEnded,
+  emitAppointmentUpdated,
+  emitConversationUnlocked,
+} from "../index";
+import {
+  findBookedIntervals,
+  isSlotBookable,
+  readAvailability,
+} from "../services/AvailabilityService";
+import {
+  CONSULTATION_TYPES,
+  feeFieldsForBooking,
+  isPaymentSettled,
+  waiveConsultationPayment,
+} from "../services/ConsultationPaymentService";
+import { handleCancellation, quoteCancellation } from "../services/CancellationService";
+import {
+  BookingError,
+  bookAppointment,
+  getMissingAppointmentFields,
+} from "../services/AppointmentBookingService";
+import { offerFreedSlot } from "../services/WaitlistService";
+import { appendMessage } from "../services/ChatMessageService";
+import { recordAttendanceOutcome } from "../services/ReliabilityService";
+import {
+  AppointmentTransitionError,
+  canTransition,
+  transitionAppointment,
+} from "../services/AppointmentStateMachine";
 
 const extractId = (field: any): string => {
   if (!field) return "";
@@ -17,24 +47,9 @@ const extractId = (field: any): string => {
   return String(field);
 };
 
+// What doctors and account holders see of a dependent patient.
+const FAMILY_MEMBER_FIELDS = "name relationship gender dateOfBirth bloodGroup allergies";
 
-// ── Helper ─────────────────────────────────────────────────────────────────
- 
-/**
- * Returns an array of field names that are required for appointment booking
- * but are not yet filled in on the user document.
- * An empty array means the profile is complete enough to proceed.
- */
-function getMissingAppointmentFields(user: any): string[] {
-  const required: { field: string; label: string }[] = [
-    { field: "phone",       label: "Phone number" },
-    { field: "gender",      label: "Gender" },
-    { field: "dateOfBirth", label: "Date of birth" },
-  ];
-  return required
-    .filter(({ field }) => !user[field])
-    .map(({ label }) => label);
-}
 
 /**
  * @desc Check if authenticated user's profile is complete enough to book an appointment
@@ -90,18 +105,9 @@ export const getBookedSlots = asyncHandler(async (req: Request, res: Response) =
     throw new Error("Invalid from/to date.");
   }
 
-  const booked = await Appointment.find({
-    doctorId,
-    scheduledAt: { $gte: fromDate, $lt: toDate },
-    status: { $nin: ["cancelled", "rejected", "expired"] },
-  })
-    .select("scheduledAt duration")
-    .lean();
+  const booked = await findBookedIntervals(doctorId, fromDate, toDate);
 
-  res.status(200).json({
-    success: true,
-    data: booked.map((a) => ({ scheduledAt: a.scheduledAt, duration: a.duration || 30 })),
-  });
+  res.status(200).json({ success: true, data: booked });
 });
 
 /**
@@ -111,137 +117,28 @@ export const getBookedSlots = asyncHandler(async (req: Request, res: Response) =
  */
 export const createAppointment = asyncHandler(
   async (req: Request, res: Response) => {
-    const {
-      doctorId,
-      scheduledAt,
-      duration,
-      notes,
-      reason,
-      shareUserInfo,
-      consultationType,
-    } = req.body;
- 
-    if (!doctorId || !scheduledAt) {
-      res.status(400);
-      throw new Error("doctorId and scheduledAt are required.");
-    }
- 
-    const doctor = await Doctor.findById(doctorId);
-    if (!doctor || doctor.status !== "approved") {
-      res.status(404);
-      throw new Error("Doctor not found or not approved.");
-    }
- 
     if (!req.auth?.id) {
       res.status(401);
       throw new Error("Unauthorized");
     }
- 
-    // ── Profile completeness gate ───────────────────────────────────────────
-    const user = await User.findById(req.auth.id).select(
-      "name email phone gender dateOfBirth homeAddress"
-    );
- 
-    if (!user) {
-      res.status(404);
-      throw new Error("User not found.");
-    }
- 
-    const missingFields = getMissingAppointmentFields(user);
-    if (missingFields.length > 0) {
-      // 422 Unprocessable Entity — the client knows what to ask for
-      return res.status(422).json({
-        success: false,
-        code: "PROFILE_INCOMPLETE",
-        message: "Please complete your profile before booking an appointment.",
-        missingFields, // e.g. ["Phone number", "Date of birth"]
-      });
-    }
-    // ───────────────────────────────────────────────────────────────────────
- 
-    let patientSnapshot = null;
-    if (shareUserInfo && user) {
-      patientSnapshot = {
-        name: user.name || "Anonymous",
-        email: user.email,
-        phone: user.phone,
-        gender: user.gender,
-        dateOfBirth: user.dateOfBirth,
-        homeAddress: user.homeAddress,
-      };
-    }
- 
-    const scheduledDate = new Date(scheduledAt);
-    if (isNaN(scheduledDate.getTime())) {
-      res.status(400);
-      throw new Error("Invalid scheduledAt date.");
-    }
- 
-    let appointment;
+
     try {
-      appointment = await Appointment.create({
-        userId: req.auth.id,
-        doctorId,
-        scheduledAt: scheduledDate,
-        duration,
-        notes,
-        reason,
-        shareUserInfo: !!shareUserInfo,
-        patientSnapshot,
-        consultationType,
-        notificationsSent: {
-          reminder: false,
-          expiryWarning: false,
-          callStarted: false,
-          callEnded: false,
-        },
-      });
-    } catch (err: any) {
-      // E11000 from the doctorId+scheduledAt partial unique index — someone
-      // else (or this same request, retried) already holds this exact slot.
-      // MongoDB enforces this atomically, so it's the real guard against
-      // double-booking; this catch just turns it into a clean response.
-      if (err?.code === 11000) {
-        return res.status(409).json({
-          success: false,
-          code: "SLOT_TAKEN",
-          message: "This time slot was just booked by someone else. Please pick another time.",
-        });
+      const { appointment, message } = await bookAppointment(req.auth.id, req.body);
+      res.status(201).json({ success: true, data: appointment, message });
+    } catch (err) {
+      if (err instanceof BookingError) {
+        if (err.code) {
+          return res.status(err.status).json({
+            success: false,
+            code: err.code,
+            message: err.message,
+            ...err.details,
+          });
+        }
+        res.status(err.status);
       }
       throw err;
     }
-
-    const doctorName = `Dr. ${doctor.lastName || doctor.firstName}`;
-    const patientName = user?.name || "A patient";
- 
-    try {
-      await NotificationService.notifyAppointmentRequestSent(
-        req.auth.id,
-        String(appointment._id),
-        doctorName,
-        scheduledDate
-      );
-    } catch (error) {
-      console.error("❌ Failed to send patient notification:", error);
-    }
- 
-    try {
-      await NotificationService.notifyDoctorNewRequest(
-        String(doctorId),
-        String(appointment._id),
-        patientName,
-        scheduledDate,
-        reason
-      );
-    } catch (error) {
-      console.error("❌ Failed to send doctor notification:", error);
-    }
- 
-    res.status(201).json({
-      success: true,
-      data: appointment,
-      message: "Appointment request sent successfully. Awaiting doctor review.",
-    });
   }
 );
 
@@ -254,6 +151,7 @@ export const getMyAppointments = asyncHandler(
   async (req: Request, res: Response) => {
     const appointments = await Appointment.find({ userId: req.auth?.id })
       .populate("doctorId")
+      .populate("familyMemberId", FAMILY_MEMBER_FIELDS)
       .sort({ scheduledAt: 1 });
 
     res.status(200).json({ success: true, data: appointments });
@@ -271,6 +169,7 @@ export const getDoctorAppointments = asyncHandler(
 
     const appointments = await Appointment.find({ doctorId })
       .populate("userId")
+      .populate("familyMemberId", FAMILY_MEMBER_FIELDS)
       .sort({ scheduledAt: 1 });
 
     res.status(200).json({ success: true, data: appointments });
@@ -313,36 +212,40 @@ export const updateAppointment = asyncHandler(
 
     type AppointmentUpdatePayload = {
       status?: IAppointment["status"];
-      scheduledAt?: Date;
       notes?: string;
       shareUserInfo?: boolean;
       patientSnapshot?: IAppointment["patientSnapshot"];
       consultationType?: IAppointment["consultationType"];
+      consultationFee?: number;
+      paymentStatus?: IAppointment["paymentStatus"];
+      paymentWaiverReason?: IAppointment["paymentWaiverReason"] | null;
     };
 
+    // Moving an appointment is a proposal the other party answers — see
+    // POST /appointments/:id/reschedule
+    if (req.body.scheduledAt !== undefined || req.body.status === "rescheduled") {
+      return res.status(400).json({
+        success: false,
+        code: "USE_RESCHEDULE",
+        message: "To change the time, propose a new one with POST /api/v1/appointments/:id/reschedule.",
+      });
+    }
+
     const updates: AppointmentUpdatePayload = {};
     const oldStatus = appointment.status;
 
     // ── USER updates ──────────────────────────────────────────────────────────
     if (role === "User") {
-      if (
-        req.body.status === "cancelled" &&
-        ["pending", "confirmed"].includes(appointment.status)
-      ) {
-        updates.status = "cancelled";
-      }
-      if (req.body.scheduledAt) {
-        const newDate = new Date(req.body.scheduledAt);
-        if (isNaN(newDate.getTime())) {
-          return res.status(400).json({ message: "Invalid scheduledAt date." });
-        }
-        updates.scheduledAt = newDate;
-      }
+      if (req.body.status === "cancelled") updates.status = "cancelled";
       if (req.body.notes) updates.notes = req.body.notes;
-      if (typeof req.body.shareUserInfo === "boolean")
-        updates.shareUserInfo = req.body.shareUserInfo;
-      if (req.body.patientSnapshot)
-        updates.patientSnapshot = req.body.patientSnapshot;
+      // A dependent's snapshot comes from their FamilyMember record and is
+      // always shared — the doctor has to know who the patient is.
+      if (!appointment.familyMemberId) {
+        if (typeof req.body.shareUserInfo === "boolean")
+          updates.shareUserInfo = req.body.shareUserInfo;
+        if (req.body.patientSnapshot)
+          updates.patientSnapshot = req.body.patientSnapshot;
+      }
       if (req.body.consultationType)
         updates.consultationType = req.body.consultationType;
     }
@@ -354,43 +257,98 @@ export const updateAppointment = asyncHandler(
           "confirmed",
           "rejected",
           "cancelled",
-          "rescheduled",
         ];
         if (!allowedDoctorStatuses.includes(req.body.status)) {
           return res.status(400).json({ message: "Invalid status update." });
         }
         updates.status = req.body.status;
       }
-      if (req.body.scheduledAt) {
-        const newDate = new Date(req.body.scheduledAt);
-        if (isNaN(newDate.getTime())) {
-          return res.status(400).json({ message: "Invalid scheduledAt date." });
-        }
-        updates.scheduledAt = newDate;
-        if (req.body.consultationType)
-          updates.consultationType = req.body.consultationType;
-        if (appointment.status !== "rescheduled") updates.status = "rescheduled";
-      }
       if (req.body.notes) updates.notes = req.body.notes;
     }
 
+    // ── Payment ───────────────────────────────────────────────────────────────
+    if (updates.consultationType && !CONSULTATION_TYPES.includes(updates.consultationType)) {
+      return res.status(400).json({ message: "Invalid consultationType." });
+    }
+    // Changing the consultation type re-prices an unpaid appointment. Legacy
+    // (unpriced) appointments are left as they are.
+    if (
+      updates.consultationType &&
+      updates.consultationType !== appointment.consultationType &&
+      appointment.consultationFee !== undefined
+    ) {
+      if (appointment.paymentStatus === "paid" || appointment.paymentWaiverReason === "sponsored") {
+        return res.status(400).json({
+          message: "The consultation type cannot be changed once the consultation is paid for.",
+        });
+      }
+      const doctor = await Doctor.findById(appointment.doctorId).select("consultationFees");
+      const fees = feeFieldsForBooking(doctor || {}, updates.consultationType);
+      updates.consultationFee = fees.consultationFee;
+      updates.paymentStatus = fees.paymentStatus;
+      updates.paymentWaiverReason = fees.paymentWaiverReason ?? null;
+    }
+
+    if (
+      updates.status === "confirmed" &&
+      !isPaymentSettled({
+        consultationFee: updates.consultationFee ?? appointment.consultationFee,
+        paymentStatus: updates.paymentStatus ?? appointment.paymentStatus,
+      })
+    ) {
+      return res.status(402).json({
+        success: false,
+        code: "PAYMENT_REQUIRED",
+        message: "This consultation hasn't been paid for yet. Waive the fee to confirm it anyway.",
+      });
+    }
+
     // ── Apply updates ─────────────────────────────────────────────────────────
-    const updatedAppointment = (await Appointment.findByIdAndUpdate(
-      req.params.id,
-      updates,
-      { new: true, runValidators: true }
-    )
-      .populate(
-        "doctorId",
-        "firstName lastName doctorImage email contactNumber licenseNumber"
-      )
-      .populate("userId", "name userImage email")) as any;
-
-    if (!updatedAppointment) {
+    // A status change goes through the state machine, which checks the
+    // transition table and writes the rest of `updates` in the same atomic
+    // update as the status + statusHistory entry.
+    const { status: nextStatus, ...fieldUpdates } = updates;
+    let saved: IAppointment | null;
+
+    if (nextStatus && nextStatus !== oldStatus) {
+      try {
+        saved = await transitionAppointment(
+          appointment._id as mongoose.Types.ObjectId,
+          oldStatus,
+          nextStatus,
+          role as StatusChangeActor,
+          { actorId: userId, reason: req.body.statusReason, set: fieldUpdates }
+        );
+      } catch (err) {
+        if (err instanceof AppointmentTransitionError) {
+          return res.status(400).json({ success: false, code: "INVALID_TRANSITION", message: err.message });
+        }
+        throw err;
+      }
+      if (!saved) {
+        return res.status(409).json({
+          success: false,
+          code: "STATUS_CHANGED",
+          message: "This appointment was just updated. Please refresh and try again.",
+        });
+      }
+    } else {
+      saved = await Appointment.findByIdAndUpdate(req.params.id, fieldUpdates, {
+        new: true,
+        runValidators: true,
+      });
+    }
+
+    if (!saved) {
       res.status(404);
       throw new Error("Failed to update appointment.");
     }
 
+    const updatedAppointment = (await saved.populate([
+      { path: "doctorId", select: "firstName lastName doctorImage email contactNumber licenseNumber" },
+      { path: "userId", select: "name userImage email" },
+    ])) as any;
+
     const patientId = extractId(updatedAppointment.userId);
     const doctorId = extractId(updatedAppointment.doctorId);
     const doctor = updatedAppointment.doctorId as any;
@@ -405,8 +363,10 @@ export const updateAppointment = asyncHandler(
     //  2. When doctor confirms a new appointment → find the existing conversation
     //     and unlock it (isActive = true) + add a system message + link new appointment.
     //  3. If truly no conversation exists yet → create one fresh.
-    //  4. isActive = false is set ONLY by endAppointment.
+    //  4. isActive = false is set ONLY by endAppointment (and the expiry job).
     //  5. isActive = true here (on confirm) OR via manual unlockConversation endpoint.
+    //     Both make it permanent: a temporaryUnlock left by a check-in
+    //     (services/CheckInService.ts) is cleared so it won't re-lock.
     //
     let conversationId: string | null = null;
 
@@ -427,21 +387,18 @@ export const updateAppointment = asyncHandler(
           // ── RETURNING PATIENT: unlock the existing conversation ─────────────
           const wasLocked = !conversation.isActive;
 
-          conversation.isActive = true; // ← THE unlock
-
-          // Add a system message so both parties can see the new appointment
-          conversation.messages.push({
-            _id: new mongoose.Types.ObjectId(),
-            senderId: new mongoose.Types.ObjectId(doctorId),
-            senderType: "Doctor",
-            messageType: "system",
-            content: `New appointment confirmed for ${updatedAppointment.scheduledAt.toLocaleString()}. Chat is now active again.`,
-            status: "sent",
-            createdAt: new Date(),
-          } as any);
-
-          conversation.lastActivityAt = new Date();
-          await conversation.save();
+          // Add a system message so both parties can see the new appointment,
+          // and unlock in the same write (isActive: true ← THE unlock)
+          await appendMessage(
+            conversation._id as mongoose.Types.ObjectId,
+            {
+              senderId: new mongoose.Types.ObjectId(doctorId),
+              senderType: "Doctor",
+              messageType: "system",
+              content: `New appointment confirmed for ${updatedAppointment.scheduledAt.toLocaleString()}. Chat is now active again.`,
+            },
+            { set: { isActive: true }, unset: ["temporaryUnlock"] }
+          );
 
           // Always link the new appointment to this conversation so
           // getOrCreateConversation Step 1 (appointmentId lookup) works next time.
@@ -473,19 +430,14 @@ export const updateAppointment = asyncHandler(
               userId: patientId,
               doctorId: doctorId,
             },
-            messages: [
-              {
-                _id: new mongoose.Types.ObjectId(),
-                senderId: new mongoose.Types.ObjectId(doctorId),
-                senderType: "Doctor",
-                messageType: "system",
-                content: `${doctorName} confirmed your appointment. You can now chat before your consultation on ${updatedAppointment.scheduledAt.toLocaleString()}.`,
-                status: "sent",
-                createdAt: new Date(),
-              },
-            ],
             isActive: true,
           });
+          await appendMessage(conversation._id as mongoose.Types.ObjectId, {
+            senderId: new mongoose.Types.ObjectId(doctorId),
+            senderType: "Doctor",
+            messageType: "system",
+            content: `${doctorName} confirmed your appointment. You can now chat before your consultation on ${updatedAppointment.scheduledAt.toLocaleString()}.`,
+          });
 
           updatedAppointment.conversationId = conversation._id; // in-memory only, for the rest of this handler
           await Appointment.updateOne(
@@ -525,17 +477,22 @@ export const updateAppointment = asyncHandler(
               if (!existingRequest) {
                 const newRequest = await AccessRequest.create({
                   patientId,
+                  familyMemberId: extractId(updatedAppointment.familyMemberId) || undefined,
                   requestingDoctorId: doctorId,
                   appointmentId: updatedAppointment._id,
                   status: "pending",
                   requestedAt: new Date(),
                   expiresAt: new Date(Date.now() + 48 * 60 * 60 * 1000),
                 });
+                const member = newRequest.familyMemberId
+                  ? await FamilyMember.findById(newRequest.familyMemberId).select("name")
+                  : null;
                 await NotificationService.notifyRecordAccessRequest(
                   patientId,
                   String(newRequest._id),
                   doctorName,
-                  doctor.specialization || ""
+                  doctor.specialization || "",
+                  member ? { id: String(member._id), name: member.name } : undefined
                 );
               }
             } catch (err) {
@@ -559,15 +516,6 @@ export const updateAppointment = asyncHandler(
               updatedAppointment.scheduledAt
             );
             break;
-
-          case "rescheduled":
-            await NotificationService.notifyAppointmentRescheduled(
-              patientId,
-              String(updatedAppointment._id),
-              doctorName,
-              updatedAppointment.scheduledAt
-            );
-            break;
         }
       } catch (error) {
         console.error("❌ Notification error:", error);
@@ -587,6 +535,23 @@ export const updateAppointment = asyncHandler(
       }
     }
 
+    // ── CANCELLATION: refund per policy + doctor reliability ─────────────────
+    let refund = null;
+    if (
+      (updates.status === "cancelled" || updates.status === "rejected") &&
+      updates.status !== oldStatus
+    ) {
+      refund = await handleCancellation(updatedAppointment, role as StatusChangeActor, doctorName);
+    }
+
+    // ── WAITLIST: offer the freed time to the next patient in line ───────────
+    if (
+      (updates.status === "cancelled" || updates.status === "rejected") &&
+      updates.status !== oldStatus
+    ) {
+      await offerFreedSlot(doctorId, updatedAppointment.scheduledAt);
+    }
+
     // ── REMINDER ──────────────────────────────────────────────────────────────
     if (
       updatedAppointment.status === "confirmed" &&
@@ -632,7 +597,494 @@ export const updateAppointment = asyncHandler(
       }
     }
 
-    res.status(200).json({ success: true, data: updatedAppointment });
+    res.status(200).json({
+      success: true,
+      data: updatedAppointment,
+      ...(refund ? { refund } : {}),
+    });
+  }
+);
+
+/**
+ * @desc Preview what cancelling now would refund, under the cancellation policy
+ * @route GET /api/v1/appointments/:id/cancellation-quote
+ * @access User | Doctor (own appointments)
+ */
+export const getCancellationQuote = asyncHandler(
+  async (req: Request, res: Response) => {
+    const appointment = await Appointment.findById(req.params.id).select(
+      "userId doctorId status scheduledAt paymentStatus consultationFee"
+    );
+
+    if (!appointment) {
+      res.status(404);
+      throw new Error("Appointment not found.");
+    }
+
+    const role = req.auth?.role as StatusChangeActor;
+    if (
+      (role === "User" && extractId(appointment.userId) !== req.auth?.id) ||
+      (role === "Doctor" && extractId(appointment.doctorId) !== req.auth?.id)
+    ) {
+      return res
+        .status(403)
+        .json({ message: "You can only access your own appointments." });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        canCancel: canTransition(appointment.status, "cancelled", role),
+        ...quoteCancellation(appointment, role),
+      },
+    });
+  }
+);
+
+// ── Reschedule negotiation ──────────────────────────────────────────────────
+//
+// Either party proposes a new time; the other accepts, declines, or counters
+// with a time of their own. Every proposal is kept in rescheduleHistory.
+// While a proposal is open the appointment sits in "rescheduled" and keeps
+// its original scheduledAt — it only moves once a proposal is accepted.
+
+const RESCHEDULABLE_STATUSES: IAppointment["status"][] = [
+  "pending",
+  "confirmed",
+  "confirmed-upcoming",
+  "rescheduled",
+];
+
+const RESCHEDULE_POPULATE_DOCTOR = "firstName lastName availability";
+const RESCHEDULE_POPULATE_USER = "name";
+
+function participantNames(appointment: any) {
+  const doctor = appointment.doctorId as any;
+  const patient = appointment.userId as any;
+  return {
+    doctorName: `Dr. ${doctor?.lastName || doctor?.firstName || "Doctor"}`,
+    patientName: patient?.name || "Patient",
+  };
+}
+
+/**
+ * Loads an appointment for a reschedule action and checks the caller is one
+ * of its two participants. Sends the error response itself and returns null
+ * when the caller may not act on it.
+ */
+async function loadForReschedule(req: Request, res: Response) {
+  const appointment = await Appointment.findById(req.params.id)
+    .populate("doctorId", RESCHEDULE_POPULATE_DOCTOR)
+    .populate("userId", RESCHEDULE_POPULATE_USER);
+
+  if (!appointment) {
+    res.status(404);
+    throw new Error("Appointment not found.");
+  }
+
+  const role = req.auth?.role as "User" | "Doctor";
+  const participantId =
+    role === "Doctor" ? extractId(appointment.doctorId) : extractId(appointment.userId);
+  if (participantId !== req.auth?.id) {
+    res.status(403).json({ success: false, message: "You are not part of this appointment." });
+    return null;
+  }
+
+  return { appointment, role };
+}
+
+/**
+ * Whether `proposedAt` is still free for the appointment to move to. Patients
+ * may only propose the doctor's free slots; doctors manage their own
+ * schedule, so they can propose any time that isn't already taken. Checked
+ * when a proposal is made and again when it is accepted, since the time can
+ * be booked in between.
+ */
+async function findRescheduleClash(
+  appointment: IAppointment,
+  proposedBy: "User" | "Doctor",
+  proposedAt: Date
+): Promise<"SLOT_UNAVAILABLE" | "SLOT_TAKEN" | null> {
+  const doctorId = extractId(appointment.doctorId);
+  const availability = readAvailability((appointment.doctorId as any)?.availability);
+
+  if (proposedBy === "User") {
+    const bookable = await isSlotBookable(doctorId, availability, proposedAt, String(appointment._id));
+    return bookable ? null : "SLOT_UNAVAILABLE";
+  }
+
+  // Any overlap with another booking (or a held waitlist offer) counts,
+  // not just one starting at the same minute
+  const bufferMs = (availability?.bufferMinutes ?? 0) * 60_000;
+  const durationMs = (appointment.duration || availability?.slotMinutes || 30) * 60_000;
+  const clashes = await findBookedIntervals(
+    doctorId,
+    new Date(proposedAt.getTime() - bufferMs),
+    new Date(proposedAt.getTime() + durationMs + bufferMs),
+    undefined,
+    String(appointment._id)
+  );
+  return clashes.length ? "SLOT_TAKEN" : null;
+}
+
+/**
+ * Opens a new proposal, closing any pending one first — as "countered" if the
+ * other party made it, "withdrawn" if the caller is replacing their own.
+ */
+async function openRescheduleProposal(
+  req: Request,
+  res: Response,
+  appointment: IAppointment,
+  role: "User" | "Doctor",
+  rawProposedAt: any,
+  reason?: string
+) {
+  if (!RESCHEDULABLE_STATUSES.includes(appointment.status)) {
+    res.status(400);
+    throw new Error(`An appointment that is ${appointment.status} cannot be rescheduled.`);
+  }
+
+  const proposedAt = new Date(rawProposedAt);
+  if (!rawProposedAt || isNaN(proposedAt.getTime())) {
+    res.status(400);
+    throw new Error("A valid proposedAt date is required.");
+  }
+  if (proposedAt.getTime() <= Date.now()) {
+    res.status(400);
+    throw new Error("The new time must be in the future.");
+  }
+  if (proposedAt.getTime() === appointment.scheduledAt.getTime()) {
+    res.status(400);
+    throw new Error("The new time is the same as the current one.");
+  }
+
+  const doctorId = extractId(appointment.doctorId);
+
+  const clash = await findRescheduleClash(appointment, role, proposedAt);
+  if (clash === "SLOT_UNAVAILABLE") {
+    return res.status(409).json({
+      success: false,
+      code: "SLOT_UNAVAILABLE",
+      message: "The doctor is not available at this time. Please pick one of the available slots.",
+    });
+  }
+  if (clash === "SLOT_TAKEN") {
+    return res.status(409).json({
+      success: false,
+      code: "SLOT_TAKEN",
+      message: "You already have an appointment at this time.",
+    });
+  }
+
+  const now = new Date();
+  const pending = appointment.rescheduleHistory?.find((p) => p.status === "pending");
+  const isCounter = !!pending && pending.proposedBy !== role;
+
+  if (pending) {
+    const closed = await Appointment.updateOne(
+      { _id: appointment._id, rescheduleHistory: { $elemMatch: { _id: pending._id, status: "pending" } } },
+      {
+        $set: {
+          "rescheduleHistory.$.status": isCounter ? "countered" : "withdrawn",
+          "rescheduleHistory.$.respondedAt": now,
+        },
+      }
+    );
+    if (closed.modifiedCount === 0) {
+      return res.status(409).json({
+        success: false,
+        code: "PROPOSAL_CHANGED",
+        message: "This reschedule request was just answered. Please refresh and try again.",
+      });
+    }
+  }
+
+  const proposal = {
+    _id: new mongoose.Types.ObjectId(),
+    proposedBy: role,
+    proposedById: new mongoose.Types.ObjectId(req.auth!.id),
+    proposedAt,
+    previousScheduledAt: appointment.scheduledAt,
+    reason: reason?.trim() || undefined,
+    status: "pending" as const,
+    createdAt: now,
+  };
+
+  // A counter-proposal keeps the appointment in "rescheduled"; only the first
+  // proposal is a status change.
+  const updated =
+    appointment.status === "rescheduled"
+      ? await Appointment.findByIdAndUpdate(
+          appointment._id,
+          { $push: { rescheduleHistory: proposal }, $set: { proposedAt } },
+          { new: true }
+        )
+      : await transitionAppointment(appointment._id as mongoose.Types.ObjectId, appointment.status, "rescheduled", role, {
+          actorId: req.auth!.id,
+          reason: proposal.reason,
+          push: { rescheduleHistory: proposal },
+          set: { proposedAt, statusBeforeReschedule: appointment.status },
+        });
+
+  if (!updated) {
+    return res.status(409).json({
+      success: false,
+      code: "STATUS_CHANGED",
+      message: "This appointment was just updated. Please refresh and try again.",
+    });
+  }
+
+  const { doctorName, patientName } = participantNames(appointment);
+  const recipientId = role === "Doctor" ? extractId(appointment.userId) : doctorId;
+  try {
+    await NotificationService.notifyRescheduleProposed(
+      recipientId,
+      role === "Doctor" ? "User" : "Doctor",
+      String(appointment._id),
+      role === "Doctor" ? doctorName : patientName,
+      proposedAt,
+      isCounter
+    );
+  } catch (error) {
+    console.error("❌ Failed to send reschedule proposal notification:", error);
+  }
+  emitAppointmentUpdated(String(appointment._id), updated);
+
+  return res.status(201).json({
+    success: true,
+    data: updated,
+    message: isCounter ? "Counter-proposal sent." : "Reschedule request sent.",
+  });
+}
+
+/**
+ * @desc Propose a new time for an appointment (either participant)
+ * @route POST /api/v1/appointments/:id/reschedule
+ * @body { proposedAt, reason? }
+ * @access User | Doctor
+ */
+export const proposeReschedule = asyncHandler(async (req: Request, res: Response) => {
+  const loaded = await loadForReschedule(req, res);
+  if (!loaded) return;
+
+  return openRescheduleProposal(
+    req,
+    res,
+    loaded.appointment,
+    loaded.role,
+    req.body.proposedAt,
+    req.body.reason
+  );
+});
+
+/**
+ * @desc Answer the other party's pending reschedule proposal
+ * @route POST /api/v1/appointments/:id/reschedule/respond
+ * @body { action: "accept" | "decline" | "counter", proposedAt? (counter), note? }
+ * @access User | Doctor
+ */
+export const respondToReschedule = asyncHandler(async (req: Request, res: Response) => {
+  const loaded = await loadForReschedule(req, res);
+  if (!loaded) return;
+  const { appointment, role } = loaded;
+  const { action, proposedAt, note } = req.body;
+
+  const pending = appointment.rescheduleHistory?.find((p) => p.status === "pending");
+  if (!pending) {
+    res.status(400);
+    throw new Error("There is no pending reschedule request for this appointment.");
+  }
+  if (pending.proposedBy === role) {
+    res.status(403);
+    throw new Error("You cannot answer your own reschedule request.");
+  }
+
+  if (action === "counter") {
+    return openRescheduleProposal(req, res, appointment, role, proposedAt, note);
+  }
+  if (action !== "accept" && action !== "decline") {
+    res.status(400);
+    throw new Error('action must be "accept", "decline" or "counter".');
+  }
+
+  if (action === "accept" && (await findRescheduleClash(appointment, pending.proposedBy, pending.proposedAt))) {
+    return res.status(409).json({
+      success: false,
+      code: "SLOT_TAKEN",
+      message: "That time has just been booked. Decline or suggest another time.",
+    });
+  }
+
+  const now = new Date();
+  const restoredStatus = appointment.statusBeforeReschedule || "pending";
+  const closeProposal = {
+    "rescheduleHistory.$.status": action === "accept" ? "accepted" : "declined",
+    "rescheduleHistory.$.respondedAt": now,
+    ...(note ? { "rescheduleHistory.$.responseNote": String(note).trim() } : {}),
+  };
+
+  let updated;
+  try {
+    updated = await transitionAppointment(
+      appointment._id as mongoose.Types.ObjectId,
+      appointment.status,
+      restoredStatus,
+      role,
+      {
+        actorId: req.auth!.id,
+        reason: action === "accept" ? "Reschedule accepted" : "Reschedule declined",
+        filter: { rescheduleHistory: { $elemMatch: { _id: pending._id, status: "pending" } } },
+        set:
+          action === "accept"
+            ? {
+                ...closeProposal,
+                scheduledAt: pending.proposedAt,
+                // The new time needs its own reminders.
+                reminderSent: false,
+                "notificationsSent.reminder": false,
+                "notificationsSent.expiryWarning": false,
+              }
+            : closeProposal,
+        unset: { proposedAt: 1, statusBeforeReschedule: 1 },
+      }
+    );
+  } catch (err: any) {
+    if (err instanceof AppointmentTransitionError) {
+      res.status(400);
+      throw err;
+    }
+    // E11000 from the doctorId+scheduledAt partial unique index — the
+    // proposed time was booked by someone else while this was being negotiated.
+    if (err?.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        code: "SLOT_TAKEN",
+        message: "That time has just been booked. Decline or suggest another time.",
+      });
+    }
+    throw err;
+  }
+
+  if (!updated) {
+    return res.status(409).json({
+      success: false,
+      code: "PROPOSAL_CHANGED",
+      message: "This reschedule request was just changed. Please refresh and try again.",
+    });
+  }
+
+  const { doctorName, patientName } = participantNames(appointment);
+  const patientId = extractId(appointment.userId);
+  const doctorId = extractId(appointment.doctorId);
+  const proposerIsDoctor = pending.proposedBy === "Doctor";
+
+  try {
+    if (action === "accept") {
+      await NotificationService.notifyRescheduleAccepted(
+        patientId, "User", String(appointment._id), doctorName, updated.scheduledAt
+      );
+      await NotificationService.notifyRescheduleAccepted(
+        doctorId, "Doctor", String(appointment._id), patientName, updated.scheduledAt
+      );
+    } else {
+      await NotificationService.notifyRescheduleDeclined(
+        proposerIsDoctor ? doctorId : patientId,
+        proposerIsDoctor ? "Doctor" : "User",
+        String(appointment._id),
+        proposerIsDoctor ? patientName : doctorName,
+        updated.scheduledAt
+      );
+    }
+  } catch (error) {
+    console.error("❌ Failed to send reschedule response notification:", error);
+  }
+  emitAppointmentUpdated(String(appointment._id), updated);
+
+  // The old time is free again — offer it to the waitlist.
+  if (action === "accept") await offerFreedSlot(doctorId, appointment.scheduledAt);
+
+  res.status(200).json({
+    success: true,
+    data: updated,
+    message: action === "accept" ? "New time accepted." : "Reschedule request declined.",
+  });
+});
+
+/**
+ * @desc Status audit trail for one appointment, oldest first
+ * @route GET /api/v1/appointments/:id/status-history
+ * @access User | Doctor (own appointments) | Admin
+ */
+export const getAppointmentStatusHistory = asyncHandler(
+  async (req: Request, res: Response) => {
+    const appointment = await Appointment.findById(req.params.id)
+      .select("userId doctorId status statusHistory")
+      .lean();
+
+    if (!appointment) {
+      res.status(404);
+      throw new Error("Appointment not found.");
+    }
+
+    const userId = req.auth?.id;
+    const role = req.auth?.role;
+    if (
+      (role === "User" && extractId(appointment.userId) !== userId) ||
+      (role === "Doctor" && extractId(appointment.doctorId) !== userId)
+    ) {
+      return res
+        .status(403)
+        .json({ message: "You can only access your own appointments." });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        status: appointment.status,
+        history: appointment.statusHistory || [],
+      },
+    });
+  }
+);
+
+/**
+ * @desc Mark an unpaid consultation as sponsored so it can be confirmed free
+ * @route PATCH /api/v1/appointments/:id/waive-payment
+ * @access Doctor (own appointments) | Admin
+ */
+export const waiveAppointmentPayment = asyncHandler(
+  async (req: Request, res: Response) => {
+    const appointment = await Appointment.findById(req.params.id).select(
+      "doctorId paymentStatus consultationFee"
+    );
+
+    if (!appointment) {
+      res.status(404);
+      throw new Error("Appointment not found.");
+    }
+
+    if (req.auth?.role === "Doctor" && extractId(appointment.doctorId) !== req.auth.id) {
+      return res
+        .status(403)
+        .json({ message: "You can only update appointments assigned to you." });
+    }
+
+    if (appointment.paymentStatus === "paid" || appointment.paymentStatus === "waived") {
+      res.status(400);
+      throw new Error(`Payment for this consultation is already ${appointment.paymentStatus}.`);
+    }
+
+    const updated = await waiveConsultationPayment(appointment._id as mongoose.Types.ObjectId, String(req.auth!.id));
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        code: "PAYMENT_CHANGED",
+        message: "The payment status just changed. Please refresh and try again.",
+      });
+    }
+
+    emitAppointmentUpdated(String(updated._id), updated);
+    res.status(200).json({ success: true, data: updated, message: "Consultation fee waived." });
   }
 );
 
@@ -661,7 +1113,8 @@ export const getAppointmentById = asyncHandler(
   async (req: Request, res: Response) => {
     const appointment = await Appointment.findById(req.params.id)
       .populate("doctorId", "firstName lastName")
-      .populate("userId", "firstName lastName name email userImage");
+      .populate("userId", "firstName lastName name email userImage")
+      .populate("familyMemberId", FAMILY_MEMBER_FIELDS);
 
     if (!appointment) {
       res.status(404);
@@ -859,23 +1312,44 @@ export const endAppointment = asyncHandler(
 
     // ── 1. Mark appointment as completed ─────────────────────────────────────
     // appointment was fetched with .populate() — never call .save() on it
-    // (see the golden rules documented in videoCallController.ts); update the
-    // in-memory object for the rest of this handler, persist atomically.
+    // (see the golden rules documented in videoCallController.ts); persist
+    // through the state machine, then mirror the change on the in-memory
+    // object for the rest of this handler.
+    const callEndedAt = new Date();
+    let ended: IAppointment | null;
+    try {
+      ended = await transitionAppointment(
+        appointment._id as mongoose.Types.ObjectId,
+        appointment.status,
+        "completed",
+        "Doctor",
+        {
+          actorId: doctorId,
+          reason: "Ended by doctor",
+          set: { callStatus: "ended", callEndedAt, callEndedBy: "Doctor" },
+        }
+      );
+    } catch (err) {
+      if (err instanceof AppointmentTransitionError) {
+        res.status(400);
+        throw new Error(`An appointment that is ${appointment.status} cannot be ended.`);
+      }
+      throw err;
+    }
+    if (!ended) {
+      return res.status(409).json({
+        success: false,
+        code: "STATUS_CHANGED",
+        message: "This appointment was just updated. Please refresh and try again.",
+      });
+    }
+
     appointment.status = "completed";
     appointment.callStatus = "ended";
-    appointment.callEndedAt = new Date();
+    appointment.callEndedAt = callEndedAt;
     appointment.callEndedBy = "Doctor";
-    await Appointment.updateOne(
-      { _id: appointment._id },
-      {
-        $set: {
-          status: "completed",
-          callStatus: "ended",
-          callEndedAt: appointment.callEndedAt,
-          callEndedBy: "Doctor",
-        },
-      }
-    );
+    appointment.attendanceOutcome =
+      (await recordAttendanceOutcome(appointment._id as mongoose.Types.ObjectId)) ?? undefined;
 
     // ── 2. Lock the conversation ───────────────────────────────────────────────
     // Find by doctor-patient pair (more reliable than appointmentId alone since
@@ -887,7 +1361,7 @@ export const endAppointment = asyncHandler(
         "participants.userId": patientId,
         "participants.doctorId": doctorId,
       },
-      { isActive: false },
+      { $set: { isActive: false }, $unset: { temporaryUnlock: "" } },
       { new: true }
     );
 
@@ -0,0 +1,136 @@
+// controllers/calendarController.ts
+import mongoose from "mongoose";
+import { Request, Response } from "express";
+import asyncHandler from "../middleware/asyncHandler";
+import { Appointment } from "../models/appointment";
+import { CalendarFeed } from "../models/CalendarFeed";
+import {
+  buildCalendar,
+  CalendarPerspective,
+  feedQuery,
+  feedUrls,
+  getOrCreateFeed,
+  rotateFeedToken,
+} from "../services/CalendarService";
+
+// Cap on events per feed — a few months of a busy doctor's diary.
+const MAX_FEED_EVENTS = 500;
+
+const sendIcs = (res: Response, body: string, filename?: string) => {
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Cache-Control", "private, max-age=300");
+  if (filename) res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.status(200).send(body);
+};
+
+/**
+ * @desc The logged-in patient's or doctor's calendar subscription URL
+ *       (created on first request)
+ * @route GET /api/v1/calendar/feed
+ * @access User | Doctor
+ */
+export const getCalendarFeed = asyncHandler(async (req: Request, res: Response) => {
+  const feed = await getOrCreateFeed(req.auth!.id!, req.auth!.role as CalendarPerspective);
+  res.status(200).json({ success: true, data: { ...feedUrls(feed.token), createdAt: feed.createdAt } });
+});
+
+/**
+ * @desc Replace the subscription URL — anyone holding the old one loses access
+ * @route POST /api/v1/calendar/feed/rotate
+ * @access User | Doctor
+ */
+export const rotateCalendarFeed = asyncHandler(async (req: Request, res: Response) => {
+  const feed = await rotateFeedToken(req.auth!.id!, req.auth!.role as CalendarPerspective);
+  res.status(200).json({
+    success: true,
+    data: feedUrls(feed.token),
+    message: "Calendar link replaced. Re-subscribe in your calendar app with the new link.",
+  });
+});
+
+/**
+ * @desc Turn off the subscription URL altogether
+ * @route DELETE /api/v1/calendar/feed
+ * @access User | Doctor
+ */
+export const revokeCalendarFeed = asyncHandler(async (req: Request, res: Response) => {
+  await CalendarFeed.deleteOne({ ownerId: req.auth!.id, ownerType: req.auth!.role });
+  res.status(200).json({ success: true, message: "Calendar link turned off." });
+});
+
+/**
+ * @desc iCalendar subscription feed. The secret token in the URL is the only
+ *       credential — calendar apps can't send auth headers.
+ * @route GET /api/v1/calendar/feeds/:token.ics
+ * @access Public (token)
+ */
+export const getCalendarFeedIcs = asyncHandler(async (req: Request, res: Response) => {
+  const feed = await CalendarFeed.findOne({ token: String(req.params.token) });
+  if (!feed) {
+    res.status(404);
+    throw new Error("Calendar feed not found.");
+  }
+
+  const now = new Date();
+  // Upcoming appointments come first; history only fills what is left of
+  // MAX_FEED_EVENTS, most recent first, so a busy diary never pushes the
+  // next appointments out of the feed.
+  const query = feedQuery(feed.ownerId, feed.ownerType, now);
+  const findEvents = (scheduledAt: Record<string, Date>, order: 1 | -1, limit: number) =>
+    Appointment.find({ ...query, scheduledAt: { ...query.scheduledAt, ...scheduledAt } })
+      .populate("doctorId", "firstName lastName")
+      .populate("familyMemberId", "name")
+      .select("doctorId familyMemberId scheduledAt duration consultationType status shareUserInfo patientSnapshot.name createdAt updatedAt")
+      .sort({ scheduledAt: order })
+      .limit(limit);
+
+  const upcoming = await findEvents({ $gte: now }, 1, MAX_FEED_EVENTS);
+  const past =
+    upcoming.length < MAX_FEED_EVENTS ? await findEvents({ $lt: now }, -1, MAX_FEED_EVENTS - upcoming.length) : [];
+  const appointments = [...past.reverse(), ...upcoming];
+
+  await CalendarFeed.updateOne({ _id: feed._id }, { $set: { lastFetchedAt: now } });
+
+  sendIcs(
+    res,
+    buildCalendar(appointments, feed.ownerType, { name: "PlanAmWell appointments", now })
+  );
+});
+
+/**
+ * @desc One appointment as an .ics file, to add to any calendar by hand.
+ *       Importing it again after a change updates the same event.
+ * @route GET /api/v1/calendar/appointments/:id.ics
+ * @access User | Doctor (own appointments)
+ */
+export const downloadAppointmentIcs = asyncHandler(async (req: Request, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(404);
+    throw new Error("Appointment not found.");
+  }
+
+  const appointment = await Appointment.findById(req.params.id)
+    .populate("doctorId", "firstName lastName")
+    .populate("familyMemberId", "name");
+  if (!appointment) {
+    res.status(404);
+    throw new Error("Appointment not found.");
+  }
+
+  const role = req.auth!.role as CalendarPerspective;
+  const ownerId = String(
+    role === "Doctor"
+      ? (appointment.doctorId as any)?._id ?? appointment.doctorId
+      : appointment.userId
+  );
+  if (ownerId !== String(req.auth!.id)) {
+    res.status(403);
+    throw new Error("Not authorized to access this appointment.");
+  }
+
+  sendIcs(
+    res,
+    buildCalendar([appointment], role, { method: "PUBLISH" }),
+    `planamwell-appointment-${appointment._id}.ics`
+  );
+});
@@ -2,19 +2,35 @@
 import { Request, Response } from "express";
 import asyncHandler from "../middleware/asyncHandler";
 import mongoose from "mongoose";
-import { Conversation, IMessage } from "../models/conversation";
+import axios from "axios";
+import PDFDocument from "pdfkit";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { Conversation } from "../models/conversation";
+import { ConversationMessage } from "../models/ConversationMessage";
+import { APP_TIMEZONE } from "../config/timezone";
 import { Appointment } from "../models/appointment";
 import { User } from "../models/user";
 import { Doctor } from "../models/doctor";
 import {
-  emitNewMessage,
-  emitTypingIndicator,
-  emitMessageRead,
   emitVideoCallRequest,
   emitVideoCallResponse,
   emitConversationUnlocked,
 } from "../index";
 import { NotificationService } from "../services/NotificationService";
+import {
+  appendMessage,
+  ChatMessageError,
+  DEFAULT_PAGE_SIZE,
+  findMessage,
+  getMessagePage,
+  markConversationRead,
+  sendChatMessage,
+  sendTypingIndicator,
+  updateMessage,
+} from "../services/ChatMessageService";
+import { searchChats } from "../services/ChatSearchService";
 import { sendIncomingCallPushNotification } from "../util/sendPushNotification";
 import multer from "multer";
 import {
@@ -22,6 +38,9 @@ import {
   uploadDocumentToCloudinary,
 } from "../middleware/claudinary";
 
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
 const storage = multer.memoryStorage();
 export const uploadMiddleware = multer({
   storage,
@@ -153,17 +172,6 @@ export const getOrCreateConversation = asyncHandler(
           userId: patientId,
           doctorId: doctorId,
         },
-        messages: [
-          {
-            _id: new mongoose.Types.ObjectId(),
-            senderId: new mongoose.Types.ObjectId(doctorId),
-            senderType: "Doctor",
-            messageType: "system",
-            content: `Chat room created. You can now communicate with ${doctorName}.`,
-            status: "sent",
-            createdAt: new Date(),
-          },
-        ],
         unreadCount: { user: 0, doctor: 0 },
         isActive: true,
         isPinned: { user: false, doctor: false },
@@ -173,6 +181,12 @@ export const getOrCreateConversation = asyncHandler(
       });
 
       await conversation.save();
+      conversation.lastMessage = await appendMessage(conversation._id as mongoose.Types.ObjectId, {
+        senderId: new mongoose.Types.ObjectId(doctorId),
+        senderType: "Doctor",
+        messageType: "system",
+        content: `Chat room created. You can now communicate with ${doctorName}.`,
+      });
 
       // Populate participants
       conversation = await (
@@ -212,9 +226,20 @@ export const getOrCreateConversation = asyncHandler(
       );
     }
 
+    // Messages are no longer embedded — the response still carries the most
+    // recent page under `messages` (oldest first, as the embedded array was);
+    // older ones come from getMessages.
+    const recent = await getMessagePage(conversation._id as mongoose.Types.ObjectId, {
+      limit: DEFAULT_PAGE_SIZE,
+    });
+
     res.status(200).json({
       success: true,
-      data: conversation,
+      data: {
+        ...conversation.toObject(),
+        messages: [...recent.messages].reverse(),
+        hasMoreMessages: recent.hasMore,
+      },
       appointment: {
         id: appointment._id,
         scheduledAt: appointment.scheduledAt,
@@ -268,6 +293,16 @@ export const unlockConversation = asyncHandler(
       });
     }
 
+    // Open only for check-in replies — make that permanent
+    if (conversation.isActive && conversation.temporaryUnlock) {
+      await Conversation.updateOne({ _id: conversation._id }, { $unset: { temporaryUnlock: "" } });
+      return res.status(200).json({
+        success: true,
+        message: "Conversation unlocked.",
+        data: { isActive: true },
+      });
+    }
+
     // Idempotent — already unlocked, just confirm success
     if (conversation.isActive) {
       return res.status(200).json({
@@ -278,18 +313,16 @@ export const unlockConversation = asyncHandler(
     }
 
     // ── Unlock ────────────────────────────────────────────────────────────────
-    conversation.isActive = true;
-    conversation.messages.push({
-      _id: new mongoose.Types.ObjectId(),
-      senderId: new mongoose.Types.ObjectId(userId),
-      senderType: "Doctor",
-      messageType: "system",
-      content: "Doctor has reopened this conversation.",
-      status: "sent",
-      createdAt: new Date(),
-    } as IMessage);
-    conversation.lastActivityAt = new Date();
-    await conversation.save();
+    await appendMessage(
+      conversation._id as mongoose.Types.ObjectId,
+      {
+        senderId: new mongoose.Types.ObjectId(userId),
+        senderType: "Doctor",
+        messageType: "system",
+        content: "Doctor has reopened this conversation.",
+      },
+      { set: { isActive: true }, unset: ["temporaryUnlock"] }
+    );
 
     console.log(
       `🔓 Conversation ${conversationId} manually unlocked by doctor ${userId}`
@@ -312,132 +345,41 @@ export const unlockConversation = asyncHandler(
 
 /**
  * Send Message
+ *
+ * Also available as the "send-message" socket event (index.ts), which acks
+ * with the stored message. Pass clientMessageId to make retries safe.
+ * Doctors can send a saved template with templateId (+ variables) instead
+ * of content; see messageTemplateController.
  */
 export const sendMessage = asyncHandler(
   async (req: Request, res: Response) => {
     const { conversationId } = req.params;
-    const { content, messageType = "text", mediaUrl, replyTo } = req.body;
     const userId = req.auth?.id;
-    const role = req.auth?.role as "User" | "Doctor";
-
-    if (!conversationId || !content || !userId) {
-      return res.status(400).json({
-        success: false,
-        message: "Missing required fields",
-      });
-    }
-
-    const conversation = await Conversation.findById(conversationId)
-      .populate({
-        path: "participants.userId",
-        select: "name userImage expoPushTokens",
-        populate: { path: "userImage", select: "imageUrl secure_url" },
-      })
-      .populate({
-        path: "participants.doctorId",
-        select: "firstName lastName doctorImage expoPushTokens",
-        populate: { path: "doctorImage", select: "imageUrl secure_url" },
-      });
-
-    if (!conversation) {
-      return res.status(404).json({
-        success: false,
-        message: "Conversation not found",
-      });
-    }
-
-    // Verify user is participant
-    const doctorId = String(conversation.participants.doctorId._id);
-    const patientId = String(conversation.participants.userId._id);
-
-    if (userId !== doctorId && userId !== patientId) {
-      return res.status(403).json({
-        success: false,
-        message: "Unauthorized",
-      });
-    }
 
-    if (!conversation.isActive) {
-      return res.status(403).json({
-        success: false,
-        message: "Cannot send messages: this chat is locked.",
+    try {
+      const { message, duplicate } = await sendChatMessage(conversationId, userId!, req.body);
+      res.status(duplicate ? 200 : 201).json({
+        success: true,
+        data: message,
       });
-    }
-
-    // Create message
-    const newMessage: IMessage = {
-      _id: new mongoose.Types.ObjectId(),
-      senderId: new mongoose.Types.ObjectId(userId),
-      senderType: role,
-      messageType,
-      content,
-      mediaUrl,
-      status: "sent",
-      createdAt: new Date(),
-      ...(replyTo ? { replyTo } : {}),
-    };
-
-    conversation.messages.push(newMessage);
-    conversation.lastMessage = newMessage;
-
-    // Increment unread count for recipient
-    if (role === "Doctor") {
-      conversation.unreadCount.user += 1;
-    } else {
-      conversation.unreadCount.doctor += 1;
-    }
-
-    // conversation was fetched with .populate() — never .save() it directly
-    // (see the golden rule in videoCallController.ts). Atomic update also
-    // avoids a lost-update race on unreadCount under concurrent messages.
-    const recipientUnreadField = role === "Doctor" ? "unreadCount.user" : "unreadCount.doctor";
-    await Conversation.updateOne(
-      { _id: conversation._id },
-      {
-        $push: { messages: newMessage },
-        $set: { lastMessage: newMessage },
-        $inc: { [recipientUnreadField]: 1 },
+    } catch (err) {
+      if (err instanceof ChatMessageError) {
+        return res.status(err.status).json({ success: false, code: err.code, message: err.message });
       }
-    );
-
-    // Emit real-time event
-    const recipientId = role === "Doctor" ? patientId : doctorId;
-    emitNewMessage(conversationId, newMessage, recipientId);
-
-    // Send push notification
-    try {
-      const senderName =
-        role === "Doctor"
-          ? `Dr. ${(conversation.participants.doctorId as any).firstName}`
-          : (conversation.participants.userId as any).name;
-
-      const apptId = String(conversation.appointmentId);
-      await NotificationService.notifyNewMessage(
-        recipientId,
-        role === "Doctor" ? "User" : "Doctor",
-        senderName,
-        content,
-        conversationId,
-        apptId
-      );
-    } catch (error) {
-      console.error("Failed to send message notification:", error);
+      throw err;
     }
-
-    res.status(201).json({
-      success: true,
-      data: newMessage,
-    });
   }
 );
 
 /**
- * Get Messages (Paginated)
+ * Get Messages (Paginated, newest first)
+ *
+ * ?before=<messageId> pages back through older messages, ?after=<messageId>
+ * fetches newer ones; ?page= is still honoured for older app builds.
  */
 export const getMessages = asyncHandler(
   async (req: Request, res: Response) => {
     const { conversationId } = req.params;
-    const { page = 1, limit = 50 } = req.query;
     const userId = req.auth?.id;
 
     const conversation = await Conversation.findById(conversationId);
@@ -460,26 +402,9 @@ export const getMessages = asyncHandler(
       });
     }
 
-    const skip = (Number(page) - 1) * Number(limit);
-    const totalMessages = conversation.messages.length;
+    const data = await getMessagePage(conversation._id as mongoose.Types.ObjectId, req.query);
 
-    const messages = conversation.messages
-      .slice(
-        Math.max(0, totalMessages - skip - Number(limit)),
-        totalMessages - skip
-      )
-      .reverse();
-
-    res.status(200).json({
-      success: true,
-      data: {
-        messages,
-        total: totalMessages,
-        page: Number(page),
-        limit: Number(limit),
-        hasMore: skip + Number(limit) < totalMessages,
-      },
-    });
+    res.status(200).json({ success: true, data });
   }
 );
 
@@ -546,35 +471,15 @@ export const markAsRead = asyncHandler(
   async (req: Request, res: Response) => {
     const { conversationId } = req.params;
     const userId = req.auth?.id;
-    const role = req.auth?.role;
 
-    const conversation = await Conversation.findById(conversationId);
-
-    if (!conversation) {
-      return res
-        .status(404)
-        .json({ success: false, message: "Conversation not found" });
-    }
-
-    const unreadField = role === "Doctor" ? "doctor" : "user";
-    conversation.unreadCount[unreadField] = 0;
-
-    const now = new Date();
-    conversation.messages.forEach((msg) => {
-      if (String(msg.senderId) !== userId && msg.status !== "read") {
-        msg.status = "read";
-        msg.readAt = now;
+    try {
+      await markConversationRead(conversationId, userId!);
+    } catch (err) {
+      if (err instanceof ChatMessageError) {
+        return res.status(err.status).json({ success: false, code: err.code, message: err.message });
       }
-    });
-
-    await conversation.save();
-
-    const recipientId =
-      role === "Doctor"
-        ? String(conversation.participants.userId)
-        : String(conversation.participants.doctorId);
-
-    emitMessageRead(conversationId, recipientId);
+      throw err;
+    }
 
     res
       .status(200)
@@ -589,23 +494,17 @@ export const updateTyping = asyncHandler(
   async (req: Request, res: Response) => {
     const { conversationId } = req.params;
     const { isTyping } = req.body;
-    const role = req.auth?.role;
-
-    const conversation = await Conversation.findById(conversationId);
+    const userId = req.auth?.id;
 
-    if (!conversation) {
-      return res
-        .status(404)
-        .json({ success: false, message: "Conversation not found" });
+    try {
+      await sendTypingIndicator(conversationId, userId!, Boolean(isTyping));
+    } catch (err) {
+      if (err instanceof ChatMessageError) {
+        return res.status(err.status).json({ success: false, code: err.code, message: err.message });
+      }
+      throw err;
     }
 
-    const recipientId =
-      role === "Doctor"
-        ? String(conversation.participants.userId)
-        : String(conversation.participants.doctorId);
-
-    emitTypingIndicator(conversationId, recipientId, isTyping, role!);
-
     res.status(200).json({ success: true });
   }
 );
@@ -912,6 +811,25 @@ export const getUserConversations = asyncHandler(
   }
 );
 
+/**
+ * Search the caller's chats
+ *
+ * ?q= (required) matches message text and attachment filenames. Optional
+ * from / to (dates), with (the other participant's id), locked=exclude,
+ * page, limit, context (messages either side of each hit, 0-5).
+ */
+export const searchMessages = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const data = await searchChats({ id: req.auth?.id!, role: req.auth?.role! }, req.query);
+    res.status(200).json({ success: true, data });
+  } catch (err) {
+    if (err instanceof ChatMessageError) {
+      return res.status(err.status).json({ success: false, code: err.code, message: err.message });
+    }
+    throw err;
+  }
+});
+
 /**
  * Edit a message (sender only, text messages only)
  */
@@ -930,7 +848,7 @@ export const editMessage = asyncHandler(async (req: Request, res: Response) => {
     return res.status(404).json({ success: false, message: "Conversation not found" });
   }
 
-  const message = conversation.messages.find(m => m._id?.toString() === messageId) ?? null;
+  const message = await findMessage(conversation._id as mongoose.Types.ObjectId, messageId);
   if (!message) {
     return res.status(404).json({ success: false, message: "Message not found" });
   }
@@ -947,10 +865,11 @@ export const editMessage = asyncHandler(async (req: Request, res: Response) => {
     return res.status(400).json({ success: false, message: "Cannot edit a deleted message" });
   }
 
-  message.content = content.trim();
-  message.isEdited = true;
-  message.editedAt = new Date();
-  await conversation.save();
+  const edited = await updateMessage(message, {
+    content: content.trim(),
+    isEdited: true,
+    editedAt: new Date(),
+  });
 
   const recipientId =
     role === "Doctor"
@@ -962,17 +881,17 @@ export const editMessage = asyncHandler(async (req: Request, res: Response) => {
   io.to(`user_${recipientId}`).emit("message-edited", {
     conversationId,
     messageId,
-    content: message.content,
-    editedAt: message.editedAt,
+    content: edited.content,
+    editedAt: edited.editedAt,
   });
   io.to(`user_${userId}`).emit("message-edited", {
     conversationId,
     messageId,
-    content: message.content,
-    editedAt: message.editedAt,
+    content: edited.content,
+    editedAt: edited.editedAt,
   });
 
-  return res.json({ success: true, data: message });
+  return res.json({ success: true, data: edited });
 });
 
 /**
@@ -988,7 +907,7 @@ export const deleteMessage = asyncHandler(async (req: Request, res: Response) =>
     return res.status(404).json({ success: false, message: "Conversation not found" });
   }
 
-  const message = conversation.messages.find(m => m._id?.toString() === messageId) ?? null;
+  const message = await findMessage(conversation._id as mongoose.Types.ObjectId, messageId);
   if (!message) {
     return res.status(404).json({ success: false, message: "Message not found" });
   }
@@ -1001,10 +920,7 @@ export const deleteMessage = asyncHandler(async (req: Request, res: Response) =>
     return res.json({ success: true }); // idempotent
   }
 
-  message.isDeleted = true;
-  message.content = "This message was deleted";
-  message.mediaUrl = undefined;
-  await conversation.save();
+  await updateMessage(message, { isDeleted: true, content: "This message was deleted" }, ["mediaUrl", "mediaName"]);
 
   const recipientId =
     role === "Doctor"
@@ -1017,4 +933,192 @@ export const deleteMessage = asyncHandler(async (req: Request, res: Response) =>
   io.to(`user_${userId}`).emit("message-deleted", payload);
 
   return res.json({ success: true });
-});
\ No newline at end of file
+});
+
+// ─── PDF export ───────────────────────────────────────────────────────────────
+
+const MAX_PDF_IMAGES = 40;
+const MAX_PDF_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const CLOUDINARY_HOST = "res.cloudinary.com";
+
+// Only our own Cloudinary uploads are fetched server-side — mediaUrl is
+// client-supplied, and fetching anything else would let a message make the
+// server request internal addresses. Cloudinary can resize on the fly, so
+// ask for a small rendition in JPEG, which pdfkit can always embed.
+function thumbnailUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
+  if (
+    parsed.protocol !== "https:" ||
+    parsed.hostname !== CLOUDINARY_HOST ||
+    parsed.port ||
+    parsed.username ||
+    (cloudName && !parsed.pathname.startsWith(`/${cloudName}/`)) ||
+    !parsed.pathname.includes("/upload/")
+  ) {
+    return null;
+  }
+  parsed.pathname = parsed.pathname.replace("/upload/", "/upload/w_400,h_400,c_limit,f_jpg/");
+  return parsed.toString();
+}
+
+async function embedThumbnail(doc: PDFKit.PDFDocument, url: string): Promise<boolean> {
+  const thumbnail = thumbnailUrl(url);
+  if (!thumbnail) return false;
+  try {
+    const { data } = await axios.get<ArrayBuffer>(thumbnail, {
+      responseType: "arraybuffer",
+      timeout: 5000,
+      maxRedirects: 0,
+      maxContentLength: MAX_PDF_IMAGE_BYTES,
+    });
+    doc.image(Buffer.from(data), { fit: [200, 200] });
+    doc.moveDown(0.2);
+    return true;
+  } catch (err: any) {
+    console.warn(`[Chat PDF] Could not embed image ${url}:`, err.message);
+    return false;
+  }
+}
+
+/**
+ * Export a conversation as a PDF transcript (either participant)
+ *
+ * Same pdfkit layout as medicalRecordController.generateRecordPDF. Images
+ * uploaded to our Cloudinary are embedded as thumbnails (anything else, or
+ * one that can't be fetched, is listed as a link); other attachments are
+ * listed as links.
+ * Deleted messages show as a marker only.
+ */
+export const exportConversationPDF = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { conversationId } = req.params;
+    const userId = req.auth?.id;
+
+    if (!mongoose.Types.ObjectId.isValid(conversationId)) {
+      return res.status(404).json({ success: false, message: "Conversation not found" });
+    }
+
+    const conversation = await Conversation.findById(conversationId)
+      .populate("participants.userId", "name email phone")
+      .populate("participants.doctorId", "firstName lastName specialization")
+      .populate("appointmentId", "scheduledAt duration consultationType status reason patientSnapshot")
+      .lean();
+
+    if (!conversation) {
+      return res.status(404).json({ success: false, message: "Conversation not found" });
+    }
+
+    const doctor = conversation.participants.doctorId as any;
+    const patient = conversation.participants.userId as any;
+    if (userId !== String(doctor?._id) && userId !== String(patient?._id)) {
+      return res.status(403).json({ success: false, message: "Unauthorized" });
+    }
+
+    const appointment = conversation.appointmentId as any;
+    const doctorName = `Dr. ${doctor?.firstName || ""} ${doctor?.lastName || ""}`.trim();
+    const patientName = appointment?.patientSnapshot?.name || patient?.name || "Patient";
+    const formatTime = (date: Date) => dayjs(date).tz(APP_TIMEZONE).format("D MMM YYYY, h:mm A");
+
+    // ── Build PDF ─────────────────────────────────────────────────────────────
+    const doc = new PDFDocument({ margin: 50, size: "A4" });
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="PlanAmWell_Chat_${conversationId}.pdf"`
+    );
+    doc.pipe(res);
+
+    // Brand header
+    doc.fontSize(22).fillColor("#D81E5B").text("PlanAmWell", { align: "center" });
+    doc.fontSize(12).fillColor("#666").text("Consultation Chat Transcript", { align: "center" });
+    doc.moveDown(0.5);
+    doc.moveTo(50, doc.y).lineTo(545, doc.y).strokeColor("#D81E5B").stroke();
+    doc.moveDown();
+
+    // Participants & appointment
+    doc.fontSize(14).fillColor("#111").text("Participants", { underline: true });
+    doc.fontSize(11).fillColor("#333");
+    doc.text(`Patient:        ${patientName}`);
+    doc.text(`Doctor:         ${doctorName}${doctor?.specialization ? `  (${doctor.specialization})` : ""}`);
+    doc.moveDown(0.5);
+
+    if (appointment) {
+      doc.fontSize(14).fillColor("#111").text("Appointment", { underline: true });
+      doc.fontSize(11).fillColor("#333");
+      doc.text(`Scheduled:      ${formatTime(appointment.scheduledAt)} (${APP_TIMEZONE})`);
+      doc.text(`Type:           ${appointment.consultationType || "video"}${appointment.duration ? `, ${appointment.duration} min` : ""}`);
+      doc.text(`Status:         ${appointment.status}`);
+      if (appointment.reason) doc.text(`Reason:         ${appointment.reason}`);
+      doc.moveDown(0.5);
+    }
+
+    doc.moveTo(50, doc.y).lineTo(545, doc.y).strokeColor("#eee").stroke();
+    doc.moveDown(0.5);
+    doc.fontSize(14).fillColor("#111").text("Messages", { underline: true });
+    doc.moveDown(0.3);
+
+    let imagesEmbedded = 0;
+    let messageCount = 0;
+    const cursor = ConversationMessage.find({ conversationId: conversation._id })
+      .sort({ createdAt: 1, _id: 1 })
+      .lean()
+      .cursor();
+
+    for await (const message of cursor) {
+      messageCount++;
+
+      if (message.messageType === "system") {
+        doc.fontSize(9).fillColor("#888")
+          .text(`${formatTime(message.createdAt)} — ${message.content}`, { align: "center" });
+        doc.moveDown(0.4);
+        continue;
+      }
+
+      const sender = message.senderType === "Doctor" ? doctorName : patientName;
+      doc.fontSize(10).fillColor("#D81E5B").text(sender, { continued: true })
+        .fillColor("#888").text(`   ${formatTime(message.createdAt)}${message.isEdited && !message.isDeleted ? "  (edited)" : ""}`);
+
+      if (message.isDeleted) {
+        doc.fontSize(11).fillColor("#999").font("Helvetica-Oblique").text("This message was deleted");
+        doc.font("Helvetica");
+        doc.moveDown(0.5);
+        continue;
+      }
+
+      if (message.mediaUrl) {
+        const embedded =
+          message.messageType === "image" && imagesEmbedded < MAX_PDF_IMAGES
+            ? await embedThumbnail(doc, message.mediaUrl)
+            : false;
+        if (embedded) imagesEmbedded++;
+        doc.fontSize(9).fillColor("#1a5fb4")
+          .text(message.mediaName || message.mediaUrl, { link: message.mediaUrl, underline: true });
+      }
+      const caption = message.mediaUrl && message.content === message.mediaUrl ? "" : message.content;
+      if (caption) doc.fontSize(11).fillColor("#333").text(caption);
+      doc.moveDown(0.5);
+    }
+
+    if (!messageCount) {
+      doc.fontSize(11).fillColor("#666").text("No messages in this conversation.");
+    }
+
+    // Footer
+    doc.moveDown();
+    doc.fontSize(9).fillColor("#aaa")
+      .text(
+        `Generated by PlanAmWell on ${new Date().toLocaleString()} — This document is confidential.`,
+        { align: "center" }
+      );
+
+    doc.end();
+  }
+);
@@ -0,0 +1,77 @@
+// controllers/checkInController.ts
+import { Request, Response } from "express";
+import asyncHandler from "../middleware/asyncHandler";
+import {
+  cancelCheckIn,
+  CheckInError,
+  listCheckIns,
+  respondToCheckIn,
+  scheduleCheckIn,
+} from "../services/CheckInService";
+
+const sendCheckInError = (res: Response, err: unknown) => {
+  if (!(err instanceof CheckInError)) throw err;
+  return res.status(err.status).json({
+    success: false,
+    message: err.message,
+    ...(Object.keys(err.errors).length ? { errors: err.errors } : {}),
+  });
+};
+
+/**
+ * @desc Schedule a follow-up message (optionally with questions) to go into
+ *       the chat after a finished consultation
+ * @route POST /api/v1/check-ins
+ * @access Doctor
+ */
+export const createCheckIn = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const checkIn = await scheduleCheckIn(req.auth?.id!, req.body);
+    res.status(201).json({ success: true, data: checkIn });
+  } catch (err) {
+    return sendCheckInError(res, err);
+  }
+});
+
+/**
+ * @desc Check-ins for an appointment, in the order they go out
+ * @route GET /api/v1/check-ins/appointment/:appointmentId
+ * @access User, Doctor
+ */
+export const getAppointmentCheckIns = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const checkIns = await listCheckIns(req.params.appointmentId, { id: req.auth?.id!, role: req.auth?.role });
+    res.status(200).json({ success: true, data: checkIns });
+  } catch (err) {
+    return sendCheckInError(res, err);
+  }
+});
+
+/**
+ * @desc Cancel a check-in that hasn't been sent yet
+ * @route DELETE /api/v1/check-ins/:id
+ * @access Doctor
+ */
+export const deleteCheckIn = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const checkIn = await cancelCheckIn(req.params.id, req.auth?.id!);
+    res.status(200).json({ success: true, data: checkIn, message: "Check-in cancelled." });
+  } catch (err) {
+    return sendCheckInError(res, err);
+  }
+});
+
+/**
+ * @desc Answer a check-in's questions (keyed by question key), with an
+ *       optional note. The answers are posted into the chat.
+ * @route POST /api/v1/check-ins/:id/respond
+ * @access User
+ */
+export const respondCheckIn = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const checkIn = await respondToCheckIn(req.params.id, req.auth?.id!, req.body);
+    res.status(200).json({ success: true, data: checkIn });
+  } catch (err) {
+    return sendCheckInError(res, err);
+  }
+});
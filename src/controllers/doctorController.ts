@@ -6,6 +6,13 @@ import mongoose from "mongoose";
 import { IImage, Image } from "../models/image";
 import bcrypt from "bcryptjs";
 import { memoryCache } from "../util/memoryCache";
+import {
+  MAX_SLOT_RANGE_DAYS,
+  getBookableSlots,
+  parseAvailability,
+  readAvailability,
+} from "../services/AvailabilityService";
+import { parseConsultationFees } from "../services/ConsultationPaymentService";
 
 const APPROVED_DOCTORS_CACHE_KEY = "doctors:approved";
 const APPROVED_DOCTORS_CACHE_TTL_MS = 10 * 60 * 1000; // 10 min — every write path below invalidates immediately anyway; this TTL is just the fallback bound.
@@ -15,14 +22,15 @@ export const getDoctors = asyncHandler(async (req: Request, res: Response) => {
   const doctors = await memoryCache.getOrSet(
     APPROVED_DOCTORS_CACHE_KEY,
     APPROVED_DOCTORS_CACHE_TTL_MS,
-    () => Doctor.find({ status: "approved" }).select("-passwordHash").populate("doctorImage").lean()
+    // Reliability scores are for admins only (GET /admin/doctors/reliability).
+    () => Doctor.find({ status: "approved" }).select("-passwordHash -reliability").populate("doctorImage").lean()
   );
   res.status(200).json({ success: true, data: doctors });
 });
 
 // GET single doctor
 export const getDoctor = asyncHandler(async (req: Request, res: Response) => {
-  const doctor: IDoctor | null = await Doctor.findById(req.params.id).select("-passwordHash");
+  const doctor: IDoctor | null = await Doctor.findById(req.params.id).select("-passwordHash -reliability");
   if (!doctor) {
     res.status(404);
     throw new Error("Doctor not found");
@@ -163,8 +171,23 @@ export const updateDoctorAvailability = asyncHandler(async (req: Request, res: R
     throw new Error("Doctor not found");
   }
 
-  // Expected payload: { availability: { Monday: { from: "09:00", to: "17:00" }, ... } }
-  doctor.availability = req.body.availability;
+  // Expected payload:
+  // {
+  //   availability: {
+  //     timezone: "Africa/Lagos", slotMinutes: 30, bufferMinutes: 10,
+  //     weekly: { monday: [{ from: "09:00", to: "12:00" }, { from: "14:00", to: "17:00" }], ... },
+  //     overrides: [{ date: "2026-12-24", ranges: [] }],
+  //     timeOff: [{ from: "2026-12-26T00:00:00Z", to: "2026-12-31T00:00:00Z", reason: "Leave" }]
+  //   }
+  // }
+  // The older { Monday: { from: "09:00", to: "17:00" }, ... } shape is still accepted.
+  try {
+    doctor.availability = parseAvailability(req.body.availability);
+  } catch (err: any) {
+    res.status(400);
+    throw new Error(err.message);
+  }
+  doctor.markModified("availability");
   await doctor.save();
 
   memoryCache.invalidate(APPROVED_DOCTORS_CACHE_KEY);
@@ -172,6 +195,84 @@ export const updateDoctorAvailability = asyncHandler(async (req: Request, res: R
   res.status(200).json({ success: true, data: doctor });
 });
 
+// UPDATE consultation fees — doctor only, own profile
+// PUT /api/v1/doctors/consultation-fees
+export const updateConsultationFees = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.auth || req.auth.role !== "Doctor") {
+    return res.status(403).json({ message: "Unauthorized" });
+  }
+
+  const doctor = await Doctor.findById(req.auth.id);
+  if (!doctor) {
+    res.status(404);
+    throw new Error("Doctor not found");
+  }
+
+  // Expected payload (NGN; 0 = offered free):
+  // { consultationFees: { video: 5000, audio: 4000, chat: 0, "in-person": 10000 } }
+  // Types left out keep their current fee. Already-booked appointments keep
+  // the fee they were booked at.
+  let fees;
+  try {
+    fees = parseConsultationFees(req.body.consultationFees);
+  } catch (err: any) {
+    res.status(400);
+    throw new Error(err.message);
+  }
+  doctor.set("consultationFees", { ...(doctor.toObject().consultationFees || {}), ...fees });
+  await doctor.save();
+
+  memoryCache.invalidate(APPROVED_DOCTORS_CACHE_KEY);
+
+  res.status(200).json({ success: true, data: doctor.consultationFees });
+});
+
+// GET bookable slots — public, same as /appointments/booked-slots: only free
+// times are returned, nothing about who booked the rest.
+// GET /api/v1/doctors/:id/slots?from=&to=
+export const getDoctorSlots = asyncHandler(async (req: Request, res: Response) => {
+  const { from, to } = req.query as { from?: string; to?: string };
+  if (!from || !to) {
+    res.status(400);
+    throw new Error("from and to are required.");
+  }
+
+  const fromDate = new Date(from);
+  const toDate = new Date(to);
+  if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate >= toDate) {
+    res.status(400);
+    throw new Error("Invalid from/to date.");
+  }
+  if (toDate.getTime() - fromDate.getTime() > MAX_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    res.status(400);
+    throw new Error(`Date range cannot exceed ${MAX_SLOT_RANGE_DAYS} days.`);
+  }
+
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(404);
+    throw new Error("Doctor not found");
+  }
+  const doctor = await Doctor.findById(req.params.id).select("status availability").lean();
+  if (!doctor || doctor.status !== "approved") {
+    res.status(404);
+    throw new Error("Doctor not found");
+  }
+
+  const availability = readAvailability(doctor.availability);
+  const slots = availability
+    ? await getBookableSlots(req.params.id, availability, fromDate, toDate)
+    : [];
+
+  res.status(200).json({
+    success: true,
+    data: {
+      timezone: availability?.timezone ?? null,
+      slotMinutes: availability?.slotMinutes ?? null,
+      slots,
+    },
+  });
+});
+
 // UPDATE doctor — only admin can update status, doctor can update own profile
 export const updateDoctor = asyncHandler(async (req: Request, res: Response) => {
   const doctor: IDoctor | null = await Doctor.findById(req.params.id).select("-passwordHash");
@@ -194,7 +295,7 @@ export const updateDoctor = asyncHandler(async (req: Request, res: Response) =>
   const ALLOWED_DOCTOR_FIELDS = [
     "firstName", "lastName", "email", "phone", "contactNumber",
     "specialization", "licenseNumber", "gender", "about", "bio",
-    "yearsOfExperience", "education", "languages", "consultationFee",
+    "yearsOfExperience", "education", "languages", "consultationFees",
     "availability",
   ];
   const updates: Record<string, any> = {};
@@ -202,6 +303,23 @@ export const updateDoctor = asyncHandler(async (req: Request, res: Response) =>
     if (req.body[key] !== undefined) updates[key] = req.body[key];
   }
 
+  if (updates.availability !== undefined) {
+    try {
+      updates.availability = parseAvailability(updates.availability);
+    } catch (err: any) {
+      res.status(400);
+      throw new Error(err.message);
+    }
+  }
+  if (updates.consultationFees !== undefined) {
+    try {
+      updates.consultationFees = parseConsultationFees(updates.consultationFees);
+    } catch (err: any) {
+      res.status(400);
+      throw new Error(err.message);
+    }
+  }
+
   // ✅ Handle password change
   if (req.body.password) {
     const salt = await bcrypt.genSalt(10);
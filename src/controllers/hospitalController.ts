@@ -1,81 +1,10 @@
 import { Request, Response } from "express";
 import asyncHandler from "../middleware/asyncHandler";
-import { Hospital, IHospital } from "../models/hospital";
-import { searchNearbyHospitals, resolveCityCoordinates, NormalizedClinic } from "../services/OverpassService";
-import { upsertOsmClinics } from "../services/HospitalSeedService";
+import { Hospital } from "../models/hospital";
+import { resolveCityCoordinates } from "../services/OverpassService";
+import { findClinicsNear, queryLocalHospitals } from "../services/ClinicFinderService";
 import { memoryCache } from "../util/memoryCache";
 
-// Maps our own admin-curated clinics into the same shape OSM results come
-// in, so the frontend renders either source identically.
-function toNormalizedClinic(h: IHospital & { _id: any }): NormalizedClinic {
-  return {
-    _id: h._id.toString(),
-    name: h.name,
-    type: h.type,
-    address: h.address,
-    city: h.city,
-    state: h.state,
-    phone: h.phone,
-    email: h.email,
-    website: h.website,
-    openingHours: h.openingHours,
-    specialties: h.specialties,
-    services: h.services,
-    amenity: "hospital",
-    coordinates: h.coordinates,
-    source: "openstreetmap", // keeps the frontend's rendering path uniform
-  };
-}
-
-function boundingBoxFilter(lat: number, lng: number, radiusMeters: number) {
-  // 1 degree latitude is ~111km; longitude is scaled by cos(latitude) since
-  // it narrows toward the poles. Approximate, but plenty for a "clinics
-  // near this point" radius search.
-  const latDelta = radiusMeters / 111_000;
-  const lngDelta = radiusMeters / (111_000 * Math.cos((lat * Math.PI) / 180) || 1);
-  return {
-    "coordinates.latitude": { $gte: lat - latDelta, $lte: lat + latDelta },
-    "coordinates.longitude": { $gte: lng - lngDelta, $lte: lng + lngDelta },
-  };
-}
-
-async function queryLocalHospitals(filter: Record<string, any>): Promise<NormalizedClinic[]> {
-  const hospitals = await Hospital.find({ isActive: true, ...filter })
-    .sort({ rating: -1 })
-    .limit(50)
-    .lean();
-  return hospitals.map((h) => toNormalizedClinic(h as any));
-}
-
-// Local-database-first, live-Overpass-as-fallback. This used to be the
-// other way round (always hit Overpass live, fall back to the database
-// only if every mirror failed) — but the free Overpass mirrors reliably
-// start rate-limiting after just a couple of requests in quick succession
-// (confirmed directly: a mirror answering in 2s on request 1 was timing
-// out by request 3), so real users would see slow, sometimes-empty results
-// during exactly the kind of back-to-back searching "browsing several
-// cities" naturally involves. The clinic pre-warm cron job
-// (cron/clinicPrewarmJob.ts) keeps this database filled in for known
-// cities; a live hit here also self-seeds the database for next time, so
-// coverage organically grows to match wherever users actually search.
-async function findClinicsNear(lat: number, lng: number, radiusMeters: number): Promise<NormalizedClinic[]> {
-  const local = await queryLocalHospitals(boundingBoxFilter(lat, lng, radiusMeters));
-  if (local.length > 0) return local;
-
-  try {
-    const live = await searchNearbyHospitals(lat, lng, radiusMeters);
-    if (live.length > 0) {
-      upsertOsmClinics(live).catch((err) =>
-        console.error("[Hospitals] Auto-seed upsert failed:", err.message)
-      );
-    }
-    return live;
-  } catch (err: any) {
-    console.error("[Hospitals] Live OSM lookup failed and no local data available:", err.message);
-    return [];
-  }
-}
-
 const HOSPITALS_CACHE_PREFIX = "hospitals:";
 const HOSPITALS_CACHE_TTL_MS = 10 * 60 * 1000; // our own admin-curated data — write paths invalidate immediately
 
@@ -202,7 +131,7 @@ export const getNearbyHospitals = asyncHandler(async (req: Request, res: Respons
  * GET /api/v1/hospitals/by-city?city=Lagos
  * Resolves the city to coordinates (known-city table or Nominatim), then
  * searches the local database first, live OSM as a fallback — same
- * local-first strategy as getNearbyHospitals, see findClinicsNear above.
+ * local-first strategy as getNearbyHospitals, see services/ClinicFinderService.ts.
  */
 export const getHospitalsByCity = asyncHandler(async (req: Request, res: Response) => {
   const { city } = req.query;
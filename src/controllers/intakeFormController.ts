@@ -0,0 +1,153 @@
+// controllers/intakeFormController.ts
+import mongoose from "mongoose";
+import { Request, Response } from "express";
+import asyncHandler from "../middleware/asyncHandler";
+import { Doctor } from "../models/doctor";
+import { IntakeForm } from "../models/IntakeForm";
+import {
+  findFormForSpecialization,
+  parseIntakeForm,
+  specializationKey,
+} from "../services/IntakeFormService";
+
+const duplicateActiveForm = (res: Response) =>
+  res.status(409).json({
+    success: false,
+    code: "FORM_EXISTS",
+    message: "This specialization already has an active intake form. Retire it or edit it instead.",
+  });
+
+/**
+ * @desc All intake forms, newest first. ?specialization= narrows to one.
+ * @route GET /api/v1/intake-forms
+ * @access Admin
+ */
+export const getIntakeForms = asyncHandler(async (req: Request, res: Response) => {
+  const filter: Record<string, any> = {};
+  if (typeof req.query.specialization === "string") {
+    filter.specializationKey = specializationKey(req.query.specialization);
+  }
+  const forms = await IntakeForm.find(filter).sort({ isActive: -1, updatedAt: -1 }).lean();
+  res.status(200).json({ success: true, data: forms });
+});
+
+/**
+ * @desc Create the intake form for a specialization
+ * @route POST /api/v1/intake-forms
+ * @access Admin
+ */
+export const createIntakeForm = asyncHandler(async (req: Request, res: Response) => {
+  let parsed;
+  try {
+    parsed = parseIntakeForm(req.body);
+  } catch (err: any) {
+    res.status(400);
+    throw err;
+  }
+
+  try {
+    const form = await IntakeForm.create({ ...parsed, createdBy: req.auth?.id, updatedBy: req.auth?.id });
+    res.status(201).json({ success: true, data: form });
+  } catch (err: any) {
+    if (err?.code === 11000) return duplicateActiveForm(res);
+    throw err;
+  }
+});
+
+/**
+ * @desc Replace a form's definition. Appointments already booked keep the
+ *       answers (and labels) they were submitted with; the version goes up.
+ * @route PUT /api/v1/intake-forms/:id
+ * @access Admin
+ */
+export const updateIntakeForm = asyncHandler(async (req: Request, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(404);
+    throw new Error("Intake form not found.");
+  }
+
+  let parsed;
+  try {
+    parsed = parseIntakeForm(req.body);
+  } catch (err: any) {
+    res.status(400);
+    throw err;
+  }
+
+  try {
+    const form = await IntakeForm.findByIdAndUpdate(
+      req.params.id,
+      {
+        $set: {
+          ...parsed,
+          ...(typeof req.body.isActive === "boolean" ? { isActive: req.body.isActive } : {}),
+          updatedBy: req.auth?.id,
+        },
+        $inc: { version: 1 },
+      },
+      { new: true, runValidators: true }
+    );
+    if (!form) {
+      res.status(404);
+      throw new Error("Intake form not found.");
+    }
+    res.status(200).json({ success: true, data: form });
+  } catch (err: any) {
+    if (err?.code === 11000) return duplicateActiveForm(res);
+    throw err;
+  }
+});
+
+/**
+ * @desc Retire a form — new bookings stop asking it; old answers remain.
+ * @route DELETE /api/v1/intake-forms/:id
+ * @access Admin
+ */
+export const retireIntakeForm = asyncHandler(async (req: Request, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(404);
+    throw new Error("Intake form not found.");
+  }
+  const form = await IntakeForm.findByIdAndUpdate(
+    req.params.id,
+    { $set: { isActive: false, updatedBy: req.auth?.id } },
+    { new: true }
+  );
+  if (!form) {
+    res.status(404);
+    throw new Error("Intake form not found.");
+  }
+  res.status(200).json({ success: true, data: form, message: "Intake form retired." });
+});
+
+/**
+ * @desc The questionnaire a patient fills in when booking this doctor, or
+ *       null when their specialization has none.
+ * @route GET /api/v1/intake-forms/doctor/:doctorId
+ * @access Public
+ */
+export const getDoctorIntakeForm = asyncHandler(async (req: Request, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.doctorId)) {
+    res.status(404);
+    throw new Error("Doctor not found");
+  }
+  const doctor = await Doctor.findById(req.params.doctorId).select("status specialization").lean();
+  if (!doctor || doctor.status !== "approved") {
+    res.status(404);
+    throw new Error("Doctor not found");
+  }
+
+  const form = await findFormForSpecialization(doctor.specialization);
+  res.status(200).json({
+    success: true,
+    data: form
+      ? {
+          _id: form._id,
+          title: form.title,
+          description: form.description,
+          version: form.version,
+          questions: form.questions,
+        }
+      : null,
+  });
+});
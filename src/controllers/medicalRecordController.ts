@@ -7,7 +7,9 @@ import { AccessRequest } from "../models/AccessRequest";
 import { Appointment } from "../models/appointment";
 import { User } from "../models/user";
 import { Doctor } from "../models/doctor";
+import { FamilyMember } from "../models/FamilyMember";
 import { NotificationService } from "../services/NotificationService";
+import { intakeToChiefComplaint } from "../services/IntakeFormService";
 import { emitAccessRequestUpdate } from "../index";
 import PDFDocument from "pdfkit"
 
@@ -20,6 +22,30 @@ const extractId = (field: any): string => {
   return String(field);
 };
 
+// Records and access grants are per (account holder, dependent) pair; an
+// absent familyMemberId means the account holder's own. `null` also matches
+// documents written before dependents existed.
+const forPatient = (patientId: any, familyMemberId?: any) => ({
+  patientId,
+  familyMemberId: familyMemberId ? new mongoose.Types.ObjectId(String(familyMemberId)) : null,
+});
+
+// Which dependent an access request or record is about, for the account
+// holder's notifications; undefined for their own.
+const ACCESS_REQUEST_FAMILY_MEMBER_FIELDS = "name relationship";
+
+async function dependentFor(familyMemberId: any): Promise<{ id: string; name: string } | undefined> {
+  const id = extractId(familyMemberId);
+  if (!id) return undefined;
+  const member = await FamilyMember.findById(id).select("name");
+  return member ? { id, name: member.name } : undefined;
+}
+
+const readFamilyMemberId = (req: Request): string | undefined => {
+  const raw = req.query.familyMemberId;
+  return typeof raw === "string" && mongoose.Types.ObjectId.isValid(raw) ? raw : undefined;
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 1. CREATE OR UPDATE CONSULTATION NOTE (Doctor)
 //    POST /api/v1/medical-records/note
@@ -43,17 +69,18 @@ export const createOrUpdateNote = asyncHandler(
       allergies,
     } = req.body;
 
-    if (!appointmentId || !chiefComplaint) {
+    if (!appointmentId) {
       return res.status(400).json({
         success: false,
-        message: "appointmentId and chiefComplaint are required.",
+        message: "appointmentId is required.",
       });
     }
 
     // ── Validate appointment belongs to this doctor ───────────────────────────
     const appointment = await Appointment.findById(appointmentId)
       .populate("userId", "name email phone gender dateOfBirth homeAddress")
-      .populate("doctorId", "firstName lastName specialization licenseNumber");
+      .populate("doctorId", "firstName lastName specialization licenseNumber")
+      .populate("familyMemberId", "name relationship gender dateOfBirth bloodGroup allergies");
 
     if (!appointment) {
       return res.status(404).json({ success: false, message: "Appointment not found." });
@@ -63,6 +90,19 @@ export const createOrUpdateNote = asyncHandler(
       return res.status(403).json({ success: false, message: "You can only write notes for your own appointments." });
     }
 
+    const typedComplaint = typeof chiefComplaint === "string" ? chiefComplaint.trim() : "";
+    const prefilledComplaint = intakeToChiefComplaint(appointment.intake, appointment.reason);
+    if (
+      !typedComplaint &&
+      !prefilledComplaint &&
+      !(await MedicalRecord.exists({ "consultationNotes.appointmentId": appointment._id }))
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: "chiefComplaint is required.",
+      });
+    }
+
     const doctor = appointment.doctorId as any;
     const patient = appointment.userId as any;
 
@@ -70,23 +110,42 @@ export const createOrUpdateNote = asyncHandler(
     const doctorSpecialization = doctor.specialization || "";
     const doctorLicenseNumber  = doctor.licenseNumber  || "";
     const patientId            = extractId(appointment.userId);
+    // Booked for a dependent — the note goes on their record, not the
+    // account holder's.
+    const dependent            = appointment.familyMemberId as any;
+    const familyMemberId       = extractId(dependent) || undefined;
 
     // ── Get or create the patient's medical record ────────────────────────────
-    let record = await MedicalRecord.findOne({ patientId });
+    let record = await MedicalRecord.findOne(forPatient(patientId, familyMemberId));
 
     if (!record) {
       record = await MedicalRecord.create({
         patientId,
-        patientSnapshot: {
-          name:        patient?.name        || "Unknown",
-          email:       patient?.email,
-          phone:       patient?.phone,
-          gender:      patient?.gender,
-          dateOfBirth: patient?.dateOfBirth,
-          homeAddress: patient?.homeAddress,
-          bloodGroup:  bloodGroup  || undefined,
-          allergies:   allergies   || [],
-        },
+        familyMemberId,
+        patientSnapshot: dependent?.name
+          ? {
+              name:         dependent.name,
+              relationship: dependent.relationship,
+              email:        patient?.email,
+              phone:        patient?.phone,
+              gender:       dependent.gender,
+              dateOfBirth:  dependent.dateOfBirth,
+              homeAddress:  patient?.homeAddress,
+              bloodGroup:   bloodGroup || dependent.bloodGroup || undefined,
+              allergies:    allergies  || (dependent.allergies
+                ? String(dependent.allergies).split(",").map((a: string) => a.trim()).filter(Boolean)
+                : []),
+            }
+          : {
+              name:        patient?.name        || "Unknown",
+              email:       patient?.email,
+              phone:       patient?.phone,
+              gender:      patient?.gender,
+              dateOfBirth: patient?.dateOfBirth,
+              homeAddress: patient?.homeAddress,
+              bloodGroup:  bloodGroup  || undefined,
+              allergies:   allergies   || [],
+            },
         consultationNotes: [],
         accessLog: [],
       });
@@ -101,6 +160,13 @@ export const createOrUpdateNote = asyncHandler(
       (n) => String(n.appointmentId) === String(appointmentId)
     );
 
+    // Left blank, the chief complaint comes from the note already written
+    // or — for a new note — the patient's reason and intake answers.
+    const resolvedComplaint =
+      typedComplaint ||
+      record.consultationNotes[existingIndex]?.chiefComplaint ||
+      prefilledComplaint;
+
     const noteData = {
       appointmentId:        new mongoose.Types.ObjectId(appointmentId),
       doctorId:             new mongoose.Types.ObjectId(doctorId!),
@@ -108,7 +174,7 @@ export const createOrUpdateNote = asyncHandler(
       doctorSpecialization,
       doctorLicenseNumber,
       consultationDate:     appointment.scheduledAt,
-      chiefComplaint,
+      chiefComplaint:       resolvedComplaint,
       vitalSigns:           vitalSigns           || undefined,
       diagnosis:            diagnosis            || [],
       prescriptions:        prescriptions        || [],
@@ -158,8 +224,13 @@ export const createOrUpdateNote = asyncHandler(
 export const getMyRecord = asyncHandler(
   async (req: Request, res: Response) => {
     const patientId = req.auth?.id;
+    // ?familyMemberId= — a dependent's record, viewed by their account holder
+    const familyMemberId = readFamilyMemberId(req);
+    if (familyMemberId && !(await FamilyMember.exists({ _id: familyMemberId, userId: patientId }))) {
+      return res.status(404).json({ success: false, message: "Family member not found." });
+    }
 
-    const record = await MedicalRecord.findOne({ patientId });
+    const record = await MedicalRecord.findOne(forPatient(patientId, familyMemberId));
 
     if (!record) {
       return res.status(200).json({
@@ -190,10 +261,12 @@ export const getPatientRecord = asyncHandler(
     const doctorId  = req.auth?.id;
     const { patientId } = req.params;
     const { appointmentId } = req.query as { appointmentId?: string };
+    const familyMemberId = readFamilyMemberId(req);
 
     // ── Verify approved access request ───────────────────────────────────────
+    // Access granted for a dependent's appointment covers only their record.
     const accessRequest = await AccessRequest.findOne({
-      patientId,
+      ...forPatient(patientId, familyMemberId),
       requestingDoctorId: doctorId,
       status: "approved",
     });
@@ -205,7 +278,7 @@ export const getPatientRecord = asyncHandler(
       });
     }
 
-    const record = await MedicalRecord.findOne({ patientId });
+    const record = await MedicalRecord.findOne(forPatient(patientId, familyMemberId));
 
     if (!record) {
       return res.status(404).json({
@@ -243,7 +316,8 @@ export const getPatientRecord = asyncHandler(
       await NotificationService.notifyRecordAccessed(
         String(patientId),
         String(record._id),
-        doctorName
+        doctorName,
+        await dependentFor(familyMemberId)
       );
     } catch (err) {
       console.error("❌ Failed to notify patient of record access:", err);
@@ -291,6 +365,7 @@ export const requestRecordAccess = asyncHandler(
     // ── Create request ────────────────────────────────────────────────────────
     const accessRequest = await AccessRequest.create({
       patientId,
+      familyMemberId:     appointment.familyMemberId,
       requestingDoctorId: doctorId,
       appointmentId,
       status:             "pending",
@@ -308,7 +383,8 @@ export const requestRecordAccess = asyncHandler(
         String(patientId),
         String(accessRequest._id),
         doctorName,
-        doctor?.specialization || ""
+        doctor?.specialization || "",
+        await dependentFor(accessRequest.familyMemberId)
       );
       accessRequest.notifiedPatient = true;
       await accessRequest.save();
@@ -319,7 +395,7 @@ export const requestRecordAccess = asyncHandler(
     res.status(201).json({
       success: true,
       message: "Access request sent to patient.",
-      data: accessRequest,
+      data: await accessRequest.populate("familyMemberId", ACCESS_REQUEST_FAMILY_MEMBER_FIELDS),
     });
   }
 );
@@ -335,7 +411,8 @@ export const respondToAccessRequest = asyncHandler(
     const { approve } = req.body; // boolean
 
     const accessRequest = await AccessRequest.findById(requestId)
-      .populate("requestingDoctorId", "firstName lastName specialization");
+      .populate("requestingDoctorId", "firstName lastName specialization")
+      .populate("familyMemberId", ACCESS_REQUEST_FAMILY_MEMBER_FIELDS);
 
     if (!accessRequest) {
       return res.status(404).json({ success: false, message: "Access request not found." });
@@ -372,13 +449,16 @@ export const respondToAccessRequest = asyncHandler(
     // ── Notify doctor ─────────────────────────────────────────────────────────
     const doctor = accessRequest.requestingDoctorId as any;
     const doctorName = doctor ? `Dr. ${doctor.lastName || doctor.firstName}` : "Doctor";
+    const member = accessRequest.familyMemberId as any;
+    const dependent = member?.name ? { id: extractId(member), name: member.name } : undefined;
 
     try {
       await NotificationService.notifyRecordAccessResponse(
-        String(accessRequest.requestingDoctorId),
+        extractId(accessRequest.requestingDoctorId),
         String(accessRequest.patientId),
         doctorName,
-        approve
+        approve,
+        dependent
       );
     } catch (err) {
       console.error("❌ Failed to notify doctor of access response:", err);
@@ -386,9 +466,10 @@ export const respondToAccessRequest = asyncHandler(
 
     // ── Emit real-time update ─────────────────────────────────────────────────
     emitAccessRequestUpdate(
-      String(accessRequest.requestingDoctorId),
+      extractId(accessRequest.requestingDoctorId),
       String(requestId),
-      accessRequest.status
+      accessRequest.status,
+      dependent
     );
 
     res.status(200).json({
@@ -411,7 +492,9 @@ export const getPendingAccessRequests = asyncHandler(
       patientId,
       status: "pending",
       expiresAt: { $gt: new Date() },
-    }).populate("requestingDoctorId", "firstName lastName specialization doctorImage");
+    })
+      .populate("requestingDoctorId", "firstName lastName specialization doctorImage")
+      .populate("familyMemberId", ACCESS_REQUEST_FAMILY_MEMBER_FIELDS);
 
     res.status(200).json({ success: true, data: requests });
   }
@@ -427,6 +510,7 @@ export const getAllAccessRequests = asyncHandler(
 
     const requests = await AccessRequest.find({ patientId })
       .populate("requestingDoctorId", "firstName lastName specialization doctorImage")
+      .populate("familyMemberId", ACCESS_REQUEST_FAMILY_MEMBER_FIELDS)
       .sort({ requestedAt: -1 });
 
     res.status(200).json({ success: true, data: requests });
@@ -441,15 +525,16 @@ export const checkAccess = asyncHandler(
   async (req: Request, res: Response) => {
     const doctorId  = req.auth?.id;
     const { patientId } = req.params;
+    const familyMemberId = readFamilyMemberId(req);
 
     const accessRequest = await AccessRequest.findOne({
-      patientId,
+      ...forPatient(patientId, familyMemberId),
       requestingDoctorId: doctorId,
       status: "approved",
     });
 
     const pendingRequest = await AccessRequest.findOne({
-      patientId,
+      ...forPatient(patientId, familyMemberId),
       requestingDoctorId: doctorId,
       status: "pending",
     });
@@ -474,11 +559,12 @@ export const generateRecordPDF = asyncHandler(
     const requesterId = req.auth?.id;
     const role        = req.auth?.role;
     const { patientId } = req.params;
+    const familyMemberId = readFamilyMemberId(req);
 
     // ── Access check ──────────────────────────────────────────────────────────
     if (role === "Doctor") {
       const access = await AccessRequest.findOne({
-        patientId,
+        ...forPatient(patientId, familyMemberId),
         requestingDoctorId: requesterId,
         status: "approved",
       });
@@ -489,7 +575,7 @@ export const generateRecordPDF = asyncHandler(
       return res.status(403).json({ success: false, message: "You can only download your own record." });
     }
 
-    const record = await MedicalRecord.findOne({ patientId });
+    const record = await MedicalRecord.findOne(forPatient(patientId, familyMemberId));
     if (!record) {
       return res.status(404).json({ success: false, message: "No medical record found." });
     }
@@ -516,6 +602,7 @@ export const generateRecordPDF = asyncHandler(
     doc.fontSize(14).fillColor("#111").text("Patient Information", { underline: true });
     doc.fontSize(11).fillColor("#333");
     doc.text(`Name:           ${p.name}`);
+    if (p.relationship) doc.text(`Relationship:   ${p.relationship} of account holder`);
     doc.text(`Gender:         ${p.gender         || "N/A"}`);
     doc.text(`Date of Birth:  ${p.dateOfBirth     || "N/A"}`);
     doc.text(`Phone:          ${p.phone           || "N/A"}`);
@@ -1,5 +1,11 @@
 import { Request, Response } from "express";
+import mongoose from "mongoose";
 import { MedicationReminder } from "../models/MedicationReminder";
+import { MedicationDoseLog } from "../models/MedicationDoseLog";
+import { getAdherenceSummary, logDose, nearestScheduledDose } from "../services/MedicationReminderService";
+
+const DOSE_ACTIONS = ["taken", "skipped", "snoozed"] as const;
+const MAX_ADHERENCE_WEEKS = 26;
 
 export const createReminder = async (req: Request, res: Response): Promise<Response> => {
   try {
@@ -100,3 +106,92 @@ export const toggleReminder = async (req: Request, res: Response): Promise<Respo
     return res.status(500).json({ success: false, message: "Failed to toggle reminder" });
   }
 };
+
+// POST /:id/doses — { scheduledFor, status: "taken" | "skipped" | "snoozed", snoozeMinutes? }
+export const logReminderDose = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const userId = req.auth?.id;
+    const { id } = req.params;
+    const { scheduledFor, status, snoozeMinutes } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: "Invalid reminder id" });
+    }
+    if (!DOSE_ACTIONS.includes(status)) {
+      return res.status(400).json({ success: false, message: "status must be taken, skipped or snoozed" });
+    }
+
+    const reminder = await MedicationReminder.findOne({ _id: id, userId });
+    if (!reminder) return res.status(404).json({ success: false, message: "Reminder not found" });
+
+    const requested = scheduledFor ? new Date(scheduledFor) : new Date();
+    if (isNaN(requested.getTime())) {
+      return res.status(400).json({ success: false, message: "Invalid scheduledFor date" });
+    }
+
+    // as_needed doses have no schedule — the moment they're logged is the dose time.
+    // Scheduled ones are filed under the dose time they're closest to.
+    const doseTime = reminder.frequency === "as_needed" ? requested : nearestScheduledDose(reminder, requested);
+    if (!doseTime) {
+      return res.status(400).json({ success: false, message: "No scheduled dose near scheduledFor" });
+    }
+
+    const dose = await logDose(reminder, doseTime, status, Number(snoozeMinutes) || undefined);
+    return res.json({ success: true, data: dose });
+  } catch (err: any) {
+    console.error("[MedicationReminder] log dose error:", err.message);
+    return res.status(500).json({ success: false, message: "Failed to log dose" });
+  }
+};
+
+// GET /:id/doses?from=&to=
+export const getReminderDoses = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const userId = req.auth?.id;
+    const { id } = req.params;
+    const { from, to } = req.query as { from?: string; to?: string };
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: "Invalid reminder id" });
+    }
+    const reminder = await MedicationReminder.findOne({ _id: id, userId }).select("_id");
+    if (!reminder) return res.status(404).json({ success: false, message: "Reminder not found" });
+
+    const range: Record<string, Date> = {};
+    if (from) range.$gte = new Date(from);
+    if (to) range.$lt = new Date(to);
+    if (Object.values(range).some((d) => isNaN(d.getTime()))) {
+      return res.status(400).json({ success: false, message: "Invalid from/to date" });
+    }
+
+    const doses = await MedicationDoseLog.find({
+      reminderId: reminder._id,
+      ...(Object.keys(range).length ? { scheduledFor: range } : {}),
+    })
+      .sort({ scheduledFor: -1 })
+      .limit(500);
+
+    return res.json({ success: true, data: doses });
+  } catch (err: any) {
+    console.error("[MedicationReminder] get doses error:", err.message);
+    return res.status(500).json({ success: false, message: "Failed to fetch doses" });
+  }
+};
+
+// GET /adherence?weeks=4&reminderId=
+export const getAdherence = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const userId = req.auth?.id!;
+    const weeks = Math.min(Math.max(parseInt(String(req.query.weeks ?? "4"), 10) || 4, 1), MAX_ADHERENCE_WEEKS);
+    const reminderId = req.query.reminderId ? String(req.query.reminderId) : undefined;
+    if (reminderId && !mongoose.Types.ObjectId.isValid(reminderId)) {
+      return res.status(400).json({ success: false, message: "Invalid reminderId" });
+    }
+
+    const summary = await getAdherenceSummary(userId, weeks, reminderId);
+    return res.json({ success: true, data: summary });
+  } catch (err: any) {
+    console.error("[MedicationReminder] adherence error:", err.message);
+    return res.status(500).json({ success: false, message: "Failed to compute adherence" });
+  }
+};
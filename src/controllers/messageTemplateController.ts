@@ -0,0 +1,175 @@
+// controllers/messageTemplateController.ts
+import mongoose from "mongoose";
+import { Request, Response } from "express";
+import asyncHandler from "../middleware/asyncHandler";
+import { MessageTemplate } from "../models/MessageTemplate";
+import {
+  listTemplatesForDoctor,
+  MessageTemplateError,
+  parseMessageTemplate,
+  previewTemplate,
+} from "../services/MessageTemplateService";
+
+const parseOr400 = (req: Request, res: Response) => {
+  try {
+    return parseMessageTemplate(req.body);
+  } catch (err: any) {
+    res.status(400);
+    throw err;
+  }
+};
+
+const notFound = (res: Response): never => {
+  res.status(404);
+  throw new Error("Template not found.");
+};
+
+// ─── Doctor: personal library ─────────────────────────────────────────────────
+
+/**
+ * @desc The doctor's own templates plus the clinic-wide ones, and the
+ *       built-in placeholder names
+ * @route GET /api/v1/message-templates
+ * @access Doctor
+ */
+export const getMyTemplates = asyncHandler(async (req: Request, res: Response) => {
+  const data = await listTemplatesForDoctor(req.auth?.id!);
+  res.status(200).json({ success: true, data });
+});
+
+/**
+ * @desc Save a personal template
+ * @route POST /api/v1/message-templates
+ * @access Doctor
+ */
+export const createMyTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const parsed = parseOr400(req, res);
+  const template = await MessageTemplate.create({
+    ...parsed,
+    scope: "personal",
+    ownerId: req.auth?.id,
+    updatedBy: req.auth?.id,
+  });
+  res.status(201).json({ success: true, data: template });
+});
+
+/**
+ * @desc Edit one of the doctor's personal templates
+ * @route PUT /api/v1/message-templates/:id
+ * @access Doctor
+ */
+export const updateMyTemplate = asyncHandler(async (req: Request, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) notFound(res);
+  const parsed = parseOr400(req, res);
+  const template = await MessageTemplate.findOneAndUpdate(
+    { _id: req.params.id, scope: "personal", ownerId: req.auth?.id, isActive: true },
+    { $set: { ...parsed, updatedBy: req.auth?.id } },
+    { new: true, runValidators: true }
+  );
+  if (!template) notFound(res);
+  res.status(200).json({ success: true, data: template });
+});
+
+/**
+ * @desc Remove one of the doctor's personal templates. Messages already
+ *       sent from it are unaffected.
+ * @route DELETE /api/v1/message-templates/:id
+ * @access Doctor
+ */
+export const deleteMyTemplate = asyncHandler(async (req: Request, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) notFound(res);
+  const template = await MessageTemplate.findOneAndUpdate(
+    { _id: req.params.id, scope: "personal", ownerId: req.auth?.id, isActive: true },
+    { $set: { isActive: false, updatedBy: req.auth?.id } },
+    { new: true }
+  );
+  if (!template) notFound(res);
+  res.status(200).json({ success: true, message: "Template deleted." });
+});
+
+/**
+ * @desc Render a template for a conversation without sending it. `missing`
+ *       lists placeholders that still need a value in `variables`.
+ * @route POST /api/v1/message-templates/:id/preview
+ * @access Doctor
+ */
+export const previewMyTemplate = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const data = await previewTemplate(req.params.id, req.auth?.id!, req.body?.conversationId, req.body?.variables);
+    res.status(200).json({ success: true, data });
+  } catch (err) {
+    if (err instanceof MessageTemplateError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
+    throw err;
+  }
+});
+
+// ─── Admin: clinic-wide templates ─────────────────────────────────────────────
+
+/**
+ * @desc All clinic-wide templates, including retired ones
+ * @route GET /api/v1/message-templates/clinic
+ * @access Admin
+ */
+export const getClinicTemplates = asyncHandler(async (_req: Request, res: Response) => {
+  const templates = await MessageTemplate.find({ scope: "clinic" })
+    .sort({ isActive: -1, category: 1, title: 1 })
+    .lean();
+  res.status(200).json({ success: true, data: templates });
+});
+
+/**
+ * @desc Add a template every doctor can use
+ * @route POST /api/v1/message-templates/clinic
+ * @access Admin
+ */
+export const createClinicTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const parsed = parseOr400(req, res);
+  const template = await MessageTemplate.create({
+    ...parsed,
+    scope: "clinic",
+    createdBy: req.auth?.id,
+    updatedBy: req.auth?.id,
+  });
+  res.status(201).json({ success: true, data: template });
+});
+
+/**
+ * @desc Edit a clinic-wide template (isActive: true brings a retired one back)
+ * @route PUT /api/v1/message-templates/clinic/:id
+ * @access Admin
+ */
+export const updateClinicTemplate = asyncHandler(async (req: Request, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) notFound(res);
+  const parsed = parseOr400(req, res);
+  const template = await MessageTemplate.findOneAndUpdate(
+    { _id: req.params.id, scope: "clinic" },
+    {
+      $set: {
+        ...parsed,
+        ...(typeof req.body.isActive === "boolean" ? { isActive: req.body.isActive } : {}),
+        updatedBy: req.auth?.id,
+      },
+    },
+    { new: true, runValidators: true }
+  );
+  if (!template) notFound(res);
+  res.status(200).json({ success: true, data: template });
+});
+
+/**
+ * @desc Retire a clinic-wide template — doctors stop seeing it
+ * @route DELETE /api/v1/message-templates/clinic/:id
+ * @access Admin
+ */
+export const retireClinicTemplate = asyncHandler(async (req: Request, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) notFound(res);
+  const template = await MessageTemplate.findOneAndUpdate(
+    { _id: req.params.id, scope: "clinic" },
+    { $set: { isActive: false, updatedBy: req.auth?.id } },
+    { new: true }
+  );
+  if (!template) notFound(res);
+  res.status(200).json({ success: true, data: template, message: "Template retired." });
+});
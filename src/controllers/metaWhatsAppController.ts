@@ -2,10 +2,16 @@
 import { Request, Response } from 'express';
 import axios from 'axios';
 import crypto from 'crypto';
-import mongoose from 'mongoose';
 import { Product } from '../models/product';
-import { ChatConversation, IMessage } from '../models/ChatConversation';
-import { Intent } from '../types/chatbot.types';
+import { ChatConversation } from '../models/ChatConversation';
+import { loadSession, recordExchange, respond } from '../services/ChatbotEngine';
+import {
+    generateDeepLink,
+    renderForWhatsApp,
+    SUPPORT_PHONE,
+    WhatsAppOutgoing,
+} from '../services/ChatbotChannels';
+import { attachEscalationLocation, findNearestClinics, formatClinic } from '../services/ChatbotTriageService';
 
 // Environment variables
 const WEBHOOK_VERIFY_TOKEN = process.env.META_WEBHOOK_VERIFY_TOKEN;
@@ -14,527 +20,12 @@ const PHONE_NUMBER_ID = process.env.META_PHONE_NUMBER_ID;
 const META_APP_SECRET = process.env.META_APP_SECRET;
 const META_API_VERSION = 'v21.0';
 const APP_URL = process.env.APP_URL;
-const DEEP_LINK_SCHEME = process.env.DEEP_LINK_SCHEME || 'planamwell://';
 const APP_DOMAIN = process.env.APP_DOMAIN || 'planamwell.com';
-const SUPPORT_PHONE = process.env.SUPPORT_PHONE || '+2349168767784';
 
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
-// ✅ Generate deep link (opens app if installed, web otherwise)
-const generateDeepLink = (path: string, params?: Record<string, string>): string => {
-  const queryString = params
-    ? '?' + new URLSearchParams(params).toString()
-    : '';
-
-  const cleanPath = path.replace(/^\//, ''); // remove leading slash
-
-  // Primary: custom scheme (works immediately, no server needed)
-  // Format: planamwell://appointments?type=std-screening
-  return `${DEEP_LINK_SCHEME}${cleanPath}${queryString}`;
-};
-// ✅ Extract product keywords from message
-
-const extractProductKeywords = (message: string): string => {
-    let cleaned = message.toLowerCase().trim();
-    
-    const leadingPhrases = [
-        'i would like to',
-        'would like to',
-        'i want to',
-        'want to',
-        'i need to',
-        'need to',
-        'looking for',
-        'search for',
-        'find me',
-        'show me',
-        'give me',
-        'get me',
-        'i need',
-        'need',
-        'buy',
-        'order',
-        'purchase',
-        'get',
-        'find',
-        'information about',
-        'info about',
-        'tell me about',
-        'what is',
-        'what are'
-    ];
-    
-    for (const phrase of leadingPhrases) {
-        if (cleaned.startsWith(phrase)) {
-            cleaned = cleaned.substring(phrase.length).trim();
-            break;
-        }
-    }
-    
-    const trailingPhrases = ['please', 'plz', 'pls', 'thanks', 'thank you'];
-    for (const phrase of trailingPhrases) {
-        if (cleaned.endsWith(phrase)) {
-            cleaned = cleaned.substring(0, cleaned.length - phrase.length).trim();
-        }
-    }
-    
-    const articles = ['a ', 'an ', 'the ', 'some '];
-    for (const article of articles) {
-        if (cleaned.startsWith(article)) {
-            cleaned = cleaned.substring(article.length);
-            break;
-        }
-    }
-    
-    cleaned = cleaned.replace(/\s+/g, ' ').trim();
-    
-    return cleaned;
-};
-
-// ✅ Enhanced intent detection
-const detectIntent = (message: string): Intent => {
-    const lowerMessage = message.toLowerCase();
-    
-    // Greeting
-    const greetingKeywords = ['hi', 'hello', 'hey', 'good morning', 'good afternoon', 'good evening', 'start', 'begin'];
-    if (greetingKeywords.some(keyword => lowerMessage.startsWith(keyword))) {
-        return 'greeting';
-    }
-    
-    // Buy intent
-    const buyKeywords = ['buy', 'order', 'purchase', 'get', 'need', 'want', 'looking for', 'shop', 'cart', 'add'];
-    if (buyKeywords.some(keyword => lowerMessage.includes(keyword))) {
-        // Check if it's asking for information rather than buying
-        const infoIndicators = ['what is', 'what are', 'tell me', 'information', 'explain', 'about'];
-        const hasInfoIntent = infoIndicators.some(indicator => lowerMessage.includes(indicator));
-        
-        if (!hasInfoIntent) {
-            return 'buy';
-        }
-    }
-    
-    // Appointment intent
-    const appointmentKeywords = ['appointment', 'book', 'schedule', 'doctor', 'consultation', 'see a doctor'];
-    if (appointmentKeywords.some(keyword => lowerMessage.includes(keyword))) {
-        return 'appointment';
-    }
-    
-    // Health info intent - EXPANDED
-    const healthInfoKeywords = [
-        'what is', 'what are', 'how', 'why', 'tell me', 'explain', 'information', 'about',
-        'std', 'sti', 'sexually transmitted', 'reproductive health', 'sexual health',
-        'contraceptive', 'birth control', 'pregnancy', 'menstrual', 'fertility',
-        'infection', 'disease', 'symptom', 'treatment', 'prevention', 'cure',
-        'hiv', 'aids', 'gonorrhea', 'syphilis', 'chlamydia', 'herpes', 'hpv'
-    ];
-    if (healthInfoKeywords.some(keyword => lowerMessage.includes(keyword))) {
-        return 'info';
-    }
-    
-    return 'general';
-};
-
-// ✅ NEW: Provide health information
-const getHealthInformation = (query: string): string => {
-    const lowerQuery = query.toLowerCase();
-    
-    // STD/STI Information
-    if (lowerQuery.includes('std') || lowerQuery.includes('sti') || 
-        lowerQuery.includes('sexually transmitted')) {
-        return `🏥 *Sexually Transmitted Diseases (STDs)*
-
-*Common STDs include:*
-• Chlamydia
-• Gonorrhea  
-• Syphilis
-• HIV/AIDS
-• Herpes (HSV)
-• HPV (Human Papillomavirus)
-• Trichomoniasis
-
-*Prevention:*
-✓ Use condoms consistently
-✓ Get regular screenings
-✓ Limit sexual partners
-✓ Get vaccinated (HPV, Hepatitis B)
-
-*Symptoms to watch for:*
-• Unusual discharge
-• Pain during urination
-• Sores or bumps
-• Itching or irritation
-
-⚠️ *Important:* Many STDs have no symptoms. Regular testing is crucial!
-
-*Get Tested or Consult:*
-📱 ${generateDeepLink('/appointments', { type: 'std-screening' })}
-
-*Need Treatment?*
-Search for medications: Reply "antibiotics" or specific medicine names
-
-*Emergency?* Call ${SUPPORT_PHONE}`;
-    }
-    
-    // HIV/AIDS Information
-    if (lowerQuery.includes('hiv') || lowerQuery.includes('aids')) {
-        return `🏥 *HIV/AIDS Information*
-
-*What is HIV?*
-Human Immunodeficiency Virus attacks the immune system. Without treatment, it can lead to AIDS.
-
-*Prevention:*
-✓ Use condoms correctly every time
-✓ PrEP (Pre-Exposure Prophylaxis) for high-risk individuals
-✓ Never share needles
-✓ Get tested regularly
-
-*Treatment:*
-Modern antiretroviral therapy (ART) allows people with HIV to live long, healthy lives.
-
-*Testing:*
-• Get tested every 3-6 months if sexually active
-• Results confidential
-• Early detection = better outcomes
-
-*Book HIV Test/Consultation:*
-📱 ${generateDeepLink('/appointments', { type: 'hiv-testing' })}
-
-*PrEP/PEP Medications:*
-📱 ${generateDeepLink('/products', { category: 'hiv-prevention' })}
-
-*24/7 Support:* ${SUPPORT_PHONE}`;
-    }
-    
-    // Reproductive Health
-    if (lowerQuery.includes('reproductive') || lowerQuery.includes('sexual health')) {
-        return `🏥 *Reproductive Health*
-
-*We can help with:*
-
-*Contraception:*
-• Birth control pills
-• Condoms
-• Emergency contraception
-• IUDs & implants (consultation required)
-
-*Fertility:*
-• Ovulation tracking
-• Fertility supplements
-• Prenatal vitamins
-
-*Menstrual Health:*
-• Period pain relief
-• Irregular cycles
-• PMS management
-
-*Infections:*
-• UTI treatment
-• Yeast infections
-• STI screening & treatment
-
-*Book Consultation:*
-📱 ${generateDeepLink('/appointments', { specialty: 'reproductive-health' })}
-
-*Shop Products:*
-📱 ${generateDeepLink('/products', { category: 'reproductive-health' })}
-
-*Questions?* Reply with specific concern or call ${SUPPORT_PHONE}`;
-    }
-    
-    // Birth Control/Contraceptives
-    if (lowerQuery.includes('birth control') || lowerQuery.includes('contraceptive') || 
-        lowerQuery.includes('emergency contraception')) {
-        return `💊 *Birth Control & Contraceptives*
-
-*Available Options:*
-
-*Hormonal Methods:*
-• Birth control pills
-• Patches
-• Injections
-• Implants (requires consultation)
-
-*Barrier Methods:*
-• Condoms (male & female)
-• Diaphragms
-
-*Emergency Contraception:*
-• Morning-after pill (Plan B)
-• Effective up to 72 hours after intercourse
-
-*Permanent Methods:*
-• Consultation required
-
-*Shop Contraceptives:*
-📱 ${generateDeepLink('/products', { category: 'contraceptives' })}
-
-*Consult a Doctor:*
-📱 ${generateDeepLink('/appointments', { type: 'contraception-consultation' })}
-
-*Need emergency contraception?*
-Reply: "emergency pill" or "plan b"`;
-    }
-    
-    // Generic health info
-    return `🏥 *Health Information*
-
-I can provide information about:
-
-*Sexual Health:*
-• STDs/STIs
-• HIV/AIDS  
-• Contraception
-• Reproductive health
-
-*Common Conditions:*
-• Infections
-• Pain management
-• Skin conditions
-• Digestive health
-
-*Medications:*
-• Antibiotics
-• Pain relievers
-• Supplements
-• Prescriptions
-
-*What would you like to know about?*
-
-Or get personalized advice:
-📱 ${generateDeepLink('/appointments')}
-
-*Call us:* ${SUPPORT_PHONE}`;
-};
-
-// ✅ Search products
-const searchProducts = async (query: string, limit: number = 5): Promise<any[]> => {
-    try {
-        if (!query || query.trim() === '') {
-            return [];
-        }
-
-        const cleanedQuery = query
-            .toLowerCase()
-            .replace(/[^\w\s]/g, ' ')
-            .replace(/\s+/g, ' ')
-            .trim();
-        
-        const searchTerms = cleanedQuery.split(' ').filter(term => term.length > 2);
-        
-        if (searchTerms.length === 0) {
-            return [];
-        }
-
-        const orConditions = [];
-        
-        for (const term of searchTerms) {
-            orConditions.push(
-                { name: { $regex: term, $options: 'i' } },
-                { categoryName: { $regex: term, $options: 'i' } },
-                { manufacturerName: { $regex: term, $options: 'i' } },
-                { sku: { $regex: term, $options: 'i' } }
-            );
-        }
-        
-        if (cleanedQuery !== searchTerms[0]) {
-            orConditions.push(
-                { name: { $regex: cleanedQuery, $options: 'i' } },
-                { categoryName: { $regex: cleanedQuery, $options: 'i' } },
-                { manufacturerName: { $regex: cleanedQuery, $options: 'i' } }
-            );
-        }
-
-        const products = await Product.find({
-            $and: [
-                { $or: orConditions },
-                { stockQuantity: { $gt: 0 } },
-                { status: { $ne: 'inactive' } }
-            ]
-        })
-        .limit(limit)
-        .lean();
-        
-        return products;
-    } catch (error) {
-        console.error('❌ WhatsApp - Error searching products:', error);
-        return [];
-    }
-};
-
-// ✅ Generate WhatsApp response
-const generateWhatsAppResponse = (intent: Intent, products: any[], userMessage: string): string => {
-    switch (intent) {
-        case 'greeting':
-            return `👋 *Welcome to AskAmWell Health!*
-
-I'm your AI health assistant. I can help you:
-
-💊 *Find medicines & health products*
-🏥 *Get health information (STDs, contraception, etc.)*
-📅 *Book doctor appointments*
-🛒 *Order directly via WhatsApp*
-📍 *Track your orders*
-
-*Quick Commands:*
-- Type a product name to search
-- Ask health questions (e.g., "What are STDs?")
-- Reply *HELP* for assistance
-- Reply *ORDERS* to track orders
-
-What can I help you with today?`;
-        
-        case 'buy':
-            if (products.length > 0) {
-                let response = `🛒 *Found ${products.length} Product${products.length > 1 ? 's' : ''}:*\n\n`;
-                
-                products.forEach((product, index) => {
-                    response += `*${index + 1}. ${product.name}*\n`;
-                    response += `   💰 Price: ₦${product.price.toLocaleString()}\n`;
-                    response += `   🏭 Brand: ${product.manufacturerName}\n`;
-                    response += `   📦 In Stock: ${product.stockQuantity} units\n`;
-                    if (product.prescriptionRequired) {
-                        response += `   ⚠️ Prescription Required\n`;
-                    }
-                    response += `\n`;
-                });
-                
-                response += `\n📝 *To Order:*\n`;
-                response += `Reply: *ORDER <number>*\n`;
-                response += `Example: *ORDER 1*\n\n`;
-                response += `📱 Or order via app:\n${generateDeepLink('/products')}`;
-                
-                return response;
-            } else {
-                const query = extractProductKeywords(userMessage);
-                if (!query) {
-                    return `🔍 *Product Search*
-
-Please tell me what you're looking for:
-
-*Examples:*
-- "I need Paracetamol"
-- "Show me antibiotics"
-- "Pain relief medicine"
-- "Emergency contraception"
-
-I'll find the best matches for you! 💊`;
-                }
-                return `😕 *No products found for "${query}"*
-
-*Suggestions:*
-✓ Check spelling
-✓ Try generic names (e.g., "Paracetamol" not "Panadol")
-✓ Search by category (e.g., "antibiotics", "pain relief")
-✓ Try brand names
-
-*Browse all products:*
-📱 ${generateDeepLink('/products')}
-
-*Need Help?*
-Reply *HELP* or call ${SUPPORT_PHONE}`;
-            }
-        
-        case 'appointment':
-            return `📅 *Book a Doctor Appointment*
-
-*Quick Booking:*
-📱 ${generateDeepLink('/appointments')}
-
-*Or call us:*
-📞 ${SUPPORT_PHONE}
-
-*Available Specialties:*
-- General Practitioner
-- Sexual Health / STD Screening
-- Reproductive Health
-- Specialist Consultation
-- Emergency Care
-
-*To continue here, tell me:*
-• Type of doctor needed
-• Preferred date/time
-• Reason for visit
-
-What works best for you?`;
-        
-        case 'info':
-            const query = extractProductKeywords(userMessage);
-            return getHealthInformation(query);
-        
-        default:
-            return `👋 *AskAmWell Health Assistant*
-
-*Quick Commands:*
-🔍 Search products - Type what you need
-🏥 *HEALTH INFO* - Ask health questions
-📦 *ORDERS* - Track your orders
-📅 *APPOINTMENT* - Book a doctor
-❓ *HELP* - Get assistance
-📞 *CONTACT* - Reach support
-
-*Examples:*
-• "I need amoxicillin"
-• "What are STDs?"
-• "Birth control options"
-• "Book STD screening"
-
-How can I help you today?`;
-    }
-};
-
-// ✅ Save conversation to database
-const saveConversation = async (
-    phoneNumber: string,
-    userMessage: string,
-    botResponse: string,
-    intent: Intent,
-    products: any[]
-): Promise<void> => {
-    try {
-        const sessionId = phoneNumber;
-        
-        let conversation = await ChatConversation.findOne({ 
-            sessionId,
-            isActive: true 
-        });
-        
-        if (!conversation) {
-            conversation = new ChatConversation({
-                userId: null,
-                sessionId,
-                messages: []
-            });
-        }
-        
-        const userMsg: IMessage = {
-            sender: 'user',
-            text: userMessage,
-            intent: intent,
-            timestamp: new Date()
-        };
-        conversation.messages.push(userMsg);
-        
-        const productIds = products.map(p => 
-            typeof p._id === 'string' ? new mongoose.Types.ObjectId(p._id) : p._id
-        );
-        
-        const botMsg: IMessage = {
-            sender: 'bot',
-            text: botResponse,
-            products: productIds,
-            intent: intent,
-            timestamp: new Date()
-        };
-        conversation.messages.push(botMsg);
-        
-        await conversation.save();
-    } catch (error) {
-        console.error('❌ Error saving conversation:', error);
-    }
-};
-
 // ✅ Handle ORDER command
 const handleOrderCommand = async (phoneNumber: string, orderText: string): Promise<string> => {
     try {
@@ -579,9 +70,13 @@ Please search for a product first.
 *Try:* "I need amoxicillin"`;
         }
         
-        const products = await Product.find({
+        // In the order they were listed, so ORDER <number> picks what was shown
+        const found = await Product.find({
             _id: { $in: lastBotMessage.products }
         }).lean();
+        const products = lastBotMessage.products
+            .map(id => found.find(p => p._id.toString() === id.toString()))
+            .filter((p): p is (typeof found)[number] => Boolean(p));
         
         if (productIndex < 0 || productIndex >= products.length) {
             return `❌ *Invalid Product Number*
@@ -685,6 +180,33 @@ const handleOrdersCommand = async (phoneNumber: string): Promise<string> => {
 Reply *HELP* anytime!`;
 };
 
+// ✅ Shared location — nearest clinics, e.g. after an urgent reply asked for it
+const handleLocationMessage = async (phoneNumber: string, latitude: number, longitude: number): Promise<string> => {
+    await attachEscalationLocation(phoneNumber, latitude, longitude).catch((error) =>
+        console.error('❌ Error attaching location to escalation:', error)
+    );
+    const clinics = await findNearestClinics(latitude, longitude);
+    if (!clinics.length) {
+        return `🏥 I couldn't find a clinic near you. Please go to the nearest hospital, or call ${SUPPORT_PHONE} for help.`;
+    }
+
+    return `🏥 *Nearest clinics:*
+
+${clinics.map((clinic, index) => `${index + 1}. ${formatClinic(clinic)}`).join('\n')}
+
+In an emergency, go now — don't wait for a reply.`;
+};
+
+// ✅ Text of an incoming message; taps on our buttons and list rows arrive
+// with the id we gave them, which is written as the command to run
+const readIncomingText = (message: any): string | undefined => {
+    if (message.type === 'text') return message.text?.body;
+    if (message.type === 'interactive') {
+        return message.interactive?.button_reply?.id || message.interactive?.list_reply?.id;
+    }
+    return undefined;
+};
+
 // ============================================
 // WEBHOOK HANDLERS
 // ============================================
@@ -757,39 +279,37 @@ export const handleMetaWebhook = async (req: Request, res: Response): Promise<vo
             if (messages && messages[0]) {
                 const message = messages[0];
                 const from = message.from;
-                const messageBody = message.text?.body;
-                const messageType = message.type;
+                const messageBody = readIncomingText(message);
 
-                if (messageType !== 'text') {
+                if (message.type === 'location' && message.location) {
+                    const { latitude, longitude } = message.location;
+                    await sendMetaWhatsAppMessage(from, await handleLocationMessage(from, Number(latitude), Number(longitude)));
                     res.sendStatus(200);
                     return;
                 }
 
-                let responseText = '';
+                if (!messageBody) {
+                    res.sendStatus(200);
+                    return;
+                }
 
                 const lowerMessage = messageBody.toLowerCase().trim();
 
                 if (lowerMessage === 'help') {
-                    responseText = handleHelpCommand();
+                    await sendMetaWhatsAppMessage(from, handleHelpCommand());
                 } else if (lowerMessage === 'orders') {
-                    responseText = await handleOrdersCommand(from);
-                } else if (lowerMessage.startsWith('order')) {
-                    responseText = await handleOrderCommand(from, lowerMessage);
+                    await sendMetaWhatsAppMessage(from, await handleOrdersCommand(from));
+                } else if (/^order\s+\d+$/.test(lowerMessage)) {
+                    await sendMetaWhatsAppMessage(from, await handleOrderCommand(from, lowerMessage));
                 } else {
-                    const intent = detectIntent(messageBody);
-                    let products: any[] = [];
-                    
-                    if (intent === 'buy') {
-                        const query = extractProductKeywords(messageBody);
-                        products = await searchProducts(query);
-                    }
-
-                    responseText = generateWhatsAppResponse(intent, products, messageBody);
-
-                    await saveConversation(from, messageBody, responseText, intent, products);
+                    // Everything else goes through the engine shared with the in-app chatbot.
+                    // WhatsApp numbers aren't linked to accounts, so callers are guests.
+                    const reply = await respond(messageBody, await loadSession(from), 'whatsapp');
+                    await recordExchange(from, null, messageBody, reply).catch((error) =>
+                        console.error('❌ Error saving conversation:', error)
+                    );
+                    await sendWhatsAppReply(from, renderForWhatsApp(reply));
                 }
-
-                await sendMetaWhatsAppMessage(from, responseText);
             }
 
             const statuses = value?.statuses;
@@ -967,6 +487,20 @@ export const sendMetaListMessage = async (
     }
 };
 
+// ✅ Send a reply rendered by ChatbotChannels.renderForWhatsApp
+const sendWhatsAppReply = async (to: string, reply: WhatsAppOutgoing): Promise<void> => {
+    switch (reply.type) {
+        case 'buttons':
+            await sendMetaInteractiveButtons(to, reply.body, reply.buttons);
+            break;
+        case 'list':
+            await sendMetaListMessage(to, reply.header, reply.body, reply.sections);
+            break;
+        default:
+            await sendMetaWhatsAppMessage(to, reply.body);
+    }
+};
+
 // ============================================
 // PROACTIVE MESSAGING
 // ============================================
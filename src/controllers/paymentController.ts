@@ -5,6 +5,8 @@ import axios from "axios";
 import { Order } from "../models/order";
 import { User } from "../models/user";
 import { Cart } from "../models/cart";
+import { Appointment } from "../models/appointment";
+import { settleConsultationPayment } from "../services/ConsultationPaymentService";
 
 const PARTNER_API_URL = process.env.PARTNER_API_URL;
 const PARTNER_API_KEY = process.env.PARTNER_API_KEY;
@@ -221,6 +223,172 @@ if (existingPayment) {
   },
 );
 
+// ------------------ INITIATE CONSULTATION PAYMENT ------------------
+// Same partner checkout as orders, but the Payment is tied to an appointment
+// instead of an order. verifyPayment and the payment webhook settle both kinds.
+export const initiateAppointmentPayment = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { appointmentId, paymentMethod } = req.body;
+
+    /** ------------------ 1. Basic validation ------------------ */
+    if (!appointmentId || !paymentMethod) {
+      return res.status(400).json({
+        success: false,
+        message: "appointmentId and paymentMethod are required",
+      });
+    }
+
+    /** ------------------ 2. Load appointment ------------------ */
+    const appointment = await Appointment.findById(appointmentId);
+    if (!appointment) {
+      return res.status(404).json({
+        success: false,
+        message: "Appointment not found",
+      });
+    }
+
+    if (appointment.userId.toString() !== req.auth?.id) {
+      return res.status(403).json({
+        success: false,
+        message: "You can only pay for your own appointments",
+      });
+    }
+
+    /** ------------------ 3. Validate appointment state ------------------ */
+    if (
+      !appointment.consultationFee ||
+      !["pending", "failed"].includes(appointment.paymentStatus) ||
+      ["cancelled", "rejected", "expired"].includes(appointment.status)
+    ) {
+      return res.status(422).json({
+        success: false,
+        message: "Appointment is not eligible for payment",
+      });
+    }
+
+    /** ------------------ 4. Load user ------------------ */
+    const user = await User.findById(appointment.userId);
+    if (!user || !user.partnerId) {
+      return res.status(422).json({
+        success: false,
+        message: "User not synced with partner system",
+      });
+    }
+
+    /** ------------------ 5. Idempotency check ------------------ */
+    // A failed attempt doesn't block a retry; an open one is handed back.
+    const existingPayment = await Payment.findOne({
+      appointmentId: appointment.id,
+      status: "pending",
+    });
+
+    if (existingPayment) {
+      return res.status(200).json({
+        success: true,
+        message: "Payment already initiated",
+        data: {
+          checkoutUrl: existingPayment.checkoutUrl,
+          paymentReference: existingPayment.paymentReference,
+          transactionId: existingPayment.transactionId,
+          status: existingPayment.status,
+        },
+      });
+    }
+
+    /** ------------------ 6. Derive secure server-side values ------------------ */
+    // The fee snapshotted at booking — never a client-supplied amount.
+    const amount = Number(appointment.consultationFee);
+    const attempt = await Payment.countDocuments({ appointmentId: appointment.id });
+    const partnerReferenceCode = `PAW-APT-${appointment.id}-${attempt + 1}`;
+    const mobileRedirectUrl = `planamwell://appointment-payment-complete?appointmentId=${appointment._id}`;
+
+    /** ------------------ 7. Initiate payment with partner ------------------ */
+    let partnerResponse;
+    try {
+      const response = await axios.post(
+        `${PARTNER_API_URL}/v1/PlanAmWell/payments/initiate`,
+        {
+          userId: user.partnerId,
+          paymentMethod,
+          amount,
+          partnerReferenceCode,
+          purpose: "consultation",
+          customerEmail: user.email,
+          apiKey: PARTNER_API_KEY,
+          mobile_redirect_url: mobileRedirectUrl,
+        },
+      );
+
+      const initializedPayment = response.data?.initializedPayment;
+      const payment = response.data?.payment;
+
+      partnerResponse = {
+        checkoutUrl: initializedPayment?.data?.authorization_url,
+        paymentReference: initializedPayment?.data?.reference,
+        transactionId: payment?.transactionId,
+      };
+    } catch (err: any) {
+      console.error(
+        "[initiateAppointmentPayment] Partner API failed:",
+        err.response?.data || err.message,
+      );
+
+      return res.status(502).json({
+        success: false,
+        message: "Failed to initiate payment with partner",
+      });
+    }
+
+    if (
+      !partnerResponse?.paymentReference ||
+      !partnerResponse?.transactionId ||
+      !partnerResponse?.checkoutUrl
+    ) {
+      console.error(
+        "[initiateAppointmentPayment] Invalid partner response:",
+        partnerResponse,
+      );
+      return res.status(500).json({
+        success: false,
+        message: "Invalid response from payment provider",
+      });
+    }
+
+    /** ------------------ 8. Persist payment ------------------ */
+    const payment = await Payment.create({
+      appointmentId: appointment.id,
+      userId: user.id,
+      paymentMethod,
+      partnerReferenceCode,
+      paymentReference: partnerResponse.paymentReference,
+      transactionId: partnerResponse.transactionId,
+      checkoutUrl: partnerResponse.checkoutUrl,
+      amount,
+      status: "pending",
+    });
+
+    // A retry after a failed attempt puts the appointment back to awaiting payment.
+    if (appointment.paymentStatus === "failed") {
+      await Appointment.updateOne(
+        { _id: appointment._id, paymentStatus: "failed" },
+        { $set: { paymentStatus: "pending" } },
+      );
+    }
+
+    /** ------------------ 9. Respond to frontend ------------------ */
+    return res.status(201).json({
+      success: true,
+      message: "Payment initiated successfully",
+      data: {
+        checkoutUrl: payment.checkoutUrl,
+        paymentReference: payment.paymentReference,
+        transactionId: payment.transactionId,
+        status: payment.status,
+      },
+    });
+  },
+);
+
 // ------------------ VERIFY PAYMENT ------------------
 export const verifyPayment = asyncHandler(async (req: Request, res: Response) => {
   const { paymentReference } = req.body;
@@ -270,7 +438,11 @@ const updatedPayment = await Payment.findOneAndUpdate(
 );
     console.log("[verifyPayment] updatedPayment:", updatedPayment ? updatedPayment._id : "NOT FOUND");
 
- if (isSuccess && updatedPayment) {
+ // Consultation payments settle their appointment; nothing below (order,
+ // cart) applies to them.
+ if (updatedPayment?.appointmentId) {
+  await settleConsultationPayment(updatedPayment, normalizedStatus);
+ } else if (isSuccess && updatedPayment) {
   // Idempotency guard — verifyPayment can legitimately be called more than
   // once for the same payment (client polling, user re-opening the redirect
   // page). Only run the one-time side effects (notification, cart clearing)
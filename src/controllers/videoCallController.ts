@@ -3,7 +3,28 @@ import { Request, Response } from "express";
 import asyncHandler from "../middleware/asyncHandler";
 import mongoose from "mongoose";
 import { Appointment } from "../models/appointment";
+import { buildStatusChange, canTransition } from "../services/AppointmentStateMachine";
 import { NotificationService } from "../services/NotificationService";
+import { closeOpenCallAttempt, recordCallJoin } from "../services/ReliabilityService";
+import { buildIceServers } from "../services/TurnCredentialService";
+import { buildCallReport, CallTelemetryError, recordCallStats } from "../services/CallTelemetryService";
+import {
+  admitPatient,
+  admitWaitingPatient,
+  enterWaitingRoom,
+  getDoctorWaitingRoom,
+  leaveWaitingRoom,
+  mustWaitForAdmission,
+  WaitingRoomError,
+} from "../services/WaitingRoomService";
+import {
+  CallInviteError,
+  createCallInvite,
+  joinWithInvite,
+  listCallInvites,
+  revokeCallInvite,
+} from "../services/CallInviteService";
+import { WAITING_ROOM_OPENS_MINUTES } from "../config/waitingRoom";
 import { emitCallEnded, emitCallRinging } from "../index";
 import { sendIncomingCallPushNotification } from "../util/sendPushNotification";
 
@@ -15,13 +36,21 @@ import { sendIncomingCallPushNotification } from "../util/sendPushNotification";
 //     throws CastError / ValidationError → 500 for the client.
 //     Use Appointment.updateOne() or Appointment.findOneAndUpdate() instead.
 //
-//  2. The ONLY hard block is status === "cancelled". Every other status
-//     (completed, expired, in-progress, confirmed …) is allowed to reset and
-//     restart a call. The doctor controls appointment closure separately via
-//     appointmentController.endAppointment.
+//  2. Starting a call moves the appointment to "in-progress", so it is gated
+//     by the transition table in services/AppointmentStateMachine.ts. That
+//     table deliberately lets completed / expired / call-ended appointments
+//     restart a call; cancelled and rejected ones never can. An accepted
+//     ad-hoc chat call may also ring on a pending / rescheduled appointment,
+//     but leaves its status alone. The doctor controls appointment closure
+//     separately via appointmentController.endAppointment.
 //
 //  3. callEndedBy tracks who ended the VIDEO CALL, not the appointment.
 //     Do NOT use it to gate appointment-level access.
+//
+//  4. A patient can't ring the doctor for a scheduled consultation: until the
+//     doctor admits them (services/WaitingRoomService.ts), POST /token seats
+//     them in the waiting room instead. A doctor starting the call admits the
+//     patient implicitly; accepted ad-hoc chat calls skip the room.
 // ─────────────────────────────────────────────────────────────────────────────
 
 const extractId = (field: any): string => {
@@ -31,6 +60,12 @@ const extractId = (field: any): string => {
   return String(field);
 };
 
+const sendWaitingRoomError = (res: Response, err: WaitingRoomError) =>
+  res.status(err.status).json({ success: false, code: err.code, message: err.message, ...err.details });
+
+const sendCallInviteError = (res: Response, err: CallInviteError) =>
+  res.status(err.status).json({ success: false, code: err.code, message: err.message });
+
 // ─────────────────────────────────────────────────────────────────────────────
 // POST /api/v1/video/token
 // Start or join a call. Called by both the initiator and the receiver.
@@ -70,7 +105,9 @@ export const generateVideoToken = asyncHandler(
       return res.status(400).json({ success: false, message: "This appointment has been cancelled" });
     }
 
-    // ── 15-minute window check ──────────────────────────────────────────────
+    // ── Join window check ───────────────────────────────────────────────────
+    // Opens with the waiting room, so a patient the doctor admits early can
+    // get a token.
     // Bypassed for a few minutes right after an ad-hoc chat video-call request
     // was accepted (see chatController.respondToVideoCall) — that flow is
     // meant to work any time, not just near the appointment's scheduled slot.
@@ -79,16 +116,17 @@ export const generateVideoToken = asyncHandler(
       Date.now() - new Date(appointment.adHocCallApprovedAt).getTime() < 5 * 60 * 1000;
 
     const minutesDiff = (new Date(appointment.scheduledAt).getTime() - Date.now()) / 60000;
-    if (minutesDiff > 15 && !adHocApprovedRecently) {
+    if (minutesDiff > WAITING_ROOM_OPENS_MINUTES && !adHocApprovedRecently) {
       return res.status(400).json({
         success: false,
-        message: `Call available 15 minutes before scheduled time. ${Math.ceil(minutesDiff - 15)} minute(s) remaining.`,
-        minutesUntilAvailable: Math.ceil(minutesDiff - 15),
+        message: `Call available ${WAITING_ROOM_OPENS_MINUTES} minutes before scheduled time. ${Math.ceil(minutesDiff - WAITING_ROOM_OPENS_MINUTES)} minute(s) remaining.`,
+        minutesUntilAvailable: Math.ceil(minutesDiff - WAITING_ROOM_OPENS_MINUTES),
       });
     }
 
     // ── Derived values ──────────────────────────────────────────────────────
     const isDoctor            = role === "Doctor";
+    const participantKind     = isDoctor ? "doctor" : "patient";
     const participantObjectId = new mongoose.Types.ObjectId(userId);
     const recipientId         = isDoctor ? patientId : doctorId;
     const channelName         = `appt_${appointmentId}`;
@@ -103,21 +141,59 @@ export const generateVideoToken = asyncHandler(
     // CASE A: Initiate a new call (idle / ended / no prior call state)
     // ══════════════════════════════════════════════════════════════════════════
     if (!currentCallStatus || currentCallStatus === "idle" || currentCallStatus === "ended") {
-      // Atomic compare-and-swap: only wins if DB still shows idle/ended.
-      // This prevents two simultaneous POST /token requests from both becoming
-      // the initiator.
+      const startsAppointment =
+        appointment.status !== "in-progress" &&
+        canTransition(appointment.status, "in-progress", role);
+      if (
+        appointment.status !== "in-progress" &&
+        !startsAppointment &&
+        !(adHocApprovedRecently && ["pending", "rescheduled"].includes(appointment.status))
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: `A call cannot be started on an appointment that is ${appointment.status}`,
+        });
+      }
+
+      if (!isDoctor && !adHocApprovedRecently && mustWaitForAdmission(appointment)) {
+        try {
+          const seated = await enterWaitingRoom(appointmentId, userId);
+          if (seated.waitingRoom.status === "waiting") {
+            return res.status(202).json({
+              success: true,
+              data: { callStatus: "waiting", ...seated },
+              message: "You're in the waiting room. The doctor will admit you shortly.",
+            });
+          }
+        } catch (err) {
+          if (err instanceof WaitingRoomError) return sendWaitingRoomError(res, err);
+          throw err;
+        }
+      }
+
+      // Atomic compare-and-swap: only wins if DB still shows idle/ended (and
+      // the status we checked above). This prevents two simultaneous
+      // POST /token requests from both becoming the initiator.
       const initiated = await Appointment.findOneAndUpdate(
         {
           _id:        appointmentId,
+          status:     appointment.status,
           callStatus: { $in: [null, "idle", "ended"] },
         },
         {
+          $push: {
+            // One attempt per call — closed again by end / decline / timeout.
+            callAttempts: { startedAt: new Date(), participants: [participantObjectId] },
+            ...(startsAppointment && {
+              statusHistory: buildStatusChange(appointment.status, "in-progress", role, userId, "Call started"),
+            }),
+          },
           $set: {
             callStatus:      "ringing",
             callInitiatedBy: role,
             callChannelName: channelName,
             callType:        requestedCallType,
-            status:          "in-progress",
+            ...(startsAppointment && { status: "in-progress" }),
             // Reset participant list — fresh call, fresh slate.
             callParticipants: [participantObjectId],
             // Clear stale call metadata from a previous call.
@@ -154,6 +230,14 @@ export const generateVideoToken = asyncHandler(
         });
       }
 
+      await recordCallJoin(appointmentId, userId, participantKind);
+
+      if (isDoctor && mustWaitForAdmission(appointment)) {
+        admitPatient(appointment, new Date(), true).catch((err: any) =>
+          console.error("⚠️ Waiting-room admit failed (non-fatal):", err.message)
+        );
+      }
+
       // ── Notify the other participant (fire-and-forget) ───────────────────
       try {
         const Conversation = require("../models/conversation").default;
@@ -224,6 +308,7 @@ export const generateVideoToken = asyncHandler(
           $addToSet: { callParticipants: participantObjectId },
         }
       );
+      await recordCallJoin(appointmentId, userId, participantKind);
 
       return res.json({
         success: true,
@@ -249,6 +334,7 @@ export const generateVideoToken = asyncHandler(
         { _id: appointmentId },
         { $addToSet: { callParticipants: participantObjectId } }
       );
+      await recordCallJoin(appointmentId, userId, participantKind);
 
       return res.json({
         success: true,
@@ -308,6 +394,7 @@ export const endVideoCall = asyncHandler(async (req: Request, res: Response) =>
   if (!result) {
     return res.status(404).json({ success: false, message: "Appointment not found" });
   }
+  await closeOpenCallAttempt(appointmentId, "completed", finalDuration);
 
   // Notify everyone in the appointment room that the call has ended.
   emitCallEnded(userId!, appointmentId.toString(), finalDuration);
@@ -337,7 +424,7 @@ export const declineCall = asyncHandler(async (req: Request, res: Response) => {
   }
 
   // Only reset if still ringing — idempotent otherwise.
-  await Appointment.updateOne(
+  const declined = await Appointment.updateOne(
     { _id: appointmentId, callStatus: "ringing" },
     {
       $set: {
@@ -346,6 +433,7 @@ export const declineCall = asyncHandler(async (req: Request, res: Response) => {
       },
     }
   );
+  if (declined.modifiedCount) await closeOpenCallAttempt(appointmentId, "cancelled", 0);
 
   // Notify the initiator (who is waiting in the appointment socket room).
   const { io } = require("../index");
@@ -386,7 +474,7 @@ export const getCallStatus = asyncHandler(async (req: Request, res: Response) =>
   }
 
   const minutesDiff = Math.floor((new Date(appointment.scheduledAt).getTime() - Date.now()) / 60000);
-  const canJoin     = appointment.status !== "cancelled" && minutesDiff <= 15;
+  const canJoin     = appointment.status !== "cancelled" && minutesDiff <= WAITING_ROOM_OPENS_MINUTES;
 
   return res.json({
     success: true,
@@ -399,7 +487,7 @@ export const getCallStatus = asyncHandler(async (req: Request, res: Response) =>
       canJoin,
       canRejoin:           appointment.status !== "cancelled" && appointment.callStatus === "ended",
       minutesUntilCall:    minutesDiff,
-      minutesUntilCanJoin: Math.max(0, minutesDiff - 15),
+      minutesUntilCanJoin: Math.max(0, minutesDiff - WAITING_ROOM_OPENS_MINUTES),
       channelName:         appointment.callChannelName,
       callStartedAt:       appointment.callStartedAt,
       callDuration:        appointment.callDuration,
@@ -432,6 +520,7 @@ export const confirmCallJoin = asyncHandler(async (req: Request, res: Response)
       $addToSet: { callParticipants: new mongoose.Types.ObjectId(userId) },
     }
   );
+  await recordCallJoin(appointmentId, userId, req.auth?.role === "Doctor" ? "doctor" : "patient");
 
   return res.json({ success: true, message: "Call join confirmed" });
 });
@@ -462,33 +551,38 @@ export const handleCallDisconnect = asyncHandler(async (req: Request, res: Respo
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
-// GET /api/v1/video/ice-servers
-// Returns ICE server config from environment variables so TURN credentials can
-// be rotated on the backend without ever rebuilding the mobile app.
-//
-// Env vars (all optional — app falls back to Google STUN if none are set):
-//   STUN_SERVER_URL       e.g. stun:stun.relay.metered.ca:80
-//   TURN_SERVER_URL_1..4  e.g. turn:global.relay.metered.ca:80
-//   TURN_USERNAME_1..4    matching username
-//   TURN_CREDENTIAL_1..4  matching credential
-// ─────────────────────────────────────────────────────────────────────────────
-export const getIceServers = asyncHandler(async (_req: Request, res: Response) => {
-  const servers: any[] = [];
-
-  // Custom STUN (Metered) — falls back to Google STUN if not set
-  const stunUrl = process.env.STUN_SERVER_URL || "stun:stun.l.google.com:19302";
-  servers.push({ urls: stunUrl });
-  servers.push({ urls: "stun:stun1.l.google.com:19302" });
-
-  // Up to 4 TURN entries — add each one that has a URL configured
-  for (let i = 1; i <= 4; i++) {
-    const url        = process.env[`TURN_SERVER_URL_${i}`];
-    const username   = process.env[`TURN_USERNAME_${i}`]   || "";
-    const credential = process.env[`TURN_CREDENTIAL_${i}`] || "";
-    if (url) servers.push({ urls: url, username, credential });
+// GET /api/v1/video/ice-servers?appointmentId=...
+// Returns ICE server config. TURN credentials are minted per request for the
+// caller and appointment (services/TurnCredentialService.ts) and stop working
+// after TURN_CREDENTIAL_TTL_SECONDS, so a leaked one is only briefly useful.
+// appointmentId is optional: older app builds call this without one and get
+// credentials scoped to the caller alone.
+// Clients should fetch fresh servers for every call rather than caching them.
+// Env vars are listed on buildIceServers.
+// ─────────────────────────────────────────────────────────────────────────────
+export const getIceServers = asyncHandler(async (req: Request, res: Response) => {
+  const userId        = req.auth?.id;
+  const appointmentId = typeof req.query.appointmentId === "string" ? req.query.appointmentId : "";
+
+  if (!userId) {
+    return res.status(400).json({ success: false, message: "Missing required fields" });
+  }
+  if (!appointmentId) {
+    return res.json({ success: true, data: buildIceServers(userId) });
+  }
+  if (!mongoose.Types.ObjectId.isValid(appointmentId)) {
+    return res.status(400).json({ success: false, message: "Invalid appointmentId" });
   }
 
-  return res.json({ success: true, data: { iceServers: servers } });
+  const appointment = await Appointment.findById(appointmentId).select("userId doctorId").lean();
+  if (!appointment) {
+    return res.status(404).json({ success: false, message: "Appointment not found" });
+  }
+  if (![extractId(appointment.doctorId), extractId(appointment.userId)].includes(userId)) {
+    return res.status(403).json({ success: false, message: "You are not part of this appointment" });
+  }
+
+  return res.json({ success: true, data: buildIceServers(userId, appointmentId) });
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -505,3 +599,189 @@ export const reportCallIssue = asyncHandler(async (req: Request, res: Response)
   console.log(`⚠️ Call issue [${issueType}] reported by ${userId} for appointment ${appointmentId}: ${description || ""}`);
   return res.status(200).json({ success: true, message: "Issue reported" });
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /api/v1/video/stats
+// Periodic WebRTC stats from a participant's device, batched:
+//   { appointmentId, samples: [{ timestamp, rttMs, jitterMs, packetLossPct,
+//     inboundBitrateKbps, outboundBitrateKbps, localCandidateType,
+//     remoteCandidateType, networkType }] }
+// The "call-stats" socket event accepts the same payload.
+// ─────────────────────────────────────────────────────────────────────────────
+export const postCallStats = asyncHandler(async (req: Request, res: Response) => {
+  const { appointmentId, samples } = req.body;
+  const userId = req.auth?.id;
+
+  if (!appointmentId || !userId) {
+    return res.status(400).json({ success: false, message: "Missing required fields" });
+  }
+
+  try {
+    const result = await recordCallStats(String(appointmentId), userId, samples);
+    return res.status(202).json({ success: true, data: result });
+  } catch (err) {
+    if (err instanceof CallTelemetryError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
+    throw err;
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /api/v1/video/report/:appointmentId
+// Per-call quality summary built from the posted stats.
+// ─────────────────────────────────────────────────────────────────────────────
+export const getCallReport = asyncHandler(async (req: Request, res: Response) => {
+  const { appointmentId } = req.params;
+  const userId = req.auth?.id;
+
+  if (!mongoose.Types.ObjectId.isValid(appointmentId)) {
+    return res.status(404).json({ success: false, message: "Appointment not found" });
+  }
+  const appointment = await Appointment.findById(appointmentId).select("userId doctorId").lean();
+  if (!appointment) {
+    return res.status(404).json({ success: false, message: "Appointment not found" });
+  }
+  if (![extractId(appointment.doctorId), extractId(appointment.userId)].includes(userId || "")) {
+    return res.status(403).json({ success: false, message: "You are not part of this appointment" });
+  }
+
+  const report = await buildCallReport(appointmentId);
+  return res.json({ success: true, data: report });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /api/v1/video/waiting-room/enter   (patient)
+// Enter — or, called again every ~30s, stay in — the waiting room. Returns the
+// current wait estimate; later ones arrive as "waiting-room-estimate" events.
+// ─────────────────────────────────────────────────────────────────────────────
+export const enterWaitingRoomHandler = asyncHandler(async (req: Request, res: Response) => {
+  const { appointmentId } = req.body;
+  const userId = req.auth?.id;
+
+  if (!appointmentId || !userId) {
+    return res.status(400).json({ success: false, message: "appointmentId is required" });
+  }
+
+  try {
+    const data = await enterWaitingRoom(String(appointmentId), userId);
+    return res.json({ success: true, data });
+  } catch (err) {
+    if (err instanceof WaitingRoomError) return sendWaitingRoomError(res, err);
+    throw err;
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /api/v1/video/waiting-room/leave   (patient)
+// ─────────────────────────────────────────────────────────────────────────────
+export const leaveWaitingRoomHandler = asyncHandler(async (req: Request, res: Response) => {
+  const { appointmentId } = req.body;
+  const userId = req.auth?.id;
+
+  if (!appointmentId || !userId) {
+    return res.status(400).json({ success: false, message: "appointmentId is required" });
+  }
+
+  try {
+    await leaveWaitingRoom(String(appointmentId), userId);
+    return res.json({ success: true, message: "Left the waiting room" });
+  } catch (err) {
+    if (err instanceof WaitingRoomError) return sendWaitingRoomError(res, err);
+    throw err;
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /api/v1/video/waiting-room   (doctor)
+// Patients currently waiting for this doctor, in scheduled order.
+// ─────────────────────────────────────────────────────────────────────────────
+export const getWaitingRoom = asyncHandler(async (req: Request, res: Response) => {
+  const data = await getDoctorWaitingRoom(req.auth!.id!);
+  return res.json({ success: true, data });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /api/v1/video/waiting-room/admit   (doctor)
+// ─────────────────────────────────────────────────────────────────────────────
+export const admitFromWaitingRoom = asyncHandler(async (req: Request, res: Response) => {
+  const { appointmentId } = req.body;
+  const doctorId = req.auth?.id;
+
+  if (!appointmentId || !doctorId) {
+    return res.status(400).json({ success: false, message: "appointmentId is required" });
+  }
+
+  try {
+    await admitWaitingPatient(String(appointmentId), doctorId);
+    return res.json({ success: true, message: "Patient admitted" });
+  } catch (err) {
+    if (err instanceof WaitingRoomError) return sendWaitingRoomError(res, err);
+    throw err;
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /api/v1/video/appointments/:appointmentId/invites
+// Invite an interpreter, family member or second doctor into the call.
+// Body: { role, name, email?, permission?: "participant" | "view-only" }
+// The link in the response is shown once — only its hash is stored.
+// ─────────────────────────────────────────────────────────────────────────────
+export const createInvite = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const data = await createCallInvite(
+      req.params.appointmentId,
+      { id: req.auth!.id!, role: req.auth!.role as "Doctor" | "User" },
+      req.body || {}
+    );
+    return res.status(201).json({ success: true, data });
+  } catch (err) {
+    if (err instanceof CallInviteError) return sendCallInviteError(res, err);
+    throw err;
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GET /api/v1/video/appointments/:appointmentId/invites
+// ─────────────────────────────────────────────────────────────────────────────
+export const getInvites = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const data = await listCallInvites(req.params.appointmentId, req.auth!.id!);
+    return res.json({ success: true, data });
+  } catch (err) {
+    if (err instanceof CallInviteError) return sendCallInviteError(res, err);
+    throw err;
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DELETE /api/v1/video/appointments/:appointmentId/invites/:inviteId
+// Revoke an invite; a guest already on the call is disconnected.
+// ─────────────────────────────────────────────────────────────────────────────
+export const revokeInvite = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const data = await revokeCallInvite(req.params.appointmentId, req.params.inviteId, {
+      id: req.auth!.id!,
+      role: req.auth!.role as "Doctor" | "User",
+    });
+    return res.json({ success: true, data, message: "Invite revoked" });
+  } catch (err) {
+    if (err instanceof CallInviteError) return sendCallInviteError(res, err);
+    throw err;
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /api/v1/video/invites/join   (public — the invite link's token)
+// Returns a guest session token for the Socket.IO connection, the call's
+// participants and ICE servers. Calling it again refreshes them.
+// ─────────────────────────────────────────────────────────────────────────────
+export const joinInvite = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const data = await joinWithInvite(String(req.body?.token || ""));
+    return res.json({ success: true, data });
+  } catch (err) {
+    if (err instanceof CallInviteError) return sendCallInviteError(res, err);
+    throw err;
+  }
+});
@@ -0,0 +1,179 @@
+// controllers/waitlistController.ts
+import mongoose from "mongoose";
+import { Request, Response } from "express";
+import asyncHandler from "../middleware/asyncHandler";
+import { Doctor } from "../models/doctor";
+import { FamilyMember } from "../models/FamilyMember";
+import { WaitlistEntry } from "../models/WaitlistEntry";
+import {
+  getBookableSlots,
+  MAX_SLOT_RANGE_DAYS,
+  readAvailability,
+} from "../services/AvailabilityService";
+import { CONSULTATION_TYPES } from "../services/ConsultationPaymentService";
+import { leaveWaitlist, passOnOffer } from "../services/WaitlistService";
+
+/**
+ * @desc Join a doctor's waitlist for a date range. Only allowed while the
+ *       doctor has no free slot in that range — otherwise the free slots are
+ *       returned so the patient can just book one.
+ * @route POST /api/v1/waitlist
+ * @access User
+ */
+export const joinWaitlist = asyncHandler(async (req: Request, res: Response) => {
+  const { doctorId, from, to, consultationType, familyMemberId } = req.body;
+
+  if (!doctorId || !from || !to) {
+    res.status(400);
+    throw new Error("doctorId, from, and to are required.");
+  }
+  if (!mongoose.Types.ObjectId.isValid(doctorId)) {
+    res.status(404);
+    throw new Error("Doctor not found or not approved.");
+  }
+  if (consultationType !== undefined && !CONSULTATION_TYPES.includes(consultationType)) {
+    res.status(400);
+    throw new Error(`consultationType must be one of: ${CONSULTATION_TYPES.join(", ")}.`);
+  }
+
+  const now = new Date();
+  const toDate = new Date(to);
+  // A range that started in the past only counts from now.
+  const fromDate = new Date(Math.max(new Date(from).getTime(), now.getTime()));
+  if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate >= toDate) {
+    res.status(400);
+    throw new Error("Invalid from/to date — to must be a future date after from.");
+  }
+  if (toDate.getTime() - fromDate.getTime() > MAX_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    res.status(400);
+    throw new Error(`Date range cannot exceed ${MAX_SLOT_RANGE_DAYS} days.`);
+  }
+
+  const doctor = await Doctor.findById(doctorId).select("status availability").lean();
+  if (!doctor || doctor.status !== "approved") {
+    res.status(404);
+    throw new Error("Doctor not found or not approved.");
+  }
+
+  if (familyMemberId) {
+    if (!mongoose.Types.ObjectId.isValid(familyMemberId)) {
+      res.status(400);
+      throw new Error("Invalid familyMemberId.");
+    }
+    if (!(await FamilyMember.exists({ _id: familyMemberId, userId: req.auth!.id }))) {
+      res.status(404);
+      throw new Error("Family member not found.");
+    }
+  }
+
+  const availability = readAvailability(doctor.availability);
+  const freeSlots = availability
+    ? await getBookableSlots(doctorId, availability, fromDate, toDate, req.auth!.id)
+    : [];
+  if (freeSlots.length) {
+    return res.status(409).json({
+      success: false,
+      code: "SLOTS_AVAILABLE",
+      message: "This doctor still has free slots in that range — pick one to book instead.",
+      slots: freeSlots.slice(0, 20),
+    });
+  }
+
+  try {
+    const entry = await WaitlistEntry.create({
+      userId: req.auth!.id,
+      doctorId,
+      familyMemberId: familyMemberId || undefined,
+      from: fromDate,
+      to: toDate,
+      consultationType,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+      message: "You're on the waitlist. We'll let you know as soon as a slot opens up.",
+    });
+  } catch (err: any) {
+    // E11000 from open_entry_unique — already waiting on this doctor.
+    if (err?.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        code: "ALREADY_WAITLISTED",
+        message: "You're already on this doctor's waitlist. Leave it first to change your dates.",
+      });
+    }
+    throw err;
+  }
+});
+
+/**
+ * @desc The logged-in patient's waitlist entries, open ones first
+ * @route GET /api/v1/waitlist
+ * @access User
+ */
+export const getMyWaitlist = asyncHandler(async (req: Request, res: Response) => {
+  const entries = await WaitlistEntry.find({ userId: req.auth!.id })
+    .populate("doctorId", "firstName lastName specialization profileImage")
+    .populate("familyMemberId", "name relationship")
+    .sort({ createdAt: -1 })
+    .limit(50)
+    .lean();
+
+  const open = (status: string) => (status === "offered" ? 0 : status === "waiting" ? 1 : 2);
+  entries.sort((a, b) => open(a.status) - open(b.status));
+
+  res.status(200).json({ success: true, data: entries });
+});
+
+/**
+ * @desc Turn down the slot currently offered, but stay on the waitlist
+ * @route POST /api/v1/waitlist/:id/decline
+ * @access User
+ */
+export const declineWaitlistOffer = asyncHandler(async (req: Request, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(404);
+    throw new Error("Waitlist entry not found.");
+  }
+  const entry = await WaitlistEntry.findOne({ _id: req.params.id, userId: req.auth!.id });
+  if (!entry) {
+    res.status(404);
+    throw new Error("Waitlist entry not found.");
+  }
+  if (entry.status !== "offered") {
+    res.status(400);
+    throw new Error("There is no slot on offer for this waitlist entry.");
+  }
+
+  const updated = await passOnOffer(entry);
+  if (!updated) {
+    return res.status(409).json({
+      success: false,
+      code: "OFFER_CHANGED",
+      message: "This offer has already moved on. Please refresh.",
+    });
+  }
+
+  res.status(200).json({ success: true, data: updated, message: "Offer declined. You're still on the waitlist." });
+});
+
+/**
+ * @desc Leave a waitlist. A slot currently held for the patient is released
+ *       to the next person in line.
+ * @route DELETE /api/v1/waitlist/:id
+ * @access User
+ */
+export const removeFromWaitlist = asyncHandler(async (req: Request, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(404);
+    throw new Error("Waitlist entry not found.");
+  }
+  const previous = await leaveWaitlist(req.params.id, req.auth!.id!);
+  if (!previous) {
+    res.status(404);
+    throw new Error("No open waitlist entry found.");
+  }
+
+  res.status(200).json({ success: true, message: "You've left the waitlist." });
+});
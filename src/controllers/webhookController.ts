@@ -2,6 +2,7 @@ import { Request, Response } from "express";
 import asyncHandler from "../middleware/asyncHandler";
 import { Payment } from "../models/initiatedPayment";
 import { Order } from "../models/order";
+import { settleConsultationPayment } from "../services/ConsultationPaymentService";
 import { createHmac, timingSafeEqual } from "crypto";
 
 const PARTNER_API_KEY= process.env.PARTNER_API_KEY;
@@ -114,7 +115,12 @@ console.log("[Webhook] Searched paymentId:", paymentId);
     payment.rawResponse = req.body;
     await payment.save();
 
-    /** ------------------ 6. Update Order (terminal states only) ------------------ */
+    /** ------------------ 6. Update Order / Appointment (terminal states only) ------------------ */
+    if (payment.appointmentId) {
+      await settleConsultationPayment(payment, normalizedStatus);
+      return res.status(200).json({ received: true });
+    }
+
     if (normalizedStatus === "success") {
       await Order.findByIdAndUpdate(payment.orderId, {
         paymentStatus: "paid",
@@ -6,6 +6,13 @@ import { NotificationService } from "../services/NotificationService";
 import { emitAppointmentEnded } from "../index";
 import { AccessRequest } from "../models/AccessRequest";
 import { User } from "../models/user";
+import { dispatchDueDoses, resurfaceSnoozedDoses } from "../services/MedicationReminderService";
+import { transitionAppointment } from "../services/AppointmentStateMachine";
+import { retryFailedRefunds } from "../services/CancellationService";
+import { rollLapsedOffers } from "../services/WaitlistService";
+import { recordAttendanceOutcome, refreshAllDoctorReliability } from "../services/ReliabilityService";
+import { broadcastAllWaitEstimates } from "../services/WaitingRoomService";
+import { closeLapsedCheckIns, dispatchDueCheckIns } from "../services/CheckInService";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // JOB 1: 15-minute appointment reminders (unchanged, runs every minute)
@@ -97,22 +104,26 @@ cron.schedule("*/15 * * * *", async () => {
         const doctorId  = appointment.doctorId?.toString();
 
         // ── Mark appointment completed (atomic — no .save() on populated doc) ─
-        await Appointment.updateOne(
-          { _id: appointment._id },
+        const expired = await transitionAppointment(
+          appointment._id as any,
+          appointment.status,
+          "completed",
+          "system",
           {
-            $set: {
-              status:      "completed",
-              callStatus:  "ended",
-              callEndedAt: now,
-              callEndedBy: "system",
-            },
+            reason: "Auto-expired 48h after scheduled time",
+            set: { callStatus: "ended", callEndedAt: now, callEndedBy: "system" },
           }
         );
+        // Someone else moved it in the meantime — nothing left for us to do.
+        if (!expired) continue;
+
+        // ── Who actually turned up (no-show detection) ─────────────────────
+        await recordAttendanceOutcome(appointment._id as any, now);
 
         // ── Lock the conversation ───────────────────────────────────────────
         await Conversation.findOneAndUpdate(
           { appointmentId: appointment._id },
-          { isActive: false }
+          { $set: { isActive: false }, $unset: { temporaryUnlock: "" } }
         );
 
         // ── Notify both parties ─────────────────────────────────────────────
@@ -229,5 +240,79 @@ cron.schedule("0 */4 * * *", async () => {
 
 
 
+// ── JOB: Medication reminders — fire due doses + snoozed follow-ups ───────────
+// Runs every minute; both steps are idempotent (see MedicationReminderService).
+cron.schedule("* * * * *", async () => {
+  try {
+    const now = new Date();
+    const sent = await dispatchDueDoses(now);
+    const resurfaced = await resurfaceSnoozedDoses(now);
+    if (sent || resurfaced) {
+      console.log(`💊 [MedicationReminderJob] Sent ${sent} dose reminders, ${resurfaced} snooze follow-ups`);
+    }
+  } catch (error) {
+    console.error("❌ [MedicationReminderJob] Error:", error);
+  }
+});
+
+// ── JOB: Retry cancellation refunds the partner rejected or that stalled ─────
+// Every 30 minutes, up to MAX_REFUND_ATTEMPTS per refund (see CancellationService).
+cron.schedule("*/30 * * * *", async () => {
+  try {
+    const refunded = await retryFailedRefunds();
+    if (refunded) console.log(`💸 [RefundRetryJob] ${refunded} refunds went through on retry`);
+  } catch (error) {
+    console.error("❌ [RefundRetryJob] Error:", error);
+  }
+});
+
+// ── JOB: Roll unclaimed waitlist offers on to the next patient ───────────────
+// Every minute — offers only last WAITLIST_OFFER_MINUTES (see WaitlistService).
+cron.schedule("* * * * *", async () => {
+  try {
+    const rolled = await rollLapsedOffers();
+    if (rolled) console.log(`⏳ [WaitlistJob] Rolled ${rolled} lapsed waitlist offers`);
+  } catch (error) {
+    console.error("❌ [WaitlistJob] Error:", error);
+  }
+});
+
+// ── JOB: Roll doctor reliability scores forward ──────────────────────────────
+// Daily at 03:00 — scores cover a rolling window (see config/reliability.ts).
+cron.schedule("0 3 * * *", async () => {
+  try {
+    const refreshed = await refreshAllDoctorReliability();
+    console.log(`📊 [ReliabilityJob] Refreshed ${refreshed} doctor reliability scores`);
+  } catch (error) {
+    console.error("❌ [ReliabilityJob] Error:", error);
+  }
+});
+
+// ── JOB: Re-estimate waits for patients in the waiting room ─────────────────
+// Every minute, so a doctor overrunning a consult shows up as a growing wait.
+cron.schedule("* * * * *", async () => {
+  try {
+    await broadcastAllWaitEstimates();
+  } catch (error) {
+    console.error("❌ [WaitingRoomJob] Error:", error);
+  }
+});
+
+// ── JOB: Post-consultation check-ins ─────────────────────────────────────────
+// Every minute: send the ones that came due, then close reply windows that
+// have passed and re-lock chats opened for them (see CheckInService).
+cron.schedule("* * * * *", async () => {
+  try {
+    const now = new Date();
+    const sent = await dispatchDueCheckIns(now);
+    const locked = await closeLapsedCheckIns(now);
+    if (sent || locked) {
+      console.log(`📨 [CheckInJob] Sent ${sent} check-ins, re-locked ${locked} chats`);
+    }
+  } catch (error) {
+    console.error("❌ [CheckInJob] Error:", error);
+  }
+});
+
 console.log("✅ Appointment reminder + auto-expiry cron jobs started");
 
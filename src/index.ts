@@ -42,9 +42,24 @@ import medicationReminderRouter from "./routes/medicationReminderRoutes";
 import familyMemberRouter from "./routes/familyMemberRoutes";
 import reviewRouter from "./routes/reviewRoutes";
 import legalRouter from "./routes/legalRoutes";
+import waitlistRouter from "./routes/waitlistRoutes";
+import calendarRouter from "./routes/calendarRoutes";
+import intakeFormRouter from "./routes/intakeFormRoutes";
+import checkInRouter from "./routes/checkInRoutes";
+import messageTemplateRouter from "./routes/messageTemplateRoutes";
 
 import { Server } from "socket.io";
 import { verifyJwtToken } from "./middleware/auth";
+import { signalingRoster } from "./services/CallInviteService";
+import { CallTelemetryError, recordCallStats } from "./services/CallTelemetryService";
+import {
+  ChatMessageError,
+  getQueuedMessages,
+  markConversationRead,
+  markMessagesDelivered,
+  sendChatMessage,
+  sendTypingIndicator,
+} from "./services/ChatMessageService";
 import rateLimit from "express-rate-limit";
 
 const app = express();
@@ -135,6 +150,12 @@ io.on("connection", (socket) => {
   const userId = user.id.toString();
   const userRoomName = `user_${userId}`;
 
+  // Invited call guests (services/CallInviteService.ts) hold a token for one
+  // appointment and may only signal within its room.
+  const isCallGuest = user.role === "CallGuest";
+  const canUseAppointment = (appointmentId: string) =>
+    !isCallGuest || String(appointmentId) === String(user.appointmentId);
+
   // Join user-specific room (for notifications)
   socket.join(userRoomName);
   connectedUsers.set(userId, socket.id);
@@ -151,8 +172,33 @@ io.on("connection", (socket) => {
     timestamp: new Date().toISOString(),
   });
 
+  // ✅ Deliver chat messages that arrived while this user was offline, in the
+  // order they were sent. Replayed messages are marked delivered as they go
+  // out (their senders get "messages-delivered"), so each is replayed once
+  // rather than on every connection; clients should still ignore a message
+  // _id they already have.
+  if (!isCallGuest) {
+    getQueuedMessages(userId)
+      .then(async (queued) => {
+        const byConversation = new Map<string, string[]>();
+        for (const { conversationId, message } of queued) {
+          socket.emit("new-message", { conversationId, message, queued: true, timestamp: new Date().toISOString() });
+          byConversation.set(conversationId, [...(byConversation.get(conversationId) || []), String(message._id)]);
+        }
+        for (const [conversationId, messageIds] of byConversation) {
+          await markMessagesDelivered(conversationId, userId, messageIds);
+        }
+        if (queued.length) console.log(`💬 Replayed ${queued.length} queued message(s) to user ${userId}`);
+      })
+      .catch((err) => console.error(`❌ Failed to replay queued messages for ${userId}:`, err));
+  }
+
   // ✅ Join appointment room
   socket.on("join-appointment", ({ appointmentId }: { appointmentId: string }) => {
+    if (!canUseAppointment(appointmentId)) {
+      socket.emit("error", { message: "Not allowed in this appointment" });
+      return;
+    }
     const roomName = `appointment:${appointmentId}`;
     socket.join(roomName);
 
@@ -197,30 +243,74 @@ io.on("connection", (socket) => {
   });
 
   // ─── WebRTC signaling relay ──────────────────────────────────────────────
-  // All four events are relayed to everyone ELSE in the appointment room.
-  // socket.to() excludes the sender, so there is no echo back.
-
-  socket.on("webrtc-ready", ({ appointmentId }: { appointmentId: string }) => {
-    const roomName = `appointment:${appointmentId}`;
-    socket.to(roomName).emit("webrtc-ready", { appointmentId });
-    console.log(`🎥 webrtc-ready relayed for appointment ${appointmentId} by user ${userId}`);
+  // Relayed to everyone ELSE in the appointment room — socket.to() excludes
+  // the sender, so there is no echo back. Every relayed payload carries
+  // `from` (the sender's participant id). With more than two people on the
+  // call, clients address offers / answers / candidates to one peer with
+  // `to`, which goes to that participant's user room instead of the whole
+  // appointment room (a mesh, one peer connection per pair; an SFU is just
+  // one more participant to address). Both the sender and `to` must be on
+  // the appointment's roster (services/CallInviteService.signalingRoster).
+  // The roster check is async, so a socket's signals are relayed one after
+  // another in the order they arrived — otherwise ICE candidates could
+  // overtake the offer they belong to while it waits on the database.
+  let relayQueue: Promise<unknown> = Promise.resolve();
+  const relaySignal = (event: string, appointmentId: string, to: string | undefined, payload: object) => {
+    const relayed = relayQueue.then(() => relayNow(event, appointmentId, to, payload));
+    relayQueue = relayed.catch(() => undefined);
+    return relayed;
+  };
+  const relayNow = async (event: string, appointmentId: string, to: string | undefined, payload: object) => {
+    if (!canUseAppointment(appointmentId)) return false;
+    try {
+      const roster = await signalingRoster(String(appointmentId));
+      if (!roster.has(userId) || (to && !roster.has(String(to)))) {
+        console.warn(`⚠️ ${event} from ${userId} for appointment ${appointmentId} dropped: not on the call roster`);
+        return false;
+      }
+    } catch (err) {
+      console.error(`❌ Could not check the call roster for appointment ${appointmentId}:`, err);
+      return false;
+    }
+    const message = { appointmentId, from: userId, ...payload };
+    if (to) io.to(`user_${to}`).emit(event, message);
+    else socket.to(`appointment:${appointmentId}`).emit(event, message);
+    return true;
+  };
+
+  // A view-only guest receives media but never sends it: they may not offer
+  // (which is also how tracks get added mid-call), and their answers must
+  // leave every media section receive-only.
+  const isViewOnlyGuest = isCallGuest && user.permission === "view-only";
+  // (A media section without a direction attribute defaults to sendrecv.)
+  const sendsMedia = (description: any) =>
+    String(description?.sdp ?? "")
+      .split(/^(?=m=)/m)
+      .filter((section) => /^m=(audio|video)/.test(section))
+      .some((section) => !/^a=(recvonly|inactive)\s*$/m.test(section));
+
+  socket.on("webrtc-ready", async ({ appointmentId, to }: { appointmentId: string; to?: string }) => {
+    if (await relaySignal("webrtc-ready", appointmentId, to, {})) {
+      console.log(`🎥 webrtc-ready relayed for appointment ${appointmentId} by user ${userId}`);
+    }
   });
 
-  socket.on("webrtc-offer", ({ appointmentId, offer }: { appointmentId: string; offer: any }) => {
-    const roomName = `appointment:${appointmentId}`;
-    socket.to(roomName).emit("webrtc-offer", { appointmentId, offer });
-    console.log(`🎥 webrtc-offer relayed for appointment ${appointmentId}`);
+  socket.on("webrtc-offer", async ({ appointmentId, offer, to }: { appointmentId: string; offer: any; to?: string }) => {
+    if (isViewOnlyGuest) return;
+    if (await relaySignal("webrtc-offer", appointmentId, to, { offer })) {
+      console.log(`🎥 webrtc-offer relayed for appointment ${appointmentId}`);
+    }
   });
 
-  socket.on("webrtc-answer", ({ appointmentId, answer }: { appointmentId: string; answer: any }) => {
-    const roomName = `appointment:${appointmentId}`;
-    socket.to(roomName).emit("webrtc-answer", { appointmentId, answer });
-    console.log(`🎥 webrtc-answer relayed for appointment ${appointmentId}`);
+  socket.on("webrtc-answer", async ({ appointmentId, answer, to }: { appointmentId: string; answer: any; to?: string }) => {
+    if (isViewOnlyGuest && sendsMedia(answer)) return;
+    if (await relaySignal("webrtc-answer", appointmentId, to, { answer })) {
+      console.log(`🎥 webrtc-answer relayed for appointment ${appointmentId}`);
+    }
   });
 
-  socket.on("webrtc-ice-candidate", ({ appointmentId, candidate }: { appointmentId: string; candidate: any }) => {
-    const roomName = `appointment:${appointmentId}`;
-    socket.to(roomName).emit("webrtc-ice-candidate", { appointmentId, candidate });
+  socket.on("webrtc-ice-candidate", ({ appointmentId, candidate, to }: { appointmentId: string; candidate: any; to?: string }) => {
+    void relaySignal("webrtc-ice-candidate", appointmentId, to, { candidate });
   });
 
   // Explicit UI-sync signal for mid-call video<->voice switching. The actual
@@ -229,16 +319,93 @@ io.on("connection", (socket) => {
   // removed track reliably via WebRTC's own events is far less dependable
   // than detecting an added one (which ontrack already handles).
   socket.on("webrtc-call-mode-changed", ({ appointmentId, callMode }: { appointmentId: string; callMode: "audio" | "video" }) => {
+    if (!canUseAppointment(appointmentId) || isViewOnlyGuest) return;
     const roomName = `appointment:${appointmentId}`;
-    socket.to(roomName).emit("webrtc-call-mode-changed", { appointmentId, callMode });
+    socket.to(roomName).emit("webrtc-call-mode-changed", { appointmentId, callMode, from: userId });
     console.log(`🎥 webrtc-call-mode-changed (${callMode}) relayed for appointment ${appointmentId}`);
   });
   // ────────────────────────────────────────────────────────────────────────
 
+  // ✅ Call quality telemetry — same payload as POST /api/v1/video/stats.
+  // The optional ack tells the client whether to keep or drop its buffer.
+  socket.on(
+    "call-stats",
+    async (
+      { appointmentId, samples }: { appointmentId: string; samples: unknown },
+      ack?: (response: { success: boolean; accepted?: number; message?: string }) => void
+    ) => {
+      try {
+        const result = await recordCallStats(String(appointmentId), userId, samples);
+        ack?.({ success: true, accepted: result.accepted });
+      } catch (err: any) {
+        if (!(err instanceof CallTelemetryError)) {
+          console.error(`❌ call-stats from ${userId} for appointment ${appointmentId}:`, err);
+        }
+        ack?.({ success: false, message: err instanceof CallTelemetryError ? err.message : "Could not store stats" });
+      }
+    }
+  );
+
+  // ─── Doctor-patient chat ─────────────────────────────────────────────────
+  // The same operations as the REST chat endpoints, each answered with an
+  // ack: { success: true, data } or { success: false, message }. A client
+  // that gets no ack can resend "send-message" with the same
+  // clientMessageId — the server stores it only once.
+  type ChatAck = (response: { success: boolean; data?: any; code?: string; message?: string }) => void;
+  const onChatEvent = (event: string, handle: (payload: any) => Promise<any>) => {
+    socket.on(event, async (payload: any, ack?: ChatAck) => {
+      if (typeof ack !== "function") ack = undefined;
+      if (isCallGuest) {
+        ack?.({ success: false, message: "Chat is not available to call guests" });
+        return;
+      }
+      try {
+        ack?.({ success: true, data: await handle(payload || {}) });
+      } catch (err: any) {
+        if (!(err instanceof ChatMessageError)) {
+          console.error(`❌ ${event} from ${userId}:`, err);
+        }
+        ack?.(
+          err instanceof ChatMessageError
+            ? { success: false, code: err.code, message: err.message }
+            : { success: false, message: "Something went wrong" }
+        );
+      }
+    });
+  };
+
+  onChatEvent("send-message", async ({ conversationId, ...input }) => {
+    const { message, duplicate } = await sendChatMessage(String(conversationId ?? ""), userId, input);
+    return { message, duplicate };
+  });
+
+  onChatEvent("typing", async ({ conversationId, isTyping }) => {
+    await sendTypingIndicator(String(conversationId ?? ""), userId, Boolean(isTyping));
+  });
+
+  onChatEvent("mark-read", async ({ conversationId }) => ({
+    updated: await markConversationRead(String(conversationId ?? ""), userId),
+  }));
+
+  // Sent by the recipient's app for each "new-message" it receives (live or
+  // replayed); omit messageIds to acknowledge everything pending.
+  onChatEvent("message-delivered", async ({ conversationId, messageIds }) => ({
+    delivered: await markMessagesDelivered(String(conversationId ?? ""), userId, messageIds),
+  }));
+  // ────────────────────────────────────────────────────────────────────────
+
   // ✅ Handle disconnect
   socket.on("disconnect", (reason) => {
     connectedUsers.delete(userId);
 
+    if (isCallGuest) {
+      io.to(`appointment:${user.appointmentId}`).emit("participant-left", {
+        appointmentId: user.appointmentId,
+        participantId: userId,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
     // Remove user from all appointment rooms
     appointmentRooms.forEach((members, appointmentId) => {
       members.delete(userId);
@@ -476,6 +643,26 @@ export const emitMessageRead = (
   }
 };
 
+// Tell the sender which of their messages reached the recipient's app
+export const emitMessagesDelivered = (
+  conversationId: string,
+  senderId: string,
+  messageIds: string[],
+  deliveredAt: Date
+) => {
+  try {
+    io.to(`user_${senderId}`).emit("messages-delivered", {
+      conversationId,
+      messageIds,
+      deliveredAt: deliveredAt.toISOString(),
+    });
+    return true;
+  } catch (error) {
+    console.error(`❌ Failed to emit messages delivered:`, error);
+    return false;
+  }
+};
+
 // ✅ NEW: Emit video call request
 export const emitVideoCallRequest = (
   conversationId: string,
@@ -557,16 +744,90 @@ export const emitAppointmentEnded = (
   }
 };
 
+/**
+ * Waiting-room changes (entered / left / admitted) — to the appointment room
+ * and to both participants' user rooms, so the doctor's queue updates from
+ * whichever screen they are on.
+ */
+export const emitWaitingRoomUpdated = (
+  appointmentId: string,
+  patientId: string,
+  doctorId: string,
+  waitingRoom: { status: string; enteredAt?: Date; admittedAt?: Date; leftAt?: Date }
+) => {
+  try {
+    const payload = { appointmentId, ...waitingRoom, timestamp: new Date().toISOString() };
+    io.to(`appointment:${appointmentId}`)
+      .to(`user_${patientId}`)
+      .to(`user_${doctorId}`)
+      .emit("waiting-room-updated", payload);
+    console.log(`🚪 waiting-room-updated (${waitingRoom.status}) for appointment ${appointmentId}`);
+    return true;
+  } catch (error) {
+    console.error("❌ Failed to emit waiting-room-updated:", error);
+    return false;
+  }
+};
+
+/** Estimated wait for a patient in the waiting room. */
+export const emitWaitingRoomEstimate = (appointmentId: string, patientId: string, estimate: object) => {
+  try {
+    io.to(`appointment:${appointmentId}`)
+      .to(`user_${patientId}`)
+      .emit("waiting-room-estimate", { appointmentId, ...estimate, timestamp: new Date().toISOString() });
+    return true;
+  } catch (error) {
+    console.error("❌ Failed to emit waiting-room-estimate:", error);
+    return false;
+  }
+};
+
+/** An invited guest joined the call — peers set up a connection to them. */
+export const emitParticipantJoined = (appointmentId: string, participant: { participantId: string } & object) => {
+  try {
+    io.to(`appointment:${appointmentId}`).emit("participant-joined", {
+      appointmentId,
+      ...participant,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`👥 participant-joined (${participant.participantId}) for appointment ${appointmentId}`);
+    return true;
+  } catch (error) {
+    console.error("❌ Failed to emit participant-joined:", error);
+    return false;
+  }
+};
+
+/** An invite was revoked — tell the room, then cut the guest's sockets. */
+export const emitParticipantRemoved = (appointmentId: string, participantId: string) => {
+  try {
+    io.to(`appointment:${appointmentId}`).emit("participant-removed", {
+      appointmentId,
+      participantId,
+      timestamp: new Date().toISOString(),
+    });
+    io.in(`user_${participantId}`).disconnectSockets(true);
+    console.log(`👥 participant-removed (${participantId}) for appointment ${appointmentId}`);
+    return true;
+  } catch (error) {
+    console.error("❌ Failed to emit participant-removed:", error);
+    return false;
+  }
+};
+
 export const emitAccessRequestUpdate = (
   doctorId: string,
   accessRequestId: string,
-  status: "approved" | "denied" | "expired"
+  status: "approved" | "denied" | "expired",
+  dependent?: { id: string; name: string }
 ) => {
   try {
     const roomName = `user_${doctorId}`;
     io.to(roomName).emit("access-request-update", {
       accessRequestId,
       status,
+      familyMemberId: dependent?.id,
+      familyMemberName: dependent?.name,
       timestamp: new Date().toISOString(),
     });
     console.log(`🏥 access-request-update (${status}) sent to doctor ${doctorId}`);
@@ -583,6 +844,25 @@ export const emitConversationUnlocked = (conversationId: string, patientId: stri
   console.log(`🔓 conversation-unlocked emitted to patient ${patientId}`);
 };
 
+// A chat opened only for check-in replies has locked again
+export const emitConversationLocked = (conversationId: string, patientId: string) => {
+  io.to(`user_${patientId}`).emit("conversation-locked", { conversationId });
+  console.log(`🔒 conversation-locked emitted to patient ${patientId}`);
+};
+
+export const emitCheckInAnswered = (
+  doctorId: string,
+  payload: { checkInId: string; appointmentId: string; conversationId: string }
+) => {
+  try {
+    io.to(`user_${doctorId}`).emit("check-in-answered", { ...payload, timestamp: new Date().toISOString() });
+    return true;
+  } catch (error) {
+    console.error("❌ Failed to emit check-in-answered:", error);
+    return false;
+  }
+};
+
 // ✅ Helper to check if user is online
 export const isUserOnline = (userId: string): boolean => {
   return connectedUsers.has(userId);
@@ -692,6 +972,11 @@ app.use("/api/v1/webhooks", webhookRouter);
 app.use("/api/v1/medication-reminders", medicationReminderRouter);
 app.use("/api/v1/family", familyMemberRouter);
 app.use("/api/v1/reviews", reviewRouter);
+app.use("/api/v1/waitlist", waitlistRouter);
+app.use("/api/v1/calendar", calendarRouter);
+app.use("/api/v1/intake-forms", intakeFormRouter);
+app.use("/api/v1/message-templates", messageTemplateRouter);
+app.use("/api/v1/check-ins", checkInRouter);
 
 app.use(errorHandler);
 
@@ -34,6 +34,9 @@ interface JwtPayload {
   name?: string;
   sessionId?: string;
   isAnonymous?: boolean;
+  // CallGuest tokens only — the one appointment the guest may take part in
+  appointmentId?: string;
+  permission?: string;
 }
 
 // =======================================================
@@ -102,6 +105,28 @@ export const signAdminJwt = (admin: any) => {
   return jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn: "3d" });
 };
 
+// =======================================================
+//     🔐 CALL GUEST JWT (invited call participants)
+// =======================================================
+
+// Issued to someone who opened a call invite link. The token is scoped to one
+// appointment's call socket; verifyToken refuses it on the REST API.
+export const signCallGuestJwt = (
+  invite: { _id: any; name: string; permission: string },
+  appointmentId: string,
+  expiresAt: Date
+) => {
+  const payload: JwtPayload = {
+    id: invite._id.toString(),
+    role: "CallGuest",
+    name: invite.name,
+    appointmentId,
+    permission: invite.permission,
+  };
+  const expiresIn = Math.max(60, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+  return jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn });
+};
+
 // =======================================================
 //                🔄 REFRESH TOKEN
 // =======================================================
@@ -257,6 +282,11 @@ export const verifyToken = (
   
   try {
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JwtPayload;
+
+    // Call guest tokens only work on the call socket, never the REST API.
+    if (decoded.role === "CallGuest") {
+      return res.status(403).json({ message: "Forbidden - Insufficient permissions" });
+    }
     
     // console.log("✅ [verifyToken] Token decoded successfully:", {
     //   id: decoded.id,
@@ -444,6 +474,7 @@ export const hydrateUser = async (
 export default {
   signJwt,
   signAdminJwt,
+  signCallGuestJwt,
   signRefreshToken,
   verifyToken,
   verifyAdminToken,
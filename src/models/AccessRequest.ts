@@ -5,6 +5,7 @@ export type AccessRequestStatus = "pending" | "approved" | "denied" | "expired";
 
 export interface IAccessRequest extends Document {
   patientId:         Types.ObjectId;
+  familyMemberId?:   Types.ObjectId;  // access to a dependent's record only
   requestingDoctorId: Types.ObjectId;
   appointmentId:     Types.ObjectId;
   status:            AccessRequestStatus;
@@ -21,6 +22,10 @@ const AccessRequestSchema = new Schema<IAccessRequest>(
       ref: "User",
       required: true,
     },
+    familyMemberId: {
+      type: Schema.Types.ObjectId,
+      ref: "FamilyMember",
+    },
     requestingDoctorId: {
       type: Schema.Types.ObjectId,
       ref: "Doctor",
@@ -0,0 +1,31 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// One passage of a published AdvocacyArticle, tokenized for the chatbot's
+// BM25 retrieval (services/AdvocacyRetrievalService.ts). Rebuilt whenever
+// the article is created, updated or deleted; never edited by hand.
+export interface IArticleChunk extends Document {
+  articleId: Types.ObjectId;
+  slug: string;
+  title: string;
+  chunkIndex: number; // position within the article
+  text: string;
+  terms: string[]; // normalized tokens of title + text, repeats kept
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ArticleChunkSchema = new Schema<IArticleChunk>(
+  {
+    articleId: { type: Schema.Types.ObjectId, ref: "AdvocacyArticle", required: true },
+    slug: { type: String, required: true },
+    title: { type: String, required: true },
+    chunkIndex: { type: Number, required: true },
+    text: { type: String, required: true },
+    terms: { type: [String], default: [] },
+  },
+  { timestamps: true }
+);
+
+ArticleChunkSchema.index({ articleId: 1, chunkIndex: 1 }, { unique: true });
+
+export const ArticleChunk = model<IArticleChunk>("ArticleChunk", ArticleChunkSchema);
@@ -0,0 +1,29 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// A secret iCalendar subscription URL for one patient or doctor. Anyone with
+// the token can read the owner's appointment times, so it is only ever shown
+// to the owner and can be rotated or revoked at any time.
+export interface ICalendarFeed extends Document {
+  ownerId: Types.ObjectId;
+  ownerType: "User" | "Doctor";
+  token: string;
+  lastFetchedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CalendarFeedSchema = new Schema<ICalendarFeed>(
+  {
+    ownerId: { type: Schema.Types.ObjectId, required: true, refPath: "ownerType" },
+    ownerType: { type: String, enum: ["User", "Doctor"], required: true },
+    token: { type: String, required: true },
+    lastFetchedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+CalendarFeedSchema.index({ token: 1 }, { unique: true });
+// One live feed per account — rotating replaces the token in place.
+CalendarFeedSchema.index({ ownerId: 1, ownerType: 1 }, { unique: true });
+
+export const CalendarFeed = model<ICalendarFeed>("CalendarFeed", CalendarFeedSchema);
@@ -0,0 +1,55 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type IceCandidateType = "host" | "srflx" | "prflx" | "relay";
+export type CallNetworkType = "wifi" | "cellular" | "ethernet" | "unknown";
+
+// One periodic WebRTC getStats() reading from one participant's device. A
+// call is identified by its appointment plus the startedAt of the call
+// attempt it belongs to (appointment.callAttempts entries have no _id).
+export interface ICallStatsSample extends Document {
+  appointmentId: Types.ObjectId;
+  attemptStartedAt: Date;
+  userId: Types.ObjectId;
+  role: "Doctor" | "User";
+  sampledAt: Date;
+  rttMs?: number;
+  jitterMs?: number;
+  packetLossPct?: number; // inbound, 0–100
+  inboundBitrateKbps?: number;
+  outboundBitrateKbps?: number;
+  localCandidateType?: IceCandidateType;
+  remoteCandidateType?: IceCandidateType;
+  networkType: CallNetworkType;
+  createdAt: Date;
+}
+
+export const ICE_CANDIDATE_TYPES: IceCandidateType[] = ["host", "srflx", "prflx", "relay"];
+export const CALL_NETWORK_TYPES: CallNetworkType[] = ["wifi", "cellular", "ethernet", "unknown"];
+
+// Raw samples are only needed for reports on recent calls.
+const SAMPLE_RETENTION_SECONDS = 180 * 24 * 60 * 60;
+
+const CallStatsSampleSchema = new Schema<ICallStatsSample>(
+  {
+    appointmentId: { type: Schema.Types.ObjectId, ref: "Appointment", required: true },
+    attemptStartedAt: { type: Date, required: true },
+    userId: { type: Schema.Types.ObjectId, required: true },
+    role: { type: String, enum: ["Doctor", "User"], required: true },
+    sampledAt: { type: Date, required: true },
+    rttMs: Number,
+    jitterMs: Number,
+    packetLossPct: Number,
+    inboundBitrateKbps: Number,
+    outboundBitrateKbps: Number,
+    localCandidateType: { type: String, enum: ICE_CANDIDATE_TYPES },
+    remoteCandidateType: { type: String, enum: ICE_CANDIDATE_TYPES },
+    networkType: { type: String, enum: CALL_NETWORK_TYPES, default: "unknown" },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+CallStatsSampleSchema.index({ appointmentId: 1, attemptStartedAt: 1, sampledAt: 1 });
+CallStatsSampleSchema.index({ sampledAt: 1 });
+CallStatsSampleSchema.index({ createdAt: 1 }, { expireAfterSeconds: SAMPLE_RETENTION_SECONDS });
+
+export const CallStatsSample = model<ICallStatsSample>("CallStatsSample", CallStatsSampleSchema);
@@ -9,15 +9,26 @@ export interface IMessage {
     sender: 'user' | 'bot';
     text: string;
     products?: mongoose.Types.ObjectId[];
-    intent?: 'buy' | 'info' | 'appointment' | 'general' | 'greeting' | 'health';
+    intent?: 'buy' | 'info' | 'appointment' | 'general' | 'greeting' | 'health' | 'cart' | 'order-status';
     audio?: IAudio; // Optional audio info for voice messages
     timestamp: Date;
 }
 
+// A chatbot write (services/ChatbotTools.ts) waiting for the user's "yes"
+export interface IPendingAction {
+    actionId: string;
+    tool: 'create_appointment' | 'add_to_cart';
+    args: Record<string, unknown>;
+    summary: string;
+    userId: string; // the signed-in patient who asked; only they can confirm
+    expiresAt: Date;
+}
+
 export interface IChatConversation extends Document {
     userId: mongoose.Types.ObjectId | null; // Allow null for guest users
     sessionId: string;
     messages: IMessage[];
+    pendingAction?: IPendingAction | null;
     isActive: boolean;
     lastActivity: Date;
     createdAt: Date;
@@ -40,7 +51,7 @@ const messageSchema = new Schema<IMessage>({
     }],
     intent: {
         type: String,
-        enum: ['buy', 'info', 'appointment', 'general', 'greeting', 'health'],
+        enum: ['buy', 'info', 'appointment', 'general', 'greeting', 'health', 'cart', 'order-status'],
         default: 'general'
     },
     audio: {
@@ -53,6 +64,15 @@ const messageSchema = new Schema<IMessage>({
     }
 });
 
+const pendingActionSchema = new Schema<IPendingAction>({
+    actionId: { type: String, required: true },
+    tool: { type: String, enum: ['create_appointment', 'add_to_cart'], required: true },
+    args: { type: Schema.Types.Mixed, default: {} },
+    summary: { type: String, required: true },
+    userId: { type: String, required: true },
+    expiresAt: { type: Date, required: true }
+}, { _id: false });
+
 const chatConversationSchema = new Schema<IChatConversation>({
     userId: {
         type: Schema.Types.ObjectId,
@@ -68,6 +88,10 @@ const chatConversationSchema = new Schema<IChatConversation>({
         index: true
     },
     messages: [messageSchema],
+    pendingAction: {
+        type: pendingActionSchema,
+        default: null
+    },
     isActive: {
         type: Boolean,
         default: true
@@ -0,0 +1,67 @@
+import { Schema, model, Document, Types } from "mongoose";
+import { IIntakeAnswer, IIntakeQuestion, IntakeQuestionSchema } from "./IntakeForm";
+import { IntakeAnswerSchema } from "./appointment";
+
+// scheduled → sent → answered | closed (reply window passed unanswered)
+// scheduled → cancelled (by the doctor, before it goes out)
+// scheduled → failed (could not be posted after CHECK_IN_MAX_SEND_ATTEMPTS)
+export type CheckInStatus = "scheduled" | "sent" | "answered" | "closed" | "cancelled" | "failed";
+export const CHECK_IN_STATUSES: CheckInStatus[] = ["scheduled", "sent", "answered", "closed", "cancelled", "failed"];
+
+// A follow-up message a doctor schedules after a consultation, optionally
+// with questions (same definitions as intake forms). Sent into the
+// doctor-patient conversation by the check-in cron job
+// (services/CheckInService.ts).
+export interface ICheckIn extends Document {
+  appointmentId: Types.ObjectId;
+  conversationId: Types.ObjectId;
+  doctorId: Types.ObjectId;
+  patientId: Types.ObjectId; // the account holder (User)
+  message: string;
+  questions: IIntakeQuestion[];
+  sendAt: Date;
+  replyWindowHours: number;
+  status: CheckInStatus;
+  sendAttempts: number; // failed tries at posting it
+  sentAt?: Date;
+  sentMessageId?: Types.ObjectId; // ConversationMessage
+  replyBy?: Date; // sentAt + replyWindowHours
+  answeredAt?: Date;
+  answers: IIntakeAnswer[];
+  replyMessageId?: Types.ObjectId; // the patient's reply in the chat
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CheckInSchema = new Schema<ICheckIn>(
+  {
+    appointmentId: { type: Schema.Types.ObjectId, ref: "Appointment", required: true },
+    conversationId: { type: Schema.Types.ObjectId, ref: "Conversation", required: true },
+    doctorId: { type: Schema.Types.ObjectId, ref: "Doctor", required: true },
+    patientId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    message: { type: String, required: true, trim: true },
+    questions: { type: [IntakeQuestionSchema], default: [] },
+    sendAt: { type: Date, required: true },
+    replyWindowHours: { type: Number, required: true },
+    status: { type: String, enum: CHECK_IN_STATUSES, default: "scheduled" },
+    sendAttempts: { type: Number, default: 0 },
+    sentAt: Date,
+    sentMessageId: { type: Schema.Types.ObjectId, ref: "ConversationMessage" },
+    replyBy: Date,
+    answeredAt: Date,
+    answers: { type: [IntakeAnswerSchema], default: [] },
+    replyMessageId: { type: Schema.Types.ObjectId, ref: "ConversationMessage" },
+    cancelledAt: Date,
+  },
+  { timestamps: true }
+);
+
+// Cron: due check-ins, and sent ones whose reply window has passed
+CheckInSchema.index({ status: 1, sendAt: 1 });
+CheckInSchema.index({ status: 1, replyBy: 1 });
+// Open check-ins a patient's chat reply answers
+CheckInSchema.index({ conversationId: 1, status: 1 });
+CheckInSchema.index({ appointmentId: 1, sendAt: 1 });
+
+export const CheckIn = model<ICheckIn>("CheckIn", CheckInSchema);
@@ -0,0 +1,70 @@
+// models/ConversationMessage.ts - one doctor-patient chat message
+//
+// Messages used to live in Conversation.messages; they have their own
+// collection so sending, reading and editing don't rewrite an ever-growing
+// conversation document. The conversation keeps lastMessage and unreadCount.
+// Existing conversations are moved over by script/migrateConversationMessages.ts.
+import mongoose, { Schema, Document, Types } from "mongoose";
+import { IMessage } from "./conversation";
+
+export interface IConversationMessage extends Omit<IMessage, "_id">, Document {
+  _id: Types.ObjectId;
+  conversationId: Types.ObjectId;
+  updatedAt: Date;
+}
+
+const ConversationMessageSchema = new Schema<IConversationMessage>(
+  {
+    conversationId: { type: Schema.Types.ObjectId, ref: "Conversation", required: true },
+    senderId: { type: Schema.Types.ObjectId, required: true, refPath: "senderType" },
+    senderType: { type: String, enum: ["User", "Doctor"], required: true },
+    messageType: {
+      type: String,
+      enum: ["text", "image", "video", "audio", "system", "document", "check-in"],
+      default: "text",
+    },
+    content: { type: String, required: true },
+    mediaUrl: String,
+    mediaName: String,
+    status: {
+      type: String,
+      enum: ["sent", "delivered", "read"],
+      default: "sent",
+    },
+    deliveredAt: Date,
+    readAt: Date,
+    clientMessageId: String,
+    templateId: { type: Schema.Types.ObjectId, ref: "MessageTemplate" },
+    checkInId: { type: Schema.Types.ObjectId, ref: "CheckIn" },
+    isEdited: { type: Boolean, default: false },
+    editedAt: Date,
+    isDeleted: { type: Boolean, default: false },
+    replyTo: {
+      messageId: Schema.Types.ObjectId,
+      content: String,
+      senderType: { type: String, enum: ["User", "Doctor"] },
+    },
+  },
+  { timestamps: true }
+);
+
+// Newest-first paging within a conversation; _id breaks createdAt ties.
+ConversationMessageSchema.index({ conversationId: 1, createdAt: -1, _id: -1 });
+// Unread messages from the other party, for markAsRead.
+ConversationMessageSchema.index({ conversationId: 1, status: 1, senderId: 1 });
+// Chat search (services/ChatSearchService.ts). Deleted messages are
+// filtered out at query time — their content is already a placeholder.
+ConversationMessageSchema.index(
+  { content: "text", mediaName: "text" },
+  { weights: { content: 3, mediaName: 1 }, name: "message_text" }
+);
+// A send retried after a lost ack resolves to the message already stored.
+ConversationMessageSchema.index(
+  { conversationId: 1, senderId: 1, clientMessageId: 1 },
+  { unique: true, partialFilterExpression: { clientMessageId: { $type: "string" } } }
+);
+
+export const ConversationMessage = mongoose.model<IConversationMessage>(
+  "ConversationMessage",
+  ConversationMessageSchema
+);
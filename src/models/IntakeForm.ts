@@ -0,0 +1,114 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type IntakeQuestionType =
+  | "text"
+  | "long_text"
+  | "number"
+  | "boolean"
+  | "date"
+  | "single_choice"
+  | "multi_choice"
+  | "scale"; // integer between min and max (e.g. pain 0–10)
+
+// A question only shown (and only required) when an earlier question's
+// answer equals one of `values`.
+export interface IIntakeCondition {
+  questionKey: string;
+  values: (string | number | boolean)[];
+}
+
+export interface IIntakeQuestion {
+  key: string; // stable identifier answers are keyed by
+  label: string;
+  type: IntakeQuestionType;
+  required: boolean;
+  helpText?: string;
+  options?: string[]; // single_choice / multi_choice
+  min?: number; // number / scale
+  max?: number;
+  showIf?: IIntakeCondition;
+}
+
+// An answer as stored on the appointment — label and type are copied in so
+// it still reads correctly after the form is edited.
+export type IntakeAnswerValue = string | number | boolean | string[];
+
+export interface IIntakeAnswer {
+  key: string;
+  label: string;
+  type: IntakeQuestionType;
+  value: IntakeAnswerValue;
+}
+
+export interface IIntakeForm extends Document {
+  specialization: string; // as shown to admins
+  specializationKey: string; // lower-cased, trimmed — what doctors are matched on
+  title: string;
+  description?: string;
+  questions: IIntakeQuestion[];
+  isActive: boolean;
+  // Bumped on every edit; appointments record the version they were answered against.
+  version: number;
+  createdBy?: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const INTAKE_QUESTION_TYPES: IntakeQuestionType[] = [
+  "text",
+  "long_text",
+  "number",
+  "boolean",
+  "date",
+  "single_choice",
+  "multi_choice",
+  "scale",
+];
+
+const IntakeConditionSchema = new Schema<IIntakeCondition>(
+  {
+    questionKey: { type: String, required: true },
+    values: { type: [Schema.Types.Mixed], required: true },
+  },
+  { _id: false }
+);
+
+export const IntakeQuestionSchema = new Schema<IIntakeQuestion>(
+  {
+    key: { type: String, required: true },
+    label: { type: String, required: true },
+    type: { type: String, enum: INTAKE_QUESTION_TYPES, required: true },
+    required: { type: Boolean, default: false },
+    helpText: String,
+    options: { type: [String], default: undefined },
+    min: Number,
+    max: Number,
+    showIf: { type: IntakeConditionSchema, default: undefined },
+  },
+  { _id: false }
+);
+
+const IntakeFormSchema = new Schema<IIntakeForm>(
+  {
+    specialization: { type: String, required: true, trim: true },
+    specializationKey: { type: String, required: true },
+    title: { type: String, required: true, trim: true },
+    description: { type: String, trim: true },
+    questions: { type: [IntakeQuestionSchema], default: [] },
+    isActive: { type: Boolean, default: true },
+    version: { type: Number, default: 1 },
+    createdBy: { type: Schema.Types.ObjectId, ref: "Admin" },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "Admin" },
+  },
+  { timestamps: true }
+);
+
+// At most one live form per specialization; retired ones are kept so old
+// appointments can still point at them.
+IntakeFormSchema.index(
+  { specializationKey: 1 },
+  { unique: true, partialFilterExpression: { isActive: true }, name: "active_form_unique" }
+);
+
+export const IntakeForm = model<IIntakeForm>("IntakeForm", IntakeFormSchema);
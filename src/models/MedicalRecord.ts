@@ -71,9 +71,13 @@ export interface IAccessLogEntry {
 }
 
 export interface IMedicalRecord extends Document {
-  patientId: Types.ObjectId;
+  patientId: Types.ObjectId; // the account holder
+  // Set on a dependent's record (booked via a FamilyMember). Each account
+  // holder has one record of their own plus one per dependent seen.
+  familyMemberId?: Types.ObjectId;
   patientSnapshot: {
     name: string;
+    relationship?: string; // dependents only, e.g. "Child"
     email?: string;
     phone?: string;
     gender?: string;
@@ -191,8 +195,10 @@ const MedicalRecordSchema = new Schema<IMedicalRecord>(
       required: true,
 
     },
+    familyMemberId: { type: Schema.Types.ObjectId, ref: "FamilyMember" },
     patientSnapshot: {
       name: { type: String, required: true },
+      relationship: String,
       email: String,
       phone: String,
       gender: String,
@@ -207,7 +213,7 @@ const MedicalRecordSchema = new Schema<IMedicalRecord>(
   { timestamps: true },
 );
 
-MedicalRecordSchema.index({ patientId: 1 });
+MedicalRecordSchema.index({ patientId: 1, familyMemberId: 1 });
 MedicalRecordSchema.index({ "consultationNotes.doctorId": 1 });
 MedicalRecordSchema.index({ "consultationNotes.appointmentId": 1 });
 
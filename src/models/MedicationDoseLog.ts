@@ -0,0 +1,42 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type DoseStatus = "pending" | "taken" | "skipped" | "snoozed";
+
+export interface IMedicationDoseLog extends Document {
+  reminderId: Types.ObjectId;
+  userId: Types.ObjectId;
+  scheduledFor: Date; // the reminder time this dose belongs to
+  status: DoseStatus; // "pending" = notified, no answer yet
+  notifiedAt?: Date;
+  actedAt?: Date;
+  snoozedUntil?: Date;
+  snoozeCount: number;
+}
+
+const MedicationDoseLogSchema = new Schema<IMedicationDoseLog>(
+  {
+    reminderId: { type: Schema.Types.ObjectId, ref: "MedicationReminder", required: true },
+    userId: { type: Schema.Types.ObjectId, required: true },
+    scheduledFor: { type: Date, required: true },
+    status: {
+      type: String,
+      enum: ["pending", "taken", "skipped", "snoozed"],
+      default: "pending",
+    },
+    notifiedAt: { type: Date },
+    actedAt: { type: Date },
+    snoozedUntil: { type: Date },
+    snoozeCount: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+// One log per dose — also what makes the dispatch job idempotent.
+MedicationDoseLogSchema.index({ reminderId: 1, scheduledFor: 1 }, { unique: true });
+MedicationDoseLogSchema.index({ userId: 1, scheduledFor: -1 });
+MedicationDoseLogSchema.index({ status: 1, snoozedUntil: 1 });
+
+export const MedicationDoseLog = model<IMedicationDoseLog>(
+  "MedicationDoseLog",
+  MedicationDoseLogSchema
+);
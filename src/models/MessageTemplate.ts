@@ -0,0 +1,47 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// "personal" templates belong to one doctor; "clinic" templates are managed
+// by admins and offered to every doctor.
+export type MessageTemplateScope = "personal" | "clinic";
+export const MESSAGE_TEMPLATE_SCOPES: MessageTemplateScope[] = ["personal", "clinic"];
+
+export interface IMessageTemplate extends Document {
+  scope: MessageTemplateScope;
+  ownerId?: Types.ObjectId; // Doctor — personal templates only
+  title: string;
+  // Text with {{placeholders}}, filled in when the template is sent
+  // (services/MessageTemplateService.ts lists the built-in ones)
+  body: string;
+  category?: string; // e.g. "Aftercare", shown as a group in the picker
+  placeholders: string[]; // derived from body on save
+  isActive: boolean;
+  usageCount: number;
+  lastUsedAt?: Date;
+  createdBy?: Types.ObjectId; // Admin, for clinic templates
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MessageTemplateSchema = new Schema<IMessageTemplate>(
+  {
+    scope: { type: String, enum: MESSAGE_TEMPLATE_SCOPES, required: true },
+    ownerId: { type: Schema.Types.ObjectId, ref: "Doctor" },
+    title: { type: String, required: true, trim: true },
+    body: { type: String, required: true },
+    category: { type: String, trim: true },
+    placeholders: { type: [String], default: [] },
+    isActive: { type: Boolean, default: true },
+    usageCount: { type: Number, default: 0 },
+    lastUsedAt: Date,
+    createdBy: { type: Schema.Types.ObjectId, ref: "Admin" },
+    updatedBy: { type: Schema.Types.ObjectId },
+  },
+  { timestamps: true }
+);
+
+// A doctor's picker: their own templates plus the clinic-wide ones.
+MessageTemplateSchema.index({ ownerId: 1, isActive: 1, updatedAt: -1 });
+MessageTemplateSchema.index({ scope: 1, isActive: 1, title: 1 });
+
+export const MessageTemplate = model<IMessageTemplate>("MessageTemplate", MessageTemplateSchema);
@@ -0,0 +1,62 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// "full" / "partial" / "none" — which cancellation window applied
+// (see config/cancellationPolicy.ts).
+export type RefundWindow = "full" | "partial" | "none";
+
+// "not_eligible" records a cancellation that fell outside every refund
+// window, so the patient can still see why nothing came back.
+export type RefundStatus = "pending" | "succeeded" | "failed" | "not_eligible";
+
+export interface IRefund extends Document {
+  appointmentId: Types.ObjectId;
+  paymentId: Types.ObjectId;
+  userId: Types.ObjectId;
+  cancelledBy: "User" | "Doctor" | "Admin" | "system";
+  window: RefundWindow;
+  hoursBeforeStart: number; // negative once the appointment had started
+  paidAmount: number;
+  refundPercent: number;
+  amount: number;
+  status: RefundStatus;
+  partnerRefundReference?: string;
+  attempts: number;
+  lastError?: string;
+  refundedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefundSchema = new Schema<IRefund>(
+  {
+    appointmentId: { type: Schema.Types.ObjectId, ref: "Appointment", required: true },
+    paymentId: { type: Schema.Types.ObjectId, ref: "Payment", required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    cancelledBy: {
+      type: String,
+      enum: ["User", "Doctor", "Admin", "system"],
+      required: true,
+    },
+    window: { type: String, enum: ["full", "partial", "none"], required: true },
+    hoursBeforeStart: { type: Number, required: true },
+    paidAmount: { type: Number, required: true },
+    refundPercent: { type: Number, required: true, min: 0, max: 100 },
+    amount: { type: Number, required: true, min: 0 },
+    status: {
+      type: String,
+      enum: ["pending", "succeeded", "failed", "not_eligible"],
+      default: "pending",
+    },
+    partnerRefundReference: { type: String },
+    attempts: { type: Number, default: 0 },
+    lastError: { type: String },
+    refundedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// An appointment is only ever cancelled once, so it gets at most one refund.
+RefundSchema.index({ appointmentId: 1 }, { unique: true });
+RefundSchema.index({ status: 1, attempts: 1 });
+
+export const Refund = model<IRefund>("Refund", RefundSchema);
@@ -0,0 +1,62 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type RedFlagCategory = "suicidal-ideation" | "sexual-assault" | "pregnancy-bleeding" | "severe-pelvic-pain";
+export const RED_FLAG_CATEGORIES: RedFlagCategory[] = [
+  "suicidal-ideation",
+  "sexual-assault",
+  "pregnancy-bleeding",
+  "severe-pelvic-pain",
+];
+
+// English, Nigerian Pidgin, Yoruba, Hausa
+export type TriageLanguage = "en" | "pcm" | "yo" | "ha";
+export const TRIAGE_LANGUAGES: TriageLanguage[] = ["en", "pcm", "yo", "ha"];
+
+// One chatbot message the red-flag triage (services/ChatbotTriageService.ts)
+// answered with an urgent reply instead of the model, kept for clinical
+// review. "open" until an admin marks it reviewed.
+export interface ITriageEscalation extends Document {
+  category: RedFlagCategory;
+  language: TriageLanguage;
+  channel: "app" | "whatsapp";
+  sessionId: string; // ChatConversation.sessionId (the phone number on WhatsApp)
+  userId?: Types.ObjectId;
+  message: string;
+  matched: string[]; // the phrases that triggered it
+  location?: { latitude: number; longitude: number };
+  clinicsShown: number;
+  status: "open" | "reviewed";
+  reviewedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TriageEscalationSchema = new Schema<ITriageEscalation>(
+  {
+    category: { type: String, enum: RED_FLAG_CATEGORIES, required: true },
+    language: { type: String, enum: TRIAGE_LANGUAGES, required: true },
+    channel: { type: String, enum: ["app", "whatsapp"], required: true },
+    sessionId: { type: String, required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User" },
+    message: { type: String, required: true },
+    matched: { type: [String], default: [] },
+    location: {
+      type: new Schema({ latitude: Number, longitude: Number }, { _id: false }),
+      default: undefined,
+    },
+    clinicsShown: { type: Number, default: 0 },
+    status: { type: String, enum: ["open", "reviewed"], default: "open" },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: "Admin" },
+    reviewedAt: Date,
+    reviewNote: { type: String, trim: true },
+  },
+  { timestamps: true }
+);
+
+// Review queue, newest first
+TriageEscalationSchema.index({ status: 1, createdAt: -1 });
+TriageEscalationSchema.index({ category: 1, createdAt: -1 });
+
+export const TriageEscalation = model<ITriageEscalation>("TriageEscalation", TriageEscalationSchema);
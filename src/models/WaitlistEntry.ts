@@ -0,0 +1,82 @@
+import { Schema, model, Document, Types } from "mongoose";
+import { ConsultationType } from "./appointment";
+
+// "waiting"   — in line for any freed slot within [from, to)
+// "offered"   — holding one freed slot until offer.expiresAt
+// "booked"    — claimed an offer; bookedAppointmentId points at the result
+// "expired"   — the date range passed without a booking
+// "cancelled" — the patient left the waitlist
+export type WaitlistStatus = "waiting" | "offered" | "booked" | "expired" | "cancelled";
+
+export interface IWaitlistOffer {
+  scheduledAt: Date;
+  duration: number;
+  offeredAt: Date;
+  expiresAt: Date;
+}
+
+export interface IWaitlistEntry extends Document {
+  userId: Types.ObjectId;
+  doctorId: Types.ObjectId;
+  familyMemberId?: Types.ObjectId; // waiting on behalf of a dependent
+  from: Date;
+  to: Date;
+  consultationType?: ConsultationType;
+  status: WaitlistStatus;
+  offer?: IWaitlistOffer;
+  // Slots this patient already let lapse — never offered to them again.
+  passedSlots: Date[];
+  bookedAppointmentId?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistOfferSchema = new Schema<IWaitlistOffer>(
+  {
+    scheduledAt: { type: Date, required: true },
+    duration: { type: Number, required: true },
+    offeredAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const WaitlistEntrySchema = new Schema<IWaitlistEntry>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    doctorId: { type: Schema.Types.ObjectId, ref: "Doctor", required: true },
+    familyMemberId: { type: Schema.Types.ObjectId, ref: "FamilyMember" },
+    from: { type: Date, required: true },
+    to: { type: Date, required: true },
+    consultationType: {
+      type: String,
+      enum: ["video", "in-person", "chat", "audio"],
+    },
+    status: {
+      type: String,
+      enum: ["waiting", "offered", "booked", "expired", "cancelled"],
+      default: "waiting",
+    },
+    offer: { type: WaitlistOfferSchema },
+    passedSlots: { type: [Date], default: [] },
+    bookedAppointmentId: { type: Schema.Types.ObjectId, ref: "Appointment" },
+  },
+  { timestamps: true }
+);
+
+// First come, first served — the queue for one doctor, oldest first.
+WaitlistEntrySchema.index({ doctorId: 1, status: 1, createdAt: 1 });
+// Outstanding offers: slot holds and the roll-over job.
+WaitlistEntrySchema.index({ status: 1, "offer.expiresAt": 1 });
+WaitlistEntrySchema.index({ userId: 1, status: 1 });
+// One open entry per patient (or dependent) per doctor.
+WaitlistEntrySchema.index(
+  { userId: 1, doctorId: 1, familyMemberId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: { $in: ["waiting", "offered"] } },
+    name: "open_entry_unique",
+  }
+);
+
+export const WaitlistEntry = model<IWaitlistEntry>("WaitlistEntry", WaitlistEntrySchema);
@@ -1,6 +1,7 @@
 // models/Appointment.ts
 import mongoose, { Schema, Types, Document } from "mongoose";
 import { IDoctor } from "./doctor";
+import { IIntakeAnswer } from "./IntakeForm";
 
 export type AppointmentStatus =
   | "pending" 
@@ -21,21 +22,127 @@ export type CallStatus =
   | "in-progress" // both connected
   | "ended";      // call completed
 
-export type PaymentStatus = "pending" | "paid" | "failed";
+// "waived" — no payment is owed: the doctor charges nothing for this
+// consultation type ("free") or the fee was written off ("sponsored").
+// "refunded" / "partially_refunded" — set once a cancellation refund has gone
+// through (see models/Refund.ts).
+export type PaymentStatus =
+  | "pending"
+  | "paid"
+  | "failed"
+  | "waived"
+  | "refunded"
+  | "partially_refunded";
+export type PaymentWaiverReason = "free" | "sponsored";
 export type CallQuality = "excellent" | "good" | "fair" | "poor";
 export type CallEndedBy = "Doctor" | "User" | "system";
 export type ConsultationType = "video" | "in-person" | "chat" | "audio";
 
+// Who joined a call: the booked doctor / patient, or an invited guest (whose
+// participant id is their ICallInvite _id).
+export type CallParticipantKind = "doctor" | "patient" | "guest";
+
+export interface ICallJoin {
+  participantId: Types.ObjectId;
+  kind: CallParticipantKind;
+  joinedAt: Date;
+}
+
 // ✅ NEW: Call attempt tracking
 export interface ICallAttempt {
   startedAt: Date;
   endedAt?: Date;
   endReason?: "completed" | "timeout" | "disconnected" | "error" | "cancelled";
   participants: Types.ObjectId[];
+  joins?: ICallJoin[]; // every join, rejoins included
   duration?: number;
   quality?: CallQuality;
 }
 
+// A third party invited into the consultation's calls with a join link (see
+// services/CallInviteService.ts). Only a hash of the link token is stored.
+export type CallInviteRole = "interpreter" | "family-member" | "doctor";
+export type CallInvitePermission = "participant" | "view-only";
+
+export interface ICallInvite {
+  _id: Types.ObjectId;
+  role: CallInviteRole;
+  name: string;
+  email?: string;
+  permission: CallInvitePermission;
+  tokenHash: string;
+  invitedBy: Types.ObjectId;
+  invitedByRole: "Doctor" | "User";
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  lastJoinedAt?: Date;
+}
+
+// Who actually turned up, decided when the appointment is completed (see
+// services/ReliabilityService.ts). Only call-based consultations are
+// classified; chat and in-person ones never get an outcome.
+export type AttendanceOutcome =
+  | "completed"
+  | "patient-no-show"
+  | "doctor-no-show"
+  | "both-no-show";
+
+// Pre-consultation questionnaire answers (see models/IntakeForm.ts).
+export interface IAppointmentIntake {
+  formId: Types.ObjectId;
+  formVersion: number;
+  formTitle: string;
+  answers: IIntakeAnswer[];
+  submittedAt: Date;
+}
+
+// Append-only audit trail — written only by services/AppointmentStateMachine.ts.
+export type StatusChangeActor = "User" | "Doctor" | "Admin" | "system";
+
+export interface IStatusChange {
+  from: AppointmentStatus | null; // null for the entry written on creation
+  to: AppointmentStatus;
+  actor: StatusChangeActor;
+  actorId?: Types.ObjectId;
+  reason?: string;
+  at: Date;
+}
+
+// One entry per time either party proposes. Exactly one entry is "pending"
+// while a negotiation is open; answering it (or proposing over it) closes it.
+export type RescheduleProposalStatus =
+  | "pending"
+  | "accepted"
+  | "declined"
+  | "countered"  // the other party answered with their own proposal
+  | "withdrawn"; // the proposer replaced it with a newer proposal
+
+export interface IRescheduleProposal {
+  _id: Types.ObjectId;
+  proposedBy: "User" | "Doctor";
+  proposedById: Types.ObjectId;
+  proposedAt: Date;
+  previousScheduledAt: Date;
+  reason?: string;
+  status: RescheduleProposalStatus;
+  createdAt: Date;
+  respondedAt?: Date;
+  responseNote?: string;
+}
+
+// Virtual waiting room (see services/WaitingRoomService.ts). The patient
+// waits here until the doctor admits them; only then may they start the call.
+export type WaitingRoomStatus = "waiting" | "admitted" | "left";
+
+export interface IWaitingRoom {
+  status: WaitingRoomStatus;
+  enteredAt: Date;
+  lastSeenAt: Date; // refreshed while the patient's waiting screen is open
+  admittedAt?: Date;
+  leftAt?: Date;
+}
+
 // ✅ NEW: Real-time participant tracking
 export interface IActiveParticipant {
   userId: Types.ObjectId;
@@ -45,31 +152,55 @@ export interface IActiveParticipant {
 }
 
 export interface IAppointment extends Document {
-  userId: Types.ObjectId;
+  userId: Types.ObjectId; // the account holder who booked (and pays)
+  // Set when the consultation is for one of the account holder's dependents
+  // (see models/FamilyMember.ts) — they, not userId, are the patient.
+  familyMemberId?: Types.ObjectId;
   doctorId: Types.ObjectId | IDoctor;
   conversationId?: Types.ObjectId;
 
   scheduledAt: Date;
-  proposedAt?: Date;
+  proposedAt?: Date; // mirrors the pending reschedule proposal, if any
+
+  rescheduleHistory: IRescheduleProposal[];
+  // Status to return to once a reschedule negotiation closes.
+  statusBeforeReschedule?: AppointmentStatus;
 
   duration: number;
 
   status: AppointmentStatus;
+  statusHistory: IStatusChange[];
   paymentStatus: PaymentStatus;
+  // Fee snapshot taken at booking (NGN). Absent on appointments booked
+  // before consultations were priced — those never need payment.
+  consultationFee?: number;
+  paymentWaiverReason?: PaymentWaiverReason;
+  paymentWaivedBy?: Types.ObjectId;
+  paymentReference?: string;
+  paidAt?: Date;
   consultationType?: ConsultationType;
 
+  attendanceOutcome?: AttendanceOutcome;
+  attendanceClassifiedAt?: Date;
+
   reason?: string;
   notes?: string;
+  intake?: IAppointmentIntake;
 
   shareUserInfo: boolean;
 
   patientSnapshot?: {
     name?: string;
-    email?: string;
+    email?: string; // the account holder's contact details for dependents
     phone?: string;
     gender?: string;
     dateOfBirth?: Date;
     homeAddress?: string;
+    // Dependent bookings only
+    relationship?: string; // to the account holder, e.g. "Child"
+    bookedBy?: string; // account holder's name
+    bloodGroup?: string;
+    allergies?: string;
   };
 
   // ✅ Call state
@@ -82,7 +213,12 @@ export interface IAppointment extends Document {
   // ✅ NEW: Active participant tracking
   activeParticipants: IActiveParticipant[];
 
-  // ✅ Agora-safe metadata
+  waitingRoom?: IWaitingRoom;
+
+  callInvites: ICallInvite[];
+
+  // ✅ Agora-safe metadata (the booked pair only — invited guests are keyed
+  // by their invite id in callAttempts.joins)
   agoraUidMap?: {
     doctor?: number;
     user?: number;
@@ -117,6 +253,15 @@ export interface IAppointment extends Document {
   updatedAt: Date;
 }
 
+const CallJoinSchema = new Schema<ICallJoin>(
+  {
+    participantId: { type: Schema.Types.ObjectId, required: true },
+    kind: { type: String, enum: ["doctor", "patient", "guest"], required: true },
+    joinedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
 const CallAttemptSchema = new Schema<ICallAttempt>(
   {
     startedAt: { type: Date, required: true },
@@ -126,6 +271,7 @@ const CallAttemptSchema = new Schema<ICallAttempt>(
       enum: ["completed", "timeout", "disconnected", "error", "cancelled"],
     },
     participants: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    joins: { type: [CallJoinSchema], default: undefined },
     duration: Number,
     quality: {
       type: String,
@@ -135,6 +281,96 @@ const CallAttemptSchema = new Schema<ICallAttempt>(
   { _id: false }
 );
 
+const APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  "pending",
+  "confirmed",
+  "cancelled",
+  "completed",
+  "rejected",
+  "rescheduled",
+  "in-progress",
+  "expired",
+  "call-ended",
+  "confirmed-upcoming",
+  "about-to-start",
+];
+
+const StatusChangeSchema = new Schema<IStatusChange>(
+  {
+    from: { type: String, enum: [...APPOINTMENT_STATUSES, null], default: null },
+    to: { type: String, enum: APPOINTMENT_STATUSES, required: true },
+    actor: { type: String, enum: ["User", "Doctor", "Admin", "system"], required: true },
+    actorId: { type: Schema.Types.ObjectId },
+    reason: String,
+    at: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const RescheduleProposalSchema = new Schema<IRescheduleProposal>({
+  proposedBy: { type: String, enum: ["User", "Doctor"], required: true },
+  proposedById: { type: Schema.Types.ObjectId, required: true },
+  proposedAt: { type: Date, required: true },
+  previousScheduledAt: { type: Date, required: true },
+  reason: String,
+  status: {
+    type: String,
+    enum: ["pending", "accepted", "declined", "countered", "withdrawn"],
+    default: "pending",
+  },
+  createdAt: { type: Date, default: Date.now },
+  respondedAt: Date,
+  responseNote: String,
+});
+
+export const IntakeAnswerSchema = new Schema<IIntakeAnswer>(
+  {
+    key: { type: String, required: true },
+    label: { type: String, required: true },
+    type: { type: String, required: true },
+    value: { type: Schema.Types.Mixed, required: true },
+  },
+  { _id: false }
+);
+
+const AppointmentIntakeSchema = new Schema<IAppointmentIntake>(
+  {
+    formId: { type: Schema.Types.ObjectId, ref: "IntakeForm", required: true },
+    formVersion: { type: Number, required: true },
+    formTitle: { type: String, required: true },
+    answers: { type: [IntakeAnswerSchema], default: [] },
+    submittedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const CallInviteSchema = new Schema<ICallInvite>(
+  {
+    role: { type: String, enum: ["interpreter", "family-member", "doctor"], required: true },
+    name: { type: String, required: true, trim: true },
+    email: { type: String, trim: true, lowercase: true },
+    permission: { type: String, enum: ["participant", "view-only"], default: "participant" },
+    tokenHash: { type: String, required: true },
+    invitedBy: { type: Schema.Types.ObjectId, required: true },
+    invitedByRole: { type: String, enum: ["Doctor", "User"], required: true },
+    createdAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date, required: true },
+    revokedAt: Date,
+    lastJoinedAt: Date,
+  }
+);
+
+const WaitingRoomSchema = new Schema<IWaitingRoom>(
+  {
+    status: { type: String, enum: ["waiting", "admitted", "left"], required: true },
+    enteredAt: { type: Date, required: true },
+    lastSeenAt: { type: Date, required: true },
+    admittedAt: Date,
+    leftAt: Date,
+  },
+  { _id: false }
+);
+
 const ActiveParticipantSchema = new Schema<IActiveParticipant>(
   {
     userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
@@ -148,11 +384,18 @@ const ActiveParticipantSchema = new Schema<IActiveParticipant>(
 const AppointmentSchema = new Schema<IAppointment>(
   {
     userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    familyMemberId: { type: Schema.Types.ObjectId, ref: "FamilyMember" },
     doctorId: { type: Schema.Types.ObjectId, ref: "Doctor", required: true },
 
     scheduledAt: { type: Date, required: true },
     proposedAt: { type: Date },
 
+    rescheduleHistory: {
+      type: [RescheduleProposalSchema],
+      default: [],
+    },
+    statusBeforeReschedule: { type: String, enum: APPOINTMENT_STATUSES },
+
     duration: { type: Number, default: 30 },
 
     consultationType: {
@@ -166,30 +409,34 @@ const AppointmentSchema = new Schema<IAppointment>(
     },
     status: {
       type: String,
-      enum: [
-        "pending",
-        "confirmed",
-        "cancelled",
-        "completed",
-        "rejected",
-        "rescheduled",
-        "in-progress",
-         "expired",       
-    "call-ended",     
-    "confirmed-upcoming", 
-    "about-to-start",   
-      ],
+      enum: APPOINTMENT_STATUSES,
       default: "pending",
     },
+    statusHistory: {
+      type: [StatusChangeSchema],
+      default: [],
+    },
 
     paymentStatus: {
       type: String,
-      enum: ["pending", "paid", "failed"],
+      enum: ["pending", "paid", "failed", "waived", "refunded", "partially_refunded"],
       default: "pending",
     },
+    consultationFee: { type: Number, min: 0 },
+    paymentWaiverReason: { type: String, enum: ["free", "sponsored"] },
+    paymentWaivedBy: { type: Schema.Types.ObjectId },
+    paymentReference: String,
+    paidAt: Date,
+
+    attendanceOutcome: {
+      type: String,
+      enum: ["completed", "patient-no-show", "doctor-no-show", "both-no-show"],
+    },
+    attendanceClassifiedAt: Date,
 
     reason: String,
     notes: String,
+    intake: { type: AppointmentIntakeSchema, default: undefined },
 
     shareUserInfo: { type: Boolean, default: false },
 
@@ -200,6 +447,10 @@ const AppointmentSchema = new Schema<IAppointment>(
       gender: String,
       dateOfBirth: Date,
       homeAddress: String,
+      relationship: String,
+      bookedBy: String,
+      bloodGroup: String,
+      allergies: String,
     },
 
     // ✅ CALL STATE
@@ -226,6 +477,10 @@ const AppointmentSchema = new Schema<IAppointment>(
       default: [],
     },
 
+    waitingRoom: { type: WaitingRoomSchema, default: undefined },
+
+    callInvites: { type: [CallInviteSchema], default: [] },
+
     expiresAt: {
       type: Date,
     },
@@ -274,6 +529,11 @@ AppointmentSchema.index({ status: 1, scheduledAt: 1, reminderSent: 1 });
 AppointmentSchema.index({ callStatus: 1, callStartedAt: 1 });
 AppointmentSchema.index({ doctorId: 1, status: 1 });
 AppointmentSchema.index({ userId: 1, status: 1 });
+// Rolling reliability scores (ReliabilityService).
+AppointmentSchema.index({ userId: 1, attendanceOutcome: 1, scheduledAt: -1 });
+AppointmentSchema.index({ doctorId: 1, attendanceOutcome: 1, scheduledAt: -1 });
+AppointmentSchema.index({ doctorId: 1, "waitingRoom.status": 1, scheduledAt: 1 });
+AppointmentSchema.index({ "callInvites.tokenHash": 1 }, { sparse: true });
 
 // Double-booking guard, enforced atomically by MongoDB itself (not just
 // application logic, which has a check-then-write race under concurrent
@@ -1,7 +1,7 @@
 // models/conversation.ts - Doctor-Patient Chat Room
 import mongoose, { Schema, Document, Types } from "mongoose";
 
-export type MessageType = "text" | "image" | "video" | "audio" | "system" | "document";
+export type MessageType = "text" | "image" | "video" | "audio" | "system" | "document" | "check-in";
 export type MessageStatus = "sent" | "delivered" | "read";
 
 export interface IMessage {
@@ -11,9 +11,17 @@ export interface IMessage {
   messageType: MessageType;
   content: string;
   mediaUrl?: string;
+  // Original filename of an attachment (from POST /chat/upload), for search
+  mediaName?: string;
+  // sent → delivered (the recipient's app has it) → read
   status: MessageStatus;
   createdAt: Date;
+  deliveredAt?: Date;
   readAt?: Date;
+  // Set by the sending app so a retried send isn't stored twice
+  clientMessageId?: string;
+  templateId?: Types.ObjectId; // MessageTemplate it was rendered from
+  checkInId?: Types.ObjectId; // CheckIn, on "check-in" messages
   isEdited?: boolean;
   editedAt?: Date;
   isDeleted?: boolean;
@@ -41,7 +49,8 @@ export interface IConversation extends Document {
     userId: Types.ObjectId;
     doctorId: Types.ObjectId;
   };
-  messages: IMessage[];
+  // Messages live in their own collection (models/ConversationMessage.ts);
+  // the latest one is copied here for conversation lists.
   lastMessage?: IMessage;
   unreadCount: {
     user: number;
@@ -53,6 +62,12 @@ export interface IConversation extends Document {
   videoCallHistory: IVideoCallRequest[];
   
   isActive: boolean;
+  // Set while a locked chat is open only for check-in replies
+  // (services/CheckInService.ts); it locks again at `until`.
+  temporaryUnlock?: {
+    checkInId: Types.ObjectId;
+    until: Date;
+  };
   isPinned: {
     user: boolean;
     doctor: boolean;
@@ -73,17 +88,22 @@ const MessageSchema = new Schema<IMessage>(
     senderType: { type: String, enum: ["User", "Doctor"], required: true },
     messageType: {
       type: String,
-      enum: ["text", "image", "video", "audio", "system", "document"],
+      enum: ["text", "image", "video", "audio", "system", "document", "check-in"],
       default: "text",
     },
     content: { type: String, required: true },
     mediaUrl: String,
+    mediaName: String,
     status: {
       type: String,
       enum: ["sent", "delivered", "read"],
       default: "sent",
     },
+    deliveredAt: Date,
     readAt: Date,
+    clientMessageId: String,
+    templateId: { type: Schema.Types.ObjectId, ref: "MessageTemplate" },
+    checkInId: { type: Schema.Types.ObjectId, ref: "CheckIn" },
     isEdited:  { type: Boolean, default: false },
     editedAt:  Date,
     isDeleted: { type: Boolean, default: false },
@@ -124,7 +144,6 @@ const ConversationSchema = new Schema<IConversation>(
       userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
       doctorId: { type: Schema.Types.ObjectId, ref: "Doctor", required: true },
     },
-    messages: [MessageSchema],
     lastMessage: MessageSchema,
     unreadCount: {
       user: { type: Number, default: 0 },
@@ -136,6 +155,16 @@ const ConversationSchema = new Schema<IConversation>(
     videoCallHistory: [VideoCallRequestSchema],
     
     isActive: { type: Boolean, default: true },
+    temporaryUnlock: {
+      type: new Schema(
+        {
+          checkInId: { type: Schema.Types.ObjectId, ref: "CheckIn", required: true },
+          until: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
     isPinned: {
       user: { type: Boolean, default: false },
       doctor: { type: Boolean, default: false },
@@ -154,17 +183,7 @@ ConversationSchema.index({ appointmentId: 1 });
 ConversationSchema.index({ "participants.userId": 1, isActive: 1 });
 ConversationSchema.index({ "participants.doctorId": 1, isActive: 1 });
 ConversationSchema.index({ lastActivityAt: -1 });
-
-// Auto-update lastActivityAt
-ConversationSchema.pre("save", function (next) {
-  if (this.isModified("messages")) {
-    this.lastActivityAt = new Date();
-    if (this.messages.length > 0) {
-      this.lastMessage = this.messages[this.messages.length - 1];
-    }
-  }
-  next();
-});
+ConversationSchema.index({ "temporaryUnlock.until": 1 }, { sparse: true });
 
 export const Conversation = mongoose.model<IConversation>(
   "Conversation",
@@ -1,6 +1,65 @@
 import mongoose, { Document, Schema } from "mongoose";
 import { IImage } from "./image";
 
+export type Weekday =
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday"
+  | "sunday";
+
+// "HH:mm" 24-hour wall-clock times in the doctor's own timezone.
+export interface ITimeRange {
+  from: string;
+  to: string;
+}
+
+// Replaces the weekly ranges for one calendar date. An empty `ranges` array
+// means the doctor is off that day.
+export interface IAvailabilityOverride {
+  date: string; // YYYY-MM-DD
+  ranges: ITimeRange[];
+}
+
+export interface ITimeOff {
+  from: Date;
+  to: Date;
+  reason?: string;
+}
+
+export interface IDoctorAvailability {
+  timezone: string;
+  slotMinutes: number;
+  bufferMinutes: number;
+  weekly: Partial<Record<Weekday, ITimeRange[]>>;
+  overrides: IAvailabilityOverride[];
+  timeOff: ITimeOff[];
+}
+
+// Fee per consultation type, in NGN. 0 means that type is offered free;
+// a missing entry is treated the same way so unpriced doctors stay bookable.
+export interface IConsultationFees {
+  video?: number;
+  audio?: number;
+  chat?: number;
+  "in-person"?: number;
+}
+
+// Counters that reflect how dependable a doctor is for patients.
+export interface IDoctorReliability {
+  cancellations: number; // appointments the doctor cancelled
+  lastCancellationAt?: Date;
+  noShows: number; // call-based appointments the doctor never joined
+  lastNoShowAt?: Date;
+  // Rolling score over RELIABILITY_WINDOW_DAYS, 0–100 (null until there is
+  // anything to score), recomputed by services/ReliabilityService.ts.
+  score?: number | null;
+  scoredAppointments?: number;
+  scoreUpdatedAt?: Date;
+}
+
 export interface IDoctor extends Document {
   firstName: string;
   lastName: string;
@@ -14,7 +73,9 @@ export interface IDoctor extends Document {
   bio?: string;
   profileImage?: string;
   contactNumber?: string;
-  availability?: Record<string, any>;
+  availability?: IDoctorAvailability;
+  consultationFees?: IConsultationFees;
+  reliability?: IDoctorReliability;
   ratings?: number;
   reviews?: Array<{ userId: string; rating: number; comment: string }>;
   status: "submitted" | "reviewing" | "approved" | "rejected";
@@ -41,7 +102,25 @@ const DoctorSchema = new Schema<IDoctor>(
     bio: String,
     profileImage: String,
     contactNumber: String,
+    // Kept as a plain Object rather than a sub-schema so older free-form
+    // documents still load. AvailabilityService.parseAvailability is the only
+    // writer, and every reader goes through AvailabilityService.readAvailability.
     availability: Object,
+    consultationFees: {
+      video: { type: Number, min: 0 },
+      audio: { type: Number, min: 0 },
+      chat: { type: Number, min: 0 },
+      "in-person": { type: Number, min: 0 },
+    },
+    reliability: {
+      cancellations: { type: Number, default: 0 },
+      lastCancellationAt: Date,
+      noShows: { type: Number, default: 0 },
+      lastNoShowAt: Date,
+      score: { type: Number, min: 0, max: 100, default: null },
+      scoredAppointments: { type: Number, default: 0 },
+      scoreUpdatedAt: Date,
+    },
     ratings: { type: Number, default: 0 },
     reviews: [
       {
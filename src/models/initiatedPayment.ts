@@ -1,7 +1,10 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 
 export interface IPayment extends Document {
-  orderId: string;
+  // Exactly one of orderId / appointmentId is set: shop orders and paid
+  // consultations share the partner checkout flow.
+  orderId?: string;
+  appointmentId?: string;
   userId: string;
   paymentMethod: "card" | "paystack" | "bank_transfer";
   partnerReferenceCode: string;
@@ -18,7 +21,14 @@ export interface IPayment extends Document {
 
 const PaymentSchema = new Schema<IPayment>(
   {
-    orderId: { type: String, ref: "Order", required: true },
+    orderId: {
+      type: String,
+      ref: "Order",
+      required: function (this: IPayment) {
+        return !this.appointmentId;
+      },
+    },
+    appointmentId: { type: String, ref: "Appointment" },
     userId: { type: String, ref: "User", required: true },
     paymentMethod: { type: String, required: true },
     partnerReferenceCode: { type: String, required: true },
@@ -37,10 +47,24 @@ const PaymentSchema = new Schema<IPayment>(
   { timestamps: true }
 );
 
-// ✅ One pending payment per order
+// ✅ One pending payment per order / per appointment. The $type filters keep
+// consultation payments (no orderId) and order payments (no appointmentId)
+// out of each other's index — see script/migratePaymentIndexes.ts.
 PaymentSchema.index(
   { orderId: 1, status: 1 },
-  { unique: true, partialFilterExpression: { status: "pending" } }
+  {
+    unique: true,
+    name: "orderId_pending_unique",
+    partialFilterExpression: { status: "pending", orderId: { $type: "string" } },
+  }
+);
+PaymentSchema.index(
+  { appointmentId: 1, status: 1 },
+  {
+    unique: true,
+    name: "appointmentId_pending_unique",
+    partialFilterExpression: { status: "pending", appointmentId: { $type: "string" } },
+  }
 );
 
 // ✅ Global uniqueness
@@ -29,6 +29,10 @@ export interface INotification {
     accessRequestId?: string;
     commentId?: string;
     authorId?: string;
+    reminderId?: string;
+    doseLogId?: string;
+    waitlistEntryId?: string;
+    checkInId?: string;
 
     // Discriminator — optional because most notifications don't set it
     type?:
@@ -39,7 +43,12 @@ export interface INotification {
       | "payment_success"
       | "delivery_update"
       | "video_call_request"
-      | "reminder";
+      | "reminder"
+      | "medication_due"
+      | "refund_update"
+      | "waitlist_offer"
+      | "check_in"
+      | "check_in_answered";
 
     // People
     doctorName?: string;
@@ -117,6 +126,10 @@ const notificationSchema = new Schema<INotification>(
       recordId:         { type: String },
       accessRequestId:  { type: String },
       commentId:        { type: String },
+      reminderId:       { type: String },
+      doseLogId:        { type: String },
+      waitlistEntryId:  { type: String },
+      checkInId:        { type: String },
       reason:           { type: String },
       authorId:         { type: String },
       authorUsername:   { type: String },
@@ -13,6 +13,9 @@ import {
     getAdminOrders,
     getAdminOrderDelivery,
     getAdminCommissionReport,
+    getDoctorReliabilityAdmin,
+    getCallTelemetryAdmin,
+    getCallReportAdmin,
 } from "../controllers/adminController";
 import { verifyAdminToken } from "../middleware/auth";
 
@@ -25,6 +28,9 @@ adminRouter.post("/adminLogin", loginAdmin);
 // ==================== PROTECTED ROUTES ====================
 adminRouter.get("/doctors", verifyAdminToken, getAllDoctorsAdmin);
 adminRouter.get("/doctors/pending", verifyAdminToken, getPendingDoctorsAdmin);
+adminRouter.get("/doctors/reliability", verifyAdminToken, getDoctorReliabilityAdmin);
+adminRouter.get("/calls/telemetry", verifyAdminToken, getCallTelemetryAdmin);
+adminRouter.get("/calls/:appointmentId/report", verifyAdminToken, getCallReportAdmin);
 adminRouter.get("/allAdmins", verifyAdminToken, getAllAdmins);
 adminRouter.put("/doctors/:doctorId", verifyAdminToken, updateDoctorStatus);
 adminRouter.get("/users", verifyAdminToken, getAllUsersAdmin);
@@ -11,6 +11,11 @@ import {
   endAppointment,
   profileCheck,
   getBookedSlots,
+  proposeReschedule,
+  respondToReschedule,
+  getAppointmentStatusHistory,
+  waiveAppointmentPayment,
+  getCancellationQuote,
 } from "../controllers/appointmentController";
 
 import {
@@ -42,6 +47,36 @@ appointmentRouter.patch(
   authorize("User", "Doctor"),
   updateAppointment,
 );
+appointmentRouter.post(
+  "/:id/reschedule",
+  verifyToken,
+  authorize("User", "Doctor"),
+  proposeReschedule,
+);
+appointmentRouter.post(
+  "/:id/reschedule/respond",
+  verifyToken,
+  authorize("User", "Doctor"),
+  respondToReschedule,
+);
+appointmentRouter.get(
+  "/:id/status-history",
+  verifyToken,
+  authorize("User", "Doctor", "Admin"),
+  getAppointmentStatusHistory,
+);
+appointmentRouter.get(
+  "/:id/cancellation-quote",
+  verifyToken,
+  authorize("User", "Doctor"),
+  getCancellationQuote,
+);
+appointmentRouter.patch(
+  "/:id/waive-payment",
+  verifyToken,
+  authorize("Doctor", "Admin"),
+  waiveAppointmentPayment,
+);
 appointmentRouter.patch(
   "/:id/end",
   verifyToken,
@@ -0,0 +1,27 @@
+// routes/calendarRoutes.ts
+import { Router } from "express";
+import { verifyToken, authorize } from "../middleware/auth";
+import {
+  getCalendarFeed,
+  rotateCalendarFeed,
+  revokeCalendarFeed,
+  getCalendarFeedIcs,
+  downloadAppointmentIcs,
+} from "../controllers/calendarController";
+
+const calendarRouter = Router();
+
+// Public — calendar apps authenticate with the token in the URL.
+calendarRouter.get("/feeds/:token.ics", getCalendarFeedIcs);
+
+calendarRouter.get("/feed", verifyToken, authorize("User", "Doctor"), getCalendarFeed);
+calendarRouter.post("/feed/rotate", verifyToken, authorize("User", "Doctor"), rotateCalendarFeed);
+calendarRouter.delete("/feed", verifyToken, authorize("User", "Doctor"), revokeCalendarFeed);
+calendarRouter.get(
+  "/appointments/:id.ics",
+  verifyToken,
+  authorize("User", "Doctor"),
+  downloadAppointmentIcs,
+);
+
+export default calendarRouter;
@@ -15,6 +15,8 @@ import {
   unlockConversation,
   editMessage,
   deleteMessage,
+  searchMessages,
+  exportConversationPDF,
 } from "../controllers/chatController";
 import { verifyToken } from "../middleware/auth";
 
@@ -27,12 +29,16 @@ chatRouter.post("/upload", uploadMiddleware, uploadChatMedia);
 // Get user's conversations
 chatRouter.get("/conversations", getUserConversations);
 
+// Search across the user's conversations
+chatRouter.get("/search", searchMessages);
+
 // Get or create conversation for appointment
 chatRouter.get("/conversation/:appointmentId", getOrCreateConversation);
 
 // Messages
 chatRouter.post("/conversation/:conversationId/message", sendMessage);
 chatRouter.get("/conversation/:conversationId/messages", getMessages);
+chatRouter.get("/conversation/:conversationId/export", exportConversationPDF);
 chatRouter.post("/conversation/:conversationId/read", markAsRead);
 chatRouter.put("/conversation/:conversationId/messages/:messageId", editMessage);
 chatRouter.delete("/conversation/:conversationId/messages/:messageId", deleteMessage);
@@ -6,8 +6,10 @@ import {
   getUserConversations,
   transcribeAudio,
   uploadChatbotFile,
+  getTriageEscalations,
+  reviewTriageEscalation,
 } from '../controllers/chatbotController';
-import { guestAuth, verifyToken } from '../middleware/auth';
+import { guestAuth, verifyAdminToken, verifyToken } from '../middleware/auth';
 
 const chatBotRouter = express.Router();
 
@@ -29,4 +31,8 @@ chatBotRouter.delete('/conversation/:sessionId', guestAuth, clearConversation);
 // Get all user conversations - PROTECTED
 chatBotRouter.get('/conversations/:userId', guestAuth, verifyToken, getUserConversations);
 
+// Red-flag escalations for clinical review - ADMIN
+chatBotRouter.get('/escalations', verifyAdminToken, getTriageEscalations);
+chatBotRouter.patch('/escalations/:id', verifyAdminToken, reviewTriageEscalation);
+
 export default chatBotRouter;
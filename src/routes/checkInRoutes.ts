@@ -0,0 +1,20 @@
+// routes/checkInRoutes.ts
+import { Router } from "express";
+import { verifyToken, authorize } from "../middleware/auth";
+import {
+  createCheckIn,
+  getAppointmentCheckIns,
+  deleteCheckIn,
+  respondCheckIn,
+} from "../controllers/checkInController";
+
+const checkInRouter = Router();
+
+checkInRouter.use(verifyToken);
+
+checkInRouter.post("/", authorize("Doctor"), createCheckIn);
+checkInRouter.get("/appointment/:appointmentId", authorize("User", "Doctor"), getAppointmentCheckIns);
+checkInRouter.delete("/:id", authorize("Doctor"), deleteCheckIn);
+checkInRouter.post("/:id/respond", authorize("User"), respondCheckIn);
+
+export default checkInRouter;
@@ -7,9 +7,11 @@ import {
   updateDoctor,
   getMyDoctorProfile,
   updateDoctorAvailability,
+  updateConsultationFees,
   updateDoctorPushToken,
   deleteDoctor,
   completeDoctorProfile,
+  getDoctorSlots,
 } from "../controllers/doctorController";
 import { verifyToken, authorize, guestAuth } from "../middleware/auth";
 import multer from "multer";
@@ -51,11 +53,17 @@ doctorRouter.get("/profile", guestAuth, verifyToken, getMyDoctorProfile);
 
 doctorRouter.put("/availability", guestAuth, verifyToken, authorize("Doctor"), updateDoctorAvailability);
 
+doctorRouter.put("/consultation-fees", guestAuth, verifyToken, authorize("Doctor"), updateConsultationFees);
+
 doctorRouter.put("/update-push-token", guestAuth, verifyToken, authorize("Doctor"), updateDoctorPushToken);
 doctorRouter.post("/complete-profile", guestAuth, verifyToken, authorize("Doctor"), completeDoctorProfile);
 
 
 // NOW the /:id routes
+/**
+ * PUBLIC — free, bookable slots for a doctor (?from=&to=)
+ */
+doctorRouter.get("/:id/slots", getDoctorSlots);
 doctorRouter.get("/:id", guestAuth, verifyToken, authorize("User", "Doctor", "Admin"), getDoctor);
 doctorRouter.put("/:id", guestAuth, verifyToken, authorize("Doctor", "Admin"), upload.single("doctorImage"), updateDoctor);
 doctorRouter.delete("/:id", guestAuth, verifyToken, authorize("Admin"), deleteDoctor);
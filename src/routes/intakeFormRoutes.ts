@@ -0,0 +1,22 @@
+// routes/intakeFormRoutes.ts
+import { Router } from "express";
+import { verifyAdminToken } from "../middleware/auth";
+import {
+  getIntakeForms,
+  createIntakeForm,
+  updateIntakeForm,
+  retireIntakeForm,
+  getDoctorIntakeForm,
+} from "../controllers/intakeFormController";
+
+const intakeFormRouter = Router();
+
+// Public — the booking screen shows the doctor's questionnaire before login.
+intakeFormRouter.get("/doctor/:doctorId", getDoctorIntakeForm);
+
+intakeFormRouter.get("/", verifyAdminToken, getIntakeForms);
+intakeFormRouter.post("/", verifyAdminToken, createIntakeForm);
+intakeFormRouter.put("/:id", verifyAdminToken, updateIntakeForm);
+intakeFormRouter.delete("/:id", verifyAdminToken, retireIntakeForm);
+
+export default intakeFormRouter;
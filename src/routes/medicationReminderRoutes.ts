@@ -6,6 +6,9 @@ import {
   updateReminder,
   deleteReminder,
   toggleReminder,
+  logReminderDose,
+  getReminderDoses,
+  getAdherence,
 } from "../controllers/medicationReminderController";
 
 const medicationReminderRouter = Router();
@@ -13,9 +16,12 @@ const medicationReminderRouter = Router();
 medicationReminderRouter.use(verifyToken);
 
 medicationReminderRouter.get("/", getReminders);
+medicationReminderRouter.get("/adherence", getAdherence);
 medicationReminderRouter.post("/", createReminder);
 medicationReminderRouter.put("/:id", updateReminder);
 medicationReminderRouter.patch("/:id/toggle", toggleReminder);
 medicationReminderRouter.delete("/:id", deleteReminder);
+medicationReminderRouter.get("/:id/doses", getReminderDoses);
+medicationReminderRouter.post("/:id/doses", logReminderDose);
 
 export default medicationReminderRouter;
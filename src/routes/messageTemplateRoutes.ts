@@ -0,0 +1,31 @@
+// routes/messageTemplateRoutes.ts
+import { Router } from "express";
+import { authorize, verifyAdminToken, verifyToken } from "../middleware/auth";
+import {
+  getMyTemplates,
+  createMyTemplate,
+  updateMyTemplate,
+  deleteMyTemplate,
+  previewMyTemplate,
+  getClinicTemplates,
+  createClinicTemplate,
+  updateClinicTemplate,
+  retireClinicTemplate,
+} from "../controllers/messageTemplateController";
+
+const messageTemplateRouter = Router();
+
+// Clinic-wide templates, managed by admins. Registered before /:id.
+messageTemplateRouter.get("/clinic", verifyAdminToken, getClinicTemplates);
+messageTemplateRouter.post("/clinic", verifyAdminToken, createClinicTemplate);
+messageTemplateRouter.put("/clinic/:id", verifyAdminToken, updateClinicTemplate);
+messageTemplateRouter.delete("/clinic/:id", verifyAdminToken, retireClinicTemplate);
+
+// A doctor's personal library (and the clinic templates they can send)
+messageTemplateRouter.get("/", verifyToken, authorize("Doctor"), getMyTemplates);
+messageTemplateRouter.post("/", verifyToken, authorize("Doctor"), createMyTemplate);
+messageTemplateRouter.put("/:id", verifyToken, authorize("Doctor"), updateMyTemplate);
+messageTemplateRouter.delete("/:id", verifyToken, authorize("Doctor"), deleteMyTemplate);
+messageTemplateRouter.post("/:id/preview", verifyToken, authorize("Doctor"), previewMyTemplate);
+
+export default messageTemplateRouter;
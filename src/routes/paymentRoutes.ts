@@ -1,14 +1,16 @@
 
 import { Router } from "express";
-import { getPaymentMethods, initiatePayment,   paymentRedirect, getPaymentByOrder, verifyPayment
+import { getPaymentMethods, initiatePayment,   paymentRedirect, getPaymentByOrder, verifyPayment,
+  initiateAppointmentPayment,
  } from "../controllers/paymentController";
-import { guestAuth } from "../middleware/auth";
+import { guestAuth, verifyToken, authorize } from "../middleware/auth";
 
 const paymentRouter = Router();
 
 // Allow guests to access payment methods and initiate payment
 paymentRouter.get("/methods", guestAuth, getPaymentMethods);
 paymentRouter.post("/initiate", guestAuth, initiatePayment);
+paymentRouter.post("/appointment/initiate", guestAuth, verifyToken, authorize("User"), initiateAppointmentPayment);
 paymentRouter.post("/verify", guestAuth, verifyPayment); 
 paymentRouter.get("/redirect", guestAuth, paymentRedirect);
 paymentRouter.get("/by-order/:orderId", guestAuth, getPaymentByOrder);
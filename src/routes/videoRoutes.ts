@@ -10,6 +10,16 @@ import {
   reportCallIssue,
   declineCall,
   getIceServers,
+  postCallStats,
+  getCallReport,
+  enterWaitingRoomHandler,
+  leaveWaitingRoomHandler,
+  getWaitingRoom,
+  admitFromWaitingRoom,
+  createInvite,
+  getInvites,
+  revokeInvite,
+  joinInvite,
 } from '../controllers/videoCallController';
 import { verifyToken, authorize, guestAuth } from '../middleware/auth';
 
@@ -120,9 +130,10 @@ videoRouter.post(
 );
 
 /**
- * @route   GET /api/v1/video/ice-servers
- * @desc    Return ICE server config (STUN + TURN credentials from env vars)
- *          Allows TURN rotation without rebuilding the mobile app.
+ * @route   GET /api/v1/video/ice-servers?appointmentId=
+ * @desc    Return ICE server config (STUN + short-lived TURN credentials
+ *          issued for the caller on this appointment; appointmentId is
+ *          optional for older app builds)
  * @access  Private (Doctor | User)
  */
 videoRouter.get(
@@ -133,4 +144,128 @@ videoRouter.get(
   getIceServers
 );
 
+/**
+ * @route   POST /api/v1/video/stats
+ * @desc    Ingest a batch of WebRTC stats samples for the current call
+ * @access  Private (Doctor | User)
+ */
+videoRouter.post(
+  '/stats',
+  guestAuth,
+  verifyToken,
+  authorize('Doctor', 'User'),
+  postCallStats
+);
+
+/**
+ * @route   GET /api/v1/video/report/:appointmentId
+ * @desc    Per-call quality report for an appointment
+ * @access  Private (Doctor | User)
+ */
+videoRouter.get(
+  '/report/:appointmentId',
+  guestAuth,
+  verifyToken,
+  authorize('Doctor', 'User'),
+  getCallReport
+);
+
+/**
+ * @route   POST /api/v1/video/waiting-room/enter
+ * @desc    Enter (or stay in) the waiting room for an appointment
+ * @access  Private (User)
+ */
+videoRouter.post(
+  '/waiting-room/enter',
+  guestAuth,
+  verifyToken,
+  authorize('User'),
+  enterWaitingRoomHandler
+);
+
+/**
+ * @route   POST /api/v1/video/waiting-room/leave
+ * @desc    Leave the waiting room
+ * @access  Private (User)
+ */
+videoRouter.post(
+  '/waiting-room/leave',
+  guestAuth,
+  verifyToken,
+  authorize('User'),
+  leaveWaitingRoomHandler
+);
+
+/**
+ * @route   GET /api/v1/video/waiting-room
+ * @desc    Patients waiting for the doctor, with wait estimates
+ * @access  Private (Doctor)
+ */
+videoRouter.get(
+  '/waiting-room',
+  guestAuth,
+  verifyToken,
+  authorize('Doctor'),
+  getWaitingRoom
+);
+
+/**
+ * @route   POST /api/v1/video/waiting-room/admit
+ * @desc    Admit a waiting patient so the call can start
+ * @access  Private (Doctor)
+ */
+videoRouter.post(
+  '/waiting-room/admit',
+  guestAuth,
+  verifyToken,
+  authorize('Doctor'),
+  admitFromWaitingRoom
+);
+
+/**
+ * @route   POST /api/v1/video/appointments/:appointmentId/invites
+ * @desc    Invite a third participant (interpreter, family member, doctor)
+ * @access  Private (Doctor | User)
+ */
+videoRouter.post(
+  '/appointments/:appointmentId/invites',
+  guestAuth,
+  verifyToken,
+  authorize('Doctor', 'User'),
+  createInvite
+);
+
+/**
+ * @route   GET /api/v1/video/appointments/:appointmentId/invites
+ * @desc    List the appointment's call invites
+ * @access  Private (Doctor | User)
+ */
+videoRouter.get(
+  '/appointments/:appointmentId/invites',
+  guestAuth,
+  verifyToken,
+  authorize('Doctor', 'User'),
+  getInvites
+);
+
+/**
+ * @route   DELETE /api/v1/video/appointments/:appointmentId/invites/:inviteId
+ * @desc    Revoke a call invite
+ * @access  Private (Doctor | User)
+ */
+videoRouter.delete(
+  '/appointments/:appointmentId/invites/:inviteId',
+  guestAuth,
+  verifyToken,
+  authorize('Doctor', 'User'),
+  revokeInvite
+);
+
+/**
+ * @route   POST /api/v1/video/invites/join
+ * @desc    Join the current call with an invite link token
+ * @access  Public (token in body)
+ */
+videoRouter.post('/invites/join', joinInvite);
+
 export default videoRouter;
\ No newline at end of file
@@ -0,0 +1,20 @@
+// routes/waitlistRoutes.ts
+import { Router } from "express";
+import { verifyToken, authorize } from "../middleware/auth";
+import {
+  joinWaitlist,
+  getMyWaitlist,
+  declineWaitlistOffer,
+  removeFromWaitlist,
+} from "../controllers/waitlistController";
+
+const waitlistRouter = Router();
+
+waitlistRouter.use(verifyToken, authorize("User"));
+
+waitlistRouter.get("/", getMyWaitlist);
+waitlistRouter.post("/", joinWaitlist);
+waitlistRouter.post("/:id/decline", declineWaitlistOffer);
+waitlistRouter.delete("/:id", removeFromWaitlist);
+
+export default waitlistRouter;
@@ -0,0 +1,32 @@
+// scripts/indexAdvocacyArticles.ts
+//
+// Builds the chatbot's retrieval index (ArticleChunk) from every published
+// advocacy article. Articles re-index themselves when written, so this is
+// for the first run and for after a change to chunking or tokenizing in
+// services/AdvocacyRetrievalService.ts. Safe to re-run — the index is
+// rebuilt from scratch each time.
+import dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+import { ArticleChunk } from "../models/ArticleChunk";
+import { reindexAllArticles } from "../services/AdvocacyRetrievalService";
+
+async function indexAdvocacyArticles() {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI as string);
+    console.log("✅ Connected to MongoDB");
+
+    await ArticleChunk.syncIndexes();
+
+    const { articles, chunks } = await reindexAllArticles();
+    console.log(`✅ Indexed ${chunks} passages from ${articles} published articles`);
+  } catch (err) {
+    console.error("❌ Error:", err);
+  } finally {
+    await mongoose.disconnect();
+    process.exit(0);
+  }
+}
+
+indexAdvocacyArticles();
@@ -0,0 +1,70 @@
+// scripts/migrateConversationMessages.ts
+//
+// One-off: doctor-patient chat messages moved from the embedded
+// Conversation.messages array into the ConversationMessage collection.
+// Copies every embedded message across (keeping its _id and timestamps),
+// back-fills lastMessage where it was never set, then drops the array.
+// Safe to re-run — messages already copied are skipped.
+import dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+import { Conversation } from "../models/conversation";
+import { ConversationMessage } from "../models/ConversationMessage";
+
+async function migrateConversationMessages() {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI as string);
+    console.log("✅ Connected to MongoDB");
+
+    await ConversationMessage.syncIndexes();
+
+    const cursor = Conversation.collection.find(
+      { messages: { $exists: true } },
+      { projection: { messages: 1, lastMessage: 1 } }
+    );
+
+    let conversations = 0;
+    let copied = 0;
+    for await (const conversation of cursor) {
+      const messages: any[] = conversation.messages || [];
+      if (messages.length) {
+        const docs = messages.map((m) => ({
+          ...m,
+          _id: m._id || new mongoose.Types.ObjectId(),
+          conversationId: conversation._id,
+          createdAt: m.createdAt || conversation._id.getTimestamp(),
+          updatedAt: m.editedAt || m.createdAt || conversation._id.getTimestamp(),
+        }));
+        try {
+          const result = await ConversationMessage.collection.insertMany(docs, { ordered: false });
+          copied += result.insertedCount;
+        } catch (err: any) {
+          // 11000 = already copied on an earlier run; anything else is real.
+          const writeErrors = err?.writeErrors ?? [];
+          if (!writeErrors.length || writeErrors.some((e: any) => e.code !== 11000)) throw err;
+          copied += err.result?.insertedCount ?? 0;
+        }
+      }
+
+      const last = messages[messages.length - 1];
+      await Conversation.collection.updateOne(
+        { _id: conversation._id },
+        {
+          $unset: { messages: "" },
+          ...(last && !conversation.lastMessage ? { $set: { lastMessage: last } } : {}),
+        }
+      );
+      conversations++;
+    }
+
+    console.log(`✅ Moved ${copied} messages out of ${conversations} conversations`);
+  } catch (err) {
+    console.error("❌ Error:", err);
+  } finally {
+    await mongoose.disconnect();
+    process.exit(0);
+  }
+}
+
+migrateConversationMessages();
@@ -0,0 +1,37 @@
+// scripts/migratePaymentIndexes.ts
+//
+// One-off: payments can now belong to an appointment instead of an order.
+// The old orderId_1_status_1 index treats every consultation payment as
+// orderId: null and would only ever allow one pending consultation payment
+// across the whole collection. Drop it and let the Payment model build
+// its replacements.
+import dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+import { Payment } from "../models/initiatedPayment";
+
+async function migratePaymentIndexes() {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI as string);
+    console.log("✅ Connected to MongoDB");
+
+    const indexes = await Payment.collection.indexes();
+    if (indexes.some((i) => i.name === "orderId_1_status_1")) {
+      await Payment.collection.dropIndex("orderId_1_status_1");
+      console.log("✅ Dropped orderId_1_status_1");
+    } else {
+      console.log("ℹ️ orderId_1_status_1 already gone");
+    }
+
+    await Payment.syncIndexes();
+    console.log("✅ Payment indexes in sync");
+  } catch (err) {
+    console.error("❌ Error:", err);
+  } finally {
+    await mongoose.disconnect();
+    process.exit(0);
+  }
+}
+
+migratePaymentIndexes();
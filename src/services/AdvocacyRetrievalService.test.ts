@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chunkText, tokenize } from "./AdvocacyRetrievalService";
+
+const words = (n: number, prefix = "w") => Array.from({ length: n }, (_, i) => `${prefix}${i}`).join(" ");
+
+describe("tokenize", () => {
+  const cases: [string, string[]][] = [
+    ["How do Emergency Contraceptive PILLS work?", ["emergency", "contraceptive", "pill", "work"]],
+    ["Pregnancies, clinics & HIV-tests", ["pregnancy", "clinic", "hiv", "test"]],
+    ["Ẹ̀jẹ̀ ati ìrora", ["eje", "ati", "irora"]],
+    ["a class of 3 x 24h doses", ["class", "24h", "dose"]],
+    ["what is it and is it for me", []],
+  ];
+  for (const [text, expected] of cases) {
+    it(text, () => assert.deepEqual(tokenize(text), expected));
+  }
+});
+
+describe("chunkText", () => {
+  it("is empty for empty content", () => {
+    assert.deepEqual(chunkText(""), []);
+    assert.deepEqual(chunkText("<p></p>\n\n"), []);
+  });
+
+  it("strips HTML and Markdown down to plain text", () => {
+    const html = "<h2>Know your options</h2><p>Condoms are <strong>98%</strong> effective&nbsp;when used well.</p>";
+    assert.deepEqual(chunkText(html), ["Know your options Condoms are 98% effective when used well."]);
+
+    const markdown = "## Where to go\n\n- Visit a [clinic](https://example.com) near you\n> **Free** for under-25s\n\n![map](map.png)";
+    assert.deepEqual(chunkText(markdown), ["Where to go Visit a clinic near you Free for under-25s"]);
+  });
+
+  it("merges short paragraphs into one passage", () => {
+    assert.deepEqual(chunkText(`${words(50, "a")}\n\n${words(50, "b")}`), [`${words(50, "a")} ${words(50, "b")}`]);
+  });
+
+  it("starts a new passage at a paragraph that would overflow it", () => {
+    const chunks = chunkText(`${words(120, "a")}\n\n${words(120, "b")}`);
+    assert.deepEqual(chunks, [words(120, "a"), words(120, "b")]);
+  });
+
+  it("splits a long paragraph with overlapping windows of at most 180 words", () => {
+    const paragraph = words(400);
+    const chunks = chunkText(paragraph);
+    assert.ok(chunks.every((chunk) => chunk.split(" ").length <= 180));
+    assert.deepEqual(chunks[0].split(" ").slice(-40), chunks[1].split(" ").slice(0, 40));
+    assert.equal(chunks[0].split(" ")[0], "w0");
+    assert.equal(chunks[chunks.length - 1].split(" ").pop(), "w399");
+  });
+});
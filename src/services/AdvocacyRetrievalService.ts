@@ -0,0 +1,253 @@
+// services/AdvocacyRetrievalService.ts
+//
+// Local retrieval over the advocacy team's vetted articles. Used by:
+//   - advocacyController — createArticle / updateArticle / deleteArticle
+//     re-index the article they wrote
+//   - ChatbotEngine.getGPTResponse — the best passages for a question go
+//     into the prompt, and the ones the model cites come back as sources
+//   - script/indexAdvocacyArticles.ts — rebuilds the whole index
+//
+// Published articles are cut into passages of about CHUNK_WORDS words and
+// tokenized when they are written, into ArticleChunk. Questions are scored
+// against them with BM25, from an in-memory index built from that
+// collection — nothing leaves the server and no embedding API is called.
+// The in-memory index is per process, which is fine while the backend runs
+// as a single instance (see util/memoryCache.ts).
+import { Types } from "mongoose";
+import { AdvocacyArticle, IAdvocacyArticle } from "../models/advocacy";
+import { ArticleChunk } from "../models/ArticleChunk";
+import { memoryCache } from "../util/memoryCache";
+
+const CHUNK_WORDS = 180;
+const CHUNK_OVERLAP_WORDS = 40; // carried into the next passage when a paragraph is split
+const PASSAGE_LIMIT = 3;
+const MIN_SCORE = 1.0; // below this a passage shares too little with the question to help
+const INDEX_CACHE_KEY = "advocacy-retrieval:index";
+const INDEX_TTL_MS = 60 * 60 * 1000; // writes rebuild it at once; this only bounds drift
+
+// Bumped by every index write. A load that started under an older generation
+// may have read passages from before the write, so it is used for the
+// question that asked for it but never cached.
+let indexGeneration = 0;
+
+function invalidateIndex(): void {
+  indexGeneration++;
+  memoryCache.invalidate(INDEX_CACHE_KEY);
+}
+
+// BM25 parameters (the usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+export interface Passage {
+  slug: string;
+  title: string;
+  text: string;
+  score: number;
+}
+
+// ─── Text ─────────────────────────────────────────────────────────────────────
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be been but by can could did do does for from had has have how i if in into is it its " +
+    "me my of on or our so than that the their them then there these they this to was we were what when where " +
+    "which who why will with would you your about after also any because before just more most not only other " +
+    "should some such very get got"
+  ).split(" ")
+);
+
+/** Plain text of article content written as HTML or Markdown. */
+function toPlainText(content: string): string {
+  return content
+    .replace(/<\/(p|div|li|h[1-6]|blockquote)>|<br\s*\/?>/gi, "\n\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&[a-z]+;/gi, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^[ \t]*([#>]+|[*-] )[ \t]*/gm, "")
+    .replace(/[*_`]+/g, "");
+}
+
+const stem = (word: string) =>
+  word.length > 4 && word.endsWith("ies")
+    ? word.slice(0, -3) + "y"
+    : word.length > 3 && word.endsWith("s") && !word.endsWith("ss")
+      ? word.slice(0, -1)
+      : word;
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Passages of about CHUNK_WORDS words, kept to paragraph boundaries; a
+ * paragraph longer than that is split with CHUNK_OVERLAP_WORDS of overlap.
+ */
+export function chunkText(content: string): string[] {
+  const paragraphs = toPlainText(content)
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length) chunks.push(current.join(" "));
+    current = [];
+  };
+
+  for (const paragraph of paragraphs) {
+    const words = paragraph.split(" ");
+    if (current.length + words.length <= CHUNK_WORDS) {
+      current.push(...words);
+      continue;
+    }
+    if (words.length <= CHUNK_WORDS) {
+      flush();
+      current = words;
+      continue;
+    }
+    // A long paragraph is windowed, starting from whatever is pending
+    const pending = [...current, ...words];
+    current = [];
+    for (let start = 0; start < pending.length; start += CHUNK_WORDS - CHUNK_OVERLAP_WORDS) {
+      const window = pending.slice(start, start + CHUNK_WORDS);
+      if (start + CHUNK_WORDS >= pending.length) {
+        current = window; // the tail can still take the next paragraph
+        break;
+      }
+      chunks.push(window.join(" "));
+    }
+  }
+  flush();
+  return chunks;
+}
+
+// ─── Indexing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Rebuilds one article's passages: replaced while it is published, removed
+ * otherwise (draft, archived or deleted).
+ */
+export async function indexArticle(articleId: string | Types.ObjectId): Promise<number> {
+  const article = await AdvocacyArticle.findById(articleId).select("title slug excerpt content status").lean();
+  await ArticleChunk.deleteMany({ articleId });
+
+  let count = 0;
+  if (article?.status === "published") {
+    count = (await ArticleChunk.insertMany(buildChunks(article))).length;
+  }
+  invalidateIndex();
+  return count;
+}
+
+export async function removeArticleFromIndex(articleId: string | Types.ObjectId): Promise<void> {
+  await ArticleChunk.deleteMany({ articleId });
+  invalidateIndex();
+}
+
+/** Rebuilds every published article's passages; returns the counts. */
+export async function reindexAllArticles(): Promise<{ articles: number; chunks: number }> {
+  await ArticleChunk.deleteMany({});
+  let articles = 0;
+  let chunks = 0;
+  const cursor = AdvocacyArticle.find({ status: "published" }).select("title slug excerpt content").lean().cursor();
+  for await (const article of cursor) {
+    chunks += (await ArticleChunk.insertMany(buildChunks(article))).length;
+    articles++;
+  }
+  invalidateIndex();
+  return { articles, chunks };
+}
+
+function buildChunks(article: Pick<IAdvocacyArticle, "title" | "slug" | "excerpt" | "content"> & { _id: unknown }) {
+  // The excerpt is the editors' own summary — index it as a passage too
+  const texts = [article.excerpt, ...chunkText(article.content || "")].filter(Boolean);
+  const titleTerms = tokenize(article.title);
+  return texts.map((text, chunkIndex) => ({
+    articleId: article._id,
+    slug: article.slug,
+    title: article.title,
+    chunkIndex,
+    text,
+    terms: [...titleTerms, ...tokenize(text)],
+  }));
+}
+
+// ─── Retrieval ────────────────────────────────────────────────────────────────
+
+interface IndexedChunk {
+  slug: string;
+  title: string;
+  text: string;
+  termCounts: Map<string, number>;
+  length: number;
+}
+
+interface Bm25Index {
+  chunks: IndexedChunk[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+async function loadIndex(): Promise<Bm25Index> {
+  const rows = await ArticleChunk.find().select("slug title text terms").lean();
+  const documentFrequency = new Map<string, number>();
+  let totalLength = 0;
+
+  const chunks = rows.map((row) => {
+    const termCounts = new Map<string, number>();
+    for (const term of row.terms) termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+    for (const term of termCounts.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    totalLength += row.terms.length;
+    return { slug: row.slug, title: row.title, text: row.text, termCounts, length: row.terms.length };
+  });
+
+  return { chunks, documentFrequency, averageLength: chunks.length ? totalLength / chunks.length : 0 };
+}
+
+/**
+ * The best-scoring passages for `query`, at most one per article. Empty when
+ * nothing is indexed or nothing scores MIN_SCORE.
+ */
+export async function retrievePassages(query: string, limit = PASSAGE_LIMIT): Promise<Passage[]> {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (!queryTerms.length) return [];
+
+  let index = memoryCache.get<Bm25Index>(INDEX_CACHE_KEY);
+  if (!index) {
+    const generation = indexGeneration;
+    index = await loadIndex();
+    if (generation === indexGeneration) memoryCache.set(INDEX_CACHE_KEY, index, INDEX_TTL_MS);
+  }
+  const total = index.chunks.length;
+  if (!total) return [];
+
+  const bestPerArticle = new Map<string, Passage>();
+  for (const chunk of index.chunks) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const count = chunk.termCounts.get(term);
+      if (!count) continue;
+      const df = index.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      score += (idf * count * (K1 + 1)) / (count + K1 * (1 - B + (B * chunk.length) / index.averageLength));
+    }
+    if (score < MIN_SCORE) continue;
+    const best = bestPerArticle.get(chunk.slug);
+    if (!best || score > best.score) {
+      bestPerArticle.set(chunk.slug, { slug: chunk.slug, title: chunk.title, text: chunk.text, score });
+    }
+  }
+
+  return [...bestPerArticle.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,308 @@
+// services/AppointmentBookingService.ts
+//
+// Booking an appointment request for a patient. Used by:
+//   - appointmentController.createAppointment — POST /api/v1/appointments
+//   - ChatbotTools — the chatbot's create_appointment, once the user confirms
+//
+// Every booking passes the same gates: an approved doctor, a complete
+// profile, the repeat no-show limit, the specialization's intake form and a
+// free slot. The appointment starts as "pending" and the doctor reviews it.
+import mongoose from "mongoose";
+import { Appointment, IAppointment } from "../models/appointment";
+import { Doctor } from "../models/doctor";
+import { User } from "../models/user";
+import { FamilyMember } from "../models/FamilyMember";
+import { NotificationService } from "./NotificationService";
+import { isSlotBookable, readAvailability } from "./AvailabilityService";
+import { CONSULTATION_TYPES, feeFieldsForBooking } from "./ConsultationPaymentService";
+import { closeWaitlistOnBooking } from "./WaitlistService";
+import { findFormForSpecialization, IntakeValidationError, validateIntakeAnswers } from "./IntakeFormService";
+import { countOpenBookings, getPatientReliability } from "./ReliabilityService";
+import { recordInitialStatus } from "./AppointmentStateMachine";
+
+export interface BookingInput {
+  doctorId: string;
+  scheduledAt: string | Date;
+  duration?: number;
+  notes?: string;
+  reason?: string;
+  shareUserInfo?: boolean;
+  consultationType?: string;
+  familyMemberId?: string;
+  intakeAnswers?: unknown;
+}
+
+/**
+ * A refused booking. `code` marks refusals the client acts on
+ * (PROFILE_INCOMPLETE, NO_SHOW_LIMIT, INTAKE_INCOMPLETE, SLOT_UNAVAILABLE,
+ * SLOT_TAKEN); `details` holds what it needs for that (missingFields, …).
+ */
+export class BookingError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "BookingError";
+  }
+}
+
+/**
+ * Returns an array of field names that are required for appointment booking
+ * but are not yet filled in on the user document.
+ * An empty array means the profile is complete enough to proceed.
+ */
+export function getMissingAppointmentFields(user: any): string[] {
+  const required: { field: string; label: string }[] = [
+    { field: "phone",       label: "Phone number" },
+    { field: "gender",      label: "Gender" },
+    { field: "dateOfBirth", label: "Date of birth" },
+  ];
+  return required
+    .filter(({ field }) => !user[field])
+    .map(({ label }) => label);
+}
+
+export async function bookAppointment(
+  userId: string,
+  input: BookingInput
+): Promise<{ appointment: IAppointment; message: string }> {
+  const {
+    doctorId,
+    scheduledAt,
+    duration,
+    notes,
+    reason,
+    shareUserInfo,
+    consultationType,
+    familyMemberId,
+    intakeAnswers,
+  } = input;
+
+  if (!doctorId || !scheduledAt) {
+    throw new BookingError("doctorId and scheduledAt are required.", 400);
+  }
+
+  if (consultationType !== undefined && !CONSULTATION_TYPES.includes(consultationType as any)) {
+    throw new BookingError(`consultationType must be one of: ${CONSULTATION_TYPES.join(", ")}.`, 400);
+  }
+
+  const doctor = mongoose.Types.ObjectId.isValid(doctorId) ? await Doctor.findById(doctorId) : null;
+  if (!doctor || doctor.status !== "approved") {
+    throw new BookingError("Doctor not found or not approved.", 404);
+  }
+
+  // ── Profile completeness gate ───────────────────────────────────────────
+  const user = await User.findById(userId).select(
+    "name email phone gender dateOfBirth homeAddress"
+  );
+
+  if (!user) {
+    throw new BookingError("User not found.", 404);
+  }
+
+  const missingFields = getMissingAppointmentFields(user);
+  if (missingFields.length > 0) {
+    // 422 Unprocessable Entity — the client knows what to ask for
+    throw new BookingError(
+      "Please complete your profile before booking an appointment.",
+      422,
+      "PROFILE_INCOMPLETE",
+      { missingFields } // e.g. ["Phone number", "Date of birth"]
+    );
+  }
+  // ───────────────────────────────────────────────────────────────────────
+
+  // ── Repeat no-show gate ─────────────────────────────────────────────────
+  // Patients who keep missing appointments can only hold a limited number
+  // of upcoming ones at a time (see services/ReliabilityService.ts).
+  const reliability = await getPatientReliability(userId);
+  if (
+    reliability.maxOpenBookings !== null &&
+    (await countOpenBookings(userId)) >= reliability.maxOpenBookings
+  ) {
+    throw new BookingError(
+      `You've missed ${reliability.noShows} appointments in the last ${reliability.windowDays} days, so you can only hold ${reliability.maxOpenBookings} upcoming appointment(s) at a time. Attend or cancel an existing one to book another.`,
+      403,
+      "NO_SHOW_LIMIT",
+      { reliability }
+    );
+  }
+  // ───────────────────────────────────────────────────────────────────────
+
+  // ── Intake questionnaire ──────────────────────────────────────────────────
+  // Required only when the doctor's specialization has an active form (see
+  // GET /intake-forms/doctor/:doctorId); answers are stored with the form
+  // version they were given against.
+  const intakeForm = await findFormForSpecialization(doctor.specialization);
+  let intake;
+  if (intakeForm) {
+    try {
+      intake = validateIntakeAnswers(intakeForm, intakeAnswers);
+    } catch (err) {
+      if (err instanceof IntakeValidationError) {
+        throw new BookingError(err.message, 422, "INTAKE_INCOMPLETE", {
+          formId: intakeForm._id,
+          errors: err.errors, // keyed by question key
+        });
+      }
+      throw err;
+    }
+  }
+  // ───────────────────────────────────────────────────────────────────────
+
+  // ── Booking for a dependent ───────────────────────────────────────────────
+  // The account holder still books, pays and is contacted; the snapshot
+  // (and later the medical record) describes the family member. The doctor
+  // always needs to know who they're seeing, so shareUserInfo doesn't apply.
+  let familyMember = null;
+  if (familyMemberId) {
+    if (!mongoose.Types.ObjectId.isValid(familyMemberId)) {
+      throw new BookingError("Invalid familyMemberId.", 400);
+    }
+    familyMember = await FamilyMember.findOne({ _id: familyMemberId, userId });
+    if (!familyMember) {
+      throw new BookingError("Family member not found.", 404);
+    }
+  }
+
+  let patientSnapshot = null;
+  if (familyMember) {
+    patientSnapshot = {
+      name: familyMember.name,
+      gender: familyMember.gender,
+      dateOfBirth: familyMember.dateOfBirth,
+      relationship: familyMember.relationship,
+      bloodGroup: familyMember.bloodGroup,
+      allergies: familyMember.allergies,
+      bookedBy: user.name,
+      email: user.email,
+      phone: user.phone,
+      homeAddress: user.homeAddress,
+    };
+  } else if (shareUserInfo && user) {
+    patientSnapshot = {
+      name: user.name || "Anonymous",
+      email: user.email,
+      phone: user.phone,
+      gender: user.gender,
+      dateOfBirth: user.dateOfBirth,
+      homeAddress: user.homeAddress,
+    };
+  }
+
+  const scheduledDate = new Date(scheduledAt);
+  if (isNaN(scheduledDate.getTime())) {
+    throw new BookingError("Invalid scheduledAt date.", 400);
+  }
+
+  // ── Availability gate ─────────────────────────────────────────────────────
+  // The time must be the start of one of the doctor's free slots (see
+  // GET /doctors/:id/slots) — or a slot the waitlist is holding for this
+  // patient. The unique index below still guards the race between this
+  // check and the insert.
+  const availability = readAvailability(doctor.availability);
+  let minutes: number | undefined;
+  if (duration !== undefined && availability) {
+    minutes = Number(duration);
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > availability.slotMinutes) {
+      throw new BookingError(
+        `duration must be a whole number of minutes from 1 to the doctor's ${availability.slotMinutes}-minute slot length.`,
+        400
+      );
+    }
+  }
+  if (!(await isSlotBookable(doctorId, availability, scheduledDate, undefined, userId))) {
+    throw new BookingError(
+      "The doctor is not available at this time. Please pick one of the available slots.",
+      409,
+      "SLOT_UNAVAILABLE"
+    );
+  }
+  // ───────────────────────────────────────────────────────────────────────
+
+  let appointment;
+  try {
+    appointment = await Appointment.create({
+      userId,
+      familyMemberId: familyMember?._id,
+      doctorId,
+      scheduledAt: scheduledDate,
+      duration: minutes ?? availability?.slotMinutes,
+      notes,
+      reason,
+      intake,
+      shareUserInfo: !!shareUserInfo || !!familyMember,
+      patientSnapshot,
+      consultationType,
+      // Priced at booking time; free consultation types are waived up front.
+      ...feeFieldsForBooking(doctor, consultationType as any),
+      statusHistory: recordInitialStatus("pending", "User", userId),
+      notificationsSent: {
+        reminder: false,
+        expiryWarning: false,
+        callStarted: false,
+        callEnded: false,
+      },
+    });
+  } catch (err: any) {
+    // E11000 from the doctorId+scheduledAt partial unique index — someone
+    // else (or this same request, retried) already holds this exact slot.
+    // MongoDB enforces this atomically, so it's the real guard against
+    // double-booking; this catch just turns it into a clean refusal.
+    if (err?.code === 11000) {
+      throw new BookingError(
+        "This time slot was just booked by someone else. Please pick another time.",
+        409,
+        "SLOT_TAKEN"
+      );
+    }
+    throw err;
+  }
+
+  await closeWaitlistOnBooking(
+    userId,
+    doctorId,
+    familyMember?._id as mongoose.Types.ObjectId | undefined,
+    appointment._id as mongoose.Types.ObjectId,
+    scheduledDate
+  );
+
+  const doctorName = `Dr. ${doctor.lastName || doctor.firstName}`;
+  const patientName = familyMember
+    ? `${familyMember.name} (booked by ${user.name || "their guardian"})`
+    : user?.name || "A patient";
+
+  try {
+    await NotificationService.notifyAppointmentRequestSent(
+      userId,
+      String(appointment._id),
+      doctorName,
+      scheduledDate
+    );
+  } catch (error) {
+    console.error("❌ Failed to send patient notification:", error);
+  }
+
+  try {
+    await NotificationService.notifyDoctorNewRequest(
+      String(doctorId),
+      String(appointment._id),
+      patientName,
+      scheduledDate,
+      reason
+    );
+  } catch (error) {
+    console.error("❌ Failed to send doctor notification:", error);
+  }
+
+  return {
+    appointment,
+    message:
+      appointment.paymentStatus === "pending"
+        ? "Appointment request sent. Complete payment so the doctor can confirm it."
+        : "Appointment request sent successfully. Awaiting doctor review.",
+  };
+}
@@ -0,0 +1,186 @@
+// services/AppointmentStateMachine.ts
+//
+// The one place that decides which appointment status changes are legal and
+// who may make them. Every status write goes through transitionAppointment
+// (or recordInitialStatus on create), which also appends to the
+// appointment's statusHistory — nothing else should $set `status` directly.
+//
+// Writers today:
+//   - appointmentController — create, updateAppointment, reschedule
+//     negotiation, endAppointment
+//   - videoCallController.generateVideoToken — call start → in-progress
+//     (canTransition + buildStatusChange inside its own compare-and-swap)
+//   - cron/reminderJob.ts — 48h auto-expiry
+import { Types, UpdateQuery } from "mongoose";
+import {
+  Appointment,
+  AppointmentStatus,
+  IAppointment,
+  IStatusChange,
+  StatusChangeActor,
+} from "../models/appointment";
+
+const PARTICIPANTS: StatusChangeActor[] = ["User", "Doctor"];
+const ANYONE: StatusChangeActor[] = ["User", "Doctor", "Admin", "system"];
+
+// from → to → who may make that move.
+//
+// Starting a call (→ in-progress) is deliberately allowed from completed /
+// expired / call-ended too: chat-initiated ad-hoc calls reuse the last
+// appointment on the conversation, which has usually been closed already
+// (see the golden rules in videoCallController.ts).
+const TRANSITIONS: Record<AppointmentStatus, Partial<Record<AppointmentStatus, StatusChangeActor[]>>> = {
+  pending: {
+    confirmed: ["Doctor"],
+    rejected: ["Doctor"],
+    cancelled: ANYONE,
+    rescheduled: PARTICIPANTS,
+    expired: ["system"],
+  },
+  confirmed: {
+    "confirmed-upcoming": ["system"],
+    "about-to-start": ["system"],
+    "in-progress": PARTICIPANTS,
+    rescheduled: PARTICIPANTS,
+    cancelled: ANYONE,
+    completed: ["Doctor", "system"],
+    expired: ["system"],
+  },
+  "confirmed-upcoming": {
+    "about-to-start": ["system"],
+    "in-progress": PARTICIPANTS,
+    rescheduled: PARTICIPANTS,
+    cancelled: ANYONE,
+    completed: ["Doctor", "system"],
+    expired: ["system"],
+  },
+  "about-to-start": {
+    "in-progress": PARTICIPANTS,
+    cancelled: ANYONE,
+    completed: ["Doctor", "system"],
+    expired: ["system"],
+  },
+  // Leaving "rescheduled" means a negotiation closed: accepting or declining
+  // restores the status the appointment had before it started.
+  rescheduled: {
+    pending: PARTICIPANTS,
+    confirmed: PARTICIPANTS,
+    "confirmed-upcoming": PARTICIPANTS,
+    rejected: ["Doctor"],
+    cancelled: ANYONE,
+    expired: ["system"],
+  },
+  "in-progress": {
+    "call-ended": ["system"],
+    completed: ["Doctor", "system"],
+  },
+  "call-ended": {
+    "in-progress": PARTICIPANTS,
+    completed: ["Doctor", "system"],
+  },
+  completed: {
+    "in-progress": PARTICIPANTS,
+  },
+  expired: {
+    "in-progress": PARTICIPANTS,
+  },
+  cancelled: {},
+  rejected: {},
+};
+
+export class AppointmentTransitionError extends Error {
+  constructor(
+    public from: AppointmentStatus,
+    public to: AppointmentStatus,
+    public actor: StatusChangeActor
+  ) {
+    super(`Cannot move an appointment from "${from}" to "${to}" as ${actor}.`);
+    this.name = "AppointmentTransitionError";
+  }
+}
+
+export function canTransition(
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+  actor: StatusChangeActor
+): boolean {
+  return !!TRANSITIONS[from]?.[to]?.includes(actor);
+}
+
+/** Every status `actor` may move to `to` from — for status-guarded queries. */
+export function allowedSources(to: AppointmentStatus, actor: StatusChangeActor): AppointmentStatus[] {
+  return (Object.keys(TRANSITIONS) as AppointmentStatus[]).filter((from) =>
+    canTransition(from, to, actor)
+  );
+}
+
+export function buildStatusChange(
+  from: AppointmentStatus | null,
+  to: AppointmentStatus,
+  actor: StatusChangeActor,
+  actorId?: string,
+  reason?: string
+): IStatusChange {
+  return {
+    from,
+    to,
+    actor,
+    ...(actorId && Types.ObjectId.isValid(actorId) ? { actorId: new Types.ObjectId(actorId) } : {}),
+    ...(reason ? { reason } : {}),
+    at: new Date(),
+  };
+}
+
+/** History entry for a freshly created appointment (no `from`). */
+export function recordInitialStatus(
+  status: AppointmentStatus,
+  actor: StatusChangeActor,
+  actorId?: string
+): IStatusChange[] {
+  return [buildStatusChange(null, status, actor, actorId, "Appointment created")];
+}
+
+export interface TransitionOptions {
+  actorId?: string;
+  reason?: string;
+  // Extra fields written in the same atomic update as the status change.
+  set?: Record<string, any>;
+  unset?: Record<string, 1>;
+  push?: Record<string, any>;
+  // Extra conditions the document must still meet (beyond its status).
+  filter?: Record<string, any>;
+}
+
+/**
+ * Moves an appointment from `from` to `to` atomically: the write only lands
+ * if the stored status is still `from`, so two concurrent changes can't both
+ * win. Throws AppointmentTransitionError if the table forbids the move;
+ * returns null if the appointment changed underneath us (or doesn't match
+ * `options.filter`).
+ */
+export async function transitionAppointment(
+  appointmentId: string | Types.ObjectId,
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+  actor: StatusChangeActor,
+  options: TransitionOptions = {}
+): Promise<IAppointment | null> {
+  if (!canTransition(from, to, actor)) {
+    throw new AppointmentTransitionError(from, to, actor);
+  }
+
+  const update: UpdateQuery<IAppointment> = {
+    $set: { ...(options.set || {}), status: to },
+    $push: {
+      ...(options.push || {}),
+      statusHistory: buildStatusChange(from, to, actor, options.actorId, options.reason),
+    },
+  };
+  if (options.unset && Object.keys(options.unset).length) update.$unset = options.unset;
+
+  return Appointment.findOneAndUpdate(
+    { ...(options.filter || {}), _id: appointmentId, status: from },
+    update,
+    { new: true, runValidators: true }
+  );
+}
@@ -0,0 +1,405 @@
+// services/AvailabilityService.ts
+//
+// Turns a doctor's weekly schedule into concrete, bookable appointment slots.
+// Used by:
+//   - doctorController.updateDoctorAvailability — validates the schedule the
+//     doctor submits (parseAvailability)
+//   - doctorController.getDoctorSlots — GET /doctors/:id/slots
+//   - appointmentController.createAppointment — rejects times that aren't a
+//     free slot (isSlotBookable)
+//   - WaitlistService — checks a freed slot is still free before offering it
+//
+// A slot offered to a waitlisted patient (models/WaitlistEntry.ts) counts as
+// booked for everyone else until the offer lapses; only the patient holding
+// it — passed as `claimantUserId` — sees it as free.
+//
+// All schedule times are wall-clock times in the doctor's own timezone
+// (APP_TIMEZONE unless they say otherwise); everything returned from here is
+// an absolute Date, so clients never have to do timezone math themselves.
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { Types } from "mongoose";
+import { Appointment } from "../models/appointment";
+import { WaitlistEntry } from "../models/WaitlistEntry";
+import {
+  IAvailabilityOverride,
+  IDoctorAvailability,
+  ITimeOff,
+  ITimeRange,
+  Weekday,
+} from "../models/doctor";
+import { APP_TIMEZONE } from "../config/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const DEFAULT_SLOT_MINUTES = 30;
+const DEFAULT_BUFFER_MINUTES = 0;
+
+// A slots request spanning more than this is almost certainly a client bug,
+// and would otherwise make us generate thousands of slots in one go.
+export const MAX_SLOT_RANGE_DAYS = 31;
+
+// How far before a window booked times are looked up. Comfortably longer
+// than any appointment, so one that started earlier but runs into the
+// window is still found; each one then blocks only its own duration.
+const BOOKED_LOOKBACK_MS = 24 * 60 * 60_000;
+
+// Statuses that still hold a doctor's time — mirrors the partial filter on
+// the doctorId+scheduledAt unique index in models/appointment.ts.
+const SLOT_RELEASING_STATUSES = ["cancelled", "rejected", "expired"];
+
+// dayjs().day() order — index 0 is Sunday.
+const WEEKDAYS: Weekday[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface BookableSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface BookedInterval {
+  scheduledAt: Date;
+  duration: number;
+}
+
+// ─── Parsing / validation ─────────────────────────────────────────────────────
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+function parseRange(raw: any, label: string): ITimeRange {
+  const from = String(raw?.from ?? "").trim();
+  const to = String(raw?.to ?? "").trim();
+  if (!TIME_PATTERN.test(from) || !TIME_PATTERN.test(to)) {
+    throw new Error(`${label}: times must be in HH:mm (24-hour) format.`);
+  }
+  if (toMinutes(from) >= toMinutes(to)) {
+    throw new Error(`${label}: "from" must be earlier than "to".`);
+  }
+  return { from, to };
+}
+
+// Accepts an array of ranges, or the single { from, to } object the old
+// availability payload used per day.
+function parseRanges(raw: any, label: string): ITimeRange[] {
+  if (raw === undefined || raw === null) return [];
+  const list = Array.isArray(raw) ? raw : [raw];
+  const ranges = list
+    .map((r, i) => parseRange(r, `${label} range ${i + 1}`))
+    .sort((a, b) => toMinutes(a.from) - toMinutes(b.from));
+
+  for (let i = 1; i < ranges.length; i++) {
+    if (toMinutes(ranges[i].from) < toMinutes(ranges[i - 1].to)) {
+      throw new Error(`${label}: time ranges overlap.`);
+    }
+  }
+  return ranges;
+}
+
+function parseMinutes(raw: any, fallback: number, min: number, max: number, label: string): number {
+  if (raw === undefined || raw === null || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${label} must be a whole number between ${min} and ${max}.`);
+  }
+  return value;
+}
+
+function isValidTimezone(tz: string): boolean {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates a client-submitted schedule and returns it in canonical form.
+ * Throws an Error with a user-facing message on invalid input.
+ *
+ * Also accepts the legacy payload that updateDoctorAvailability documented
+ * before this existed — `{ Monday: { from: "09:00", to: "17:00" }, ... }` —
+ * so older app builds keep working.
+ */
+export function parseAvailability(raw: any): IDoctorAvailability {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("availability must be an object.");
+  }
+
+  const isLegacy = raw.weekly === undefined &&
+    Object.keys(raw).some((k) => WEEKDAYS.includes(k.toLowerCase() as Weekday));
+  const weeklyRaw = isLegacy ? raw : raw.weekly || {};
+
+  const weekly: Partial<Record<Weekday, ITimeRange[]>> = {};
+  for (const [key, value] of Object.entries(weeklyRaw)) {
+    const day = key.toLowerCase() as Weekday;
+    if (!WEEKDAYS.includes(day)) {
+      if (isLegacy) continue;
+      throw new Error(`Unknown weekday "${key}".`);
+    }
+    const ranges = parseRanges(value, day);
+    if (ranges.length) weekly[day] = ranges;
+  }
+
+  const tz = String(raw.timezone || APP_TIMEZONE);
+  if (!isValidTimezone(tz)) {
+    throw new Error(`Unknown timezone "${tz}".`);
+  }
+
+  const overrides: IAvailabilityOverride[] = (Array.isArray(raw.overrides) ? raw.overrides : []).map(
+    (o: any, i: number) => {
+      const date = String(o?.date ?? "");
+      if (!DATE_PATTERN.test(date) || !dayjs(date).isValid()) {
+        throw new Error(`Override ${i + 1}: date must be YYYY-MM-DD.`);
+      }
+      return { date, ranges: parseRanges(o.ranges, `Override ${date}`) };
+    }
+  );
+  const overrideDates = new Set(overrides.map((o) => o.date));
+  if (overrideDates.size !== overrides.length) {
+    throw new Error("Only one override is allowed per date.");
+  }
+
+  const timeOff: ITimeOff[] = (Array.isArray(raw.timeOff) ? raw.timeOff : []).map(
+    (t: any, i: number) => {
+      const from = new Date(t?.from);
+      const to = new Date(t?.to);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        throw new Error(`Time off ${i + 1}: from/to must be valid dates with from before to.`);
+      }
+      return { from, to, ...(t.reason ? { reason: String(t.reason).trim() } : {}) };
+    }
+  );
+
+  return {
+    timezone: tz,
+    slotMinutes: parseMinutes(raw.slotMinutes, DEFAULT_SLOT_MINUTES, 5, 240, "slotMinutes"),
+    bufferMinutes: parseMinutes(raw.bufferMinutes, DEFAULT_BUFFER_MINUTES, 0, 120, "bufferMinutes"),
+    weekly,
+    overrides,
+    timeOff,
+  };
+}
+
+/**
+ * Reads a stored availability value. Returns null when the doctor has never
+ * set a structured schedule (or only has pre-structured free-form data),
+ * which callers treat as "no bookable slots".
+ */
+export function readAvailability(stored: unknown): IDoctorAvailability | null {
+  if (!stored) return null;
+  try {
+    return parseAvailability(stored);
+  } catch {
+    return null;
+  }
+}
+
+// ─── Slot generation ──────────────────────────────────────────────────────────
+
+function rangesForDay(availability: IDoctorAvailability, day: dayjs.Dayjs): ITimeRange[] {
+  const date = day.format("YYYY-MM-DD");
+  const override = availability.overrides.find((o) => o.date === date);
+  if (override) return override.ranges;
+  return availability.weekly[WEEKDAYS[day.day()]] || [];
+}
+
+function overlaps(aStart: number, aEnd: number, bStart: number, bEnd: number): boolean {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Every slot the schedule offers within [from, to), before removing anything
+ * that is already booked. Slots in the past and slots that overlap time off
+ * are never returned.
+ */
+export function generateScheduleSlots(
+  availability: IDoctorAvailability,
+  from: Date,
+  to: Date,
+  now: Date = new Date()
+): BookableSlot[] {
+  const tz = availability.timezone;
+  const slotMs = availability.slotMinutes * 60_000;
+  const stepMinutes = availability.slotMinutes + availability.bufferMinutes;
+  const slots: BookableSlot[] = [];
+
+  let day = dayjs(from).tz(tz).startOf("day");
+  const last = dayjs(to).tz(tz);
+
+  while (day.isBefore(last)) {
+    const date = day.format("YYYY-MM-DD");
+
+    for (const range of rangesForDay(availability, day)) {
+      const rangeEnd = toMinutes(range.to);
+      for (let m = toMinutes(range.from); m + availability.slotMinutes <= rangeEnd; m += stepMinutes) {
+        const hh = String(Math.floor(m / 60)).padStart(2, "0");
+        const mm = String(m % 60).padStart(2, "0");
+        const start = dayjs.tz(`${date}T${hh}:${mm}:00`, tz).toDate();
+        const end = new Date(start.getTime() + slotMs);
+
+        if (start < from || start >= to || start <= now) continue;
+        const onTimeOff = availability.timeOff.some((t) =>
+          overlaps(start.getTime(), end.getTime(), new Date(t.from).getTime(), new Date(t.to).getTime())
+        );
+        if (onTimeOff) continue;
+
+        slots.push({ start, end });
+      }
+    }
+
+    day = day.add(1, "day");
+  }
+
+  return slots;
+}
+
+const endsAfter = (from: Date) => (interval: BookedInterval) =>
+  new Date(interval.scheduledAt).getTime() + interval.duration * 60_000 > from.getTime();
+
+// Waitlist offers that haven't lapsed yet, except the claimant's own.
+async function findOfferHolds(
+  doctorId: string | Types.ObjectId,
+  from: Date,
+  to: Date,
+  claimantUserId?: string
+): Promise<BookedInterval[]> {
+  const query: Record<string, any> = {
+    doctorId,
+    status: "offered",
+    "offer.scheduledAt": { $gte: new Date(from.getTime() - BOOKED_LOOKBACK_MS), $lt: to },
+    "offer.expiresAt": { $gt: new Date() },
+  };
+  if (claimantUserId) query.userId = { $ne: claimantUserId };
+
+  const holds = await WaitlistEntry.find(query).select("offer").lean();
+  return holds
+    .map((h) => ({ scheduledAt: h.offer!.scheduledAt, duration: h.offer!.duration }))
+    .filter(endsAfter(from));
+}
+
+async function findBookedAppointments(
+  doctorId: string | Types.ObjectId,
+  from: Date,
+  to: Date,
+  ignoreAppointmentId?: string
+): Promise<BookedInterval[]> {
+  const query: Record<string, any> = {
+    doctorId,
+    scheduledAt: { $gte: new Date(from.getTime() - BOOKED_LOOKBACK_MS), $lt: to },
+    status: { $nin: SLOT_RELEASING_STATUSES },
+  };
+  if (ignoreAppointmentId) query._id = { $ne: ignoreAppointmentId };
+
+  const booked = await Appointment.find(query).select("scheduledAt duration").lean();
+  return booked
+    .map((a) => ({ scheduledAt: a.scheduledAt, duration: a.duration || 30 }))
+    .filter(endsAfter(from));
+}
+
+/**
+ * Appointments (and unexpired waitlist offers) that still hold any of the
+ * doctor's time within [from, to), each for its own duration — the same
+ * query GET /appointments/booked-slots exposes. `ignoreAppointmentId` leaves
+ * out an appointment being moved.
+ */
+export async function findBookedIntervals(
+  doctorId: string | Types.ObjectId,
+  from: Date,
+  to: Date,
+  claimantUserId?: string,
+  ignoreAppointmentId?: string
+): Promise<BookedInterval[]> {
+  return [
+    ...(await findBookedAppointments(doctorId, from, to, ignoreAppointmentId)),
+    ...(await findOfferHolds(doctorId, from, to, claimantUserId)),
+  ];
+}
+
+function removeBooked(
+  slots: BookableSlot[],
+  booked: BookedInterval[],
+  bufferMinutes: number
+): BookableSlot[] {
+  const bufferMs = bufferMinutes * 60_000;
+  return slots.filter(
+    (slot) =>
+      !booked.some((b) => {
+        const bStart = new Date(b.scheduledAt).getTime();
+        const bEnd = bStart + b.duration * 60_000;
+        return overlaps(slot.start.getTime(), slot.end.getTime(), bStart - bufferMs, bEnd + bufferMs);
+      })
+  );
+}
+
+/**
+ * Free, bookable slots for a doctor within [from, to). Booked time is looked
+ * up from a window widened by the buffer on each side, so an appointment
+ * that ends just before `from` still blocks the first slot.
+ */
+export async function getBookableSlots(
+  doctorId: string | Types.ObjectId,
+  availability: IDoctorAvailability,
+  from: Date,
+  to: Date,
+  claimantUserId?: string
+): Promise<BookableSlot[]> {
+  const slots = generateScheduleSlots(availability, from, to);
+  if (!slots.length) return slots;
+
+  const marginMs = availability.bufferMinutes * 60_000;
+  const booked = await findBookedIntervals(
+    doctorId,
+    new Date(from.getTime() - marginMs),
+    new Date(to.getTime() + marginMs),
+    claimantUserId
+  );
+  return removeBooked(slots, booked, availability.bufferMinutes);
+}
+
+/**
+ * True when `scheduledAt` is exactly the start of a free slot. Optionally
+ * ignores one appointment — used when re-checking a time for an appointment
+ * that already holds a slot of its own — and the waitlist offer held by
+ * `claimantUserId`.
+ */
+export async function isSlotBookable(
+  doctorId: string | Types.ObjectId,
+  availability: IDoctorAvailability | null,
+  scheduledAt: Date,
+  ignoreAppointmentId?: string,
+  claimantUserId?: string
+): Promise<boolean> {
+  if (!availability) return false;
+
+  const dayStart = dayjs(scheduledAt).tz(availability.timezone).startOf("day").toDate();
+  const dayEnd = dayjs(dayStart).add(1, "day").toDate();
+  const slot = generateScheduleSlots(availability, dayStart, dayEnd).find(
+    (s) => s.start.getTime() === scheduledAt.getTime()
+  );
+  if (!slot) return false;
+
+  const marginMs = availability.bufferMinutes * 60_000;
+  const windowStart = new Date(slot.start.getTime() - marginMs);
+  const windowEnd = new Date(slot.end.getTime() + marginMs);
+  const booked = [
+    ...(await findBookedAppointments(doctorId, windowStart, windowEnd, ignoreAppointmentId)),
+    ...(await findOfferHolds(doctorId, windowStart, windowEnd, claimantUserId)),
+  ];
+  return removeBooked([slot], booked, availability.bufferMinutes).length === 1;
+}
@@ -0,0 +1,213 @@
+// services/CalendarService.ts
+//
+// Renders appointments as iCalendar (RFC 5545) so patients and doctors can
+// see their consultations in Google Calendar, Outlook, Apple Calendar, etc.
+// Used by:
+//   - calendarController — the secret-token subscription feed and the
+//     single-appointment .ics download
+//
+// Each appointment is always the same VEVENT: its UID never changes, and its
+// SEQUENCE only ever goes up as the appointment is edited, so calendar apps
+// replace the old event instead of adding a second one. Cancelled, rejected
+// and expired appointments stay in the feed as STATUS:CANCELLED so
+// subscribers see them disappear.
+//
+// Feeds end up on third-party servers, so events carry no clinical detail —
+// no reason, notes or snapshot beyond the patient's name (and only when the
+// patient chose to share it with the doctor).
+import { randomBytes } from "crypto";
+import { Types } from "mongoose";
+import { AppointmentStatus, IAppointment } from "../models/appointment";
+import { CalendarFeed, ICalendarFeed } from "../models/CalendarFeed";
+
+const APP_URL = process.env.APP_URL;
+const APP_DOMAIN = process.env.APP_DOMAIN || "planamwell.com";
+const DEEP_LINK_SCHEME = process.env.DEEP_LINK_SCHEME || "planamwell://";
+
+// How far back a subscription feed reaches; everything upcoming is included.
+export const FEED_HISTORY_DAYS = 90;
+
+export type CalendarPerspective = "User" | "Doctor";
+
+const CONSULTATION_LABELS: Record<string, string> = {
+  video: "Video consultation",
+  audio: "Audio consultation",
+  chat: "Chat consultation",
+  "in-person": "In-person consultation",
+};
+
+const CANCELLED_STATUSES: AppointmentStatus[] = ["cancelled", "rejected", "expired"];
+const TENTATIVE_STATUSES: AppointmentStatus[] = ["pending", "rescheduled"];
+
+// ─── Feed tokens ──────────────────────────────────────────────────────────────
+
+export function feedUrls(token: string): { url: string; webcalUrl: string } {
+  const url = `${APP_URL}/api/v1/calendar/feeds/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:\/\//, "webcal://") };
+}
+
+/** The owner's feed, created on first use. */
+export async function getOrCreateFeed(
+  ownerId: string,
+  ownerType: CalendarPerspective
+): Promise<ICalendarFeed> {
+  const existing = await CalendarFeed.findOne({ ownerId, ownerType });
+  if (existing) return existing;
+  try {
+    return await CalendarFeed.create({ ownerId, ownerType, token: randomBytes(24).toString("hex") });
+  } catch (err: any) {
+    // Two first requests raced — use the one that won.
+    if (err?.code === 11000) return (await CalendarFeed.findOne({ ownerId, ownerType }))!;
+    throw err;
+  }
+}
+
+/** Issues a new token; the old subscription URL stops working immediately. */
+export async function rotateFeedToken(
+  ownerId: string,
+  ownerType: CalendarPerspective
+): Promise<ICalendarFeed> {
+  return (await CalendarFeed.findOneAndUpdate(
+    { ownerId, ownerType },
+    { $set: { token: randomBytes(24).toString("hex") } },
+    { new: true, upsert: true }
+  ))!;
+}
+
+// ─── iCalendar rendering ──────────────────────────────────────────────────────
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines
+// that start with a single space.
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    const limit = parts.length ? 74 : 75; // continuation lines lose one to the space
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventStatus(status: AppointmentStatus): string {
+  if (CANCELLED_STATUSES.includes(status)) return "CANCELLED";
+  if (TENTATIVE_STATUSES.includes(status)) return "TENTATIVE";
+  return "CONFIRMED";
+}
+
+// Seconds since the appointment was created, as of its last write — grows
+// with every edit, which is all SEQUENCE needs.
+function eventSequence(appointment: Pick<IAppointment, "createdAt" | "updatedAt">): number {
+  if (!appointment.createdAt || !appointment.updatedAt) return 0;
+  const seconds = Math.floor(
+    (new Date(appointment.updatedAt).getTime() - new Date(appointment.createdAt).getTime()) / 1000
+  );
+  return Math.max(seconds, 0);
+}
+
+function otherPartyName(appointment: IAppointment, perspective: CalendarPerspective): string {
+  if (perspective === "User") {
+    const doctor = appointment.doctorId as any;
+    return `Dr. ${doctor?.lastName || doctor?.firstName || "your doctor"}`;
+  }
+  const member = appointment.familyMemberId as any;
+  if (appointment.shareUserInfo && appointment.patientSnapshot?.name) {
+    return appointment.patientSnapshot.name;
+  }
+  return member?.name || "a patient";
+}
+
+function renderEvent(appointment: IAppointment, perspective: CalendarPerspective, now: Date): string[] {
+  const id = String(appointment._id);
+  const start = new Date(appointment.scheduledAt);
+  const end = new Date(start.getTime() + (appointment.duration || 30) * 60_000);
+  const label = CONSULTATION_LABELS[appointment.consultationType || "video"] || "Consultation";
+  const deepLink = `${DEEP_LINK_SCHEME}appointments/${id}`;
+
+  let summary = `${label} with ${otherPartyName(appointment, perspective)}`;
+  const member = appointment.familyMemberId as any;
+  if (perspective === "User" && member?.name) summary += ` (for ${member.name})`;
+
+  const description = [
+    `${label} on PlanAmWell (${appointment.duration || 30} minutes).`,
+    `Open in the app: ${deepLink}`,
+  ].join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:appointment-${id}@${APP_DOMAIN}`,
+    `SEQUENCE:${eventSequence(appointment)}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${deepLink}`,
+    ...(appointment.consultationType === "in-person" ? [] : ["LOCATION:PlanAmWell app"]),
+    `STATUS:${eventStatus(appointment.status)}`,
+    ...(appointment.updatedAt ? [`LAST-MODIFIED:${formatUtc(new Date(appointment.updatedAt))}`] : []),
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * A complete VCALENDAR for `appointments`, as seen by a patient ("User") or
+ * doctor. Expects doctorId and familyMemberId to be populated with names.
+ * `method` is only set for one-off downloads; subscription feeds omit it.
+ */
+export function buildCalendar(
+  appointments: IAppointment[],
+  perspective: CalendarPerspective,
+  options: { name?: string; method?: "PUBLISH"; now?: Date } = {}
+): string {
+  const now = options.now || new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//PlanAmWell//Appointments//EN",
+    "CALSCALE:GREGORIAN",
+    ...(options.method ? [`METHOD:${options.method}`] : []),
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    // Ask subscribing apps to re-fetch hourly (most honour this loosely).
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...appointments.flatMap((a) => renderEvent(a, perspective, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/** The filter for a feed owner's appointments within the feed window. */
+export function feedQuery(
+  ownerId: Types.ObjectId | string,
+  ownerType: CalendarPerspective,
+  now: Date = new Date()
+): Record<string, any> {
+  return {
+    [ownerType === "Doctor" ? "doctorId" : "userId"]: ownerId,
+    scheduledAt: { $gte: new Date(now.getTime() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000) },
+  };
+}
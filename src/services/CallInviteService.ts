@@ -0,0 +1,349 @@
+// services/CallInviteService.ts
+//
+// Third participants in a consultation's calls — an interpreter, a family
+// member or a second doctor — invited by link. Used by:
+//   - videoCallController — create / list / revoke invites, and the public
+//     join endpoint the link opens
+//   - index.ts — guest sockets are limited to their appointment's room,
+//     signaling only flows between the appointment's call roster, and
+//     view-only guests can't offer media or change the call mode
+//
+// The link carries a random token; only its SHA-256 is stored. Opening it
+// while a call is ringing or in progress returns a short-lived "CallGuest"
+// JWT for the Socket.IO connection plus ICE servers. The guest's participant
+// id everywhere (signaling, callAttempts.joins) is the invite's _id.
+//
+// Doctors may invite anyone; patients may invite an interpreter or a family
+// member. A view-only guest receives media but should not send any — clients
+// set up receive-only transceivers for them (the permission is in their token
+// and in the "participant-joined" event).
+import crypto from "crypto";
+import { Types } from "mongoose";
+import {
+  Appointment,
+  CallInvitePermission,
+  CallInviteRole,
+  IAppointment,
+  ICallInvite,
+} from "../models/appointment";
+import { signCallGuestJwt } from "../middleware/auth";
+import { recordCallJoin } from "./ReliabilityService";
+import { buildIceServers, IceServerConfig } from "./TurnCredentialService";
+import { emitParticipantJoined, emitParticipantRemoved } from "../index";
+import { memoryCache } from "../util/memoryCache";
+
+const APP_DOMAIN = process.env.APP_DOMAIN || "planamwell.com";
+const DEEP_LINK_SCHEME = process.env.DEEP_LINK_SCHEME || "planamwell://";
+
+const MAX_ACTIVE_INVITES = 3;
+// Links stay usable until a while after the booked slot ends (or after they
+// were issued, for calls already running late).
+const INVITE_GRACE_MS = 2 * 60 * 60 * 1000;
+const CALL_BASED_TYPES = ["video", "audio"];
+const CLOSED_STATUSES = ["cancelled", "rejected"];
+
+// Signaling checks every relayed message against the roster; a short cache
+// keeps ICE candidate bursts off the database. Invite writes clear it.
+const SIGNAL_ROSTER_TTL_MS = 30 * 1000;
+const signalRosterKey = (appointmentId: string) => `call-signal-roster:${appointmentId}`;
+
+const INVITE_ROLES: CallInviteRole[] = ["interpreter", "family-member", "doctor"];
+const PATIENT_INVITE_ROLES: CallInviteRole[] = ["interpreter", "family-member"];
+
+export class CallInviteError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code?: string) {
+    super(message);
+    this.name = "CallInviteError";
+  }
+}
+
+export interface CallInviteView {
+  _id: string;
+  role: CallInviteRole;
+  name: string;
+  email?: string;
+  permission: CallInvitePermission;
+  invitedByRole: "Doctor" | "User";
+  createdAt: Date;
+  expiresAt: Date;
+  lastJoinedAt?: Date;
+  state: "active" | "expired" | "revoked";
+}
+
+export interface CallParticipantView {
+  participantId: string;
+  kind: "doctor" | "patient" | "guest";
+  name: string;
+  role?: CallInviteRole;
+  permission: CallInvitePermission;
+}
+
+const idOf = (field: any): string => String(field?._id ?? field ?? "");
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+function inviteState(invite: ICallInvite, now: Date): CallInviteView["state"] {
+  if (invite.revokedAt) return "revoked";
+  return new Date(invite.expiresAt) <= now ? "expired" : "active";
+}
+
+function toView(invite: ICallInvite, now: Date): CallInviteView {
+  return {
+    _id: String(invite._id),
+    role: invite.role,
+    name: invite.name,
+    email: invite.email,
+    permission: invite.permission,
+    invitedByRole: invite.invitedByRole,
+    createdAt: invite.createdAt,
+    expiresAt: invite.expiresAt,
+    lastJoinedAt: invite.lastJoinedAt,
+    state: inviteState(invite, now),
+  };
+}
+
+export function inviteLinks(token: string): { url: string; deepLink: string } {
+  return {
+    url: `https://${APP_DOMAIN}/call/join?token=${token}`,
+    deepLink: `${DEEP_LINK_SCHEME}call/join?token=${token}`,
+  };
+}
+
+async function loadForParticipant(appointmentId: string, requesterId: string) {
+  if (!Types.ObjectId.isValid(appointmentId)) throw new CallInviteError("Appointment not found", 404);
+  const appointment = await Appointment.findById(appointmentId)
+    .select("userId doctorId status scheduledAt duration consultationType callInvites")
+    .lean();
+  if (!appointment) throw new CallInviteError("Appointment not found", 404);
+  if (![idOf(appointment.doctorId), idOf(appointment.userId)].includes(requesterId)) {
+    throw new CallInviteError("You are not part of this appointment", 403);
+  }
+  return appointment;
+}
+
+// ─── Booked participants ──────────────────────────────────────────────────────
+
+/**
+ * Invites someone into the appointment's calls. Returns the link — the only
+ * time the raw token is available.
+ */
+export async function createCallInvite(
+  appointmentId: string,
+  requester: { id: string; role: "Doctor" | "User" },
+  input: { role?: unknown; name?: unknown; email?: unknown; permission?: unknown },
+  now: Date = new Date()
+): Promise<{ invite: CallInviteView; token: string; url: string; deepLink: string }> {
+  const appointment = await loadForParticipant(appointmentId, requester.id);
+
+  if (!CALL_BASED_TYPES.includes(appointment.consultationType || "video")) {
+    throw new CallInviteError("Only video and audio consultations can have invited participants", 400);
+  }
+  if (CLOSED_STATUSES.includes(appointment.status)) {
+    throw new CallInviteError(`This appointment has been ${appointment.status}`, 400);
+  }
+
+  const role = input.role as CallInviteRole;
+  if (!INVITE_ROLES.includes(role)) {
+    throw new CallInviteError(`role must be one of ${INVITE_ROLES.join(", ")}`, 400);
+  }
+  if (requester.role === "User" && !PATIENT_INVITE_ROLES.includes(role)) {
+    throw new CallInviteError("Only the doctor can invite another doctor", 403);
+  }
+  const name = String(input.name ?? "").trim();
+  if (!name) throw new CallInviteError("name is required", 400);
+  const permission: CallInvitePermission = input.permission === "view-only" ? "view-only" : "participant";
+
+  const active = (appointment.callInvites || []).filter((i) => inviteState(i, now) === "active");
+  if (active.length >= MAX_ACTIVE_INVITES) {
+    throw new CallInviteError(
+      `At most ${MAX_ACTIVE_INVITES} people can be invited at a time. Revoke an invite first.`,
+      409,
+      "INVITE_LIMIT"
+    );
+  }
+
+  const token = crypto.randomBytes(24).toString("base64url");
+  const slotEnd = new Date(appointment.scheduledAt).getTime() + (appointment.duration || 30) * 60000;
+  const invite = {
+    _id: new Types.ObjectId(),
+    role,
+    name,
+    email: input.email ? String(input.email).trim() : undefined,
+    permission,
+    tokenHash: hashToken(token),
+    invitedBy: new Types.ObjectId(requester.id),
+    invitedByRole: requester.role,
+    createdAt: now,
+    expiresAt: new Date(Math.max(slotEnd, now.getTime()) + INVITE_GRACE_MS),
+  } as ICallInvite;
+
+  await Appointment.updateOne({ _id: appointment._id }, { $push: { callInvites: invite } });
+  memoryCache.invalidate(signalRosterKey(appointmentId));
+  console.log(`✉️ [CallInvite] ${requester.role} ${requester.id} invited a ${role} to appointment ${appointmentId}`);
+
+  return { invite: toView(invite, now), token, ...inviteLinks(token) };
+}
+
+export async function listCallInvites(
+  appointmentId: string,
+  requesterId: string,
+  now: Date = new Date()
+): Promise<CallInviteView[]> {
+  const appointment = await loadForParticipant(appointmentId, requesterId);
+  return (appointment.callInvites || []).map((invite) => toView(invite, now));
+}
+
+/**
+ * Revokes an invite and drops the guest from any call they are in. Patients
+ * can only revoke invites they sent; the doctor can revoke any.
+ */
+export async function revokeCallInvite(
+  appointmentId: string,
+  inviteId: string,
+  requester: { id: string; role: "Doctor" | "User" },
+  now: Date = new Date()
+): Promise<CallInviteView> {
+  const appointment = await loadForParticipant(appointmentId, requester.id);
+  const invite = (appointment.callInvites || []).find((i) => String(i._id) === inviteId);
+  if (!invite) throw new CallInviteError("Invite not found", 404);
+  if (requester.role === "User" && String(invite.invitedBy) !== requester.id) {
+    throw new CallInviteError("You can only revoke invites you sent", 403);
+  }
+
+  if (!invite.revokedAt) {
+    await Appointment.updateOne(
+      { _id: appointment._id },
+      { $set: { "callInvites.$[invite].revokedAt": now } },
+      { arrayFilters: [{ "invite._id": invite._id, "invite.revokedAt": { $exists: false } }] }
+    );
+    memoryCache.invalidate(signalRosterKey(appointmentId));
+    emitParticipantRemoved(appointmentId, inviteId);
+    invite.revokedAt = now;
+  }
+  return toView(invite, now);
+}
+
+// ─── Signaling ────────────────────────────────────────────────────────────────
+
+/**
+ * Participant ids allowed to signal on the appointment's calls — the doctor,
+ * the patient and active invitees — with each one's permission. Empty for an
+ * unknown appointment.
+ */
+export async function signalingRoster(appointmentId: string): Promise<Map<string, CallInvitePermission>> {
+  if (!Types.ObjectId.isValid(appointmentId)) return new Map();
+  return memoryCache.getOrSet(signalRosterKey(appointmentId), SIGNAL_ROSTER_TTL_MS, async () => {
+    const appointment = await Appointment.findById(appointmentId).select("userId doctorId callInvites").lean();
+    const roster = new Map<string, CallInvitePermission>();
+    if (!appointment) return roster;
+    const now = new Date();
+    roster.set(idOf(appointment.doctorId), "participant");
+    roster.set(idOf(appointment.userId), "participant");
+    for (const invite of appointment.callInvites || []) {
+      if (inviteState(invite, now) === "active") roster.set(String(invite._id), invite.permission);
+    }
+    return roster;
+  });
+}
+
+// ─── Guests ───────────────────────────────────────────────────────────────────
+
+/** Who is (or may be) on the call, for a guest's participant list. */
+function callRoster(
+  appointment: Pick<IAppointment, "userId" | "doctorId" | "callInvites" | "patientSnapshot">,
+  now: Date
+): CallParticipantView[] {
+  const doctor = appointment.doctorId as any;
+  const patient = appointment.userId as any;
+  return [
+    {
+      participantId: idOf(doctor),
+      kind: "doctor",
+      name: `Dr. ${doctor?.firstName || ""} ${doctor?.lastName || ""}`.trim(),
+      permission: "participant",
+    },
+    {
+      participantId: idOf(patient),
+      kind: "patient",
+      name:
+        appointment.patientSnapshot?.name ||
+        patient?.name ||
+        `${patient?.firstName || ""} ${patient?.lastName || ""}`.trim(),
+      permission: "participant",
+    },
+    ...(appointment.callInvites || [])
+      .filter((i) => inviteState(i, now) === "active")
+      .map((i): CallParticipantView => ({
+        participantId: String(i._id),
+        kind: "guest",
+        name: i.name,
+        role: i.role,
+        permission: i.permission,
+      })),
+  ];
+}
+
+/**
+ * Exchanges an invite link token for a guest session on the appointment's
+ * current call.
+ */
+export async function joinWithInvite(
+  token: string,
+  now: Date = new Date()
+): Promise<{
+  sessionToken: string;
+  appointmentId: string;
+  channelName?: string;
+  callType: "audio" | "video";
+  participant: CallParticipantView;
+  participants: CallParticipantView[];
+  ice: IceServerConfig;
+}> {
+  if (!token) throw new CallInviteError("Invite token is required", 400);
+  const tokenHash = hashToken(token);
+
+  const appointment = await Appointment.findOne({ "callInvites.tokenHash": tokenHash })
+    .select("userId doctorId status callStatus callChannelName callType callInvites patientSnapshot")
+    .populate("doctorId", "firstName lastName")
+    .populate("userId", "name firstName lastName")
+    .lean();
+  const invite = appointment?.callInvites.find((i) => i.tokenHash === tokenHash);
+  if (!appointment || !invite) throw new CallInviteError("This invite link is not valid", 404);
+
+  const state = inviteState(invite, now);
+  if (state !== "active") throw new CallInviteError(`This invite has ${state === "revoked" ? "been revoked" : "expired"}`, 410);
+  if (CLOSED_STATUSES.includes(appointment.status)) {
+    throw new CallInviteError(`This appointment has been ${appointment.status}`, 410);
+  }
+  if (appointment.callStatus !== "ringing" && appointment.callStatus !== "in-progress") {
+    throw new CallInviteError("The call hasn't started yet. Try again once it has.", 409, "CALL_NOT_STARTED");
+  }
+
+  const appointmentId = String(appointment._id);
+  const participantId = String(invite._id);
+  await recordCallJoin(appointmentId, participantId, "guest", now);
+  await Appointment.updateOne(
+    { _id: appointment._id },
+    { $set: { "callInvites.$[invite].lastJoinedAt": now } },
+    { arrayFilters: [{ "invite._id": invite._id }] }
+  );
+
+  const participant: CallParticipantView = {
+    participantId,
+    kind: "guest",
+    name: invite.name,
+    role: invite.role,
+    permission: invite.permission,
+  };
+  emitParticipantJoined(appointmentId, participant);
+  console.log(`✉️ [CallInvite] ${invite.role} ${participantId} joined the call on appointment ${appointmentId}`);
+
+  return {
+    sessionToken: signCallGuestJwt(invite, appointmentId, invite.expiresAt),
+    appointmentId,
+    channelName: appointment.callChannelName,
+    callType: appointment.callType || "video",
+    participant,
+    participants: callRoster(appointment, now),
+    ice: buildIceServers(participantId, appointmentId),
+  };
+}
@@ -0,0 +1,403 @@
+// services/CallTelemetryService.ts
+//
+// Objective call quality from the clients' WebRTC stats, next to the single
+// self-reported appointment.callQuality. Used by:
+//   - videoCallController — postCallStats (REST ingestion) and getCallReport
+//   - index.ts — the "call-stats" Socket.IO event, same ingestion with an ack
+//   - adminController — any appointment's report, and fleet-wide aggregates
+//
+// Clients post batches of getStats() readings every few seconds while a call
+// is up. Each sample is filed under the call attempt that was open when it
+// arrived (or one that ended moments ago, for the final flush after hang-up).
+// Reports and aggregates are computed on read from the raw samples.
+import { Types } from "mongoose";
+import { Appointment, CallQuality, ICallAttempt } from "../models/appointment";
+import {
+  CALL_NETWORK_TYPES,
+  CallNetworkType,
+  CallStatsSample,
+  ICE_CANDIDATE_TYPES,
+  IceCandidateType,
+  ICallStatsSample,
+} from "../models/CallStatsSample";
+
+const MAX_SAMPLES_PER_BATCH = 60;
+// Samples may trail the hang-up a little (the client flushes its buffer).
+const LATE_FLUSH_MS = 2 * 60 * 1000;
+const CLOCK_SKEW_MS = 60 * 1000;
+
+export class CallTelemetryError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "CallTelemetryError";
+  }
+}
+
+type SampleInput = Pick<
+  ICallStatsSample,
+  | "sampledAt"
+  | "rttMs"
+  | "jitterMs"
+  | "packetLossPct"
+  | "inboundBitrateKbps"
+  | "outboundBitrateKbps"
+  | "localCandidateType"
+  | "remoteCandidateType"
+  | "networkType"
+>;
+
+export interface CallLegSummary {
+  userId: string;
+  role: "Doctor" | "User";
+  samples: number;
+  medianRttMs: number | null;
+  p95RttMs: number | null;
+  medianJitterMs: number | null;
+  medianPacketLossPct: number | null;
+  maxPacketLossPct: number | null;
+  medianInboundBitrateKbps: number | null;
+  medianOutboundBitrateKbps: number | null;
+  relayed: boolean;
+  candidateTypes: IceCandidateType[];
+  networkTypes: CallNetworkType[];
+  quality: CallQuality | null;
+}
+
+export interface CallAttemptReport {
+  startedAt: Date;
+  endedAt?: Date;
+  endReason?: ICallAttempt["endReason"];
+  duration?: number;
+  relayed: boolean;
+  quality: CallQuality | null; // the worse of the two legs
+  legs: CallLegSummary[];
+}
+
+export interface CallReport {
+  appointmentId: string;
+  selfReportedQuality: CallQuality | null;
+  attempts: CallAttemptReport[];
+}
+
+const idOf = (field: any): string => String(field?._id ?? field ?? "");
+
+// ─── Ingestion ────────────────────────────────────────────────────────────────
+
+function readMetric(value: unknown, max: number): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 && n <= max ? Math.round(n * 100) / 100 : undefined;
+}
+
+function readEnum<T extends string>(value: unknown, allowed: T[]): T | undefined {
+  return allowed.includes(value as T) ? (value as T) : undefined;
+}
+
+// Unreadable fields are dropped rather than failing the whole batch — stats
+// differ between WebRTC implementations and we keep whatever is usable.
+function parseSample(raw: any, now: Date): SampleInput | null {
+  if (!raw || typeof raw !== "object") return null;
+  const sampledAt = raw.timestamp === undefined ? now : new Date(raw.timestamp);
+  if (isNaN(sampledAt.getTime())) return null;
+
+  const sample: SampleInput = {
+    sampledAt,
+    rttMs: readMetric(raw.rttMs, 60_000),
+    jitterMs: readMetric(raw.jitterMs, 60_000),
+    packetLossPct: readMetric(raw.packetLossPct, 100),
+    inboundBitrateKbps: readMetric(raw.inboundBitrateKbps, 100_000),
+    outboundBitrateKbps: readMetric(raw.outboundBitrateKbps, 100_000),
+    localCandidateType: readEnum(raw.localCandidateType, ICE_CANDIDATE_TYPES),
+    remoteCandidateType: readEnum(raw.remoteCandidateType, ICE_CANDIDATE_TYPES),
+    networkType: readEnum(raw.networkType, CALL_NETWORK_TYPES) || "unknown",
+  };
+
+  const hasMetric = [
+    sample.rttMs,
+    sample.jitterMs,
+    sample.packetLossPct,
+    sample.inboundBitrateKbps,
+    sample.outboundBitrateKbps,
+  ].some((v) => v !== undefined);
+  return hasMetric ? sample : null;
+}
+
+// The attempt still open, else the one that ended moments ago.
+function attemptFor(attempts: ICallAttempt[], now: Date): ICallAttempt | undefined {
+  const latest = [...attempts].sort(
+    (a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
+  )[0];
+  if (!latest) return undefined;
+  if (!latest.endedAt) return latest;
+  return now.getTime() - new Date(latest.endedAt).getTime() <= LATE_FLUSH_MS ? latest : undefined;
+}
+
+/**
+ * Stores a batch of stats samples from a call participant. Throws
+ * CallTelemetryError (with an HTTP status) when the batch can't be accepted.
+ */
+export async function recordCallStats(
+  appointmentId: string,
+  userId: string,
+  rawSamples: unknown,
+  now: Date = new Date()
+): Promise<{ accepted: number; attemptStartedAt: Date }> {
+  if (!Types.ObjectId.isValid(appointmentId)) {
+    throw new CallTelemetryError("Appointment not found", 404);
+  }
+  if (!Array.isArray(rawSamples) || !rawSamples.length) {
+    throw new CallTelemetryError("samples must be a non-empty array", 400);
+  }
+  if (rawSamples.length > MAX_SAMPLES_PER_BATCH) {
+    throw new CallTelemetryError(`At most ${MAX_SAMPLES_PER_BATCH} samples per batch`, 400);
+  }
+
+  const appointment = await Appointment.findById(appointmentId)
+    .select("userId doctorId callAttempts")
+    .lean();
+  if (!appointment) throw new CallTelemetryError("Appointment not found", 404);
+
+  const isDoctor = idOf(appointment.doctorId) === userId;
+  if (!isDoctor && idOf(appointment.userId) !== userId) {
+    throw new CallTelemetryError("You are not part of this appointment", 403);
+  }
+
+  const attempt = attemptFor(appointment.callAttempts || [], now);
+  if (!attempt) throw new CallTelemetryError("No call in progress for this appointment", 409);
+
+  const earliest = new Date(attempt.startedAt).getTime() - CLOCK_SKEW_MS;
+  const latest = (attempt.endedAt ? new Date(attempt.endedAt).getTime() : now.getTime()) + CLOCK_SKEW_MS;
+  const samples = rawSamples
+    .map((raw) => parseSample(raw, now))
+    .filter((s): s is SampleInput => {
+      if (!s) return false;
+      const at = s.sampledAt.getTime();
+      return at >= earliest && at <= latest;
+    });
+
+  if (samples.length) {
+    await CallStatsSample.insertMany(
+      samples.map((s) => ({
+        ...s,
+        appointmentId: appointment._id,
+        attemptStartedAt: attempt.startedAt,
+        userId: new Types.ObjectId(userId),
+        role: isDoctor ? "Doctor" : "User",
+      })),
+      { ordered: false }
+    );
+  }
+
+  return { accepted: samples.length, attemptStartedAt: attempt.startedAt };
+}
+
+// ─── Reports ──────────────────────────────────────────────────────────────────
+
+function percentile(values: number[], p: number): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+  return Math.round(value * 100) / 100;
+}
+
+const median = (values: number[]) => percentile(values, 50);
+
+const QUALITY_ORDER: CallQuality[] = ["excellent", "good", "fair", "poor"];
+
+// Rough thresholds for a voice/video consultation — loss hurts most, then
+// latency, then jitter (which the jitter buffer mostly absorbs).
+export function gradeCallQuality(
+  packetLossPct: number | null,
+  rttMs: number | null,
+  jitterMs: number | null
+): CallQuality | null {
+  if (packetLossPct === null && rttMs === null && jitterMs === null) return null;
+  const loss = packetLossPct ?? 0;
+  const rtt = rttMs ?? 0;
+  const jitter = jitterMs ?? 0;
+  if (loss < 1 && rtt < 150 && jitter < 20) return "excellent";
+  if (loss < 3 && rtt < 300 && jitter < 40) return "good";
+  if (loss < 8 && rtt < 500 && jitter < 80) return "fair";
+  return "poor";
+}
+
+const worstQuality = (qualities: (CallQuality | null)[]): CallQuality | null =>
+  qualities.reduce<CallQuality | null>((worst, q) => {
+    if (!q) return worst;
+    if (!worst) return q;
+    return QUALITY_ORDER.indexOf(q) > QUALITY_ORDER.indexOf(worst) ? q : worst;
+  }, null);
+
+const numbers = (samples: SampleInput[], field: keyof SampleInput): number[] =>
+  samples.map((s) => s[field]).filter((v): v is number => typeof v === "number");
+
+function summariseLeg(userId: string, role: "Doctor" | "User", samples: SampleInput[]): CallLegSummary {
+  const loss = numbers(samples, "packetLossPct");
+  const candidateTypes = [
+    ...new Set(samples.flatMap((s) => [s.localCandidateType, s.remoteCandidateType]).filter(Boolean)),
+  ] as IceCandidateType[];
+  const summary = {
+    userId,
+    role,
+    samples: samples.length,
+    medianRttMs: median(numbers(samples, "rttMs")),
+    p95RttMs: percentile(numbers(samples, "rttMs"), 95),
+    medianJitterMs: median(numbers(samples, "jitterMs")),
+    medianPacketLossPct: median(loss),
+    maxPacketLossPct: loss.length ? Math.max(...loss) : null,
+    medianInboundBitrateKbps: median(numbers(samples, "inboundBitrateKbps")),
+    medianOutboundBitrateKbps: median(numbers(samples, "outboundBitrateKbps")),
+    relayed: candidateTypes.includes("relay"),
+    candidateTypes,
+    networkTypes: [...new Set(samples.map((s) => s.networkType))],
+  };
+  return {
+    ...summary,
+    quality: gradeCallQuality(summary.medianPacketLossPct, summary.medianRttMs, summary.medianJitterMs),
+  };
+}
+
+/** Per-attempt, per-participant quality summary for one appointment. */
+export async function buildCallReport(appointmentId: string): Promise<CallReport | null> {
+  if (!Types.ObjectId.isValid(appointmentId)) return null;
+  const appointment = await Appointment.findById(appointmentId)
+    .select("callAttempts callQuality")
+    .lean();
+  if (!appointment) return null;
+
+  const samples = await CallStatsSample.find({ appointmentId: appointment._id })
+    .sort({ sampledAt: 1 })
+    .lean();
+
+  const attempts = (appointment.callAttempts || []).map((attempt): CallAttemptReport => {
+    const startedAt = new Date(attempt.startedAt).getTime();
+    const ofAttempt = samples.filter((s) => new Date(s.attemptStartedAt).getTime() === startedAt);
+
+    const byUser = new Map<string, { role: "Doctor" | "User"; samples: SampleInput[] }>();
+    for (const sample of ofAttempt) {
+      const key = String(sample.userId);
+      if (!byUser.has(key)) byUser.set(key, { role: sample.role, samples: [] });
+      byUser.get(key)!.samples.push(sample);
+    }
+    const legs = [...byUser].map(([userId, leg]) => summariseLeg(userId, leg.role, leg.samples));
+
+    return {
+      startedAt: attempt.startedAt,
+      endedAt: attempt.endedAt,
+      endReason: attempt.endReason,
+      duration: attempt.duration,
+      relayed: legs.some((l) => l.relayed),
+      quality: worstQuality(legs.map((l) => l.quality)),
+      legs,
+    };
+  });
+
+  return {
+    appointmentId: String(appointment._id),
+    selfReportedQuality: appointment.callQuality || null,
+    attempts,
+  };
+}
+
+// ─── Admin aggregates ─────────────────────────────────────────────────────────
+
+export interface CallTelemetryAggregates {
+  from: Date;
+  to: Date;
+  calls: number;
+  relayedCalls: number;
+  relayedPct: number | null;
+  qualityBreakdown: Record<CallQuality, number>;
+  byNetwork: {
+    networkType: CallNetworkType;
+    legs: number;
+    relayedPct: number | null;
+    medianPacketLossPct: number | null;
+    medianRttMs: number | null;
+    medianJitterMs: number | null;
+  }[];
+}
+
+interface LegRow {
+  _id: { appointmentId: Types.ObjectId; attemptStartedAt: Date; userId: Types.ObjectId };
+  networkType: CallNetworkType;
+  relayed: number;
+  packetLossPct: number | null;
+  rttMs: number | null;
+  jitterMs: number | null;
+}
+
+const pct = (part: number, total: number): number | null =>
+  total ? Math.round((part / total) * 1000) / 10 : null;
+
+/**
+ * Fleet-wide call quality over [from, to). Each participant's side of a call
+ * (a "leg") is averaged first; network medians are taken across legs, on the
+ * network the leg finished on. A call counts as relayed if either leg went
+ * through TURN.
+ */
+export async function getCallTelemetryAggregates(from: Date, to: Date): Promise<CallTelemetryAggregates> {
+  const legs = await CallStatsSample.aggregate<LegRow>([
+    { $match: { sampledAt: { $gte: from, $lt: to } } },
+    { $sort: { sampledAt: 1 } },
+    {
+      $group: {
+        _id: { appointmentId: "$appointmentId", attemptStartedAt: "$attemptStartedAt", userId: "$userId" },
+        networkType: { $last: "$networkType" },
+        relayed: {
+          $max: {
+            $cond: [
+              { $or: [{ $eq: ["$localCandidateType", "relay"] }, { $eq: ["$remoteCandidateType", "relay"] }] },
+              1,
+              0,
+            ],
+          },
+        },
+        packetLossPct: { $avg: "$packetLossPct" },
+        rttMs: { $avg: "$rttMs" },
+        jitterMs: { $avg: "$jitterMs" },
+      },
+    },
+  ]);
+
+  const calls = new Map<string, LegRow[]>();
+  for (const leg of legs) {
+    const key = `${leg._id.appointmentId}:${new Date(leg._id.attemptStartedAt).getTime()}`;
+    if (!calls.has(key)) calls.set(key, []);
+    calls.get(key)!.push(leg);
+  }
+
+  const qualityBreakdown: Record<CallQuality, number> = { excellent: 0, good: 0, fair: 0, poor: 0 };
+  let relayedCalls = 0;
+  for (const callLegs of calls.values()) {
+    if (callLegs.some((l) => l.relayed)) relayedCalls++;
+    const quality = worstQuality(callLegs.map((l) => gradeCallQuality(l.packetLossPct, l.rttMs, l.jitterMs)));
+    if (quality) qualityBreakdown[quality]++;
+  }
+
+  const present = (values: (number | null)[]) => values.filter((v): v is number => v !== null);
+  const byNetwork = CALL_NETWORK_TYPES.map((networkType) => {
+    const onNetwork = legs.filter((l) => l.networkType === networkType);
+    return {
+      networkType,
+      legs: onNetwork.length,
+      relayedPct: pct(onNetwork.filter((l) => l.relayed).length, onNetwork.length),
+      medianPacketLossPct: median(present(onNetwork.map((l) => l.packetLossPct))),
+      medianRttMs: median(present(onNetwork.map((l) => l.rttMs))),
+      medianJitterMs: median(present(onNetwork.map((l) => l.jitterMs))),
+    };
+  }).filter((row) => row.legs > 0);
+
+  return {
+    from,
+    to,
+    calls: calls.size,
+    relayedCalls,
+    relayedPct: pct(relayedCalls, calls.size),
+    qualityBreakdown,
+    byNetwork,
+  };
+}
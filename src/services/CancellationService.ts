@@ -0,0 +1,275 @@
+// services/CancellationService.ts
+//
+// What happens to the money (and the doctor's record) when an appointment is
+// cancelled or rejected. Used by:
+//   - appointmentController — quoteCancellation for the preview endpoint,
+//     handleCancellation right after the status change lands
+//   - ConsultationPaymentService — a payment that lands after cancellation
+//   - cron/reminderJob.ts — retryFailedRefunds
+//
+// The refund window is decided at the moment of cancellation from
+// config/cancellationPolicy.ts. Doctor-initiated cancellations and rejections
+// always refund in full. Every cancellation of a paid appointment leaves one
+// Refund record — including a zero-amount "not_eligible" one — and the
+// patient is told the outcome either way.
+import axios from "axios";
+import { Types } from "mongoose";
+import {
+  CANCELLATION_FULL_REFUND_HOURS,
+  CANCELLATION_PARTIAL_REFUND_PERCENT,
+} from "../config/cancellationPolicy";
+import { Appointment, IAppointment, StatusChangeActor } from "../models/appointment";
+import { Doctor } from "../models/doctor";
+import { Payment } from "../models/initiatedPayment";
+import { IRefund, Refund, RefundWindow } from "../models/Refund";
+import { NotificationService } from "./NotificationService";
+
+const PARTNER_API_URL = process.env.PARTNER_API_URL;
+const PARTNER_API_KEY = process.env.PARTNER_API_KEY;
+
+// Failed partner refund calls are retried by the cron job up to this many times.
+export const MAX_REFUND_ATTEMPTS = 5;
+
+// A partner call gives up after PARTNER_TIMEOUT_MS, so a refund still
+// "pending" well after that was never sent, or the process died mid-call.
+const PARTNER_TIMEOUT_MS = 30_000;
+const STALE_PENDING_REFUND_MS = 15 * 60_000;
+
+export interface CancellationQuote {
+  window: RefundWindow;
+  refundPercent: number;
+  refundAmount: number;
+  paidAmount: number;
+  hoursBeforeStart: number;
+}
+
+/**
+ * What a cancellation by `cancelledBy` at `now` would refund. Appointments
+ * that were never paid quote zero with a "none" window.
+ */
+export function quoteCancellation(
+  appointment: Pick<IAppointment, "scheduledAt" | "paymentStatus" | "consultationFee">,
+  cancelledBy: StatusChangeActor,
+  now: Date = new Date()
+): CancellationQuote {
+  const hoursBeforeStart =
+    Math.round(((appointment.scheduledAt.getTime() - now.getTime()) / 3_600_000) * 100) / 100;
+  const paidAmount = appointment.paymentStatus === "paid" ? appointment.consultationFee || 0 : 0;
+
+  let window: RefundWindow;
+  let refundPercent: number;
+  if (cancelledBy !== "User") {
+    // The patient isn't at fault — doctor, admin or system cancellations.
+    window = "full";
+    refundPercent = 100;
+  } else if (hoursBeforeStart >= CANCELLATION_FULL_REFUND_HOURS) {
+    window = "full";
+    refundPercent = 100;
+  } else if (hoursBeforeStart > 0) {
+    window = "partial";
+    refundPercent = CANCELLATION_PARTIAL_REFUND_PERCENT;
+  } else {
+    window = "none";
+    refundPercent = 0;
+  }
+
+  if (!paidAmount) return { window: "none", refundPercent: 0, refundAmount: 0, paidAmount, hoursBeforeStart };
+
+  return {
+    window,
+    refundPercent,
+    refundAmount: Math.round(paidAmount * refundPercent) / 100,
+    paidAmount,
+    hoursBeforeStart,
+  };
+}
+
+function explainRefund(refund: IRefund, doctorName: string): string {
+  const amount = `₦${refund.amount.toLocaleString()}`;
+  if (refund.cancelledBy !== "User") {
+    return `Your appointment with ${doctorName} was cancelled, so your full payment of ${amount} is being refunded.`;
+  }
+  switch (refund.window) {
+    case "full":
+      return `You cancelled at least ${CANCELLATION_FULL_REFUND_HOURS} hours before your appointment with ${doctorName}, so your full payment of ${amount} is being refunded.`;
+    case "partial":
+      return `You cancelled less than ${CANCELLATION_FULL_REFUND_HOURS} hours before your appointment with ${doctorName}, so ${refund.refundPercent}% of your payment (${amount}) is being refunded.`;
+    default:
+      return `Your appointment with ${doctorName} had already started when it was cancelled, so no refund applies under our cancellation policy.`;
+  }
+}
+
+/**
+ * Asks the partner to refund `refund` and records the result. Only ever runs
+ * on a "pending" or "failed" refund; the attempt is claimed atomically so the
+ * cancellation request and the retry job can't both send it. With
+ * `staleBefore`, a "pending" refund is only claimed if nothing has touched
+ * it since then.
+ */
+export async function sendRefundToPartner(
+  refundId: Types.ObjectId | string,
+  staleBefore?: Date
+): Promise<IRefund | null> {
+  const refund = await Refund.findOneAndUpdate(
+    {
+      _id: refundId,
+      attempts: { $lt: MAX_REFUND_ATTEMPTS },
+      $or: [
+        { status: "failed" },
+        staleBefore ? { status: "pending", updatedAt: { $lt: staleBefore } } : { status: "pending" },
+      ],
+    },
+    { $inc: { attempts: 1 }, $set: { status: "pending" } },
+    { new: true }
+  );
+  if (!refund) return null;
+
+  const payment = await Payment.findById(refund.paymentId);
+  if (!payment) {
+    refund.status = "failed";
+    refund.lastError = "Payment record not found";
+    await refund.save();
+    return refund;
+  }
+
+  try {
+    const response = await axios.post(`${PARTNER_API_URL}/v1/PlanAmWell/payments/refund`, {
+      transactionId: payment.transactionId,
+      paymentReference: payment.paymentReference,
+      amount: refund.amount,
+      partnerReferenceCode: `PAW-RFD-${refund.appointmentId}`,
+      reason: `Appointment cancelled by ${refund.cancelledBy}`,
+      apiKey: PARTNER_API_KEY,
+    }, { timeout: PARTNER_TIMEOUT_MS });
+
+    refund.status = "succeeded";
+    refund.partnerRefundReference =
+      response.data?.refund?.reference || response.data?.reference || undefined;
+    refund.refundedAt = new Date();
+    refund.lastError = undefined;
+    await refund.save();
+
+    await Appointment.updateOne(
+      { _id: refund.appointmentId },
+      { $set: { paymentStatus: refund.amount < refund.paidAmount ? "partially_refunded" : "refunded" } }
+    );
+  } catch (err: any) {
+    console.error(
+      `❌ [Refund] Partner refund failed for appointment ${refund.appointmentId}:`,
+      err.response?.data || err.message
+    );
+    refund.status = "failed";
+    refund.lastError = String(err.response?.data?.message || err.message).slice(0, 500);
+    await refund.save();
+  }
+  return refund;
+}
+
+/**
+ * Everything that follows an appointment moving to "cancelled" or "rejected":
+ * the refund (if it was paid), the patient's explanation, and — for doctor
+ * cancellations — the doctor's reliability stats. Never throws; a failure
+ * here must not undo the cancellation itself.
+ */
+export async function handleCancellation(
+  appointment: IAppointment,
+  cancelledBy: StatusChangeActor,
+  doctorName: string,
+  now: Date = new Date()
+): Promise<IRefund | null> {
+  const doctorId = String((appointment.doctorId as any)?._id ?? appointment.doctorId);
+  const patientId = String((appointment.userId as any)?._id ?? appointment.userId);
+
+  if (cancelledBy === "Doctor" && appointment.status === "cancelled") {
+    try {
+      await Doctor.updateOne(
+        { _id: doctorId },
+        { $inc: { "reliability.cancellations": 1 }, $set: { "reliability.lastCancellationAt": now } }
+      );
+    } catch (err) {
+      console.error(`❌ [Cancellation] Reliability update failed for doctor ${doctorId}:`, err);
+    }
+  }
+
+  if (appointment.paymentStatus !== "paid") return null;
+
+  try {
+    const payment = await Payment.findOne({
+      appointmentId: String(appointment._id),
+      status: "success",
+    }).sort({ createdAt: -1 });
+    if (!payment) {
+      console.warn(`⚠️ [Cancellation] Paid appointment ${appointment._id} has no successful payment`);
+      return null;
+    }
+
+    const quote = quoteCancellation(appointment, cancelledBy, now);
+    let refund: IRefund;
+    try {
+      refund = await Refund.create({
+        appointmentId: appointment._id,
+        paymentId: payment._id,
+        userId: patientId,
+        cancelledBy,
+        window: quote.window,
+        hoursBeforeStart: quote.hoursBeforeStart,
+        paidAmount: quote.paidAmount,
+        refundPercent: quote.refundPercent,
+        amount: quote.refundAmount,
+        status: quote.refundAmount > 0 ? "pending" : "not_eligible",
+      });
+    } catch (err: any) {
+      // Already handled (retried request) — the existing record stands.
+      if (err?.code === 11000) return Refund.findOne({ appointmentId: appointment._id });
+      throw err;
+    }
+
+    try {
+      await NotificationService.notifyRefundOutcome(
+        patientId,
+        String(appointment._id),
+        explainRefund(refund, doctorName),
+        refund.amount
+      );
+    } catch (err) {
+      console.error("❌ [Cancellation] Refund notification failed:", err);
+    }
+
+    if (refund.status === "pending") {
+      return (await sendRefundToPartner(refund._id as Types.ObjectId)) || refund;
+    }
+    return refund;
+  } catch (err) {
+    console.error(`❌ [Cancellation] Refund failed for appointment ${appointment._id}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Re-sends refunds whose partner call failed, and ones left "pending" past
+ * STALE_PENDING_REFUND_MS (never sent, or interrupted). Returns how many
+ * succeeded.
+ */
+export async function retryFailedRefunds(): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_PENDING_REFUND_MS);
+
+  // Interrupted on its last allowed attempt — surface it like any other failure
+  await Refund.updateMany(
+    { status: "pending", attempts: { $gte: MAX_REFUND_ATTEMPTS }, updatedAt: { $lt: staleBefore } },
+    { $set: { status: "failed", lastError: "Refund attempt was interrupted" } }
+  );
+
+  const failed = await Refund.find({
+    attempts: { $lt: MAX_REFUND_ATTEMPTS },
+    $or: [{ status: "failed" }, { status: "pending", updatedAt: { $lt: staleBefore } }],
+  })
+    .select("_id")
+    .limit(50);
+
+  let succeeded = 0;
+  for (const { _id } of failed) {
+    const result = await sendRefundToPartner(_id as Types.ObjectId, staleBefore);
+    if (result?.status === "succeeded") succeeded++;
+  }
+  return succeeded;
+}
@@ -0,0 +1,198 @@
+// services/CartService.ts
+//
+// Adding products to a cart, with catalog prices and stock checked
+// server-side. Used by:
+//   - cartController.addToCart — POST /api/v1/cart
+//   - ChatbotTools — the chatbot's add_to_cart, once the user confirms
+//
+// Logged-in users' carts are mirrored to the partner pharmacy after each
+// change (best effort); guest carts sync at checkout.
+import axios from "axios";
+import { randomBytes } from "crypto";
+import { Cart, ICart, ICartItem } from "../models/cart";
+import { User } from "../models/user";
+import { Product } from "../models/product";
+
+const PARTNER_API_URL = process.env.PARTNER_API_URL || "";
+const PARTNER_PREFIX = "/v1/PlanAmWell";
+
+export type CartOwner = { userId: string } | { sessionId: string };
+
+export class CartError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "CartError";
+  }
+}
+
+// ── Resolve local drugIds → partner payload ──────────────────────────────────
+const mapCartItemForPartner = (item: ICartItem) => ({
+  drug_id: item.drugId,
+  quantity: item.quantity,
+  dosage: item.dosage || "",
+  special_instructions: item.specialInstructions || "",
+});
+
+const ensurePartnerUser = async (user: any): Promise<string | null> => {
+  if (user.partnerId) return user.partnerId;
+  try {
+    if (user.email) {
+      const searchRes = await axios.get(
+        `${PARTNER_API_URL}${PARTNER_PREFIX}/accounts/search?email=${encodeURIComponent(user.email)}`,
+      );
+      if (searchRes.data?.user?.id) {
+        user.partnerId = searchRes.data.user.id;
+        await user.save();
+        return user.partnerId;
+      }
+    }
+    const safePassword = randomBytes(12).toString("hex");
+    const createRes = await axios.post(
+      `${PARTNER_API_URL}${PARTNER_PREFIX}/accounts`,
+      {
+        name: user.name,
+        email: user.email,
+        phone: user.phone,
+        password: safePassword,
+        confirmPassword: safePassword,
+        gender: user.gender || "male",
+        dateOfBirth: user.dateOfBirth,
+        homeAddress: user.homeAddress,
+        state: user.state,
+        lga: user.lga,
+        role: "CLIENT",
+        origin: "PlanAmWell",
+        isGuest: false,
+      },
+    );
+    user.partnerId = createRes.data.user.id;
+    await user.save();
+    return user.partnerId;
+  } catch (err: any) {
+    if (err.response?.status === 409 && user.email) {
+      try {
+        const retryRes = await axios.get(
+          `${PARTNER_API_URL}${PARTNER_PREFIX}/accounts/search?email=${encodeURIComponent(user.email)}`,
+        );
+        if (retryRes.data?.user?.id) {
+          user.partnerId = retryRes.data.user.id;
+          await user.save();
+          return user.partnerId;
+        }
+      } catch (_) {}
+    }
+    console.warn(
+      "[Cart] ensurePartnerUser failed:",
+      err.response?.data || err.message,
+    );
+    return null;
+  }
+};
+
+// ── Sync cart to partner (fire-and-forget, never throws) ────────────────────
+const syncCartToPartner = async (cart: any, partnerId: string) => {
+  try {
+    const payload = {
+      userId: partnerId,
+      platform: "paw",
+      items: cart.items.map(mapCartItemForPartner),
+    };
+    const response = await axios.post(
+      `${PARTNER_API_URL}${PARTNER_PREFIX}/cart`,
+      payload,
+    );
+    const partnerCart = response.data.cart;
+
+    if (partnerCart) {
+      // ✅ Only save the partner cart ID — never overwrite local totals
+      cart.partnerCartId = partnerCart.id;
+      await cart.save();
+    }
+    console.log("[Cart] Partner cart synced");
+  } catch (err: any) {
+    console.error("[Cart] Partner sync failed:", err.response?.data || err.message);
+  }
+};
+
+/**
+ * Adds `items` to the owner's cart (creating it if needed), merging
+ * quantities for products already in it.
+ */
+export async function addItemsToCart(owner: CartOwner, items: ICartItem[]): Promise<ICart> {
+  // ── Price/stock authority check ──────────────────────────────────────────
+  // `items` is client-supplied, including `price` — never trust that value.
+  // Re-fetch each product server-side and overwrite price with the real
+  // catalog price so a modified request can't check out at an arbitrary
+  // price. Also reject unknown drugIds and requests that exceed stock.
+  const products = await Product.find({
+    drugId: { $in: items.map((i) => i.drugId) },
+  }).lean();
+  const productByDrugId = new Map(products.map((p) => [p.drugId, p]));
+
+  const validatedItems: ICartItem[] = [];
+  for (const item of items) {
+    const product = productByDrugId.get(item.drugId);
+    if (!product) {
+      throw new CartError(`Product not found: ${item.drugId}`, 400);
+    }
+    const quantity = Number(item.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new CartError(`Invalid quantity for ${product.name || item.drugId}`, 400);
+    }
+    if (product.stockQuantity < quantity) {
+      throw new CartError(`Only ${product.stockQuantity} left in stock for ${product.name}`, 400);
+    }
+    validatedItems.push({
+      ...item,
+      quantity,
+      price: product.price,
+      drugName: product.name,
+      imageUrl: product.imageUrl || item.imageUrl,
+    });
+  }
+
+  let cart = await Cart.findOne(owner);
+
+  if (!cart) {
+    cart = new Cart({ ...owner, items: validatedItems, totalItems: 0, totalPrice: 0 });
+  } else {
+    for (const item of validatedItems) {
+      const idx = cart.items.findIndex((i) => i.drugId === item.drugId);
+      if (idx > -1) {
+        const newQuantity = cart.items[idx].quantity + item.quantity;
+        const product = productByDrugId.get(item.drugId)!;
+        if (product.stockQuantity < newQuantity) {
+          throw new CartError(`Only ${product.stockQuantity} left in stock for ${product.name}`, 400);
+        }
+        cart.items[idx].quantity = newQuantity;
+        cart.items[idx].price = item.price; // re-sync in case catalog price changed
+      } else {
+        cart.items.push({ ...item });
+      }
+    }
+  }
+
+  cart.totalItems = cart.items.reduce((s, i) => s + i.quantity, 0);
+  cart.totalPrice = cart.items.reduce(
+    (s, i) => s + (i.price || 0) * i.quantity,
+    0,
+  );
+
+  try {
+    await cart.save();
+  } catch (saveErr: any) {
+    console.error("[addToCart] cart.save() FAILED:", saveErr.message);
+    throw saveErr;
+  }
+
+  // Partner sync — only for logged-in users (guests sync at checkout)
+  if ("userId" in owner) {
+    const user = await User.findById(owner.userId);
+    if (user) {
+      const partnerId = await ensurePartnerUser(user);
+      if (partnerId) await syncCartToPartner(cart, partnerId);
+    }
+  }
+
+  return cart;
+}
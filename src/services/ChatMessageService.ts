@@ -0,0 +1,469 @@
+// services/ChatMessageService.ts
+//
+// Reads and writes doctor-patient chat messages, which live in their own
+// collection (models/ConversationMessage.ts) rather than inside the
+// Conversation document. Used by:
+//   - chatController — send, page, mark read, typing, edit, delete
+//   - index.ts — the same send / typing / read operations over Socket.IO
+//     (with acks), delivery receipts, and replaying queued messages when a
+//     recipient reconnects
+//   - ChatSearchService — ChatMessageError
+//   - CheckInService — sending check-ins into the conversation
+//   - appointmentController.updateAppointment — system messages when an
+//     appointment is confirmed
+//
+// Every write that adds a message also refreshes the conversation's
+// lastMessage / lastActivityAt (and the recipient's unreadCount), so
+// conversation lists never have to look at the messages collection.
+//
+// A message is "sent" once stored, "delivered" when the recipient's app
+// reports it received it (socket "message-delivered"), and "read" when they
+// open the conversation. Messages still "sent" are the recipient's offline
+// queue: they are pushed again, oldest first, when the recipient reconnects.
+import { Types, UpdateQuery } from "mongoose";
+import { Conversation, IConversation, IMessage, MessageType } from "../models/conversation";
+import { ConversationMessage, IConversationMessage } from "../models/ConversationMessage";
+import { NotificationService } from "./NotificationService";
+import {
+  MessageTemplateError,
+  recordTemplateUse,
+  renderTemplateForConversation,
+} from "./MessageTemplateService";
+import { recordCheckInReply } from "./CheckInService";
+import { emitMessageRead, emitMessagesDelivered, emitNewMessage, emitTypingIndicator } from "../index";
+
+export const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+// Cap on queued messages pushed to a reconnecting client in one go; anything
+// older is picked up by getMessages.
+const MAX_QUEUED_REPLAY = 200;
+const SENDABLE_TYPES: MessageType[] = ["text", "image", "video", "audio", "document"];
+
+export class ChatMessageError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code?: string) {
+    super(message);
+    this.name = "ChatMessageError";
+  }
+}
+
+// API responses keep the shape messages had when they were embedded.
+const MESSAGE_FIELDS = "-conversationId -__v";
+
+export interface MessagePage {
+  messages: IMessage[]; // newest first
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+  // Pass as ?before= for the next (older) page, ?after= to poll for newer.
+  oldestCursor: string | null;
+  newestCursor: string | null;
+}
+
+const idOf = (field: any): string => String(field?._id ?? field ?? "");
+
+/**
+ * The quoted message for a reply, built from the stored message — the
+ * client only says which one (`replyTo.messageId`), and it must belong to
+ * this conversation.
+ */
+async function resolveReplyTo(conversationId: Types.ObjectId, replyTo: unknown): Promise<IMessage["replyTo"]> {
+  const messageId = (replyTo as { messageId?: unknown })?.messageId;
+  const quoted =
+    typeof messageId === "string" && Types.ObjectId.isValid(messageId)
+      ? await ConversationMessage.findOne({ _id: messageId, conversationId }).select("content senderType").lean()
+      : null;
+  if (!quoted) throw new ChatMessageError("replyTo.messageId must be a message in this conversation", 400);
+  return { messageId: quoted._id as Types.ObjectId, content: quoted.content, senderType: quoted.senderType };
+}
+
+/**
+ * The conversation, if `userId` is one of its two participants. `side` is
+ * the caller's unreadCount key and `otherId` the participant on the other end.
+ */
+async function loadConversationFor(conversationId: string, userId: string) {
+  if (!Types.ObjectId.isValid(conversationId)) throw new ChatMessageError("Conversation not found", 404);
+  const conversation = await Conversation.findById(conversationId)
+    .select("appointmentId participants isActive")
+    .populate("participants.userId", "name")
+    .populate("participants.doctorId", "firstName lastName")
+    .lean();
+  if (!conversation) throw new ChatMessageError("Conversation not found", 404);
+
+  const doctorId = idOf(conversation.participants.doctorId);
+  const patientId = idOf(conversation.participants.userId);
+  if (userId !== doctorId && userId !== patientId) throw new ChatMessageError("Unauthorized", 403);
+
+  const isDoctor = userId === doctorId;
+  return {
+    conversation,
+    isDoctor,
+    side: (isDoctor ? "doctor" : "user") as "user" | "doctor",
+    otherId: isDoctor ? patientId : doctorId,
+  };
+}
+
+/** The filename the app sent, else the last segment of the media URL. */
+function mediaNameOf(mediaUrl: string, given: unknown): string | undefined {
+  if (typeof given === "string" && given.trim()) return given.trim().slice(0, 200);
+  const last = mediaUrl.split("?")[0].split("/").pop();
+  if (!last) return undefined;
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last;
+  }
+}
+
+export function toMessage(doc: IConversationMessage | Record<string, any>): IMessage {
+  const plain: any = typeof (doc as any).toObject === "function" ? (doc as any).toObject() : { ...doc };
+  delete plain.conversationId;
+  delete plain.__v;
+  return plain as IMessage;
+}
+
+/**
+ * Adds a message to the conversation and updates its summary fields.
+ * `unreadFor` is the side whose unread counter goes up (omit for system
+ * messages nobody needs to be nagged about). `set` / `unset` are merged into
+ * the same conversation update — e.g. { isActive: true } when the message
+ * unlocks it.
+ */
+export async function appendMessage(
+  conversationId: string | Types.ObjectId,
+  message: Pick<IMessage, "senderId" | "senderType" | "content"> &
+    Partial<
+      Pick<IMessage, "messageType" | "mediaUrl" | "mediaName" | "replyTo" | "clientMessageId" | "templateId" | "checkInId">
+    >,
+  options: { unreadFor?: "user" | "doctor"; set?: Partial<IConversation>; unset?: (keyof IConversation)[] } = {}
+): Promise<IMessage> {
+  const created = await ConversationMessage.create({
+    ...message,
+    conversationId,
+    messageType: message.messageType || "text",
+    status: "sent",
+  });
+  const saved = toMessage(created);
+
+  const update: UpdateQuery<IConversation> = {
+    $set: { ...(options.set || {}), lastMessage: saved, lastActivityAt: saved.createdAt },
+  };
+  if (options.unreadFor) update.$inc = { [`unreadCount.${options.unreadFor}`]: 1 };
+  if (options.unset?.length) update.$unset = Object.fromEntries(options.unset.map((k) => [k, ""]));
+  await Conversation.updateOne({ _id: conversationId }, update);
+
+  return saved;
+}
+
+/**
+ * Sends a message from one participant to the other: stores it, pushes it to
+ * the recipient's socket and sends them a notification. A `clientMessageId`
+ * the sender already used returns the stored message (`duplicate: true`)
+ * without sending it again, so clients can safely retry an unacked send.
+ *
+ * Doctors can send a saved template instead of `content`: `templateId` plus
+ * optional `variables` for placeholders (services/MessageTemplateService.ts).
+ */
+export async function sendChatMessage(
+  conversationId: string,
+  senderId: string,
+  input: {
+    content?: unknown;
+    messageType?: unknown;
+    mediaUrl?: unknown;
+    mediaName?: unknown;
+    replyTo?: unknown;
+    clientMessageId?: unknown;
+    templateId?: unknown;
+    variables?: unknown;
+  }
+): Promise<{ message: IMessage; recipientId: string; duplicate: boolean }> {
+  const templateId = typeof input.templateId === "string" && input.templateId ? input.templateId : undefined;
+  let content = typeof input.content === "string" ? input.content : "";
+  if (!conversationId || (!content && !templateId) || !senderId) {
+    throw new ChatMessageError("Missing required fields", 400);
+  }
+  const messageType = (input.messageType ?? "text") as MessageType;
+  if (!SENDABLE_TYPES.includes(messageType)) {
+    throw new ChatMessageError(`messageType must be one of ${SENDABLE_TYPES.join(", ")}`, 400);
+  }
+  const clientMessageId =
+    typeof input.clientMessageId === "string" && input.clientMessageId ? input.clientMessageId.slice(0, 100) : undefined;
+
+  const mediaUrl = typeof input.mediaUrl === "string" && input.mediaUrl ? input.mediaUrl : undefined;
+
+  const { conversation, isDoctor, side, otherId } = await loadConversationFor(conversationId, senderId);
+  if (!conversation.isActive) throw new ChatMessageError("Cannot send messages: this chat is locked.", 403);
+  const replyTo = input.replyTo ? await resolveReplyTo(conversation._id as Types.ObjectId, input.replyTo) : undefined;
+
+  const findExisting = () =>
+    ConversationMessage.findOne({ conversationId: conversation._id, senderId, clientMessageId })
+      .select(MESSAGE_FIELDS)
+      .lean<IMessage>();
+  if (clientMessageId) {
+    const existing = await findExisting();
+    if (existing) return { message: existing, recipientId: otherId, duplicate: true };
+  }
+
+  if (templateId) {
+    if (!isDoctor) throw new ChatMessageError("Only doctors can send message templates", 403);
+    try {
+      ({ content } = await renderTemplateForConversation(templateId, senderId, conversation, input.variables));
+    } catch (err) {
+      if (!(err instanceof MessageTemplateError)) throw err;
+      throw new ChatMessageError(err.message, err.status, err.missing.length ? "TEMPLATE_VARIABLES_MISSING" : undefined);
+    }
+  }
+
+  let message: IMessage;
+  try {
+    message = await appendMessage(
+      conversation._id as Types.ObjectId,
+      {
+        senderId: new Types.ObjectId(senderId),
+        senderType: isDoctor ? "Doctor" : "User",
+        messageType,
+        content,
+        mediaUrl,
+        mediaName: mediaUrl ? mediaNameOf(mediaUrl, input.mediaName) : undefined,
+        ...(replyTo ? { replyTo } : {}),
+        clientMessageId,
+        ...(templateId ? { templateId: new Types.ObjectId(templateId) } : {}),
+      },
+      { unreadFor: side === "doctor" ? "user" : "doctor" }
+    );
+  } catch (err: any) {
+    // Two retries of the same send raced; the other one stored it.
+    const existing = err?.code === 11000 && clientMessageId ? await findExisting() : null;
+    if (!existing) throw err;
+    return { message: existing, recipientId: otherId, duplicate: true };
+  }
+
+  emitNewMessage(conversationId, message, otherId);
+  if (templateId) {
+    recordTemplateUse(templateId).catch((err) => console.error("Failed to record template use:", err));
+  }
+  if (!isDoctor) {
+    recordCheckInReply(conversation._id as Types.ObjectId, message).catch((err) =>
+      console.error("Failed to record check-in reply:", err)
+    );
+  }
+
+  try {
+    const doctor = conversation.participants.doctorId as any;
+    const patient = conversation.participants.userId as any;
+    await NotificationService.notifyNewMessage(
+      otherId,
+      isDoctor ? "User" : "Doctor",
+      isDoctor ? `Dr. ${doctor?.firstName}` : patient?.name,
+      content,
+      conversationId,
+      String(conversation.appointmentId)
+    );
+  } catch (error) {
+    console.error("Failed to send message notification:", error);
+  }
+
+  return { message, recipientId: otherId, duplicate: false };
+}
+
+/** Tells the other participant that `userId` started or stopped typing. */
+export async function sendTypingIndicator(conversationId: string, userId: string, isTyping: boolean): Promise<void> {
+  const { isDoctor, otherId } = await loadConversationFor(conversationId, userId);
+  emitTypingIndicator(conversationId, otherId, isTyping, isDoctor ? "Doctor" : "User");
+}
+
+/**
+ * Marks messages the other participant sent as delivered to `recipientId` —
+ * the ids given, or everything still "sent" when none are. Only moves
+ * messages forward (a read message stays read); the sender is told which
+ * ones changed.
+ */
+export async function markMessagesDelivered(
+  conversationId: string,
+  recipientId: string,
+  messageIds?: unknown,
+  now: Date = new Date()
+): Promise<string[]> {
+  const { conversation, otherId } = await loadConversationFor(conversationId, recipientId);
+  const filter: Record<string, any> = {
+    conversationId: conversation._id,
+    senderId: new Types.ObjectId(otherId),
+    status: "sent",
+  };
+  if (Array.isArray(messageIds)) {
+    filter._id = { $in: messageIds.map(String).filter((id) => Types.ObjectId.isValid(id)) };
+  }
+
+  const ids = (await ConversationMessage.find(filter).select("_id").lean()).map((m) => m._id);
+  if (!ids.length) return [];
+  await ConversationMessage.updateMany(
+    { _id: { $in: ids }, status: "sent" },
+    { $set: { status: "delivered", deliveredAt: now } }
+  );
+  await Conversation.updateOne(
+    { _id: conversation._id, "lastMessage._id": { $in: ids }, "lastMessage.status": "sent" },
+    { $set: { "lastMessage.status": "delivered", "lastMessage.deliveredAt": now } }
+  );
+
+  const delivered = ids.map(String);
+  emitMessagesDelivered(conversationId, otherId, delivered, now);
+  return delivered;
+}
+
+/**
+ * Messages waiting for `userId` across all their conversations (still
+ * "sent"), oldest first — what they missed while disconnected. The socket
+ * server marks them delivered once replayed.
+ */
+export async function getQueuedMessages(
+  userId: string
+): Promise<{ conversationId: string; message: IMessage }[]> {
+  if (!Types.ObjectId.isValid(userId)) return [];
+  const conversations = await Conversation.find({
+    $or: [{ "participants.userId": userId }, { "participants.doctorId": userId }],
+  })
+    .select("_id")
+    .lean();
+  if (!conversations.length) return [];
+
+  const queued = await ConversationMessage.find({
+    conversationId: { $in: conversations.map((c) => c._id) },
+    status: "sent",
+    senderId: { $ne: new Types.ObjectId(userId) },
+  })
+    .sort({ createdAt: 1, _id: 1 })
+    .limit(MAX_QUEUED_REPLAY)
+    .select("-__v")
+    .lean();
+
+  return queued.map((m) => ({ conversationId: String(m.conversationId), message: toMessage(m) }));
+}
+
+/**
+ * A page of messages, newest first. Cursor paging (`before` / `after`, a
+ * message id) is what clients should use; `page` is kept for older builds.
+ */
+export async function getMessagePage(
+  conversationId: string | Types.ObjectId,
+  query: { page?: unknown; limit?: unknown; before?: unknown; after?: unknown }
+): Promise<MessagePage> {
+  const limit = Math.min(Math.max(Number(query.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const page = Math.max(Number(query.page) || 1, 1);
+  const base = { conversationId: new Types.ObjectId(String(conversationId)) };
+
+  const cursorId = [query.before, query.after].find((c) => typeof c === "string" && Types.ObjectId.isValid(c)) as
+    | string
+    | undefined;
+  const cursor = cursorId
+    ? await ConversationMessage.findOne({ ...base, _id: cursorId }).select("createdAt").lean()
+    : null;
+
+  let messages: IMessage[];
+  let hasMore: boolean;
+  if (cursor && query.after === cursorId) {
+    // Newer than the cursor: read forwards, then flip to newest-first.
+    const newer = await ConversationMessage.find({
+      ...base,
+      $or: [
+        { createdAt: { $gt: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { $gt: cursor._id } },
+      ],
+    })
+      .sort({ createdAt: 1, _id: 1 })
+      .limit(limit + 1)
+      .select(MESSAGE_FIELDS)
+      .lean();
+    hasMore = newer.length > limit;
+    messages = newer.slice(0, limit).reverse() as IMessage[];
+  } else {
+    const filter = cursor
+      ? {
+          ...base,
+          $or: [
+            { createdAt: { $lt: cursor.createdAt } },
+            { createdAt: cursor.createdAt, _id: { $lt: cursor._id } },
+          ],
+        }
+      : base;
+    const older = await ConversationMessage.find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(cursor ? 0 : (page - 1) * limit)
+      .limit(limit + 1)
+      .select(MESSAGE_FIELDS)
+      .lean();
+    hasMore = older.length > limit;
+    messages = older.slice(0, limit) as IMessage[];
+  }
+
+  const total = await ConversationMessage.countDocuments(base);
+  return {
+    messages,
+    total,
+    page,
+    limit,
+    hasMore,
+    oldestCursor: messages.length ? String(messages[messages.length - 1]._id) : null,
+    newestCursor: messages.length ? String(messages[0]._id) : null,
+  };
+}
+
+/**
+ * Marks everything the other party sent as read, clears the reader's unread
+ * count and sends the other party a read receipt. Returns how many changed.
+ */
+export async function markConversationRead(
+  conversationId: string,
+  readerId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const { conversation, side, otherId } = await loadConversationFor(conversationId, readerId);
+  const result = await ConversationMessage.updateMany(
+    {
+      conversationId: conversation._id,
+      senderId: { $ne: new Types.ObjectId(readerId) },
+      status: { $ne: "read" },
+    },
+    { $set: { status: "read", readAt: now } }
+  );
+  await Conversation.updateOne({ _id: conversation._id }, { $set: { [`unreadCount.${side}`]: 0 } });
+  await Conversation.updateOne(
+    { _id: conversation._id, "lastMessage.senderId": { $ne: new Types.ObjectId(readerId) } },
+    { $set: { "lastMessage.status": "read", "lastMessage.readAt": now } }
+  );
+
+  emitMessageRead(conversationId, otherId);
+  return result.modifiedCount;
+}
+
+/** One message of the conversation, or null. */
+export async function findMessage(
+  conversationId: string | Types.ObjectId,
+  messageId: string
+): Promise<IConversationMessage | null> {
+  if (!Types.ObjectId.isValid(messageId)) return null;
+  return ConversationMessage.findOne({ _id: messageId, conversationId });
+}
+
+/** Applies an edit / delete and keeps the conversation's lastMessage in step. */
+export async function updateMessage(
+  message: IConversationMessage,
+  set: Partial<IMessage>,
+  unset: (keyof IMessage)[] = []
+): Promise<IMessage> {
+  const updated = await ConversationMessage.findByIdAndUpdate(
+    message._id,
+    {
+      $set: set,
+      ...(unset.length ? { $unset: Object.fromEntries(unset.map((k) => [k, ""])) } : {}),
+    },
+    { new: true }
+  ).select(MESSAGE_FIELDS);
+  const saved = toMessage(updated!);
+
+  await Conversation.updateOne(
+    { _id: message.conversationId, "lastMessage._id": message._id },
+    { $set: { lastMessage: saved } }
+  );
+  return saved;
+}
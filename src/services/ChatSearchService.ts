@@ -0,0 +1,210 @@
+// services/ChatSearchService.ts
+//
+// Searches the caller's doctor-patient chats. Used by:
+//   - chatController.searchMessages — GET /api/v1/chat/search
+//
+// Matches message text and attachment filenames through the
+// ConversationMessage text index, limited to conversations the caller is a
+// participant in. Deleted messages never match. Locked conversations are
+// searchable (their history is still readable) but each hit says whether its
+// chat is locked, and ?locked=exclude leaves them out.
+//
+// Each hit carries a snippet with highlight ranges and a few messages either
+// side of it; its message id works as a ?before= / ?after= cursor for
+// GET /chat/conversation/:id/messages to load more around it.
+import { FilterQuery, Types } from "mongoose";
+import { Conversation, IMessage } from "../models/conversation";
+import { ConversationMessage, IConversationMessage } from "../models/ConversationMessage";
+import { ChatMessageError } from "./ChatMessageService";
+
+const MAX_RESULTS = 50;
+const DEFAULT_RESULTS = 20;
+const MAX_CONTEXT = 5;
+const DEFAULT_CONTEXT = 2;
+const SNIPPET_RADIUS = 60;
+const MESSAGE_FIELDS = "-conversationId -__v";
+
+export interface ChatSearchHit {
+  conversationId: string;
+  appointmentId: string;
+  isLocked: boolean;
+  counterpart: { id: string; name: string };
+  message: IMessage;
+  matchedIn: "content" | "mediaName";
+  snippet: string;
+  // [start, end) offsets into snippet
+  highlights: { start: number; end: number }[];
+  context: { before: IMessage[]; after: IMessage[] };
+}
+
+export interface ChatSearchResult {
+  results: ChatSearchHit[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function parseDate(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === "") return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) throw new ChatMessageError(`${field} must be a date`, 400);
+  return date;
+}
+
+/**
+ * Words to highlight. The text index stems ("dosages" matches "dosage"), so
+ * longer terms are matched on a prefix rather than exactly.
+ */
+function highlightPattern(q: string): RegExp | null {
+  const terms = q
+    .replace(/"/g, " ")
+    .split(/\s+/)
+    .filter((t) => t && !t.startsWith("-"))
+    .map((t) => t.toLowerCase().replace(/[^\p{L}\p{N}]/gu, ""))
+    .filter(Boolean)
+    .map((t) => escapeRegex(t.length > 5 ? t.slice(0, -2) : t));
+  return terms.length ? new RegExp(`(${terms.join("|")})[\\p{L}\\p{N}]*`, "giu") : null;
+}
+
+function buildSnippet(text: string, pattern: RegExp | null): Pick<ChatSearchHit, "snippet" | "highlights"> {
+  const matches = pattern ? [...text.matchAll(pattern)] : [];
+  if (!matches.length) {
+    return { snippet: text.slice(0, SNIPPET_RADIUS * 2), highlights: [] };
+  }
+
+  const first = matches[0].index!;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS);
+  const prefix = start > 0 ? "…" : "";
+  const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+
+  const highlights = matches
+    .filter((m) => m.index! >= start && m.index! + m[0].length <= end)
+    .map((m) => ({
+      start: m.index! - start + prefix.length,
+      end: m.index! - start + prefix.length + m[0].length,
+    }));
+  return { snippet, highlights };
+}
+
+async function contextAround(message: IConversationMessage, size: number) {
+  if (!size) return { before: [], after: [] };
+  const base = { conversationId: message.conversationId, isDeleted: { $ne: true } };
+  const [before, after] = await Promise.all([
+    ConversationMessage.find({
+      ...base,
+      $or: [
+        { createdAt: { $lt: message.createdAt } },
+        { createdAt: message.createdAt, _id: { $lt: message._id } },
+      ],
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(size)
+      .select(MESSAGE_FIELDS)
+      .lean<IMessage[]>(),
+    ConversationMessage.find({
+      ...base,
+      $or: [
+        { createdAt: { $gt: message.createdAt } },
+        { createdAt: message.createdAt, _id: { $gt: message._id } },
+      ],
+    })
+      .sort({ createdAt: 1, _id: 1 })
+      .limit(size)
+      .select(MESSAGE_FIELDS)
+      .lean<IMessage[]>(),
+  ]);
+  // Both sides oldest first, as a chat screen shows them
+  return { before: before.reverse(), after };
+}
+
+/**
+ * Full-text search across every conversation `caller` takes part in.
+ *
+ * Query: q (required), from / to (ISO dates on when the message was sent),
+ * with (the other participant's id — a doctor for patients, a patient for
+ * doctors), locked=exclude, page, limit, context (messages either side).
+ */
+export async function searchChats(
+  caller: { id: string; role: string },
+  query: Record<string, unknown>
+): Promise<ChatSearchResult> {
+  const q = typeof query.q === "string" ? query.q.trim() : "";
+  if (q.length < 2) throw new ChatMessageError("q must be at least 2 characters", 400);
+
+  const from = parseDate(query.from, "from");
+  const to = parseDate(query.to, "to");
+  if (from && to && from > to) throw new ChatMessageError("from must be before to", 400);
+
+  const limit = Math.min(Math.max(Number(query.limit) || DEFAULT_RESULTS, 1), MAX_RESULTS);
+  const page = Math.max(Number(query.page) || 1, 1);
+  const contextSize = Math.min(Math.max(Number(query.context ?? DEFAULT_CONTEXT) || 0, 0), MAX_CONTEXT);
+
+  const isDoctor = caller.role === "Doctor";
+  const ownField = isDoctor ? "participants.doctorId" : "participants.userId";
+  const otherField = isDoctor ? "participants.userId" : "participants.doctorId";
+
+  const conversationFilter: FilterQuery<any> = { [ownField]: caller.id };
+  if (typeof query.with === "string" && query.with) {
+    if (!Types.ObjectId.isValid(query.with)) throw new ChatMessageError("with must be a valid id", 400);
+    conversationFilter[otherField] = query.with;
+  }
+  if (query.locked === "exclude") conversationFilter.isActive = true;
+
+  const conversations = await Conversation.find(conversationFilter)
+    .select("appointmentId participants isActive")
+    .populate("participants.userId", "name")
+    .populate("participants.doctorId", "firstName lastName")
+    .lean();
+  if (!conversations.length) return { results: [], total: 0, page, limit, hasMore: false };
+  const byId = new Map(conversations.map((c) => [String(c._id), c]));
+
+  const filter: FilterQuery<IConversationMessage> = {
+    $text: { $search: q },
+    conversationId: { $in: conversations.map((c) => c._id) },
+    isDeleted: { $ne: true },
+    messageType: { $ne: "system" },
+  };
+  if (from || to) {
+    filter.createdAt = { ...(from ? { $gte: from } : {}), ...(to ? { $lte: to } : {}) };
+  }
+
+  const [matches, total] = await Promise.all([
+    ConversationMessage.find(filter, { score: { $meta: "textScore" } })
+      .sort({ score: { $meta: "textScore" }, createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .select("-__v"),
+    ConversationMessage.countDocuments(filter),
+  ]);
+
+  const pattern = highlightPattern(q);
+  const results = await Promise.all(
+    matches.map(async (doc): Promise<ChatSearchHit> => {
+      const conversation = byId.get(String(doc.conversationId))!;
+      const other = (isDoctor ? conversation.participants.userId : conversation.participants.doctorId) as any;
+      const inContent = pattern ? new RegExp(pattern.source, "iu").test(doc.content) : true;
+      const matchedIn = inContent || !doc.mediaName ? "content" : "mediaName";
+      const { score, conversationId, ...message } = doc.toObject() as any;
+
+      return {
+        conversationId: String(conversationId),
+        appointmentId: String(conversation.appointmentId),
+        isLocked: !conversation.isActive,
+        counterpart: {
+          id: String(other?._id ?? other ?? ""),
+          name: isDoctor ? other?.name || "" : `Dr. ${other?.firstName || ""} ${other?.lastName || ""}`.trim(),
+        },
+        message: message as IMessage,
+        matchedIn,
+        ...buildSnippet(matchedIn === "content" ? doc.content : doc.mediaName!, pattern),
+        context: await contextAround(doc, contextSize),
+      };
+    })
+  );
+
+  return { results, total, page, limit, hasMore: page * limit < total };
+}
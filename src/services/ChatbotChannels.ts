@@ -0,0 +1,181 @@
+// services/ChatbotChannels.ts
+//
+// Renders ChatbotEngine replies for each channel. Used by:
+//   - chatbotController.sendMessage — renderForApp, the JSON the app reads
+//   - metaWhatsAppController — renderForWhatsApp, plus generateDeepLink and
+//     SUPPORT_PHONE for its commands and proactive messages
+//
+// Adapters only change how a reply looks. What it says is decided in the
+// engine, so a fix there reaches both channels. A confirmation is answered
+// by sending its confirm/cancel message back as the user's next message.
+import { IAudio } from "../models/ChatConversation";
+import { ArticleSource, ChatbotAction, ChatbotReply, ChatbotResponse, ProductResponse } from "../types/chatbot.types";
+
+const DEEP_LINK_SCHEME = process.env.DEEP_LINK_SCHEME || "planamwell://";
+export const SUPPORT_PHONE = process.env.SUPPORT_PHONE || "+2349168767784";
+
+// WhatsApp interactive message limits
+const WA_BODY_MAX = 1024;
+const WA_ROW_TITLE_MAX = 24;
+const WA_ROW_DESCRIPTION_MAX = 72;
+
+/** Opens the app if installed, e.g. planamwell://appointments?type=std-screening */
+export const generateDeepLink = (path: string, params?: Record<string, string>): string => {
+  const queryString = params ? "?" + new URLSearchParams(params).toString() : "";
+  const cleanPath = path.replace(/^\//, "");
+  return `${DEEP_LINK_SCHEME}${cleanPath}${queryString}`;
+};
+
+const truncate = (text: string, max: number) => (text.length > max ? text.slice(0, max - 1) + "…" : text);
+
+const confirmMessage = (actionId: string) => `CONFIRM ${actionId}`;
+const cancelMessage = (actionId: string) => `CANCEL ${actionId}`;
+
+// ─── In-app ───────────────────────────────────────────────────────────────────
+
+export function renderForApp(
+  reply: ChatbotReply,
+  sessionId: string,
+  audio?: IAudio
+): ChatbotResponse & { audio?: IAudio } {
+  return {
+    success: true,
+    response: reply.text,
+    intent: reply.intent,
+    products: reply.products,
+    sessionId,
+    actions: reply.actions,
+    confirmation: reply.confirmation && {
+      ...reply.confirmation,
+      confirmMessage: confirmMessage(reply.confirmation.actionId),
+      cancelMessage: cancelMessage(reply.confirmation.actionId),
+    },
+    urgent: reply.urgent,
+    sources: reply.sources,
+    audio,
+  };
+}
+
+// ─── WhatsApp ─────────────────────────────────────────────────────────────────
+
+export type WhatsAppOutgoing =
+  | { type: "text"; body: string }
+  | { type: "buttons"; body: string; buttons: Array<{ id: string; title: string }> }
+  | {
+      type: "list";
+      header: string;
+      body: string;
+      sections: Array<{ title: string; rows: Array<{ id: string; title: string; description: string }> }>;
+    };
+
+// Button and list-row ids come back as the user's next message, so they are
+// written as the text the user would otherwise type.
+const MENU_BUTTONS = [
+  { id: "BUY", title: "🛒 Find products" },
+  { id: "APPOINTMENT", title: "📅 Book a doctor" },
+  { id: "HELP", title: "❓ Help" },
+];
+
+const WELCOME = `👋 *Welcome to AskAmWell Health!*
+
+I'm your AI health assistant. I can help you:
+
+💊 *Find medicines & health products*
+🏥 *Get health information (STDs, contraception, etc.)*
+📅 *Book doctor appointments*
+🛒 *Order directly via WhatsApp*
+📍 *Track your orders*
+
+*Quick Commands:*
+- Type a product name to search
+- Ask health questions (e.g., "What are STDs?")
+- Reply *HELP* for assistance
+- Reply *ORDERS* to track orders
+
+What can I help you with today?`;
+
+const actionLine = (action: ChatbotAction) => `📱 *${action.label}:* ${generateDeepLink(action.path, action.params)}`;
+
+const sourceLine = (source: ArticleSource) =>
+  `[${source.ref}] ${source.title}: ${generateDeepLink(`advocacy/${source.slug}`)}`;
+
+const productDescription = (product: ProductResponse) =>
+  [
+    `₦${product.price.toLocaleString()}`,
+    product.manufacturerName,
+    product.prescriptionRequired ? "Prescription required" : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+export function renderForWhatsApp(reply: ChatbotReply): WhatsAppOutgoing {
+  if (reply.intent === "greeting") {
+    return { type: "buttons", body: WELCOME, buttons: MENU_BUTTONS };
+  }
+
+  const links = reply.actions.map(actionLine);
+
+  if (reply.confirmation) {
+    const { actionId, summary } = reply.confirmation;
+    return {
+      type: "buttons",
+      body: truncate([reply.text, `*${summary}*`, ...links].join("\n\n"), WA_BODY_MAX),
+      buttons: [
+        { id: confirmMessage(actionId), title: "✅ Confirm" },
+        { id: cancelMessage(actionId), title: "❌ Cancel" },
+      ],
+    };
+  }
+
+  // Search results as a list; picking a row sends "ORDER <n>"
+  if (reply.intent === "buy" && reply.products.length) {
+    const body = [reply.text, ...links, "Tap *View Products* to pick one, or reply *ORDER <number>*."].join("\n\n");
+    return {
+      type: "list",
+      header: "🛒 Products",
+      body: truncate(body, WA_BODY_MAX),
+      sections: [
+        {
+          title: "In stock",
+          rows: reply.products.map((product, index) => ({
+            id: `ORDER ${index + 1}`,
+            title: truncate(`${index + 1}. ${product.name}`, WA_ROW_TITLE_MAX),
+            description: truncate(productDescription(product), WA_ROW_DESCRIPTION_MAX),
+          })),
+        },
+      ],
+    };
+  }
+
+  if (reply.intent === "buy") {
+    const tips = reply.productQuery
+      ? `*Suggestions:*
+✓ Check spelling
+✓ Try generic names (e.g., "Paracetamol" not "Panadol")
+✓ Search by category (e.g., "antibiotics", "pain relief")`
+      : "";
+    return {
+      type: "text",
+      body: [reply.text, tips, ...links, `*Need Help?*\nReply *HELP* or call ${SUPPORT_PHONE}`]
+        .filter(Boolean)
+        .join("\n\n"),
+    };
+  }
+
+  // A model answer, with any products it named (orderable by number)
+  const parts = [reply.text];
+  if (reply.products.length) {
+    parts.push(
+      "*Related products:*\n" +
+        reply.products
+          .map((product, index) => `${index + 1}. ${product.name} — ₦${product.price.toLocaleString()}`)
+          .join("\n") +
+        "\nReply *ORDER <number>* to order."
+    );
+  }
+  if (reply.sources?.length) {
+    parts.push("📚 *Sources:*\n" + reply.sources.map(sourceLine).join("\n"));
+  }
+  parts.push(...links);
+  return { type: "text", body: parts.join("\n\n") };
+}
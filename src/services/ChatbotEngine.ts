@@ -0,0 +1,605 @@
+// services/ChatbotEngine.ts
+//
+// "Ask AmWell", independent of the channel it is reached on. Used by:
+//   - chatbotController.sendMessage — the in-app chatbot
+//   - metaWhatsAppController.handleMetaWebhook — WhatsApp
+//
+// The engine decides what to say (intent, product search, the LLM answer)
+// and returns a ChatbotReply; how it looks — app JSON, WhatsApp text,
+// buttons or a list — is up to the adapters in ChatbotChannels.ts.
+// Conversations are kept in ChatConversation keyed by sessionId: the app's
+// session, or the sender's phone number on WhatsApp.
+//
+// The model answers from the advocacy team's articles where they cover the
+// question (AdvocacyRetrievalService.ts), citing them as [n].
+// Red flags (ChatbotTriageService.ts) are caught before any of that and get
+// a fixed urgent reply. The model can call the tools in ChatbotTools.ts. A
+// write it asks for is held on the conversation as its pendingAction until
+// the user's next message confirms or cancels it; anything else drops it.
+// The answer claims the action before running it, so a confirmation sent
+// twice (a double tap, a WhatsApp retry) runs it once.
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import mongoose from "mongoose";
+import OpenAI from "openai";
+import { Product } from "../models/product";
+import { ChatConversation, IAudio, IMessage, IPendingAction } from "../models/ChatConversation";
+import {
+  ArticleSource,
+  ChatbotAction,
+  ChatbotCaller,
+  ChatbotChannel,
+  ChatbotReply,
+  Intent,
+  ProductMatch,
+} from "../types/chatbot.types";
+import { CHATBOT_TOOLS, executePendingAction, runChatbotTool } from "./ChatbotTools";
+import { triageMessage } from "./ChatbotTriageService";
+import { Passage, retrievePassages } from "./AdvocacyRetrievalService";
+import { APP_TIMEZONE } from "../config/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const HISTORY_LIMIT = 50; // messages kept per conversation
+const PROMPT_HISTORY = 6; // of which sent to the model
+const PRODUCT_LIMIT = 5;
+const SUGGESTION_LIMIT = 2;
+const MAX_TOOL_ROUNDS = 4; // model ↔ tool exchanges per message
+const LLM_UNAVAILABLE = "I am having trouble connecting right now. Please try again.";
+
+// Groq — free tier: chat (Llama 3.3 70B) + transcription (Whisper large-v3-turbo)
+// The OpenAI SDK is fully compatible with Groq's API
+export const groq = new OpenAI({
+  apiKey: process.env.GROQ_API_KEY || "",
+  baseURL: "https://api.groq.com/openai/v1",
+});
+
+const SYSTEM_PROMPT = `You are "Ask AmWell", a warm and trustworthy sexual & reproductive health (SRH) assistant built into the PlanAmWell app — a Nigerian telehealth platform.
+
+LANGUAGE (CRITICAL):
+- You understand and speak English, Yoruba, Hausa, and Nigerian Pidgin English fluently.
+- Detect the language the user writes in and ALWAYS respond in that SAME language.
+- If the user mixes languages (e.g. English + Pidgin), match their style.
+- Nigerian Pidgin: use natural expressions — "wetin", "no worry", "e go better", "how far", "abeg", "oga", "make you", "I no go lie".
+- Yoruba: respond in clear, simple Yoruba; embed English medical terms in parentheses e.g. "àárùn abẹ́ (STI)".
+- Hausa: respond in clear, simple Hausa; embed English medical terms in parentheses e.g. "cutar jima'i (STI)".
+- If language is unclear, default to warm Nigerian English.
+
+TONE & STYLE:
+- Use plain, everyday language — no medical jargon without explanation.
+- Keep responses short: 2–4 sentences for simple questions; use bullet points only for steps or lists.
+- Be empathetic and non-judgmental — users may ask sensitive questions about their bodies or relationships.
+- End with one short follow-up prompt like "You wan know more?" (Pidgin) / "Ṣé o fẹ́ mọ̀ síi?" (Yoruba) / "Kana so ƙari?" (Hausa) / "Would you like more detail?" (English).
+
+CONFIDENTIALITY:
+- Remind users their conversation is private and confidential if they seem hesitant.
+- Never reference personal information outside the current conversation.
+
+SCOPE:
+- Answer questions about menstrual health, contraception, STIs, fertility, pregnancy, intimate relationships, and consent.
+- Suggest relevant PlanAmWell products for product questions.
+- Medical emergency: tell them to call emergency services or go to a hospital immediately.
+- Never provide diagnoses — always recommend seeing a doctor.
+
+TOOLS:
+- Use your tools to find doctors and free slots, request appointments, check order status and add products to the cart. Never invent doctors, times, prices or order details.
+- create_appointment and add_to_cart only prepare the action: the user then confirms it. Never say something is booked or added — say what will happen and ask them to confirm.
+- If a tool says the user must sign in, tell them to sign in to the PlanAmWell app first.`;
+
+const CHANNEL_PROMPTS: Record<ChatbotChannel, string> = {
+  app: "",
+  whatsapp: `
+
+FORMATTING:
+- You are replying on WhatsApp. Use *single asterisks* for bold and "•" for bullets; no markdown headings, links in brackets or tables.`,
+};
+
+// ─── Intent ───────────────────────────────────────────────────────────────────
+
+// Greetings — English + Yoruba + Hausa + Pidgin
+const GREETINGS = [
+  "hi", "hello", "hey", "good morning", "good afternoon", "good evening", "start",
+  "bawo ni", "e kaaro", "e kaasan", "e kaale",
+  "sannu", "ina kwana", "barka",
+  "how far", "how body", "whasup", "sup",
+];
+
+// Asking about something rather than for it: "what is a condom?" is a
+// question, "I need condoms" is a purchase
+const QUESTION_PHRASES = ["what is", "what are", "tell me", "explain", "information", "info about", "meaning of"];
+
+// About the user's own cart or orders — handled by the model's tools
+const CART_PHRASES = ["to my cart", "to cart", "in my cart", "into my cart", "my cart"];
+const ORDER_STATUS_PHRASES = ["my order", "order status", "track order", "track my", "where is my", "delivery status"];
+
+// Always a purchase, even when phrased as a question ("what is the price of…")
+const PRICE_KEYWORDS = ["price", "how much", "cost"];
+
+// Buy intent — English + Pidgin + Hausa
+const BUY_KEYWORDS = [
+  "buy", "order", "purchase", "add to cart", "cart", "shop",
+  "i wan buy", "make i get", "abeg give me", "ina son siya",
+];
+// Only a purchase when what follows is short enough to be a product name:
+// "I need paracetamol", not "I need help with my period pain"
+const SOFT_BUY_KEYWORDS = ["i need", "i want", "looking for", "show me", "get me"];
+const MAX_SOFT_BUY_WORDS = 3;
+
+// Appointment intent — English + Yoruba (dokita, ile iwosan) + Hausa (likita, asibiti) + Pidgin
+const APPOINTMENT_KEYWORDS = [
+  "appointment", "book", "schedule", "doctor", "consult", "see doctor", "see a doctor",
+  "dokita", "ile iwosan", "likita", "asibiti",
+];
+
+// Health intent — English + Yoruba + Hausa + Pidgin
+const HEALTH_KEYWORDS = [
+  "period", "menstrual", "fertility", "pregnant", "pregnancy", "contraception", "contraceptive",
+  "birth control", "postinor", "infection", "condom", "pill", "sti", "std", "sexually transmitted",
+  "hiv", "aids", "gonorrhea", "syphilis", "chlamydia", "herpes", "hpv",
+  "discharge", "cramp", "ovulation", "symptom", "reproductive health", "sexual health",
+  "oyún", "àárùn", "ìbímọ", // Yoruba: pregnancy, illness, childbirth
+  "ciki", "haila", "haihuwa", // Hausa: pregnancy, menstruation, childbirth
+  "my body", "i dey feel", "dey pain", "my tummy", "period pain", // Pidgin
+];
+
+const includesAny = (text: string, keywords: string[]) => keywords.some((k) => text.includes(k));
+// "hi" and "hi!" but not "history"
+const startsWithWord = (text: string, word: string) =>
+  text.startsWith(word) && (text.length === word.length || /^[\s\W]/.test(text.slice(word.length)));
+
+export function detectIntent(message: string): Intent {
+  const m = message.toLowerCase().trim();
+
+  if (GREETINGS.some((k) => startsWithWord(m, k)) && m.split(/\s+/).length <= 5) return "greeting";
+
+  if (includesAny(m, ORDER_STATUS_PHRASES)) return "order-status";
+  if (includesAny(m, CART_PHRASES)) return "cart";
+
+  const isQuestion = includesAny(m, QUESTION_PHRASES);
+  if (includesAny(m, PRICE_KEYWORDS)) return "buy";
+  if (!isQuestion && includesAny(m, BUY_KEYWORDS)) return "buy";
+  if (
+    !isQuestion &&
+    includesAny(m, SOFT_BUY_KEYWORDS) &&
+    extractProductKeywords(m).split(" ").length <= MAX_SOFT_BUY_WORDS
+  ) {
+    return "buy";
+  }
+
+  if (includesAny(m, APPOINTMENT_KEYWORDS)) return "appointment";
+  if (includesAny(m, HEALTH_KEYWORDS)) return "health";
+  if (isQuestion) return "info";
+
+  return "general";
+}
+
+// ─── Products ─────────────────────────────────────────────────────────────────
+
+// Longest first, so "i want to buy" wins over "i want"
+const LEADING_PHRASES = [
+  "what is the price of", "how much is", "how much are", "price of",
+  "i would like to order", "i would like to buy", "i would like to purchase", "i would like to",
+  "would like to", "i want to buy", "i need to buy", "i want to purchase", "i need to purchase",
+  "i want to order", "i need to order", "can i buy", "can i get", "can i order", "can i purchase",
+  "i want to", "want to", "i need to get", "i need to", "need to", "looking for", "search for",
+  "find me", "show me", "give me", "get me", "buy me", "i want", "i need", "i require",
+  "information about", "info about", "tell me about", "what is", "what are",
+  "ina son siya", "abeg give me", "make i get", "i wan buy",
+  "need", "buy", "order", "purchase", "get", "find",
+].sort((a, b) => b.length - a.length);
+
+const TRAILING_PHRASES = ["please", "plz", "pls", "abeg", "thanks", "thank you"];
+const FILLER_WORDS = ["a", "an", "the", "some", "any"];
+
+/** The product a purchase message asks for: "I want to buy some condoms please" → "condoms". */
+export function extractProductKeywords(message: string): string {
+  let cleaned = message.toLowerCase().trim();
+
+  const leading = LEADING_PHRASES.find((phrase) => cleaned.startsWith(phrase));
+  if (leading) cleaned = cleaned.substring(leading.length).trim();
+
+  cleaned = cleaned.replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
+  for (const phrase of TRAILING_PHRASES) {
+    if (cleaned.endsWith(` ${phrase}`) || cleaned === phrase) {
+      cleaned = cleaned.substring(0, cleaned.length - phrase.length).trim();
+    }
+  }
+
+  return cleaned
+    .split(" ")
+    .filter((word) => !FILLER_WORDS.includes(word))
+    .join(" ")
+    .trim();
+}
+
+// Category mapping for common reproductive health products
+const CATEGORY_MAP: Record<string, string[]> = {
+  contraceptive: ["condom", "contraceptive", "birth control", "protection", "safe sex"],
+  "emergency contraceptive": ["postinor", "morning after", "emergency pill", "plan b"],
+  fertility: ["ovulation", "pregnancy test", "fertility monitor", "conception"],
+  "menstrual care": ["pad", "tampon", "menstrual cup", "period", "sanitary"],
+  vitamins: ["prenatal", "folic acid", "supplement", "vitamin"],
+  "intimate care": ["lubricant", "wash", "hygiene", "intimate"],
+};
+
+export function inferCategory(query: string): string | null {
+  const q = query.toLowerCase().trim();
+  for (const [category, keywords] of Object.entries(CATEGORY_MAP)) {
+    if (keywords.some((keyword) => q.includes(keyword))) return category;
+  }
+  return null;
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const AVAILABLE = [{ stockQuantity: { $gt: 0 } }, { status: { $ne: "inactive" } }];
+
+/**
+ * In-stock products matching `query`. By default any word of three or more
+ * letters may match name, category, brand or SKU; `wholePhrase` requires the
+ * full query in the name or category (used for suggestions under an LLM
+ * answer, where the "query" is a whole sentence).
+ */
+export async function searchProducts(
+  query: string,
+  limit: number = PRODUCT_LIMIT,
+  { wholePhrase = false }: { wholePhrase?: boolean } = {}
+): Promise<any[]> {
+  const cleaned = query.toLowerCase().replace(/[^\w\s]/g, " ").replace(/\s+/g, " ").trim();
+  if (!cleaned) return [];
+
+  const phrase = escapeRegex(cleaned);
+  const or: Record<string, unknown>[] = [
+    { name: { $regex: phrase, $options: "i" } },
+    { categoryName: { $regex: phrase, $options: "i" } },
+  ];
+  if (!wholePhrase) {
+    const terms = cleaned.split(" ").filter((term) => term.length > 2);
+    if (!terms.length) return [];
+    for (const term of terms) {
+      const t = escapeRegex(term);
+      or.push(
+        { name: { $regex: t, $options: "i" } },
+        { categoryName: { $regex: t, $options: "i" } },
+        { manufacturerName: { $regex: t, $options: "i" } },
+        { sku: { $regex: t, $options: "i" } }
+      );
+    }
+  }
+
+  return Product.find({ $and: [{ $or: or }, ...AVAILABLE] }).limit(limit).lean();
+}
+
+async function searchProductsByCategory(category: string, limit: number = PRODUCT_LIMIT): Promise<any[]> {
+  return Product.find({
+    $and: [{ categoryName: { $regex: escapeRegex(category), $options: "i" } }, ...AVAILABLE],
+  })
+    .limit(limit)
+    .lean();
+}
+
+/**
+ * Products for a purchase query, falling back to the category the query
+ * implies and then to anything in stock.
+ */
+export async function findProducts(
+  query: string
+): Promise<{ products: any[]; match: ProductMatch; category?: string }> {
+  const products = await searchProducts(query);
+  if (products.length) return { products, match: "exact" };
+
+  const category = inferCategory(query);
+  if (category) {
+    const inCategory = await searchProductsByCategory(category);
+    return { products: inCategory, match: inCategory.length ? "category" : "none", category };
+  }
+
+  const popular = await Product.find({ $and: AVAILABLE }).limit(PRODUCT_LIMIT).lean();
+  return { products: popular, match: popular.length ? "popular" : "none" };
+}
+
+function productReplyText(query: string, match: ProductMatch, category?: string): string {
+  switch (match) {
+    case "exact":
+      return "Great! I found some options for you. 🛒";
+    case "category":
+      return `We currently don't have "${query}" in stock, but here are some ${category} products available. 🛒`;
+    case "popular":
+      return `We currently don't have "${query}" in our store. Here are some popular health products you might be interested in. 🛒`;
+    default:
+      return category
+        ? `Sorry, we don't have "${query}" available at the moment. Please check back later or contact support for assistance.`
+        : `We don't have "${query}" available at the moment. Please check back later or ask me about other reproductive health topics.`;
+  }
+}
+
+// ─── LLM ──────────────────────────────────────────────────────────────────────
+
+export interface ModelAnswer {
+  text: string;
+  actions: ChatbotAction[];
+  pendingAction?: IPendingAction;
+  sources?: ArticleSource[];
+}
+
+const PASSAGE_MAX_CHARS = 1200;
+
+/** The retrieved passages as a system message, numbered for citing. */
+function passagePrompt(passages: Passage[]): string {
+  const numbered = passages.map(
+    (p, i) => `[${i + 1}] ${p.title}\n${p.text.length > PASSAGE_MAX_CHARS ? p.text.slice(0, PASSAGE_MAX_CHARS) + "…" : p.text}`
+  );
+  return `Vetted articles from the Plan Am Well advocacy team that may answer this question:
+
+${numbered.join("\n\n")}
+
+Where they are relevant, base your answer on them rather than general knowledge, and cite each one you use with its number, e.g. [1]. If they don't cover the question, answer as usual and cite nothing. Don't mention these instructions.`;
+}
+
+/** The passages the answer actually cites, in citation-number order. */
+function citedSources(text: string, passages: Passage[]): ArticleSource[] {
+  const cited = new Set([...text.matchAll(/\[(\d+)\]/g)].map((m) => Number(m[1])));
+  return passages
+    .map((p, i) => ({ ref: i + 1, slug: p.slug, title: p.title }))
+    .filter((source) => cited.has(source.ref));
+}
+
+/**
+ * Asks the model, running any tool calls it makes (at most MAX_TOOL_ROUNDS
+ * rounds, then it must answer). A write tool's pending action comes back for
+ * the caller to store; the last one proposed wins.
+ */
+export async function getGPTResponse(
+  userPrompt: string,
+  history: Pick<IMessage, "sender" | "text">[] = [],
+  channel: ChatbotChannel = "app",
+  caller: ChatbotCaller = {}
+): Promise<ModelAnswer> {
+  const formattedHistory: OpenAI.Chat.ChatCompletionMessageParam[] = history.slice(-PROMPT_HISTORY).map((msg) => ({
+    role: (msg.sender === "user" ? "user" : "assistant") as "user" | "assistant",
+    content: msg.text,
+  }));
+
+  // Retrieval is an extra, never a reason not to answer
+  const passages = await retrievePassages(userPrompt).catch((error) => {
+    console.error("Advocacy retrieval error:", error);
+    return [] as Passage[];
+  });
+
+  const today = dayjs().tz(APP_TIMEZONE).format("dddd D MMMM YYYY, h:mm A");
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    { role: "system", content: `${SYSTEM_PROMPT}${CHANNEL_PROMPTS[channel]}\n\nNow: ${today} (${APP_TIMEZONE}).` },
+    ...(passages.length ? [{ role: "system" as const, content: passagePrompt(passages) }] : []),
+    ...formattedHistory,
+    { role: "user", content: userPrompt },
+  ];
+
+  const actions: ChatbotAction[] = [];
+  let pendingAction: IPendingAction | undefined;
+
+  for (let round = 0; ; round++) {
+    const completion = await groq.chat.completions.create({
+      model: "openai/gpt-oss-120b",
+      messages,
+      temperature: 0.7,
+      max_tokens: 500,
+      ...(round < MAX_TOOL_ROUNDS ? { tools: CHATBOT_TOOLS, tool_choice: "auto" as const } : {}),
+    });
+
+    const message = completion.choices[0].message;
+    const toolCalls = (message?.tool_calls ?? []).filter((call) => call.type === "function");
+    if (!toolCalls.length) {
+      const text = message?.content || LLM_UNAVAILABLE;
+      return { text, actions, pendingAction, sources: citedSources(text, passages) };
+    }
+
+    messages.push({ role: "assistant", content: message.content ?? null, tool_calls: toolCalls });
+    for (const call of toolCalls) {
+      const outcome = await runChatbotTool(call.function.name, call.function.arguments, caller);
+      if (outcome.pendingAction) pendingAction = outcome.pendingAction;
+      for (const action of outcome.actions ?? []) {
+        if (!actions.some((a) => a.type === action.type && a.path === action.path)) actions.push(action);
+      }
+      messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(outcome.result) });
+    }
+  }
+}
+
+// ─── Replies ──────────────────────────────────────────────────────────────────
+
+const BOOK_APPOINTMENT: ChatbotAction = { type: "book-appointment", label: "Book a doctor", path: "/appointments" };
+const BROWSE_PRODUCTS: ChatbotAction = { type: "browse-products", label: "Browse products", path: "/products" };
+
+// Replies to a pending confirmation — English, Pidgin, Yoruba, Hausa
+const CONFIRM_WORDS = ["yes", "y", "yes please", "confirm", "ok", "okay", "sure", "go ahead", "do it", "abeg do am", "bẹẹni", "beeni", "eh", "toh", "to"];
+const CANCEL_WORDS = ["no", "n", "no thanks", "cancel", "stop", "don't", "dont", "abeg no", "rara", "a'a", "aa"];
+// What the Confirm / Cancel buttons send (see ChatbotChannels)
+const DECISION_PATTERN = /^(confirm|cancel)\s+([a-f0-9]+)$/i;
+
+type Decision = { confirm: boolean; actionId?: string };
+
+function readDecision(text: string): Decision | null {
+  const m = text.trim().toLowerCase().replace(/[.!]+$/, "");
+  const explicit = m.match(DECISION_PATTERN);
+  if (explicit) return { confirm: explicit[1] === "confirm", actionId: explicit[2] };
+  if (CONFIRM_WORDS.includes(m)) return { confirm: true };
+  if (CANCEL_WORDS.includes(m)) return { confirm: false };
+  return null;
+}
+
+/** The user's answer to a pending write: do it, drop it, or explain it has lapsed. */
+async function settlePendingAction(
+  sessionId: string,
+  decision: Decision,
+  pendingAction: IPendingAction | null | undefined,
+  caller: ChatbotCaller
+): Promise<ChatbotReply> {
+  const intent: Intent = pendingAction?.tool === "add_to_cart" ? "cart" : "appointment";
+  const current =
+    pendingAction &&
+    new Date(pendingAction.expiresAt) > new Date() &&
+    (!decision.actionId || decision.actionId === pendingAction.actionId);
+
+  if (!current) {
+    return {
+      intent,
+      text: "That request has expired. Tell me again what you'd like to do.",
+      products: [],
+      actions: [],
+      pendingAction: null,
+    };
+  }
+
+  // Only the message that takes it off the conversation gets to settle it
+  const claimed = await ChatConversation.findOneAndUpdate(
+    { sessionId, "pendingAction.actionId": pendingAction!.actionId },
+    { $set: { pendingAction: null } }
+  );
+  if (!claimed) {
+    return { intent, text: "I've already taken care of that request.", products: [], actions: [], pendingAction: null };
+  }
+
+  if (!decision.confirm) {
+    return { intent, text: "Okay, I've cancelled that. Anything else I can help with?", products: [], actions: [], pendingAction: null };
+  }
+
+  const { text, actions } = await executePendingAction(pendingAction!, caller);
+  return { intent, text, products: [], actions, pendingAction: null };
+}
+
+/** Decides the reply to `text` given the conversation so far. */
+export async function respond(
+  text: string,
+  session: { sessionId: string; history: Pick<IMessage, "sender" | "text">[]; pendingAction?: IPendingAction | null },
+  channel: ChatbotChannel,
+  caller: ChatbotCaller = {}
+): Promise<ChatbotReply> {
+  // A red flag is answered the same way every time, whatever else is going on
+  const urgent = await triageMessage(text, { channel, sessionId: session.sessionId, caller });
+  if (urgent) {
+    return { ...urgent, pendingAction: session.pendingAction ? null : undefined };
+  }
+
+  const decision = readDecision(text);
+  if (decision && (session.pendingAction || decision.actionId)) {
+    return settlePendingAction(session.sessionId, decision, session.pendingAction, caller);
+  }
+  // Anything else moves on from an unanswered confirmation
+  const dropPending = session.pendingAction ? null : undefined;
+
+  const intent = detectIntent(text);
+
+  if (intent === "greeting") {
+    return {
+      intent,
+      text: "Hello 👋 I'm Ask AmWell. How can I help you today?",
+      products: [],
+      actions: [],
+      pendingAction: dropPending,
+    };
+  }
+
+  if (intent === "buy") {
+    const query = extractProductKeywords(text);
+    if (!query) {
+      return {
+        intent,
+        text: 'What are you looking for? Tell me the product name, e.g. "condoms", "Postinor" or "pregnancy test". 🛒',
+        products: [],
+        productMatch: "none",
+        actions: [BROWSE_PRODUCTS],
+        pendingAction: dropPending,
+      };
+    }
+    const { products, match, category } = await findProducts(query);
+    return {
+      intent,
+      text: productReplyText(query, match, category),
+      products,
+      productQuery: query,
+      productMatch: match,
+      category,
+      actions: match === "exact" ? [] : [BROWSE_PRODUCTS],
+      pendingAction: dropPending,
+    };
+  }
+
+  // Health, appointment, cart, order, info and general questions go to the model
+  let answer: ModelAnswer;
+  try {
+    answer = await getGPTResponse(text, session.history, channel, caller);
+  } catch (error) {
+    console.error("Chatbot LLM error:", error);
+    answer = { text: LLM_UNAVAILABLE, actions: [] };
+  }
+
+  // Attach products the message names outright
+  const suggested = await searchProducts(extractProductKeywords(text), SUGGESTION_LIMIT, { wholePhrase: true });
+  const actions = [...answer.actions];
+  if ((intent === "appointment" || intent === "health") && !answer.pendingAction && !actions.length) {
+    actions.push(BOOK_APPOINTMENT);
+  }
+
+  return {
+    intent,
+    text: answer.text,
+    products: suggested,
+    actions,
+    confirmation: answer.pendingAction
+      ? { actionId: answer.pendingAction.actionId, summary: answer.pendingAction.summary }
+      : undefined,
+    sources: answer.sources,
+    pendingAction: answer.pendingAction ?? dropPending,
+  };
+}
+
+// ─── History ──────────────────────────────────────────────────────────────────
+
+export async function loadSession(
+  sessionId: string
+): Promise<{ sessionId: string; history: IMessage[]; pendingAction: IPendingAction | null }> {
+  const conversation = await ChatConversation.findOne({ sessionId, isActive: true })
+    .select("messages pendingAction")
+    .lean();
+  return { sessionId, history: conversation?.messages ?? [], pendingAction: conversation?.pendingAction ?? null };
+}
+
+/**
+ * Appends the user's message and the reply to the session's conversation,
+ * starting it (or reopening a cleared one) if needed, and stores or clears
+ * the reply's pending action.
+ */
+export async function recordExchange(
+  sessionId: string,
+  userId: mongoose.Types.ObjectId | null,
+  userText: string,
+  reply: ChatbotReply,
+  audio?: IAudio
+): Promise<void> {
+  const now = new Date();
+  const userMsg: IMessage = { sender: "user", text: userText, intent: reply.intent, timestamp: now, audio };
+  const botMsg: IMessage = {
+    sender: "bot",
+    text: reply.text,
+    intent: reply.intent,
+    timestamp: now,
+    products: reply.products.map((p) =>
+      typeof p._id === "string" ? new mongoose.Types.ObjectId(p._id) : p._id
+    ),
+  };
+
+  await ChatConversation.updateOne(
+    { sessionId },
+    {
+      $push: { messages: { $each: [userMsg, botMsg], $slice: -HISTORY_LIMIT } },
+      $set: {
+        isActive: true,
+        lastActivity: now,
+        ...(reply.pendingAction !== undefined ? { pendingAction: reply.pendingAction } : {}),
+      },
+      $setOnInsert: { userId },
+    },
+    { upsert: true }
+  );
+}
@@ -0,0 +1,396 @@
+// services/ChatbotTools.ts
+//
+// Function tools "Ask AmWell" can call, backed by our own services. Used by:
+//   - ChatbotEngine.getGPTResponse — CHATBOT_TOOLS are offered to the model
+//     and runChatbotTool executes its calls
+//   - ChatbotEngine.respond — executePendingAction once the user confirms
+//
+// Reads (doctors, slots) run straight away. Writes (create_appointment,
+// add_to_cart) never run from a model call: the call is checked and becomes
+// a pending action on the conversation, and only the user's own "yes" (or
+// the Confirm button) executes it. Writes and order status need a signed-in
+// patient — guests, and everyone on WhatsApp, are asked to sign in.
+import crypto from "crypto";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import mongoose from "mongoose";
+import OpenAI from "openai";
+import { Doctor } from "../models/doctor";
+import { Order } from "../models/order";
+import { Product } from "../models/product";
+import { IPendingAction } from "../models/ChatConversation";
+import { ChatbotAction, ChatbotCaller } from "../types/chatbot.types";
+import { getBookableSlots, isSlotBookable, readAvailability } from "./AvailabilityService";
+import { findFormForSpecialization } from "./IntakeFormService";
+import { BookingError, bookAppointment } from "./AppointmentBookingService";
+import { addItemsToCart, CartError } from "./CartService";
+import { APP_TIMEZONE } from "../config/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const MAX_DOCTORS = 10;
+const MAX_SLOTS = 12;
+const DEFAULT_SLOT_DAYS = 3;
+const MAX_SLOT_DAYS = 7;
+const MAX_ORDERS = 3;
+const MAX_CART_QUANTITY = 10;
+const CONFIRMATION_TTL_MS = 15 * 60 * 1000;
+
+const SIGN_IN: ChatbotAction = { type: "sign-in", label: "Sign in", path: "/login" };
+
+export interface ToolOutcome {
+  // Sent back to the model as the tool's result
+  result: Record<string, unknown>;
+  pendingAction?: IPendingAction;
+  actions?: ChatbotAction[];
+}
+
+export const CHATBOT_TOOLS: OpenAI.Chat.ChatCompletionTool[] = [
+  {
+    type: "function",
+    function: {
+      name: "list_doctors",
+      description: "List approved PlanAmWell doctors, optionally filtered by specialization (e.g. gynaecology, sexual health).",
+      parameters: {
+        type: "object",
+        properties: {
+          specialization: { type: "string", description: "Part of a specialization name; omit to list all." },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_available_slots",
+      description: "Free appointment slots for a doctor. Use a doctorId from list_doctors.",
+      parameters: {
+        type: "object",
+        properties: {
+          doctorId: { type: "string" },
+          date: { type: "string", description: "First day to look at, YYYY-MM-DD. Defaults to today." },
+          days: { type: "integer", description: `How many days to look ahead (1-${MAX_SLOT_DAYS}).` },
+        },
+        required: ["doctorId"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "create_appointment",
+      description:
+        "Request an appointment in one of the doctor's free slots. Does NOT book yet: the user is shown the details and must confirm.",
+      parameters: {
+        type: "object",
+        properties: {
+          doctorId: { type: "string" },
+          scheduledAt: { type: "string", description: "The slot's scheduledAt exactly as get_available_slots returned it." },
+          reason: { type: "string", description: "Short reason for the visit, in the user's words." },
+        },
+        required: ["doctorId", "scheduledAt"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_order_status",
+      description: "Payment and delivery status of the user's recent orders, or of one order.",
+      parameters: {
+        type: "object",
+        properties: {
+          orderNumber: { type: "string", description: "Order number or code, if the user gave one." },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "add_to_cart",
+      description:
+        "Add a product to the user's cart. Does NOT add it yet: the user is shown the item and price and must confirm.",
+      parameters: {
+        type: "object",
+        properties: {
+          productId: { type: "string", description: "A product _id, if known." },
+          productName: { type: "string", description: "The product's name, if there is no productId." },
+          quantity: { type: "integer", description: `1-${MAX_CART_QUANTITY}, default 1.` },
+        },
+      },
+    },
+  },
+];
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const signInRequired = (what: string): ToolOutcome => ({
+  result: {
+    status: "sign_in_required",
+    message: `The user must sign in to the PlanAmWell app to ${what}. Ask them to sign in, then try again.`,
+  },
+  actions: [SIGN_IN],
+});
+
+const pending = (
+  caller: ChatbotCaller,
+  tool: IPendingAction["tool"],
+  args: Record<string, unknown>,
+  summary: string
+): ToolOutcome => ({
+  result: {
+    status: "awaiting_confirmation",
+    summary,
+    message: "Show the user this summary and ask them to confirm. It has NOT been done yet.",
+  },
+  pendingAction: {
+    actionId: crypto.randomBytes(6).toString("hex"),
+    tool,
+    args,
+    summary,
+    userId: caller.userId!,
+    expiresAt: new Date(Date.now() + CONFIRMATION_TTL_MS),
+  },
+});
+
+async function findApprovedDoctor(doctorId: unknown) {
+  if (typeof doctorId !== "string" || !mongoose.Types.ObjectId.isValid(doctorId)) return null;
+  const doctor = await Doctor.findById(doctorId)
+    .select("firstName lastName specialization status availability consultationFees")
+    .lean();
+  return doctor?.status === "approved" ? doctor : null;
+}
+
+const doctorName = (doctor: { firstName: string; lastName: string }) => `Dr. ${doctor.firstName} ${doctor.lastName}`;
+
+// ─── Reads ────────────────────────────────────────────────────────────────────
+
+async function listDoctors(args: any): Promise<ToolOutcome> {
+  const filter: Record<string, unknown> = { status: "approved" };
+  const specialization = typeof args.specialization === "string" ? args.specialization.trim() : "";
+  if (specialization) filter.specialization = { $regex: escapeRegex(specialization), $options: "i" };
+
+  const doctors = await Doctor.find(filter)
+    .select("firstName lastName specialization consultationFees")
+    .limit(MAX_DOCTORS)
+    .lean();
+  if (!doctors.length) {
+    const specializations = await Doctor.distinct("specialization", { status: "approved" });
+    return { result: { doctors: [], availableSpecializations: specializations } };
+  }
+
+  return {
+    result: {
+      doctors: doctors.map((d) => ({
+        doctorId: String(d._id),
+        name: doctorName(d),
+        specialization: d.specialization,
+        consultationFees: d.consultationFees ?? {},
+      })),
+    },
+  };
+}
+
+async function getAvailableSlots(args: any, caller: ChatbotCaller): Promise<ToolOutcome> {
+  const doctor = await findApprovedDoctor(args.doctorId);
+  if (!doctor) return { result: { error: "Doctor not found. Use a doctorId from list_doctors." } };
+
+  const availability = readAvailability(doctor.availability);
+  if (!availability) return { result: { doctor: doctorName(doctor), slots: [], message: "This doctor has no schedule set yet." } };
+
+  const tz = availability.timezone;
+  const now = new Date();
+  const requested = typeof args.date === "string" ? dayjs.tz(args.date, tz) : null;
+  const from = requested?.isValid() && requested.toDate() > now ? requested.startOf("day").toDate() : now;
+  const days = Math.min(Math.max(Number(args.days) || DEFAULT_SLOT_DAYS, 1), MAX_SLOT_DAYS);
+  const to = dayjs(from).add(days, "day").toDate();
+
+  const slots = await getBookableSlots(String(doctor._id), availability, from, to, caller.userId);
+  return {
+    result: {
+      doctor: doctorName(doctor),
+      timezone: tz,
+      slotMinutes: availability.slotMinutes,
+      slots: slots.slice(0, MAX_SLOTS).map((slot) => ({
+        scheduledAt: slot.start.toISOString(),
+        label: dayjs(slot.start).tz(tz).format("ddd D MMM, h:mm A"),
+      })),
+      moreAvailable: slots.length > MAX_SLOTS,
+    },
+  };
+}
+
+async function getOrderStatus(args: any, caller: ChatbotCaller): Promise<ToolOutcome> {
+  if (!caller.userId) return signInRequired("see their orders");
+
+  const filter: Record<string, unknown> = { userId: caller.userId };
+  const orderNumber = typeof args.orderNumber === "string" ? args.orderNumber.trim().replace(/^#/, "") : "";
+  if (orderNumber) {
+    filter.$or = [{ orderNumber }, { partnerOrderCode: orderNumber }, { partnerOrderId: orderNumber }];
+  }
+
+  const orders = await Order.find(filter).sort({ createdAt: -1 }).limit(MAX_ORDERS).lean();
+  return {
+    result: {
+      orders: orders.map((o) => ({
+        orderNumber: o.partnerOrderCode || o.orderNumber,
+        placedAt: o.createdAt ? dayjs(o.createdAt).tz(APP_TIMEZONE).format("D MMM YYYY") : undefined,
+        total: o.total,
+        paymentStatus: o.paymentStatus,
+        deliveryStatus: o.deliveryStatus,
+        items: o.items.map((i) => `${i.qty} × ${i.name || "item"}`),
+      })),
+    },
+    actions: [{ type: "view-orders", label: "My orders", path: "/orders" }],
+  };
+}
+
+// ─── Writes (confirmed first) ─────────────────────────────────────────────────
+
+async function proposeAppointment(args: any, caller: ChatbotCaller): Promise<ToolOutcome> {
+  if (!caller.userId) return signInRequired("book an appointment");
+
+  const doctor = await findApprovedDoctor(args.doctorId);
+  if (!doctor) return { result: { error: "Doctor not found. Use a doctorId from list_doctors." } };
+
+  const scheduledAt = new Date(args.scheduledAt);
+  if (isNaN(scheduledAt.getTime())) return { result: { error: "Invalid scheduledAt." } };
+
+  const availability = readAvailability(doctor.availability);
+  if (!(await isSlotBookable(String(doctor._id), availability, scheduledAt, undefined, caller.userId))) {
+    return { result: { status: "slot_unavailable", message: "That time is not free. Fetch the slots again." } };
+  }
+
+  // The chat can't collect an intake questionnaire — send them to the app
+  if (await findFormForSpecialization(doctor.specialization)) {
+    return {
+      result: {
+        status: "book_in_app",
+        message: "This doctor needs a short intake questionnaire before booking, which must be filled in the app.",
+      },
+      actions: [
+        { type: "book-appointment", label: "Book in the app", path: "/appointments", params: { doctorId: String(doctor._id) } },
+      ],
+    };
+  }
+
+  const reason = typeof args.reason === "string" ? args.reason.trim().slice(0, 300) : "";
+  const when = dayjs(scheduledAt).tz(availability?.timezone || APP_TIMEZONE).format("dddd D MMMM, h:mm A");
+  return pending(
+    caller,
+    "create_appointment",
+    { doctorId: String(doctor._id), scheduledAt: scheduledAt.toISOString(), reason: reason || undefined },
+    `Book ${doctorName(doctor)} (${doctor.specialization}) on ${when}${reason ? ` — "${reason}"` : ""}`
+  );
+}
+
+async function proposeAddToCart(args: any, caller: ChatbotCaller): Promise<ToolOutcome> {
+  if (!caller.userId) return signInRequired("add items to their cart");
+
+  const available = { stockQuantity: { $gt: 0 }, status: { $ne: "inactive" } };
+  let product = null;
+  if (typeof args.productId === "string" && mongoose.Types.ObjectId.isValid(args.productId)) {
+    product = await Product.findOne({ _id: args.productId, ...available }).lean();
+  } else if (typeof args.productName === "string" && args.productName.trim()) {
+    product = await Product.findOne({
+      name: { $regex: escapeRegex(args.productName.trim()), $options: "i" },
+      ...available,
+    }).lean();
+  }
+  if (!product) return { result: { error: "Product not found or out of stock." } };
+
+  const quantity = Math.min(Math.max(Math.floor(Number(args.quantity) || 1), 1), MAX_CART_QUANTITY);
+  if (product.stockQuantity < quantity) {
+    return { result: { error: `Only ${product.stockQuantity} left in stock for ${product.name}.` } };
+  }
+
+  return pending(
+    caller,
+    "add_to_cart",
+    { drugId: product.drugId, quantity },
+    `Add ${quantity} × ${product.name} (₦${product.price.toLocaleString()} each) to your cart`
+  );
+}
+
+/** Runs one tool call from the model. Never throws — errors go back to the model. */
+export async function runChatbotTool(name: string, rawArgs: string, caller: ChatbotCaller): Promise<ToolOutcome> {
+  let args: any;
+  try {
+    args = JSON.parse(rawArgs || "{}");
+  } catch {
+    return { result: { error: "Arguments must be JSON." } };
+  }
+
+  try {
+    switch (name) {
+      case "list_doctors":
+        return await listDoctors(args);
+      case "get_available_slots":
+        return await getAvailableSlots(args, caller);
+      case "create_appointment":
+        return await proposeAppointment(args, caller);
+      case "get_order_status":
+        return await getOrderStatus(args, caller);
+      case "add_to_cart":
+        return await proposeAddToCart(args, caller);
+      default:
+        return { result: { error: `Unknown tool ${name}.` } };
+    }
+  } catch (error) {
+    console.error(`Chatbot tool ${name} failed:`, error);
+    return { result: { error: "That lookup failed. Tell the user to try again or use the app." } };
+  }
+}
+
+/**
+ * Carries out a write the user has just confirmed. Returns the reply to show;
+ * refusals (incomplete profile, slot gone, stock changed) are explained.
+ */
+export async function executePendingAction(
+  action: IPendingAction,
+  caller: ChatbotCaller
+): Promise<{ text: string; actions: ChatbotAction[] }> {
+  if (!caller.userId || caller.userId !== action.userId) {
+    return { text: "Please sign in to the PlanAmWell app to do this.", actions: [SIGN_IN] };
+  }
+
+  try {
+    if (action.tool === "create_appointment") {
+      const { message } = await bookAppointment(caller.userId, {
+        doctorId: String(action.args.doctorId),
+        scheduledAt: String(action.args.scheduledAt),
+        reason: action.args.reason as string | undefined,
+      });
+      return {
+        text: `✅ ${message}`,
+        actions: [{ type: "view-appointments", label: "My appointments", path: "/appointments" }],
+      };
+    }
+
+    await addItemsToCart({ userId: caller.userId }, [
+      { drugId: String(action.args.drugId), quantity: Number(action.args.quantity) },
+    ]);
+    return {
+      text: `✅ Done — ${action.summary.replace(/^Add/, "added")}.`,
+      actions: [{ type: "view-cart", label: "View cart", path: "/cart" }],
+    };
+  } catch (err) {
+    if (err instanceof BookingError) {
+      if (err.code === "PROFILE_INCOMPLETE") {
+        const missing = (err.details.missingFields as string[]) ?? [];
+        return {
+          text: `${err.message}${missing.length ? ` Missing: ${missing.join(", ")}.` : ""}`,
+          actions: [{ type: "complete-profile", label: "Complete profile", path: "/profile" }],
+        };
+      }
+      return { text: err.message, actions: [{ type: "book-appointment", label: "Book in the app", path: "/appointments" }] };
+    }
+    if (err instanceof CartError) {
+      return { text: err.message, actions: [{ type: "browse-products", label: "Browse products", path: "/products" }] };
+    }
+    throw err;
+  }
+}
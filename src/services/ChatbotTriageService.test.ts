@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectRedFlag } from "./ChatbotTriageService";
+import { RedFlagCategory, TriageLanguage } from "../models/TriageEscalation";
+
+// [message, expected flag] — null when the message must not raise one
+const CASES: Record<TriageLanguage, [string, { category: RedFlagCategory; language: TriageLanguage } | null][]> = {
+  en: [
+    ["I want to kill myself", { category: "suicidal-ideation", language: "en" }],
+    ["I was raped last night", { category: "sexual-assault", language: "en" }],
+    ["I'm 8 weeks pregnant and I'm bleeding", { category: "pregnancy-bleeding", language: "en" }],
+    ["I am pregnant and passing clots", { category: "pregnancy-bleeding", language: "en" }],
+    ["Is spotting normal during my pregnancy? There is blood on my pad", { category: "pregnancy-bleeding", language: "en" }],
+    ["My wife is 6 months pregnant and she is bleeding", { category: "pregnancy-bleeding", language: "en" }],
+    ["I'm pregnant and bleeding — my pregnancy test was positive last week", { category: "pregnancy-bleeding", language: "en" }],
+    ["Severe pain in my lower belly and my period is late", { category: "severe-pelvic-pain", language: "en" }],
+    ["I have sharp pelvic pain and can't stand up", { category: "severe-pelvic-pain", language: "en" }],
+    ["Can I get pregnant if I have sex while bleeding on my period?", null],
+    ["Is it normal to bleed after taking postinor to prevent pregnancy?", null],
+    ["Does bleeding mean my pregnancy test will be negative?", null],
+    ["I'm pregnant, is a blood test safe?", null],
+    ["severe period cramps in my stomach", null],
+    ["I get severe cramps in my stomach during my period", null],
+    ["How do condoms work?", null],
+  ],
+  pcm: [
+    ["I don tire for life, make I just die", { category: "suicidal-ideation", language: "pcm" }],
+    ["I get belle and blood dey comot", { category: "pregnancy-bleeding", language: "pcm" }],
+    ["My wife carry belle of 5 months, she dey bleed", { category: "pregnancy-bleeding", language: "pcm" }],
+    ["My belle dey pain me well well, I no fit waka", { category: "severe-pelvic-pain", language: "pcm" }],
+    ["Abeg, my belle dey pain me and I see blood for my pant", null],
+    ["I fit get belle if blood dey come?", null],
+    ["Wetin I go take to prevent belle? Blood dey come small", null],
+    ["When my period come, my belle dey pain me well well", null],
+  ],
+  yo: [
+    ["Mo loyun, eje n jade", { category: "pregnancy-bleeding", language: "yo" }],
+    ["Inu rirun n dun mi gan", { category: "severe-pelvic-pain", language: "yo" }],
+    ["Se oogun idena oyun le fa eje?", null],
+  ],
+  ha: [
+    ["Ina da ciki kuma ina ganin jini", { category: "pregnancy-bleeding", language: "ha" }],
+    ["Ciwon ciki sosai", { category: "severe-pelvic-pain", language: "ha" }],
+    ["Ciki na yana ciwo, akwai jini a bayan gida", null],
+    ["Maganin hana daukar ciki yana sa jini?", null],
+  ],
+};
+
+describe("detectRedFlag", () => {
+  for (const [language, cases] of Object.entries(CASES)) {
+    describe(language, () => {
+      for (const [message, expected] of cases) {
+        it(`${expected ? expected.category : "no flag"}: ${message}`, () => {
+          const flag = detectRedFlag(message);
+          assert.deepEqual(flag && { category: flag.category, language: flag.language }, expected);
+        });
+      }
+    });
+  }
+});
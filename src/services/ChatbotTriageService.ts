@@ -0,0 +1,421 @@
+// services/ChatbotTriageService.ts
+//
+// Deterministic red-flag triage for the chatbot. Used by:
+//   - ChatbotEngine.respond — runs before anything else, so a red flag is
+//     never left to the model
+//   - metaWhatsAppController — a location shared on WhatsApp gets the
+//     nearest clinics and is added to the open escalation
+//   - chatbotController — the admin review queue
+//
+// Looks for four SRH red flags — suicidal ideation, sexual assault, bleeding
+// in pregnancy and severe pelvic pain — in English, Nigerian Pidgin, Yoruba
+// and Hausa. A match gets a fixed urgent reply in the language it was found
+// in (what to do now, who to call, the nearest clinics) and is logged as a
+// TriageEscalation for clinical review. The rules favour false alarms over
+// misses: most only need their phrases to co-occur in the message. The
+// pregnancy and pain rules are the exception — "pregnancy" and "belly" come
+// up in everyday contraception and period questions, so those rules need a
+// statement of being pregnant, and leave period cramps alone.
+import { Types } from "mongoose";
+import {
+  ITriageEscalation,
+  RedFlagCategory,
+  TriageEscalation,
+  TriageLanguage,
+} from "../models/TriageEscalation";
+import { ChatbotCaller, ChatbotChannel, ChatbotReply, ChatbotUrgent, NearbyClinic } from "../types/chatbot.types";
+import { findClinicsNear } from "./ClinicFinderService";
+import { resolveCityCoordinates } from "./OverpassService";
+import {
+  TRIAGE_ASSAULT_LINE,
+  TRIAGE_CLINIC_RADIUS_METERS,
+  TRIAGE_CRISIS_LINE,
+  TRIAGE_EMERGENCY_NUMBER,
+  TRIAGE_MAX_CLINICS,
+} from "../config/triage";
+
+export interface RedFlag {
+  category: RedFlagCategory;
+  language: TriageLanguage;
+  matched: string[];
+}
+
+interface RedFlagRule {
+  category: RedFlagCategory;
+  language: TriageLanguage;
+  // every pattern must match somewhere in the message
+  all: RegExp[];
+  // phrases blanked out before `all` is tried — mentions that aren't the
+  // red flag ("get pregnant", "pregnancy test")
+  ignore?: RegExp[];
+  // the rule doesn't apply to a message matching any of these
+  unless?: RegExp[];
+}
+
+// What a period cramp sounds like, as opposed to pain that needs a doctor
+const EN_PERIOD_CRAMPS = /\b(period|menstrual|menstruation) (pain|cramp)|\b(on|during|before|from|with|when) (my |the |her )?(period|menses|menstruation)\b/;
+const PCM_PERIOD_CRAMPS = /\b(period|menses) (pain|cramp)|\b(when|during|for) (my |her )?(period|menses)\b|\b(period|menses) (dey|don) (come|start|run)\b/;
+
+// Patterns run on lower-cased text with diacritics removed (Yoruba ẹ̀jẹ̀ → eje)
+const RULES: RedFlagRule[] = [
+  // ── Suicidal ideation ──
+  {
+    category: "suicidal-ideation",
+    language: "en",
+    all: [/\b(kill(ing)? myself|suicid\w*|end (it all|my life)|want to die|better off dead|take my (own )?life|(don'?t|do not) want to (live|be alive)|no reason to live)\b/],
+  },
+  {
+    category: "suicidal-ideation",
+    language: "pcm",
+    all: [/\b(i wan kill myself|i go kill myself|make i just die|i no wan live again|i wan die|i don tire for life)\b/],
+  },
+  { category: "suicidal-ideation", language: "yo", all: [/\b(pa ara mi|fe ku|gbe majele|so ara mi ko)\b/] },
+  { category: "suicidal-ideation", language: "ha", all: [/\b(kashe kaina|kashe kai na|ina so in mutu|son mutuwa|in kashe kaina)\b/] },
+
+  // ── Sexual assault ──
+  {
+    category: "sexual-assault",
+    language: "en",
+    all: [/\b(rap(e|ed|ing)|sexually assaulted|sexual assault|molest\w*|forced (me )?(to have |into )?sex|forced himself on me|abused me sexually)\b/],
+  },
+  {
+    category: "sexual-assault",
+    language: "pcm",
+    all: [/\b(force me (do|sleep|have sex)|dem rape|e rape me|him rape me|forcefully sleep with me|sleep with me by force)\b/],
+  },
+  { category: "sexual-assault", language: "yo", all: [/\b(fipa ba mi (lo|sun)|ifipabanilopo|fi agbara ba mi (lo|sun))\b/] },
+  { category: "sexual-assault", language: "ha", all: [/\b(fyade|tilasta min)\b/] },
+
+  // ── Bleeding in pregnancy ──
+  {
+    category: "pregnancy-bleeding",
+    language: "en",
+    all: [
+      /\b(i'?m|i am|she'?s|she is|wife is|while|currently) (\w+ ){0,3}pregnant\b|\b(my|her) pregnancy\b|\b(weeks?|months?) (pregnant|along)\b|\bexpecting a baby\b/,
+      /\b(bleed\w*|blood(?! (test|pressure|sugar|group|type))|clots?|soak\w* (through )?(a |my )?pads?)\b/,
+    ],
+    ignore: [
+      /\b(get|getting|become|becoming) pregnant\b/,
+      /\b(prevent\w*|avoid\w*|stop\w*) (a |an |unwanted |unplanned )?pregnancy\b/,
+      /\bpregnancy tests?\b/,
+    ],
+  },
+  {
+    category: "pregnancy-bleeding",
+    language: "pcm",
+    all: [
+      /\b(i|she|wife) (get|carry|dey carry|don carry|don get) belle\b|\b(i|she) (dey |don )?pregnant\b|\b(weeks?|months?|month) belle\b|\bbelle (wey|of|don reach) \w+ (weeks?|months?)\b/,
+      /\b(blood(?! (test|pressure|sugar|group))|bleed\w*)\b/,
+    ],
+    ignore: [
+      /\b(can|fit|if|make|how|wan) i (go |fit |no )?get belle\b/,
+      /\b(prevent|avoid|stop|no want|no wan) (get )?belle\b/,
+      /\bpregnancy tests?\b/,
+    ],
+  },
+  {
+    category: "pregnancy-bleeding",
+    language: "yo",
+    all: [/\b(mo loyun|mo ti loyun|mo ni oyun|o loyun|aboyun|oyun inu mi|oyun osu)\b/, /\beje\b/],
+    ignore: [/\b(idena oyun|dena oyun|idanwo oyun|ayewo oyun)\b/],
+  },
+  {
+    category: "pregnancy-bleeding",
+    language: "ha",
+    all: [/\b(ina da ciki|tana da ciki|mai ciki|juna biyu|cikin wata|cikin sati)\b/, /\bjini\b/],
+    ignore: [/\b(hana|kauce wa) (daukar |samun )?ciki\b/, /\bgwajin ciki\b/],
+  },
+
+  // ── Severe pelvic pain ──
+  {
+    category: "severe-pelvic-pain",
+    language: "en",
+    all: [
+      /\b(severe|unbearable|extreme|terrible|worst|excruciating|sharp|can'?t (walk|stand|move|breathe))\b/,
+      /\b(pelvi\w*|lower (belly|abdomen|tummy|stomach)|abdom\w*|stomach|belly|tummy|womb)\b/,
+      /\b(pain\w*|ache\w*|cramp\w*|hurt\w*)\b/,
+    ],
+    unless: [EN_PERIOD_CRAMPS],
+  },
+  {
+    category: "severe-pelvic-pain",
+    language: "pcm",
+    all: [/\b(pain|hurt)\w*\b/, /\b(belle|tummy|waist)\b/, /\b(too much|well well|no fit (waka|stand|bear)|serious|bad bad)\b/],
+    unless: [PCM_PERIOD_CRAMPS],
+  },
+  { category: "severe-pelvic-pain", language: "yo", all: [/\b(inu rirun|inu dun|irora)\b/, /\b(gan|pupo|lagbara|ko se fara da)\b/] },
+  { category: "severe-pelvic-pain", language: "ha", all: [/\b(ciwon ciki|ciwon mara|zafi)\b/, /\b(sosai|mai tsanani|ba zan iya jurewa)\b/] },
+];
+
+// Most urgent first, so one message with several flags gets the gravest reply
+const CATEGORY_ORDER: RedFlagCategory[] = ["suicidal-ideation", "sexual-assault", "pregnancy-bleeding", "severe-pelvic-pain"];
+
+const normalize = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+
+export function detectRedFlag(message: string): RedFlag | null {
+  const text = normalize(message);
+  for (const category of CATEGORY_ORDER) {
+    for (const rule of RULES.filter((r) => r.category === category)) {
+      if (rule.unless?.some((pattern) => pattern.test(text))) continue;
+      const considered = (rule.ignore ?? []).reduce((t, pattern) => t.replace(new RegExp(pattern, "g"), " "), text);
+      const matches = rule.all.map((pattern) => considered.match(pattern)?.[0]);
+      if (matches.every(Boolean)) {
+        return { category, language: rule.language, matched: matches as string[] };
+      }
+    }
+  }
+  return null;
+}
+
+// ─── Reply text ───────────────────────────────────────────────────────────────
+
+const HEADLINES: Record<RedFlagCategory, Record<TriageLanguage, string>> = {
+  "suicidal-ideation": {
+    en: "I'm really glad you told me. You deserve support right now, and you don't have to go through this alone.",
+    pcm: "I happy say you talk am. You no dey alone — make we get you help now now.",
+    yo: "Inú mi dùn pé o sọ fún mi. O kò dá wà — jẹ́ ká wá ìrànlọ́wọ́ fún ọ báyìí.",
+    ha: "Na gode da ka faɗa min. Ba kai kaɗai ba ne — bari mu samo maka taimako yanzu.",
+  },
+  "sexual-assault": {
+    en: "I'm so sorry this happened. It is not your fault. Please get care as soon as you can — treatment within 72 hours can prevent HIV and pregnancy.",
+    pcm: "Sorry well well for wetin happen. No be your fault. Abeg go hospital quick — treatment inside 72 hours fit stop HIV and belle.",
+    yo: "Ma binú gidigidi fún ohun tó ṣẹlẹ̀. Kì í ṣe ẹ̀bi rẹ. Jọ̀wọ́ lọ sí ilé ìwòsàn kíákíá — ìtọ́jú láàrin wákàtí 72 lè dènà HIV àti oyún.",
+    ha: "Ina matuƙar baƙin ciki da abin da ya faru. Ba laifinki ba ne. Don Allah ki je asibiti da wuri — magani cikin awa 72 zai iya hana HIV da ɗaukar ciki.",
+  },
+  "pregnancy-bleeding": {
+    en: "Bleeding during pregnancy can be serious. Please go to the nearest hospital now — don't wait to see if it stops.",
+    pcm: "Blood wey dey comot when you get belle fit serious. Abeg go the nearest hospital now now — no wait make e stop.",
+    yo: "Ẹ̀jẹ̀ nígbà oyún lè léwu. Jọ̀wọ́ lọ sí ilé ìwòsàn tó sún mọ́ ọ jù lọ báyìí — má ṣe dúró.",
+    ha: "Zubar jini lokacin da kike da ciki na iya zama haɗari. Don Allah ki je asibiti mafi kusa yanzu — kada ki jira.",
+  },
+  "severe-pelvic-pain": {
+    en: "Severe pain in your lower belly or pelvis needs to be checked urgently — it can be a sign of an ectopic pregnancy or a serious infection.",
+    pcm: "Serious pain for your lower belle need make doctor check am sharp sharp — e fit be sign of ectopic pregnancy or bad infection.",
+    yo: "Ìrora tó lágbára ní ìsàlẹ̀ ikùn nílò àyẹ̀wò kíákíá — ó lè jẹ́ àmì oyún lóde ilé-ọmọ (ectopic pregnancy) tàbí àkóràn tó lágbára.",
+    ha: "Ciwon mara mai tsanani yana buƙatar a duba shi da gaggawa — yana iya zama alamar ciki a wajen mahaifa (ectopic pregnancy) ko cuta mai tsanani.",
+  },
+};
+
+const GO_NOW: Record<TriageLanguage, (n: string) => string[]> = {
+  en: (n) => [`Call ${n} or go to the nearest hospital emergency unit now.`, "If you can, ask someone you trust to stay with you or go with you."],
+  pcm: (n) => [`Call ${n} or go the nearest hospital emergency now now.`, "If you fit, make person wey you trust stay with you or follow you go."],
+  yo: (n) => [`Pe ${n} tàbí lọ sí ẹ̀ka pàjáwìrì ilé ìwòsàn tó sún mọ́ ọ báyìí.`, "Tí o bá lè ṣe é, jẹ́ kí ẹni tí o fọkàn tán wà pẹ̀lú rẹ."],
+  ha: (n) => [`Kira ${n} ko ka je sashen gaggawa na asibiti mafi kusa yanzu.`, "Idan za ka iya, ka sa wanda ka amince da shi ya kasance tare da kai."],
+};
+
+const EXTRA_STEP: Partial<Record<RedFlagCategory, Record<TriageLanguage, string>>> = {
+  "suicidal-ideation": {
+    en: "If you feel you might act on these thoughts, stay with someone and keep away from anything you could use to hurt yourself.",
+    pcm: "If you feel say you fit do am, stay with person and keep anything wey fit hurt you far.",
+    yo: "Tí o bá rò pé o lè ṣe é, dúró pẹ̀lú ẹnìkan kí o sì jìnnà sí ohunkóhun tó lè pa ọ́ lára.",
+    ha: "Idan kana jin za ka iya aikatawa, ka zauna tare da wani kuma ka nisanci duk abin da zai iya cutar da kai.",
+  },
+  "sexual-assault": {
+    en: "If you can, don't bathe or change clothes before you are seen — it helps the hospital help you.",
+    pcm: "If you fit, no baff or change cloth before doctor see you.",
+    yo: "Tí o bá lè ṣe é, má wẹ̀ tàbí pààrọ̀ aṣọ kí dókítà tó rí ọ.",
+    ha: "Idan za ki iya, kada ki yi wanka ko canja kaya kafin likita ya gan ki.",
+  },
+};
+
+const CLINICS_HEADER: Record<TriageLanguage, string> = {
+  en: "Nearest clinics:",
+  pcm: "Clinics wey near you:",
+  yo: "Ilé ìwòsàn tó sún mọ́ ọ:",
+  ha: "Asibitoci mafi kusa:",
+};
+
+const SHARE_LOCATION: Record<TriageLanguage, string> = {
+  en: "Share your location so I can show you the nearest clinics.",
+  pcm: "Send your location make I show you the clinics wey near you.",
+  yo: "Fi ibi tí o wà ránṣẹ́ kí n lè fi ilé ìwòsàn tó sún mọ́ ọ hàn ọ́.",
+  ha: "Aiko da wurin da kake don in nuna maka asibitoci mafi kusa.",
+};
+
+function hotlinesFor(category: RedFlagCategory): ChatbotUrgent["hotlines"] {
+  const hotlines = [{ label: "Emergency", number: TRIAGE_EMERGENCY_NUMBER }];
+  if (category === "suicidal-ideation" && TRIAGE_CRISIS_LINE) {
+    hotlines.push({ label: "Crisis line", number: TRIAGE_CRISIS_LINE });
+  }
+  if (category === "sexual-assault" && TRIAGE_ASSAULT_LINE) {
+    hotlines.push({ label: "Sexual assault support", number: TRIAGE_ASSAULT_LINE });
+  }
+  return hotlines;
+}
+
+// ─── Clinics ──────────────────────────────────────────────────────────────────
+
+function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const a =
+    Math.sin(rad(lat2 - lat1) / 2) ** 2 +
+    Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(rad(lng2 - lng1) / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/** Where the caller is: their shared coordinates, else their city geocoded. */
+async function locate(caller: ChatbotCaller): Promise<{ lat: number; lng: number } | null> {
+  if (caller.location) return caller.location;
+  if (!caller.city) return null;
+  try {
+    const coords = await resolveCityCoordinates(caller.city);
+    return coords ? { lat: coords.lat, lng: coords.lon } : null;
+  } catch (err: any) {
+    console.error("[Triage] City lookup failed:", err.message);
+    return null;
+  }
+}
+
+/** The closest few clinics to a point; emergency units first at equal distance. */
+export async function findNearestClinics(lat: number, lng: number): Promise<NearbyClinic[]> {
+  try {
+    const clinics = await findClinicsNear(lat, lng, TRIAGE_CLINIC_RADIUS_METERS);
+    return clinics
+      .map((clinic) => ({
+        ...clinic,
+        distanceKm: clinic.coordinates
+          ? Math.round(distanceKm(lat, lng, clinic.coordinates.latitude, clinic.coordinates.longitude) * 10) / 10
+          : undefined,
+      }))
+      .sort(
+        (a, b) =>
+          (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity) || Number(!!b.emergency) - Number(!!a.emergency)
+      )
+      .slice(0, TRIAGE_MAX_CLINICS);
+  } catch (err: any) {
+    console.error("[Triage] Clinic lookup failed:", err.message);
+    return [];
+  }
+}
+
+export function formatClinic(clinic: NearbyClinic): string {
+  return [
+    clinic.name,
+    clinic.distanceKm !== undefined ? `${clinic.distanceKm} km` : "",
+    clinic.address,
+    clinic.phone ? `☎ ${clinic.phone}` : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// ─── Triage ───────────────────────────────────────────────────────────────────
+
+/**
+ * The urgent reply for a message with a red flag, or null when it has none.
+ * The escalation is logged before replying; a logging failure never holds
+ * the reply back.
+ */
+export async function triageMessage(
+  message: string,
+  context: { channel: ChatbotChannel; sessionId: string; caller: ChatbotCaller }
+): Promise<ChatbotReply | null> {
+  const flag = detectRedFlag(message);
+  if (!flag) return null;
+
+  const { category, language } = flag;
+  const location = await locate(context.caller);
+  const clinics = location ? await findNearestClinics(location.lat, location.lng) : [];
+  const hotlines = hotlinesFor(category);
+  const steps = [...GO_NOW[language](TRIAGE_EMERGENCY_NUMBER), ...(EXTRA_STEP[category] ? [EXTRA_STEP[category]![language]] : [])];
+
+  let escalationId = "";
+  try {
+    const escalation = await TriageEscalation.create({
+      category,
+      language,
+      channel: context.channel,
+      sessionId: context.sessionId,
+      userId: context.caller.userId,
+      message,
+      matched: flag.matched,
+      location: location ? { latitude: location.lat, longitude: location.lng } : undefined,
+      clinicsShown: clinics.length,
+    });
+    escalationId = String(escalation._id);
+  } catch (err) {
+    console.error("❌ Failed to log triage escalation:", err);
+  }
+  console.warn(`🚨 [Triage] ${category} (${language}) on ${context.channel} session ${context.sessionId}`);
+
+  const text = [
+    HEADLINES[category][language],
+    steps.map((step) => `• ${step}`).join("\n"),
+    hotlines.map((h) => `📞 ${h.label}: ${h.number}`).join("\n"),
+    clinics.length
+      ? `${CLINICS_HEADER[language]}\n${clinics.map((c, i) => `${i + 1}. ${formatClinic(c)}`).join("\n")}`
+      : SHARE_LOCATION[language],
+  ].join("\n\n");
+
+  return {
+    intent: "health",
+    text,
+    products: [],
+    actions: [],
+    urgent: {
+      category,
+      language,
+      headline: HEADLINES[category][language],
+      steps,
+      hotlines,
+      clinics,
+      needsLocation: !location,
+      escalationId,
+    },
+  };
+}
+
+/** Adds a location shared after an urgent reply to that session's latest open escalation. */
+export async function attachEscalationLocation(sessionId: string, lat: number, lng: number): Promise<void> {
+  await TriageEscalation.findOneAndUpdate(
+    { sessionId, status: "open", location: { $exists: false } },
+    { $set: { location: { latitude: lat, longitude: lng } } },
+    { sort: { createdAt: -1 } }
+  );
+}
+
+// ─── Review ───────────────────────────────────────────────────────────────────
+
+export async function listEscalations(query: {
+  status?: string;
+  category?: string;
+  page?: string;
+  limit?: string;
+}): Promise<{ escalations: ITriageEscalation[]; total: number; page: number; pages: number }> {
+  const filter: Record<string, unknown> = {};
+  if (query.status === "open" || query.status === "reviewed") filter.status = query.status;
+  if (query.category) filter.category = query.category;
+
+  const page = Math.max(Number(query.page) || 1, 1);
+  const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 100);
+  const [escalations, total] = await Promise.all([
+    TriageEscalation.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+    TriageEscalation.countDocuments(filter),
+  ]);
+  return { escalations, total, page, pages: Math.ceil(total / limit) };
+}
+
+export async function markEscalationReviewed(
+  id: string,
+  adminId: string,
+  note?: string
+): Promise<ITriageEscalation | null> {
+  if (!Types.ObjectId.isValid(id)) return null;
+  return TriageEscalation.findByIdAndUpdate(
+    id,
+    {
+      $set: {
+        status: "reviewed",
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+        ...(note ? { reviewNote: String(note).slice(0, 2000) } : {}),
+      },
+    },
+    { new: true }
+  );
+}
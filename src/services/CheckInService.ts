@@ -0,0 +1,444 @@
+// services/CheckInService.ts
+//
+// Follow-up messages a doctor schedules after a consultation ("How are the
+// side effects?"), optionally with questions. Used by:
+//   - checkInController — schedule / list / cancel, and the patient's answers
+//   - ChatMessageService.sendChatMessage — recordCheckInReply when the
+//     patient writes in a conversation with an open check-in
+//   - cron/reminderJob.ts — dispatchDueCheckIns and closeLapsedCheckIns,
+//     every minute
+//
+// A due check-in is posted into the doctor-patient conversation as a
+// "check-in" message. The chat is normally locked once the consultation has
+// ended, so it is opened for the patient's reply (Conversation.temporaryUnlock)
+// until the reply window passes, then locked again — unless something else
+// (a new appointment, the doctor's manual unlock) has reopened it for good in
+// the meantime, which clears temporaryUnlock.
+//
+// A plain check-in is answered by any chat reply from the patient; one with
+// questions is answered through respondToCheckIn, which also posts the
+// answers into the chat. Either way the doctor is notified.
+import { Types } from "mongoose";
+import {
+  CHECK_IN_MAX_DAYS_AHEAD,
+  CHECK_IN_MAX_PER_APPOINTMENT,
+  CHECK_IN_MAX_QUESTIONS,
+  CHECK_IN_MAX_SEND_ATTEMPTS,
+  CHECK_IN_REPLY_WINDOW_HOURS,
+  CHECK_IN_RETRY_DELAY_MINUTES,
+} from "../config/checkIns";
+import { Appointment } from "../models/appointment";
+import { CheckIn, ICheckIn } from "../models/CheckIn";
+import { Conversation, IMessage } from "../models/conversation";
+import { ConversationMessage } from "../models/ConversationMessage";
+import { IIntakeAnswer } from "../models/IntakeForm";
+import { appendMessage } from "./ChatMessageService";
+import { IntakeValidationError, parseIntakeQuestions, validateAnswers } from "./IntakeFormService";
+import { NotificationService } from "./NotificationService";
+import {
+  emitCheckInAnswered,
+  emitConversationLocked,
+  emitConversationUnlocked,
+  emitNewMessage,
+} from "../index";
+
+// Consultations are over in these states — check-ins are for afterwards.
+const ENDED_STATUSES = ["completed", "call-ended", "expired"];
+const MAX_MESSAGE_LENGTH = 2000;
+const DISPATCH_BATCH = 100;
+// A claimed check-in whose message still isn't recorded after this long was
+// lost mid-send (the process died) and is released by the next run.
+const STALE_CLAIM_MS = 10 * 60_000;
+
+export class CheckInError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errors: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "CheckInError";
+  }
+}
+
+const idOf = (field: any): string => String(field?._id ?? field ?? "");
+
+function formatAnswer(answer: IIntakeAnswer): string {
+  if (typeof answer.value === "boolean") return answer.value ? "Yes" : "No";
+  if (Array.isArray(answer.value)) return answer.value.join(", ");
+  return String(answer.value);
+}
+
+// ─── Doctor ───────────────────────────────────────────────────────────────────
+
+/**
+ * Schedules a check-in for one of the doctor's finished consultations.
+ * Input: message, sendAt, optional questions and replyWindowHours.
+ */
+export async function scheduleCheckIn(
+  doctorId: string,
+  input: { appointmentId?: unknown; message?: unknown; sendAt?: unknown; questions?: unknown; replyWindowHours?: unknown },
+  now: Date = new Date()
+): Promise<ICheckIn> {
+  const appointmentId = String(input.appointmentId ?? "");
+  if (!Types.ObjectId.isValid(appointmentId)) throw new CheckInError("Appointment not found", 404);
+  const appointment = await Appointment.findById(appointmentId).select("doctorId userId status").lean();
+  if (!appointment) throw new CheckInError("Appointment not found", 404);
+  if (idOf(appointment.doctorId) !== doctorId) throw new CheckInError("This is not your appointment", 403);
+  if (!ENDED_STATUSES.includes(appointment.status)) {
+    throw new CheckInError("Check-ins can be scheduled once the consultation has ended", 400);
+  }
+
+  const message = String(input.message ?? "").trim();
+  if (!message) throw new CheckInError("message is required", 400);
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    throw new CheckInError(`message must be at most ${MAX_MESSAGE_LENGTH} characters`, 400);
+  }
+
+  const sendAt = new Date(String(input.sendAt ?? ""));
+  if (isNaN(sendAt.getTime())) throw new CheckInError("sendAt must be a date", 400);
+  if (sendAt <= now) throw new CheckInError("sendAt must be in the future", 400);
+  if (sendAt.getTime() > now.getTime() + CHECK_IN_MAX_DAYS_AHEAD * 86_400_000) {
+    throw new CheckInError(`sendAt can be at most ${CHECK_IN_MAX_DAYS_AHEAD} days ahead`, 400);
+  }
+
+  const windowRaw = input.replyWindowHours === undefined ? CHECK_IN_REPLY_WINDOW_HOURS : Number(input.replyWindowHours);
+  if (!Number.isFinite(windowRaw) || windowRaw < 1 || windowRaw > CHECK_IN_REPLY_WINDOW_HOURS) {
+    throw new CheckInError(`replyWindowHours must be between 1 and ${CHECK_IN_REPLY_WINDOW_HOURS}`, 400);
+  }
+
+  let questions;
+  try {
+    questions = input.questions === undefined ? [] : parseIntakeQuestions(input.questions, CHECK_IN_MAX_QUESTIONS);
+  } catch (err: any) {
+    throw new CheckInError(err.message, 400);
+  }
+
+  // One conversation per doctor-patient pair — it may still point at an
+  // older appointment (see appointmentController.updateAppointment).
+  const patientId = idOf(appointment.userId);
+  const conversation = await Conversation.findOne({
+    "participants.userId": patientId,
+    "participants.doctorId": doctorId,
+  })
+    .select("_id")
+    .lean();
+  if (!conversation) throw new CheckInError("There is no chat with this patient yet", 409);
+
+  const pending = await CheckIn.countDocuments({ appointmentId, status: { $in: ["scheduled", "sent"] } });
+  if (pending >= CHECK_IN_MAX_PER_APPOINTMENT) {
+    throw new CheckInError(`At most ${CHECK_IN_MAX_PER_APPOINTMENT} check-ins can be pending per appointment`, 409);
+  }
+
+  return CheckIn.create({
+    appointmentId,
+    conversationId: conversation._id,
+    doctorId,
+    patientId,
+    message,
+    questions,
+    sendAt,
+    replyWindowHours: Math.round(windowRaw),
+  });
+}
+
+/**
+ * Check-ins for an appointment. The patient only sees ones that have been
+ * sent; the doctor also sees scheduled and cancelled ones.
+ */
+export async function listCheckIns(appointmentId: string, requester: { id: string; role?: string }) {
+  if (!Types.ObjectId.isValid(appointmentId)) throw new CheckInError("Appointment not found", 404);
+  const appointment = await Appointment.findById(appointmentId).select("doctorId userId").lean();
+  if (!appointment) throw new CheckInError("Appointment not found", 404);
+
+  const isDoctor = idOf(appointment.doctorId) === requester.id;
+  if (!isDoctor && idOf(appointment.userId) !== requester.id) {
+    throw new CheckInError("You are not part of this appointment", 403);
+  }
+
+  return CheckIn.find({
+    appointmentId,
+    ...(isDoctor ? {} : { status: { $in: ["sent", "answered", "closed"] } }),
+  })
+    .sort({ sendAt: 1 })
+    .lean();
+}
+
+export async function cancelCheckIn(checkInId: string, doctorId: string, now: Date = new Date()): Promise<ICheckIn> {
+  if (!Types.ObjectId.isValid(checkInId)) throw new CheckInError("Check-in not found", 404);
+  const cancelled = await CheckIn.findOneAndUpdate(
+    { _id: checkInId, doctorId, status: "scheduled" },
+    { $set: { status: "cancelled", cancelledAt: now } },
+    { new: true }
+  );
+  if (cancelled) return cancelled;
+
+  const existing = await CheckIn.findOne({ _id: checkInId, doctorId }).select("status").lean();
+  if (!existing) throw new CheckInError("Check-in not found", 404);
+  throw new CheckInError(`This check-in is already ${existing.status}`, 409);
+}
+
+// ─── Patient ──────────────────────────────────────────────────────────────────
+
+async function markAnswered(checkIn: ICheckIn, set: Partial<ICheckIn>, now: Date): Promise<boolean> {
+  const result = await CheckIn.updateOne(
+    { _id: checkIn._id, status: "sent" },
+    { $set: { ...set, status: "answered", answeredAt: now } }
+  );
+  if (!result.modifiedCount) return false;
+
+  const appointment = await Appointment.findById(checkIn.appointmentId)
+    .select("patientSnapshot userId")
+    .populate("userId", "name")
+    .lean();
+  const patientName = appointment?.patientSnapshot?.name || (appointment?.userId as any)?.name || "Your patient";
+
+  emitCheckInAnswered(String(checkIn.doctorId), {
+    checkInId: String(checkIn._id),
+    appointmentId: String(checkIn.appointmentId),
+    conversationId: String(checkIn.conversationId),
+  });
+  NotificationService.notifyCheckInAnswered(
+    String(checkIn.doctorId),
+    String(checkIn._id),
+    String(checkIn.conversationId),
+    String(checkIn.appointmentId),
+    patientName
+  ).catch((err) => console.error("Failed to send check-in answered notification:", err));
+  return true;
+}
+
+/**
+ * The patient's answers to a check-in's questions (or, for a plain one, an
+ * optional note). Posted into the chat as their reply.
+ */
+export async function respondToCheckIn(
+  checkInId: string,
+  patientId: string,
+  input: { answers?: unknown; note?: unknown },
+  now: Date = new Date()
+): Promise<ICheckIn> {
+  const checkIn = Types.ObjectId.isValid(checkInId)
+    ? await CheckIn.findOne({ _id: checkInId, patientId })
+    : null;
+  if (!checkIn) throw new CheckInError("Check-in not found", 404);
+  if (checkIn.status === "answered") throw new CheckInError("You have already answered this check-in", 409);
+  if (checkIn.status !== "sent" || (checkIn.replyBy && checkIn.replyBy <= now)) {
+    throw new CheckInError("This check-in is no longer open", 410);
+  }
+
+  let answers: IIntakeAnswer[] = [];
+  try {
+    answers = validateAnswers(checkIn.questions, input.answers, "Please answer the check-in questions.");
+  } catch (err) {
+    if (err instanceof IntakeValidationError) throw new CheckInError(err.message, 400, err.errors);
+    throw err;
+  }
+  const note = typeof input.note === "string" ? input.note.trim().slice(0, MAX_MESSAGE_LENGTH) : "";
+  if (!answers.length && !note) throw new CheckInError("Add an answer or a note", 400);
+
+  const lines = answers.map((a) => `• ${a.label}: ${formatAnswer(a)}`);
+  if (note) lines.push(note);
+  const reply = await appendMessage(
+    checkIn.conversationId,
+    {
+      senderId: new Types.ObjectId(patientId),
+      senderType: "User",
+      content: answers.length ? `Check-in answers:\n${lines.join("\n")}` : note,
+      checkInId: checkIn._id as Types.ObjectId,
+    },
+    { unreadFor: "doctor" }
+  );
+  emitNewMessage(String(checkIn.conversationId), reply, String(checkIn.doctorId));
+
+  if (!(await markAnswered(checkIn, { answers, replyMessageId: reply._id }, now))) {
+    throw new CheckInError("This check-in is no longer open", 410);
+  }
+  return (await CheckIn.findById(checkIn._id))!;
+}
+
+/**
+ * A patient's chat message answers the plain (question-less) check-ins open
+ * in that conversation. Check-ins with questions wait for respondToCheckIn.
+ */
+export async function recordCheckInReply(
+  conversationId: Types.ObjectId,
+  message: IMessage,
+  now: Date = new Date()
+): Promise<void> {
+  const open = await CheckIn.find({
+    conversationId,
+    status: "sent",
+    "questions.0": { $exists: false },
+    replyBy: { $gt: now },
+  });
+  for (const checkIn of open) {
+    await markAnswered(checkIn, { replyMessageId: message._id }, now);
+  }
+}
+
+// ─── Cron ─────────────────────────────────────────────────────────────────────
+
+async function sendCheckIn(checkIn: ICheckIn, now: Date): Promise<void> {
+  const replyBy = checkIn.replyBy ?? new Date(now.getTime() + checkIn.replyWindowHours * 3_600_000);
+  const conversation = await Conversation.findById(checkIn.conversationId)
+    .select("isActive temporaryUnlock participants")
+    .lean();
+  if (!conversation) {
+    await CheckIn.updateOne({ _id: checkIn._id }, { $set: { status: "cancelled", cancelledAt: now } });
+    return;
+  }
+
+  // Open a locked chat for the reply. A chat already open only because of
+  // an earlier check-in stays open until the later of the two deadlines.
+  const unlock = !conversation.isActive || !!conversation.temporaryUnlock;
+  const until =
+    conversation.temporaryUnlock && conversation.temporaryUnlock.until > replyBy
+      ? conversation.temporaryUnlock.until
+      : replyBy;
+
+  const message = await appendMessage(
+    conversation._id as Types.ObjectId,
+    {
+      senderId: checkIn.doctorId,
+      senderType: "Doctor",
+      messageType: "check-in",
+      content: checkIn.message,
+      checkInId: checkIn._id as Types.ObjectId,
+    },
+    {
+      unreadFor: "user",
+      ...(unlock ? { set: { isActive: true, temporaryUnlock: { checkInId: checkIn._id as Types.ObjectId, until } } } : {}),
+    }
+  );
+  await CheckIn.updateOne(
+    { _id: checkIn._id },
+    { $set: { sentMessageId: message._id, replyBy } }
+  );
+
+  const patientId = String(checkIn.patientId);
+  const conversationId = String(conversation._id);
+  if (!conversation.isActive) emitConversationUnlocked(conversationId, patientId);
+  emitNewMessage(conversationId, message, patientId);
+
+  const doctor = await Appointment.findById(checkIn.appointmentId)
+    .select("doctorId")
+    .populate("doctorId", "firstName lastName")
+    .lean();
+  const d = doctor?.doctorId as any;
+  await NotificationService.notifyCheckIn(
+    patientId,
+    String(checkIn._id),
+    conversationId,
+    String(checkIn.appointmentId),
+    d ? `Dr. ${d.lastName || d.firstName}` : "Your doctor",
+    checkIn.message
+  );
+}
+
+/** Posts every check-in that has come due. Returns how many went out. */
+export async function dispatchDueCheckIns(now: Date = new Date()): Promise<number> {
+  await releaseStaleClaims(now);
+
+  let sent = 0;
+  for (let i = 0; i < DISPATCH_BATCH; i++) {
+    // Claim one at a time so overlapping runs never send the same check-in.
+    // The reply deadline is set with the claim, so even a claim lost mid-send
+    // is closed by closeLapsedCheckIns eventually.
+    const checkIn = await CheckIn.findOneAndUpdate(
+      { status: "scheduled", sendAt: { $lte: now } },
+      [
+        {
+          $set: {
+            status: "sent",
+            sentAt: now,
+            replyBy: { $add: [now, { $multiply: ["$replyWindowHours", 3_600_000] }] },
+          },
+        },
+      ],
+      { sort: { sendAt: 1 }, new: true }
+    );
+    if (!checkIn) break;
+    try {
+      await sendCheckIn(checkIn, now);
+      sent++;
+    } catch (err) {
+      console.error(`❌ [CheckIn] Failed to send check-in ${checkIn._id}:`, err);
+      await releaseFailedCheckIn(checkIn, now);
+    }
+  }
+  return sent;
+}
+
+/**
+ * Puts a check-in whose send threw back in the queue for a later run, or
+ * marks it failed once it has used up its attempts. One whose message did
+ * reach the chat stays sent — only the notification after it failed.
+ */
+async function releaseFailedCheckIn(checkIn: ICheckIn, now: Date): Promise<void> {
+  const attempts = (checkIn.sendAttempts || 0) + 1;
+  const update =
+    attempts >= CHECK_IN_MAX_SEND_ATTEMPTS
+      ? { status: "failed", sendAttempts: attempts }
+      : {
+          status: "scheduled",
+          sendAttempts: attempts,
+          sendAt: new Date(now.getTime() + CHECK_IN_RETRY_DELAY_MINUTES * 60_000),
+        };
+  try {
+    await CheckIn.updateOne(
+      { _id: checkIn._id, status: "sent", sentMessageId: { $exists: false } },
+      { $set: update, $unset: { sentAt: "", replyBy: "" } }
+    );
+  } catch (err) {
+    console.error(`❌ [CheckIn] Could not release check-in ${checkIn._id}:`, err);
+  }
+}
+
+/**
+ * Recovers check-ins claimed by a run that never finished sending them. One
+ * whose message did reach the chat is recorded as sent; the rest go back in
+ * the queue like any failed send.
+ */
+async function releaseStaleClaims(now: Date): Promise<void> {
+  const stale = await CheckIn.find({
+    status: "sent",
+    sentMessageId: { $exists: false },
+    sentAt: { $lt: new Date(now.getTime() - STALE_CLAIM_MS) },
+  }).limit(DISPATCH_BATCH);
+
+  for (const checkIn of stale) {
+    const message = await ConversationMessage.findOne({ conversationId: checkIn.conversationId, checkInId: checkIn._id })
+      .select("_id")
+      .lean();
+    if (message) {
+      await CheckIn.updateOne({ _id: checkIn._id }, { $set: { sentMessageId: message._id } });
+      continue;
+    }
+    console.warn(`⚠️ [CheckIn] Releasing check-in ${checkIn._id}, claimed but never sent`);
+    await releaseFailedCheckIn(checkIn, now);
+  }
+}
+
+/**
+ * Closes check-ins whose reply window passed unanswered, and locks chats that
+ * were only open for check-in replies. Returns how many chats were locked.
+ */
+export async function closeLapsedCheckIns(now: Date = new Date()): Promise<number> {
+  await CheckIn.updateMany({ status: "sent", replyBy: { $lte: now } }, { $set: { status: "closed" } });
+
+  const lapsed = await Conversation.find({ "temporaryUnlock.until": { $lte: now } })
+    .select("participants temporaryUnlock")
+    .lean();
+  let locked = 0;
+  for (const conversation of lapsed) {
+    const result = await Conversation.updateOne(
+      { _id: conversation._id, "temporaryUnlock.until": { $lte: now } },
+      { $set: { isActive: false }, $unset: { temporaryUnlock: "" } }
+    );
+    if (!result.modifiedCount) continue;
+    locked++;
+    emitConversationLocked(String(conversation._id), String(conversation.participants.userId));
+  }
+  return locked;
+}
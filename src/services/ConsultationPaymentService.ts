@@ -0,0 +1,154 @@
+// services/ConsultationPaymentService.ts
+//
+// Prices consultations and settles their payments. Used by:
+//   - doctorController — parseConsultationFees on fee updates
+//   - appointmentController — feeFieldsForBooking on create, isPaymentSettled
+//     before a doctor may confirm
+//   - paymentController / webhookController — settleConsultationPayment once
+//     the partner reports a result for a consultation Payment (a payment for
+//     an already-cancelled appointment is refunded in full straight away)
+//
+// Fees are snapshotted onto the appointment at booking, so a doctor changing
+// their prices never changes what an already-booked patient owes.
+import { Types } from "mongoose";
+import { IConsultationFees, IDoctor } from "../models/doctor";
+import { Appointment, ConsultationType, IAppointment } from "../models/appointment";
+import { IPayment } from "../models/initiatedPayment";
+import { NotificationService } from "./NotificationService";
+import { handleCancellation } from "./CancellationService";
+
+export const CONSULTATION_TYPES: ConsultationType[] = ["video", "audio", "chat", "in-person"];
+
+// Upper bound on a single fee (NGN) — catches kobo/naira mix-ups.
+const MAX_CONSULTATION_FEE = 1_000_000;
+
+/**
+ * Validates a fee table coming from a doctor or admin. Throws with a
+ * user-facing message on bad input.
+ */
+export function parseConsultationFees(raw: unknown): IConsultationFees {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("consultationFees must be an object keyed by consultation type.");
+  }
+
+  const fees: IConsultationFees = {};
+  for (const [type, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!CONSULTATION_TYPES.includes(type as ConsultationType)) {
+      throw new Error(`Unknown consultation type "${type}".`);
+    }
+    if (value === null || value === undefined) continue;
+
+    const fee = Number(value);
+    if (!Number.isFinite(fee) || fee < 0 || fee > MAX_CONSULTATION_FEE) {
+      throw new Error(`Fee for ${type} must be between 0 and ${MAX_CONSULTATION_FEE}.`);
+    }
+    fees[type as ConsultationType] = Math.round(fee * 100) / 100;
+  }
+  return fees;
+}
+
+export function quoteConsultationFee(
+  doctor: Pick<IDoctor, "consultationFees">,
+  consultationType: ConsultationType = "video"
+): number {
+  return doctor.consultationFees?.[consultationType] ?? 0;
+}
+
+/** Payment fields for a new appointment at the doctor's current price. */
+export function feeFieldsForBooking(
+  doctor: Pick<IDoctor, "consultationFees">,
+  consultationType: ConsultationType = "video"
+): Pick<IAppointment, "consultationFee" | "paymentStatus" | "paymentWaiverReason"> {
+  const fee = quoteConsultationFee(doctor, consultationType);
+  return fee > 0
+    ? { consultationFee: fee, paymentStatus: "pending" }
+    : { consultationFee: 0, paymentStatus: "waived", paymentWaiverReason: "free" };
+}
+
+/**
+ * Whether the appointment can be confirmed as far as money goes. Appointments
+ * booked before fees existed carry no consultationFee and never owe anything.
+ */
+export function isPaymentSettled(
+  appointment: Pick<IAppointment, "consultationFee" | "paymentStatus">
+): boolean {
+  if (!appointment.consultationFee) return true;
+  return appointment.paymentStatus === "paid" || appointment.paymentStatus === "waived";
+}
+
+/**
+ * Applies a partner payment result to its appointment. Safe to call any
+ * number of times for the same payment (verify polling + webhook): the
+ * notifications only go out on the call that actually marks it paid.
+ */
+export async function settleConsultationPayment(
+  payment: Pick<IPayment, "appointmentId" | "paymentReference" | "amount">,
+  status: IPayment["status"]
+): Promise<IAppointment | null> {
+  if (!payment.appointmentId || status === "pending") return null;
+
+  if (status === "failed") {
+    return Appointment.findOneAndUpdate(
+      { _id: payment.appointmentId, paymentStatus: "pending" },
+      { $set: { paymentStatus: "failed" } },
+      { new: true }
+    );
+  }
+
+  const paid = await Appointment.findOneAndUpdate(
+    { _id: payment.appointmentId, paymentStatus: { $in: ["pending", "failed"] } },
+    {
+      $set: {
+        paymentStatus: "paid",
+        paymentReference: payment.paymentReference,
+        paidAt: new Date(),
+      },
+    },
+    { new: true }
+  )
+    .populate("doctorId", "firstName lastName")
+    .populate("userId", "name");
+  if (!paid) return null;
+
+  const doctor = paid.doctorId as any;
+  const patient = paid.userId as any;
+
+  // The payment landed after the appointment was already called off (late
+  // webhook, slow checkout) — give it straight back.
+  if (paid.status === "cancelled" || paid.status === "rejected") {
+    await handleCancellation(paid, "system", `Dr. ${doctor?.lastName || doctor?.firstName || ""}`.trim());
+    return paid;
+  }
+
+  try {
+    await NotificationService.notifyConsultationPaid(
+      String(patient?._id ?? paid.userId),
+      String(doctor?._id ?? paid.doctorId),
+      String(paid._id),
+      `Dr. ${doctor?.lastName || doctor?.firstName || ""}`.trim(),
+      patient?.name || "A patient",
+      payment.amount
+    );
+  } catch (err) {
+    console.error("❌ [ConsultationPayment] Notification failed:", err);
+  }
+  return paid;
+}
+
+/** Marks an unpaid appointment as sponsored — nothing further is owed. */
+export async function waiveConsultationPayment(
+  appointmentId: string | Types.ObjectId,
+  waivedBy: string
+): Promise<IAppointment | null> {
+  return Appointment.findOneAndUpdate(
+    { _id: appointmentId, paymentStatus: { $in: ["pending", "failed"] } },
+    {
+      $set: {
+        paymentStatus: "waived",
+        paymentWaiverReason: "sponsored",
+        paymentWaivedBy: new Types.ObjectId(waivedBy),
+      },
+    },
+    { new: true }
+  );
+}
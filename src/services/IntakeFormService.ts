@@ -0,0 +1,275 @@
+// services/IntakeFormService.ts
+//
+// Pre-consultation questionnaires, one per doctor specialization. Used by:
+//   - intakeFormController — parseIntakeForm when admins create / edit forms,
+//     findFormForSpecialization for the booking screen
+//   - appointmentController.createAppointment — validateIntakeAnswers, and
+//     the answers snapshot stored on the appointment
+//   - medicalRecordController — intakeToChiefComplaint, to pre-populate the
+//     consultation note
+//   - CheckInService — parseIntakeQuestions / validateAnswers for the
+//     questions on a doctor's post-consultation check-in
+//
+// Conditional questions (showIf) only count when the question they depend on
+// was answered with one of the listed values: a hidden question is never
+// required, and any answer sent for it is dropped.
+import { IAppointmentIntake } from "../models/appointment";
+import {
+  IIntakeAnswer,
+  IIntakeForm,
+  IIntakeQuestion,
+  INTAKE_QUESTION_TYPES,
+  IntakeAnswerValue,
+  IntakeForm,
+  IntakeQuestionType,
+} from "../models/IntakeForm";
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+const MAX_QUESTIONS = 40;
+const MAX_TEXT_LENGTH = { text: 300, long_text: 3000 };
+
+export class IntakeValidationError extends Error {
+  constructor(message: string, public readonly errors: Record<string, string> = {}) {
+    super(message);
+    this.name = "IntakeValidationError";
+  }
+}
+
+export const specializationKey = (specialization: string): string =>
+  String(specialization || "").trim().toLowerCase();
+
+// ─── Form definitions (admin input) ───────────────────────────────────────────
+
+function parseQuestion(raw: any, index: number, earlier: IIntakeQuestion[]): IIntakeQuestion {
+  const label = `Question ${index + 1}`;
+  const key = String(raw?.key ?? "").trim();
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error(`${label}: key must be lower_snake_case, starting with a letter (max 40 chars).`);
+  }
+  if (earlier.some((q) => q.key === key)) {
+    throw new Error(`${label}: key "${key}" is used twice.`);
+  }
+  const text = String(raw?.label ?? "").trim();
+  if (!text) throw new Error(`${label}: label is required.`);
+  const type = raw?.type as IntakeQuestionType;
+  if (!INTAKE_QUESTION_TYPES.includes(type)) {
+    throw new Error(`${label}: type must be one of ${INTAKE_QUESTION_TYPES.join(", ")}.`);
+  }
+
+  const question: IIntakeQuestion = { key, label: text, type, required: raw?.required === true };
+  if (raw?.helpText) question.helpText = String(raw.helpText).trim();
+
+  if (type === "single_choice" || type === "multi_choice") {
+    const options = Array.isArray(raw?.options)
+      ? raw.options.map((o: unknown) => String(o).trim()).filter(Boolean)
+      : [];
+    if (options.length < 2 || new Set(options).size !== options.length) {
+      throw new Error(`${label}: choice questions need at least two distinct options.`);
+    }
+    question.options = options;
+  }
+
+  if (type === "number" || type === "scale") {
+    const min = raw?.min === undefined ? undefined : Number(raw.min);
+    const max = raw?.max === undefined ? undefined : Number(raw.max);
+    if (type === "scale" && (min === undefined || max === undefined)) {
+      throw new Error(`${label}: scale questions need min and max.`);
+    }
+    if ((min !== undefined && !Number.isFinite(min)) || (max !== undefined && !Number.isFinite(max))) {
+      throw new Error(`${label}: min/max must be numbers.`);
+    }
+    if (min !== undefined && max !== undefined && min >= max) {
+      throw new Error(`${label}: min must be less than max.`);
+    }
+    if (min !== undefined) question.min = min;
+    if (max !== undefined) question.max = max;
+  }
+
+  if (raw?.showIf) {
+    const dependsOn = earlier.find((q) => q.key === String(raw.showIf.questionKey));
+    if (!dependsOn) {
+      throw new Error(`${label}: showIf must refer to an earlier question.`);
+    }
+    const values = Array.isArray(raw.showIf.values) ? raw.showIf.values : [raw.showIf.values];
+    if (!values.length || values.some((v: unknown) => v === undefined || v === null || typeof v === "object")) {
+      throw new Error(`${label}: showIf.values must list the answers that reveal this question.`);
+    }
+    if (dependsOn.options && values.some((v: unknown) => !dependsOn.options!.includes(String(v)))) {
+      throw new Error(`${label}: showIf.values must be options of "${dependsOn.key}".`);
+    }
+    question.showIf = { questionKey: dependsOn.key, values };
+  }
+
+  return question;
+}
+
+/**
+ * Validates an admin-submitted form definition. Throws with a user-facing
+ * message on bad input.
+ */
+export function parseIntakeForm(raw: any): Pick<IIntakeForm, "specialization" | "specializationKey" | "title" | "description" | "questions"> {
+  const specialization = String(raw?.specialization ?? "").trim();
+  if (!specialization) throw new Error("specialization is required.");
+  const title = String(raw?.title ?? "").trim();
+  if (!title) throw new Error("title is required.");
+
+  if (!Array.isArray(raw?.questions) || !raw.questions.length) {
+    throw new Error("questions must be a non-empty array.");
+  }
+
+  return {
+    specialization,
+    specializationKey: specializationKey(specialization),
+    title,
+    description: raw?.description ? String(raw.description).trim() : undefined,
+    questions: parseIntakeQuestions(raw.questions),
+  };
+}
+
+/** Validates a list of question definitions (same rules as a form's). */
+export function parseIntakeQuestions(raw: unknown, max: number = MAX_QUESTIONS): IIntakeQuestion[] {
+  if (!Array.isArray(raw)) throw new Error("questions must be an array.");
+  if (raw.length > max) {
+    throw new Error(`At most ${max} questions are allowed.`);
+  }
+  const questions: IIntakeQuestion[] = [];
+  raw.forEach((q: any, i: number) => questions.push(parseQuestion(q, i, questions)));
+  return questions;
+}
+
+export async function findFormForSpecialization(specialization?: string): Promise<IIntakeForm | null> {
+  if (!specialization) return null;
+  return IntakeForm.findOne({ specializationKey: specializationKey(specialization), isActive: true });
+}
+
+// ─── Answers (patient input) ──────────────────────────────────────────────────
+
+function isVisible(question: IIntakeQuestion, answers: Map<string, IntakeAnswerValue>): boolean {
+  if (!question.showIf) return true;
+  const answer = answers.get(question.showIf.questionKey);
+  if (answer === undefined) return false;
+  const given = Array.isArray(answer) ? answer : [answer];
+  return question.showIf.values.some((v) => given.some((g) => String(g) === String(v)));
+}
+
+// Returns the normalised value, undefined for "not answered", or throws a
+// message for the field.
+function readAnswer(question: IIntakeQuestion, raw: unknown): IntakeAnswerValue | undefined {
+  if (raw === undefined || raw === null || raw === "") return undefined;
+
+  switch (question.type) {
+    case "text":
+    case "long_text": {
+      const value = String(raw).trim();
+      if (!value) return undefined;
+      if (value.length > MAX_TEXT_LENGTH[question.type]) {
+        throw new Error(`must be at most ${MAX_TEXT_LENGTH[question.type]} characters`);
+      }
+      return value;
+    }
+    case "number":
+    case "scale": {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) throw new Error("must be a number");
+      if (question.type === "scale" && !Number.isInteger(value)) throw new Error("must be a whole number");
+      if (question.min !== undefined && value < question.min) throw new Error(`must be at least ${question.min}`);
+      if (question.max !== undefined && value > question.max) throw new Error(`must be at most ${question.max}`);
+      return value;
+    }
+    case "boolean":
+      if (raw === true || raw === "true") return true;
+      if (raw === false || raw === "false") return false;
+      throw new Error("must be yes or no");
+    case "date": {
+      const date = new Date(String(raw));
+      if (isNaN(date.getTime())) throw new Error("must be a valid date");
+      return date.toISOString().slice(0, 10);
+    }
+    case "single_choice": {
+      const value = String(raw);
+      if (!question.options?.includes(value)) throw new Error("is not one of the options");
+      return value;
+    }
+    case "multi_choice": {
+      const values = (Array.isArray(raw) ? raw : [raw]).map(String);
+      if (values.some((v) => !question.options?.includes(v))) throw new Error("includes an unknown option");
+      const unique = [...new Set(values)];
+      return unique.length ? unique : undefined;
+    }
+  }
+}
+
+/**
+ * Checks a patient's answers against the form and returns the snapshot to
+ * store on the appointment. Throws IntakeValidationError listing every
+ * problem by question key.
+ */
+export function validateIntakeAnswers(form: IIntakeForm, raw: unknown): IAppointmentIntake {
+  return {
+    formId: form._id as any,
+    formVersion: form.version,
+    formTitle: form.title,
+    answers: validateAnswers(form.questions, raw, "Please complete the intake questionnaire."),
+    submittedAt: new Date(),
+  };
+}
+
+/** Checks answers against a list of questions; the core of validateIntakeAnswers. */
+export function validateAnswers(questions: IIntakeQuestion[], raw: unknown, errorMessage: string): IIntakeAnswer[] {
+  const input = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const given = new Map<string, IntakeAnswerValue>();
+  const errors: Record<string, string> = {};
+  const answers: IIntakeAnswer[] = [];
+
+  // Questions are validated in order, so a condition always sees the answer
+  // it depends on.
+  for (const question of questions) {
+    if (!isVisible(question, given)) continue;
+
+    let value: IntakeAnswerValue | undefined;
+    try {
+      value = readAnswer(question, input[question.key]);
+    } catch (err: any) {
+      errors[question.key] = `${question.label} ${err.message}.`;
+      continue;
+    }
+
+    if (value === undefined) {
+      if (question.required) errors[question.key] = `${question.label} is required.`;
+      continue;
+    }
+    given.set(question.key, value);
+    answers.push({ key: question.key, label: question.label, type: question.type, value });
+  }
+
+  if (Object.keys(errors).length) {
+    throw new IntakeValidationError(errorMessage, errors);
+  }
+  return answers;
+}
+
+// ─── Consultation note ────────────────────────────────────────────────────────
+
+function formatValue(answer: IIntakeAnswer): string {
+  if (typeof answer.value === "boolean") return answer.value ? "Yes" : "No";
+  if (Array.isArray(answer.value)) return answer.value.join(", ");
+  return String(answer.value);
+}
+
+/**
+ * The chief complaint a consultation note starts from: the patient's stated
+ * reason followed by their intake answers. Empty when there is neither.
+ */
+export function intakeToChiefComplaint(
+  intake: IAppointmentIntake | undefined,
+  reason?: string
+): string {
+  const lines: string[] = [];
+  if (reason?.trim()) lines.push(reason.trim());
+  if (intake?.answers?.length) {
+    if (lines.length) lines.push("");
+    lines.push(`${intake.formTitle}:`);
+    for (const answer of intake.answers) lines.push(`- ${answer.label}: ${formatValue(answer)}`);
+  }
+  return lines.join("\n");
+}
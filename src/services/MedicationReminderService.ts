@@ -0,0 +1,315 @@
+// services/MedicationReminderService.ts
+//
+// Fires MedicationReminder notifications and turns the resulting dose logs
+// into adherence numbers. Used by:
+//   - cron/reminderJob.ts — dispatchDueDoses + resurfaceSnoozedDoses, every minute
+//   - medicationReminderController.ts — logDose, getAdherenceSummary
+//
+// `times` on a reminder are "HH:mm" wall-clock times in APP_TIMEZONE.
+// A dose log is created the moment its notification goes out (status
+// "pending"), and the unique reminderId+scheduledFor index means a dose is
+// only ever notified once, however many times the job overlaps or restarts.
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { Types } from "mongoose";
+import { APP_TIMEZONE } from "../config/timezone";
+import { IMedicationReminder, MedicationReminder } from "../models/MedicationReminder";
+import { DoseStatus, MedicationDoseLog } from "../models/MedicationDoseLog";
+import { NotificationService } from "./NotificationService";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// How far back each run looks for reminder times. The job runs every minute;
+// the extra minutes catch doses whose minute was missed by a slow run or a
+// restart, instead of silently dropping them.
+const DISPATCH_LOOKBACK_MINUTES = 5;
+
+export const DEFAULT_SNOOZE_MINUTES = 10;
+export const MAX_SNOOZE_MINUTES = 120;
+
+export interface WeeklyAdherence {
+  weekStart: string; // YYYY-MM-DD (Monday, APP_TIMEZONE)
+  expected: number | null; // null for as_needed reminders
+  taken: number;
+  skipped: number;
+  missed: number;
+  adherenceRate: number | null; // taken / expected, 0..1
+}
+
+export interface ReminderAdherence {
+  reminderId: string;
+  drugName: string;
+  dosage: string;
+  frequency: IMedicationReminder["frequency"];
+  weeks: WeeklyAdherence[];
+  totals: Omit<WeeklyAdherence, "weekStart">;
+}
+
+function toScheduledDate(date: dayjs.Dayjs, time: string): Date {
+  return dayjs.tz(`${date.format("YYYY-MM-DD")}T${time}:00`, APP_TIMEZONE).toDate();
+}
+
+function isWithinCourse(reminder: IMedicationReminder, at: Date): boolean {
+  if (reminder.startDate && at < reminder.startDate) return false;
+  if (reminder.endDate && at > reminder.endDate) return false;
+  return true;
+}
+
+// ─── Dispatch ─────────────────────────────────────────────────────────────────
+
+/**
+ * Notifies every active reminder whose time fell within the lookback window
+ * and hasn't been notified yet. Returns the number of notifications sent.
+ */
+export async function dispatchDueDoses(now: Date = new Date()): Promise<number> {
+  const local = dayjs(now).tz(APP_TIMEZONE);
+  const window: { time: string; scheduledFor: Date }[] = [];
+  for (let i = 0; i < DISPATCH_LOOKBACK_MINUTES; i++) {
+    const minute = local.subtract(i, "minute");
+    window.push({ time: minute.format("HH:mm"), scheduledFor: toScheduledDate(minute, minute.format("HH:mm")) });
+  }
+
+  const reminders = await MedicationReminder.find({
+    isActive: true,
+    frequency: { $ne: "as_needed" },
+    times: { $in: window.map((w) => w.time) },
+    startDate: { $lte: now },
+    $or: [{ endDate: null }, { endDate: { $gte: window[window.length - 1].scheduledFor } }],
+  });
+
+  let sent = 0;
+  for (const reminder of reminders) {
+    for (const { time, scheduledFor } of window) {
+      if (!reminder.times.includes(time) || !isWithinCourse(reminder, scheduledFor)) continue;
+
+      try {
+        const result = await MedicationDoseLog.updateOne(
+          { reminderId: reminder._id, scheduledFor },
+          {
+            $setOnInsert: {
+              userId: reminder.userId,
+              status: "pending",
+              notifiedAt: now,
+              snoozeCount: 0,
+            },
+          },
+          { upsert: true }
+        );
+        if (!result.upsertedCount) continue; // already notified
+
+        await NotificationService.notifyMedicationDue(
+          String(reminder.userId),
+          reminder.userType,
+          String(reminder._id),
+          String(result.upsertedId),
+          reminder.drugName,
+          reminder.dosage,
+          scheduledFor
+        );
+        sent++;
+      } catch (err: any) {
+        // A concurrent run won the upsert — the dose is theirs to notify.
+        if (err?.code === 11000) continue;
+        console.error(`❌ [MedicationReminder] Dispatch failed for ${reminder._id} @ ${time}:`, err);
+      }
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Re-notifies snoozed doses whose snooze has run out, flipping them back to
+ * "pending" so each snooze produces exactly one follow-up notification.
+ */
+export async function resurfaceSnoozedDoses(now: Date = new Date()): Promise<number> {
+  const due = await MedicationDoseLog.find({ status: "snoozed", snoozedUntil: { $lte: now } });
+
+  let sent = 0;
+  for (const dose of due) {
+    const claimed = await MedicationDoseLog.findOneAndUpdate(
+      { _id: dose._id, status: "snoozed" },
+      { $set: { status: "pending", notifiedAt: now } },
+      { new: true }
+    );
+    if (!claimed) continue;
+
+    const reminder = await MedicationReminder.findById(dose.reminderId);
+    if (!reminder || !reminder.isActive) continue;
+
+    try {
+      await NotificationService.notifyMedicationDue(
+        String(reminder.userId),
+        reminder.userType,
+        String(reminder._id),
+        String(dose._id),
+        reminder.drugName,
+        reminder.dosage,
+        dose.scheduledFor,
+        true
+      );
+      sent++;
+    } catch (err) {
+      console.error(`❌ [MedicationReminder] Snooze follow-up failed for dose ${dose._id}:`, err);
+    }
+  }
+
+  return sent;
+}
+
+// ─── Dose logging ─────────────────────────────────────────────────────────────
+
+/**
+ * The scheduled dose time closest to `at` (one of the reminder's `times`, on
+ * the day before, of or after it, within the course), or null when the
+ * reminder has none. Logs are always filed under such a time so each dose
+ * has exactly one log, however often or loosely the app reports it.
+ */
+export function nearestScheduledDose(reminder: IMedicationReminder, at: Date): Date | null {
+  const day = dayjs(at).tz(APP_TIMEZONE);
+  let nearest: Date | null = null;
+  for (const offset of [-1, 0, 1]) {
+    for (const time of reminder.times) {
+      const candidate = toScheduledDate(day.add(offset, "day"), time);
+      if (!isWithinCourse(reminder, candidate)) continue;
+      if (!nearest || Math.abs(candidate.getTime() - at.getTime()) < Math.abs(nearest.getTime() - at.getTime())) {
+        nearest = candidate;
+      }
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Records the user's answer for one dose. Works both for doses the job has
+ * already notified and for ones it hasn't (e.g. an as_needed dose, or marking
+ * a dose taken early from the app).
+ */
+export async function logDose(
+  reminder: IMedicationReminder,
+  scheduledFor: Date,
+  status: Exclude<DoseStatus, "pending">,
+  snoozeMinutes?: number,
+  now: Date = new Date()
+) {
+  const update: Record<string, any> = { status, actedAt: now };
+  const inc: Record<string, number> = {};
+
+  if (status === "snoozed") {
+    const minutes = Math.min(Math.max(snoozeMinutes || DEFAULT_SNOOZE_MINUTES, 1), MAX_SNOOZE_MINUTES);
+    update.snoozedUntil = new Date(now.getTime() + minutes * 60_000);
+    inc.snoozeCount = 1;
+  } else {
+    update.snoozedUntil = null;
+  }
+
+  return MedicationDoseLog.findOneAndUpdate(
+    { reminderId: reminder._id, scheduledFor },
+    {
+      $set: update,
+      ...(Object.keys(inc).length ? { $inc: inc } : {}),
+      $setOnInsert: { userId: reminder.userId },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+}
+
+// ─── Adherence ────────────────────────────────────────────────────────────────
+
+function weekStartOf(date: dayjs.Dayjs): dayjs.Dayjs {
+  return date.subtract((date.day() + 6) % 7, "day").startOf("day");
+}
+
+function rate(taken: number, expected: number | null): number | null {
+  if (!expected) return null;
+  return Math.round((taken / expected) * 1000) / 1000;
+}
+
+/**
+ * Per-reminder, per-week adherence for the last `weeks` weeks (current week
+ * included). A scheduled dose counts as missed once its time has passed
+ * without being marked taken or skipped — snoozed-and-forgotten doses
+ * included. as_needed reminders have no expected count, only taken/skipped.
+ */
+export async function getAdherenceSummary(
+  userId: string | Types.ObjectId,
+  weeks: number,
+  reminderId?: string,
+  now: Date = new Date()
+): Promise<ReminderAdherence[]> {
+  const reminderQuery: Record<string, any> = { userId };
+  if (reminderId) reminderQuery._id = reminderId;
+  const reminders = await MedicationReminder.find(reminderQuery).sort({ createdAt: -1 });
+  if (!reminders.length) return [];
+
+  const localNow = dayjs(now).tz(APP_TIMEZONE);
+  const firstWeek = weekStartOf(localNow).subtract(weeks - 1, "week");
+  const rangeStart = firstWeek.toDate();
+
+  const logs = await MedicationDoseLog.find({
+    reminderId: { $in: reminders.map((r) => r._id) },
+    scheduledFor: { $gte: rangeStart, $lte: now },
+  }).lean();
+
+  return reminders.map((reminder) => {
+    const asNeeded = reminder.frequency === "as_needed";
+    // Scheduled reminders only count logs at one of their dose times, so
+    // taken can't outrun expected
+    const reminderLogs = logs.filter(
+      (l) =>
+        String(l.reminderId) === String(reminder._id) &&
+        (asNeeded || reminder.times.includes(dayjs(l.scheduledFor).tz(APP_TIMEZONE).format("HH:mm")))
+    );
+
+    const weekly: WeeklyAdherence[] = [];
+    for (let w = 0; w < weeks; w++) {
+      const weekStart = firstWeek.add(w, "week");
+      const weekEnd = weekStart.add(1, "week");
+      const inWeek = reminderLogs.filter(
+        (l) => l.scheduledFor >= weekStart.toDate() && l.scheduledFor < weekEnd.toDate()
+      );
+      const taken = inWeek.filter((l) => l.status === "taken").length;
+      const skipped = inWeek.filter((l) => l.status === "skipped").length;
+
+      let expected: number | null = null;
+      if (!asNeeded) {
+        expected = 0;
+        for (let d = weekStart; d.isBefore(weekEnd); d = d.add(1, "day")) {
+          for (const time of reminder.times) {
+            const at = toScheduledDate(d, time);
+            if (at <= now && isWithinCourse(reminder, at)) expected++;
+          }
+        }
+      }
+
+      weekly.push({
+        weekStart: weekStart.format("YYYY-MM-DD"),
+        expected,
+        taken,
+        skipped,
+        missed: expected === null ? 0 : Math.max(expected - taken - skipped, 0),
+        adherenceRate: rate(taken, expected),
+      });
+    }
+
+    const totalExpected = asNeeded ? null : weekly.reduce((sum, w) => sum + (w.expected || 0), 0);
+    const totalTaken = weekly.reduce((sum, w) => sum + w.taken, 0);
+
+    return {
+      reminderId: String(reminder._id),
+      drugName: reminder.drugName,
+      dosage: reminder.dosage,
+      frequency: reminder.frequency,
+      weeks: weekly,
+      totals: {
+        expected: totalExpected,
+        taken: totalTaken,
+        skipped: weekly.reduce((sum, w) => sum + w.skipped, 0),
+        missed: weekly.reduce((sum, w) => sum + w.missed, 0),
+        adherenceRate: rate(totalTaken, totalExpected),
+      },
+    };
+  });
+}
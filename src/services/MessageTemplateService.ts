@@ -0,0 +1,189 @@
+// services/MessageTemplateService.ts
+//
+// Canned chat messages for doctors. Used by:
+//   - messageTemplateController — parseMessageTemplate when doctors (personal)
+//     and admins (clinic-wide) save templates, listTemplatesForDoctor for the
+//     picker, and previews
+//   - ChatMessageService.sendChatMessage — a message sent with a templateId
+//     is rendered here, server-side
+//
+// Placeholders are written {{name}}. The built-in ones are filled from the
+// conversation's appointment; anything else (or a built-in with no value,
+// e.g. followUpDate before the consultation note sets one) must come in the
+// request's `variables`, or the send is refused with the missing names.
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { Types } from "mongoose";
+import { Appointment } from "../models/appointment";
+import { Conversation } from "../models/conversation";
+import { Doctor } from "../models/doctor";
+import { MedicalRecord } from "../models/MedicalRecord";
+import { IMessageTemplate, MessageTemplate } from "../models/MessageTemplate";
+import { readAvailability } from "./AvailabilityService";
+import { APP_TIMEZONE } from "../config/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]{0,39})\s*\}\}/g;
+const MAX_TITLE_LENGTH = 120;
+const MAX_BODY_LENGTH = 4000;
+const MAX_VARIABLE_LENGTH = 500;
+
+export const BUILT_IN_PLACEHOLDERS = [
+  "patientName",
+  "patientFirstName",
+  "doctorName",
+  "appointmentDate",
+  "appointmentTime",
+  "followUpDate",
+] as const;
+
+export class MessageTemplateError extends Error {
+  constructor(message: string, public readonly status: number, public readonly missing: string[] = []) {
+    super(message);
+    this.name = "MessageTemplateError";
+  }
+}
+
+export function extractPlaceholders(body: string): string[] {
+  return [...new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map((m) => m[1]))];
+}
+
+/** Validates a template as sent by a doctor or admin. */
+export function parseMessageTemplate(
+  raw: any
+): Pick<IMessageTemplate, "title" | "body" | "category" | "placeholders"> {
+  const title = String(raw?.title ?? "").trim();
+  if (!title) throw new MessageTemplateError("title is required", 400);
+  if (title.length > MAX_TITLE_LENGTH) {
+    throw new MessageTemplateError(`title must be at most ${MAX_TITLE_LENGTH} characters`, 400);
+  }
+  const body = String(raw?.body ?? "").trim();
+  if (!body) throw new MessageTemplateError("body is required", 400);
+  if (body.length > MAX_BODY_LENGTH) {
+    throw new MessageTemplateError(`body must be at most ${MAX_BODY_LENGTH} characters`, 400);
+  }
+  const category = raw?.category ? String(raw.category).trim() : undefined;
+  return { title, body, category, placeholders: extractPlaceholders(body) };
+}
+
+/** The doctor's own active templates followed by the clinic-wide ones. */
+export async function listTemplatesForDoctor(doctorId: string) {
+  const [personal, clinic] = await Promise.all([
+    MessageTemplate.find({ scope: "personal", ownerId: doctorId, isActive: true })
+      .sort({ usageCount: -1, updatedAt: -1 })
+      .lean(),
+    MessageTemplate.find({ scope: "clinic", isActive: true }).sort({ category: 1, title: 1 }).lean(),
+  ]);
+  return { personal, clinic, placeholders: BUILT_IN_PLACEHOLDERS };
+}
+
+async function findUsableTemplate(templateId: string, doctorId: string) {
+  const template = Types.ObjectId.isValid(templateId)
+    ? await MessageTemplate.findOne({
+        _id: templateId,
+        isActive: true,
+        $or: [{ scope: "clinic" }, { scope: "personal", ownerId: doctorId }],
+      }).lean()
+    : null;
+  if (!template) throw new MessageTemplateError("Template not found", 404);
+  return template;
+}
+
+/** Built-in placeholder values for a doctor's appointment. */
+async function builtInValues(appointmentId: string, doctorId: string): Promise<Record<string, string>> {
+  const [appointment, doctor, record] = await Promise.all([
+    Appointment.findById(appointmentId).select("scheduledAt patientSnapshot userId").populate("userId", "name").lean(),
+    Doctor.findById(doctorId).select("firstName lastName availability").lean(),
+    MedicalRecord.findOne({ "consultationNotes.appointmentId": appointmentId })
+      .select({ consultationNotes: { $elemMatch: { appointmentId } } })
+      .lean(),
+  ]);
+
+  const tz = readAvailability(doctor?.availability)?.timezone || APP_TIMEZONE;
+  const patientName = appointment?.patientSnapshot?.name || (appointment?.userId as any)?.name || "";
+  const followUpDate = record?.consultationNotes?.[0]?.followUpDate;
+
+  const values: Record<string, string> = {
+    patientName,
+    patientFirstName: patientName.split(/\s+/)[0] || "",
+    doctorName: doctor ? `Dr. ${doctor.firstName} ${doctor.lastName}`.trim() : "",
+  };
+  if (appointment?.scheduledAt) {
+    values.appointmentDate = dayjs(appointment.scheduledAt).tz(tz).format("D MMMM YYYY");
+    values.appointmentTime = dayjs(appointment.scheduledAt).tz(tz).format("h:mm A");
+  }
+  if (followUpDate) values.followUpDate = dayjs(followUpDate).tz(tz).format("D MMMM YYYY");
+  return values;
+}
+
+/**
+ * Fills a template's placeholders. `variables` from the request win over the
+ * built-in values; unknown keys in it are ignored.
+ */
+export function renderTemplateBody(
+  body: string,
+  values: Record<string, string>,
+  variables: unknown
+): { content: string; missing: string[] } {
+  const supplied: Record<string, string> = {};
+  if (variables && typeof variables === "object" && !Array.isArray(variables)) {
+    for (const [key, value] of Object.entries(variables)) {
+      if (value !== undefined && value !== null && String(value).trim()) {
+        supplied[key] = String(value).trim().slice(0, MAX_VARIABLE_LENGTH);
+      }
+    }
+  }
+
+  const missing = new Set<string>();
+  const content = body.replace(PLACEHOLDER_PATTERN, (_match, key: string) => {
+    const value = supplied[key] ?? values[key];
+    if (!value) missing.add(key);
+    return value ?? "";
+  });
+  return { content, missing: [...missing] };
+}
+
+/**
+ * Renders template `templateId` for the doctor's conversation. Throws (400,
+ * with `missing`) when a placeholder has no value.
+ */
+export async function renderTemplateForConversation(
+  templateId: string,
+  doctorId: string,
+  conversation: { appointmentId: unknown },
+  variables?: unknown
+): Promise<{ templateId: string; content: string }> {
+  const template = await findUsableTemplate(templateId, doctorId);
+  const values = await builtInValues(String(conversation.appointmentId), doctorId);
+  const { content, missing } = renderTemplateBody(template.body, values, variables);
+  if (missing.length) {
+    throw new MessageTemplateError(`Template needs values for: ${missing.join(", ")}`, 400, missing);
+  }
+  return { templateId: String(template._id), content };
+}
+
+/** The rendered text a doctor would send, for the preview in the composer. */
+export async function previewTemplate(
+  templateId: string,
+  doctorId: string,
+  conversationId: string,
+  variables?: unknown
+): Promise<{ content: string; missing: string[] }> {
+  const template = await findUsableTemplate(templateId, doctorId);
+  const conversation = Types.ObjectId.isValid(conversationId)
+    ? await Conversation.findOne({ _id: conversationId, "participants.doctorId": doctorId })
+        .select("appointmentId")
+        .lean()
+    : null;
+  if (!conversation) throw new MessageTemplateError("Conversation not found", 404);
+
+  const values = await builtInValues(String(conversation.appointmentId), doctorId);
+  return renderTemplateBody(template.body, values, variables);
+}
+
+export async function recordTemplateUse(templateId: string, now: Date = new Date()): Promise<void> {
+  await MessageTemplate.updateOne({ _id: templateId }, { $inc: { usageCount: 1 }, $set: { lastUsedAt: now } });
+}
@@ -284,6 +284,210 @@ static async notifyAppointmentConfirmed(
     });
   }
 
+  /**
+   * RESCHEDULE: One party proposed (or counter-proposed) a new time
+   */
+  static async notifyRescheduleProposed(
+    userId: string,
+    userType: "User" | "Doctor",
+    appointmentId: string,
+    proposerName: string,
+    proposedAt: Date,
+    isCounter: boolean
+  ) {
+    return this.create({
+      userId,
+      userType,
+      title: isCounter ? "New Time Suggested" : "Reschedule Requested",
+      message: isCounter
+        ? `${proposerName} suggested ${proposedAt.toLocaleString()} instead. Accept, decline or suggest another time.`
+        : `${proposerName} asked to move your appointment to ${proposedAt.toLocaleString()}.`,
+      type: "appointment",
+      metadata: {
+        appointmentId,
+        otherPartyName: proposerName,
+        scheduledAt: proposedAt.toISOString(),
+        status: "rescheduled",
+      },
+    });
+  }
+
+  /**
+   * RESCHEDULE: New time agreed (sent to both)
+   */
+  static async notifyRescheduleAccepted(
+    userId: string,
+    userType: "User" | "Doctor",
+    appointmentId: string,
+    otherPartyName: string,
+    newScheduledAt: Date
+  ) {
+    return this.create({
+      userId,
+      userType,
+      title: "Appointment Rescheduled",
+      message: `Your appointment with ${otherPartyName} is now on ${newScheduledAt.toLocaleString()}.`,
+      type: "appointment",
+      metadata: {
+        appointmentId,
+        otherPartyName,
+        scheduledAt: newScheduledAt.toISOString(),
+        status: "reschedule_accepted",
+      },
+    });
+  }
+
+  /**
+   * RESCHEDULE: Proposal declined — the original time stands
+   */
+  static async notifyRescheduleDeclined(
+    userId: string,
+    userType: "User" | "Doctor",
+    appointmentId: string,
+    otherPartyName: string,
+    scheduledAt: Date
+  ) {
+    return this.create({
+      userId,
+      userType,
+      title: "Reschedule Declined",
+      message: `${otherPartyName} declined the new time. Your appointment stays on ${scheduledAt.toLocaleString()}.`,
+      type: "appointment",
+      metadata: {
+        appointmentId,
+        otherPartyName,
+        scheduledAt: scheduledAt.toISOString(),
+        status: "reschedule_declined",
+      },
+    });
+  }
+
+  /**
+   * ✅ PAYMENT: Refund outcome after a cancellation (sent to patient)
+   */
+  static async notifyRefundOutcome(
+    userId: string,
+    appointmentId: string,
+    explanation: string,
+    amount: number
+  ) {
+    return this.create({
+      userId,
+      userType: "User",
+      title: amount > 0 ? "Refund on the Way 💸" : "No Refund for This Cancellation",
+      message: explanation,
+      type: "appointment",
+      metadata: { appointmentId, amount, type: "refund_update" },
+    });
+  }
+
+  /**
+   * ✅ PAYMENT: Consultation fee paid (sent to both)
+   */
+  static async notifyConsultationPaid(
+    patientId: string,
+    doctorId: string,
+    appointmentId: string,
+    doctorName: string,
+    patientName: string,
+    amount: number
+  ) {
+    await this.create({
+      userId: patientId,
+      userType: "User",
+      title: "Payment Successful ✅",
+      message: `Your payment of ₦${amount.toLocaleString()} for your consultation with ${doctorName} was successful.`,
+      type: "appointment",
+      metadata: { appointmentId, doctorName, amount, type: "payment_success" },
+    });
+    return this.create({
+      userId: doctorId,
+      userType: "Doctor",
+      title: "Consultation Paid",
+      message: `${patientName} has paid for their consultation. You can now confirm the appointment.`,
+      type: "appointment",
+      metadata: { appointmentId, patientName, amount, type: "payment_success" },
+    });
+  }
+
+  /**
+   * ✅ CHECK-IN: The doctor's scheduled follow-up has arrived in the chat
+   */
+  static async notifyCheckIn(
+    userId: string,
+    checkInId: string,
+    conversationId: string,
+    appointmentId: string,
+    doctorName: string,
+    messageContent: string
+  ) {
+    return this.create({
+      userId,
+      userType: "User",
+      title: `${doctorName} is checking in`,
+      message: messageContent.length > 100 ? messageContent.substring(0, 100) + "..." : messageContent,
+      type: "chat",
+      metadata: {
+        checkInId,
+        conversationId,
+        appointmentId,
+        doctorName,
+        type: "check_in",
+      },
+    });
+  }
+
+  /**
+   * ✅ CHECK-IN: The patient replied to a check-in (sent to the doctor)
+   */
+  static async notifyCheckInAnswered(
+    userId: string,
+    checkInId: string,
+    conversationId: string,
+    appointmentId: string,
+    patientName: string
+  ) {
+    return this.create({
+      userId,
+      userType: "Doctor",
+      title: "Check-in Reply 💬",
+      message: `${patientName} replied to your check-in.`,
+      type: "chat",
+      metadata: {
+        checkInId,
+        conversationId,
+        appointmentId,
+        patientName,
+        type: "check_in_answered",
+      },
+    });
+  }
+
+  /**
+   * ✅ WAITLIST: A freed slot is being held for this patient
+   */
+  static async notifyWaitlistOffer(
+    userId: string,
+    waitlistEntryId: string,
+    doctorName: string,
+    scheduledAt: Date,
+    minutesToClaim: number
+  ) {
+    return this.create({
+      userId,
+      userType: "User",
+      title: "A Slot Just Opened Up 🎉",
+      message: `${doctorName} is now free on ${scheduledAt.toLocaleString()}. We're holding it for you for ${minutesToClaim} minutes — book now to claim it.`,
+      type: "appointment",
+      metadata: {
+        waitlistEntryId,
+        doctorName,
+        scheduledAt: scheduledAt.toISOString(),
+        type: "waitlist_offer",
+      },
+    });
+  }
+
   /**
    * ✅ REMINDER: 15-minute reminder (sent to both)
    */
@@ -504,21 +708,27 @@ static async notifyAppointmentExpired(
   });
 }
 
+ // `dependent` — the request is for a family member's record, not the
+ // account holder's own
  static async notifyRecordAccessRequest(
     patientId: string,
     accessRequestId: string,
     doctorName: string,
-    doctorSpecialization: string
+    doctorSpecialization: string,
+    dependent?: { id: string; name: string }
   ) {
+    const whose = dependent ? `${dependent.name}'s` : "your";
     return this.create({
       userId:   patientId,
       userType: "User",
       title:    "Medical Record Access Request",
-      message:  `${doctorName} (${doctorSpecialization}) is requesting access to your medical record.`,
+      message:  `${doctorName} (${doctorSpecialization}) is requesting access to ${whose} medical record.`,
       type:     "system",
       metadata: {
         accessRequestId,
         doctorName,
+        familyMemberId:   dependent?.id,
+        familyMemberName: dependent?.name,
         type: "record_access_request",
       },
     });
@@ -528,23 +738,27 @@ static async notifyAppointmentExpired(
     doctorId: string,
     patientId: string,
     doctorName: string,
-    approved: boolean
+    approved: boolean,
+    dependent?: { id: string; name: string }
   ) {
     // Notify doctor of patient's decision
     const patient = await User.findById(patientId).select("name");
     const patientName = patient?.name || "The patient";
+    const whose = dependent ? `${dependent.name}'s` : "their";
  
     return this.create({
       userId:   doctorId,
       userType: "Doctor",
       title:    approved ? "Record Access Approved ✅" : "Record Access Denied",
       message:  approved
-        ? `${patientName} approved your request to access their medical record.`
-        : `${patientName} denied your request to access their medical record.`,
+        ? `${patientName} approved your request to access ${whose} medical record.`
+        : `${patientName} denied your request to access ${whose} medical record.`,
       type: "system",
       metadata: {
         patientId,
         approved,
+        familyMemberId:   dependent?.id,
+        familyMemberName: dependent?.name,
         type: "record_access_response",
       },
     });
@@ -553,17 +767,20 @@ static async notifyAppointmentExpired(
   static async notifyRecordAccessed(
     patientId: string,
     recordId: string,
-    doctorName: string
+    doctorName: string,
+    dependent?: { id: string; name: string }
   ) {
     return this.create({
       userId:   patientId,
       userType: "User",
       title:    "Medical Record Viewed",
-      message:  `${doctorName} viewed your medical record.`,
+      message:  `${doctorName} viewed ${dependent ? `${dependent.name}'s` : "your"} medical record.`,
       type:     "system",
       metadata: {
         recordId,
         doctorName,
+        familyMemberId:   dependent?.id,
+        familyMemberName: dependent?.name,
         type: "record_accessed",
       },
     });
@@ -632,6 +849,36 @@ static async notifyDeliveryUpdate(
   });
 }
 
+  /**
+   * MEDICATION: A reminder time has come up (or a snoozed dose is due again)
+   */
+  static async notifyMedicationDue(
+    userId: string,
+    userType: "User" | "Doctor",
+    reminderId: string,
+    doseLogId: string,
+    drugName: string,
+    dosage: string,
+    scheduledFor: Date,
+    snoozed = false
+  ) {
+    return this.create({
+      userId,
+      userType,
+      title: snoozed ? `Snoozed: time for ${drugName} 💊` : `Time for ${drugName} 💊`,
+      message: dosage
+        ? `Take ${dosage} of ${drugName} now. Tap to mark it as taken.`
+        : `It's time to take ${drugName}. Tap to mark it as taken.`,
+      type: "supplement",
+      metadata: {
+        reminderId,
+        doseLogId,
+        scheduledAt: scheduledFor.toISOString(),
+        type: "medication_due",
+      },
+    });
+  }
+
   /**
    * DOCTOR: Notify doctor when admin changes their application status
    */
@@ -0,0 +1,315 @@
+// services/ReliabilityService.ts
+//
+// Works out who actually turned up to an appointment, and turns that into
+// rolling reliability scores. Used by:
+//   - videoCallController — recordCallJoin / closeOpenCallAttempt as calls
+//     start, connect and end (the raw attendance data)
+//   - util/autoEndCalls.ts — closes attempts it times out
+//   - CallInviteService — recordCallJoin for invited guests
+//   - appointmentController.endAppointment and the 48h auto-expiry job in
+//     cron/reminderJob.ts — recordAttendanceOutcome once the appointment is
+//     completed
+//   - appointmentController.createAppointment — getPatientReliability, to
+//     cap how many upcoming bookings a repeat no-show patient can hold
+//   - adminController — doctor scores for the admin dashboard, patient
+//     reliability on the user detail view
+//   - cron/reminderJob.ts — refreshAllDoctorReliability, daily, so scores
+//     roll forward even for doctors with no new appointments
+//
+// Attendance is read from activeParticipants (everyone who ever joined a
+// call on the appointment) plus the per-call callAttempts and the legacy
+// callParticipants list. Only call-based consultations (video / audio) are
+// classified.
+import { Types } from "mongoose";
+import {
+  NO_SHOW_RESTRICTED_OPEN_BOOKINGS,
+  PATIENT_NO_SHOW_LIMIT,
+  RELIABILITY_WINDOW_DAYS,
+} from "../config/reliability";
+import { Appointment, AttendanceOutcome, CallParticipantKind, IAppointment } from "../models/appointment";
+import { Doctor } from "../models/doctor";
+
+const CALL_BASED_TYPES = ["video", "audio"];
+
+// Appointments still ahead of the patient — what NO_SHOW_RESTRICTED_OPEN_BOOKINGS caps.
+const OPEN_STATUSES = ["pending", "confirmed", "confirmed-upcoming", "about-to-start", "rescheduled"];
+
+export interface PatientReliability {
+  windowDays: number;
+  attended: number;
+  noShows: number;
+  score: number | null; // 0–100, null with nothing to score yet
+  restricted: boolean;
+  maxOpenBookings: number | null; // null = no cap
+}
+
+const idOf = (field: any): string => String(field?._id ?? field ?? "");
+
+const windowStart = (now: Date) =>
+  new Date(now.getTime() - RELIABILITY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+const percent = (good: number, total: number): number | null =>
+  total ? Math.round((good / total) * 100) : null;
+
+// ─── Call attendance tracking ─────────────────────────────────────────────────
+
+/**
+ * Records that `userId` joined a call on the appointment: adds them to
+ * activeParticipants (once, keeping the first joinedAt) and to the open call
+ * attempt, whose joins log keeps every join. Invited guests are recorded too
+ * but never affect the attendance classification. Best-effort — never throws
+ * into the call flow.
+ */
+export async function recordCallJoin(
+  appointmentId: string | Types.ObjectId,
+  userId: string,
+  kind: CallParticipantKind,
+  now: Date = new Date()
+): Promise<void> {
+  const participantId = new Types.ObjectId(userId);
+  try {
+    const added = await Appointment.updateOne(
+      { _id: appointmentId, "activeParticipants.userId": { $ne: participantId } },
+      { $push: { activeParticipants: { userId: participantId, joinedAt: now, isActive: true, lastPing: now } } }
+    );
+    if (!added.modifiedCount) {
+      await Appointment.updateOne(
+        { _id: appointmentId },
+        {
+          $set: {
+            "activeParticipants.$[p].isActive": true,
+            "activeParticipants.$[p].lastPing": now,
+          },
+        },
+        { arrayFilters: [{ "p.userId": participantId }] }
+      );
+    }
+
+    await Appointment.updateOne(
+      { _id: appointmentId },
+      {
+        $addToSet: { "callAttempts.$[open].participants": participantId },
+        $push: { "callAttempts.$[open].joins": { participantId, kind, joinedAt: now } },
+      },
+      { arrayFilters: [{ "open.endedAt": { $exists: false } }] }
+    );
+  } catch (err) {
+    console.error(`❌ [Reliability] Could not record call join for ${appointmentId}:`, err);
+  }
+}
+
+/** Closes whichever call attempt is still open. Best-effort. */
+export async function closeOpenCallAttempt(
+  appointmentId: string | Types.ObjectId,
+  endReason: "completed" | "timeout" | "disconnected" | "error" | "cancelled",
+  duration?: number,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    await Appointment.updateOne(
+      { _id: appointmentId },
+      {
+        $set: {
+          "callAttempts.$[open].endedAt": now,
+          "callAttempts.$[open].endReason": endReason,
+          ...(duration !== undefined ? { "callAttempts.$[open].duration": duration } : {}),
+          "activeParticipants.$[].isActive": false,
+        },
+      },
+      { arrayFilters: [{ "open.endedAt": { $exists: false } }] }
+    );
+  } catch (err) {
+    console.error(`❌ [Reliability] Could not close call attempt for ${appointmentId}:`, err);
+  }
+}
+
+// ─── Classification ───────────────────────────────────────────────────────────
+
+/**
+ * Who turned up, from the appointment's own call records — recorded joins
+ * and participants only; ending a call doesn't prove someone was in it. A
+ * patient who took a seat in the waiting room turned up too, even if the
+ * doctor never admitted them. Returns null for consultation types that
+ * don't happen over a call.
+ */
+export function classifyAttendance(
+  appointment: Pick<
+    IAppointment,
+    | "consultationType"
+    | "userId"
+    | "doctorId"
+    | "activeParticipants"
+    | "callAttempts"
+    | "callParticipants"
+    | "waitingRoom"
+  >
+): AttendanceOutcome | null {
+  if (!CALL_BASED_TYPES.includes(appointment.consultationType || "video")) return null;
+
+  const joined = new Set<string>([
+    ...(appointment.activeParticipants || []).map((p) => String(p.userId)),
+    ...(appointment.callAttempts || []).flatMap((a) => (a.participants || []).map(String)),
+    ...(appointment.callParticipants || []).map(String),
+  ]);
+
+  const doctorPresent = joined.has(idOf(appointment.doctorId));
+  const patientPresent = joined.has(idOf(appointment.userId)) || !!appointment.waitingRoom?.enteredAt;
+
+  if (doctorPresent && patientPresent) return "completed";
+  if (doctorPresent) return "patient-no-show";
+  if (patientPresent) return "doctor-no-show";
+  return "both-no-show";
+}
+
+/**
+ * Classifies a just-completed appointment and stores the outcome — once; a
+ * second call for the same appointment does nothing. A doctor no-show also
+ * updates the doctor's counters and score. Never throws.
+ */
+export async function recordAttendanceOutcome(
+  appointmentId: string | Types.ObjectId,
+  now: Date = new Date()
+): Promise<AttendanceOutcome | null> {
+  try {
+    const appointment = await Appointment.findById(appointmentId).select(
+      "consultationType userId doctorId activeParticipants callAttempts callParticipants waitingRoom attendanceOutcome"
+    );
+    if (!appointment || appointment.attendanceOutcome) return null;
+
+    const outcome = classifyAttendance(appointment);
+    if (!outcome) return null;
+
+    const stored = await Appointment.updateOne(
+      { _id: appointment._id, attendanceOutcome: { $exists: false } },
+      { $set: { attendanceOutcome: outcome, attendanceClassifiedAt: now } }
+    );
+    if (!stored.modifiedCount) return null;
+
+    const doctorId = idOf(appointment.doctorId);
+    if (outcome === "doctor-no-show" || outcome === "both-no-show") {
+      await Doctor.updateOne(
+        { _id: doctorId },
+        { $inc: { "reliability.noShows": 1 }, $set: { "reliability.lastNoShowAt": now } }
+      );
+    }
+    await refreshDoctorReliability(doctorId, now);
+
+    if (outcome !== "completed") {
+      console.log(`🚫 [Reliability] Appointment ${appointment._id} classified as ${outcome}`);
+    }
+    return outcome;
+  } catch (err) {
+    console.error(`❌ [Reliability] Could not classify appointment ${appointmentId}:`, err);
+    return null;
+  }
+}
+
+// ─── Scores ───────────────────────────────────────────────────────────────────
+
+/**
+ * Recomputes a doctor's rolling score: of the appointments they were
+ * expected at within the window, the share they turned up to. Their own
+ * cancellations count against them; rejecting a request doesn't.
+ */
+export async function refreshDoctorReliability(
+  doctorId: string | Types.ObjectId,
+  now: Date = new Date()
+): Promise<number | null> {
+  const since = windowStart(now);
+
+  const [outcomes, cancellations] = await Promise.all([
+    Appointment.aggregate<{ _id: AttendanceOutcome; count: number }>([
+      {
+        $match: {
+          doctorId: new Types.ObjectId(String(doctorId)),
+          scheduledAt: { $gte: since },
+          attendanceOutcome: { $exists: true },
+        },
+      },
+      { $group: { _id: "$attendanceOutcome", count: { $sum: 1 } } },
+    ]),
+    Appointment.countDocuments({
+      doctorId,
+      status: "cancelled",
+      statusHistory: { $elemMatch: { to: "cancelled", actor: "Doctor", at: { $gte: since } } },
+    }),
+  ]);
+
+  const count = (o: AttendanceOutcome) => outcomes.find((r) => r._id === o)?.count || 0;
+  const attended = count("completed") + count("patient-no-show");
+  const missed = count("doctor-no-show") + count("both-no-show") + cancellations;
+  const score = percent(attended, attended + missed);
+
+  await Doctor.updateOne(
+    { _id: doctorId },
+    {
+      $set: {
+        "reliability.score": score,
+        "reliability.scoredAppointments": attended + missed,
+        "reliability.scoreUpdatedAt": now,
+      },
+    }
+  );
+  return score;
+}
+
+/** Re-scores every approved doctor. Returns how many were refreshed. */
+export async function refreshAllDoctorReliability(now: Date = new Date()): Promise<number> {
+  const doctors = await Doctor.find({ status: "approved" }).select("_id").lean();
+  let refreshed = 0;
+  for (const { _id } of doctors) {
+    try {
+      await refreshDoctorReliability(_id as Types.ObjectId, now);
+      refreshed++;
+    } catch (err) {
+      console.error(`❌ [Reliability] Could not refresh doctor ${_id}:`, err);
+    }
+  }
+  return refreshed;
+}
+
+/**
+ * A patient's rolling attendance, and whether repeat no-shows mean their
+ * upcoming bookings are capped.
+ */
+export async function getPatientReliability(
+  userId: string | Types.ObjectId,
+  now: Date = new Date()
+): Promise<PatientReliability> {
+  const outcomes = await Appointment.aggregate<{ _id: AttendanceOutcome; count: number }>([
+    {
+      $match: {
+        userId: new Types.ObjectId(String(userId)),
+        scheduledAt: { $gte: windowStart(now) },
+        attendanceOutcome: { $exists: true },
+      },
+    },
+    { $group: { _id: "$attendanceOutcome", count: { $sum: 1 } } },
+  ]);
+
+  const count = (o: AttendanceOutcome) => outcomes.find((r) => r._id === o)?.count || 0;
+  const attended = count("completed") + count("doctor-no-show");
+  const noShows = count("patient-no-show") + count("both-no-show");
+  const restricted = noShows >= PATIENT_NO_SHOW_LIMIT;
+
+  return {
+    windowDays: RELIABILITY_WINDOW_DAYS,
+    attended,
+    noShows,
+    score: percent(attended, attended + noShows),
+    restricted,
+    maxOpenBookings: restricted ? NO_SHOW_RESTRICTED_OPEN_BOOKINGS : null,
+  };
+}
+
+/** Upcoming appointments the patient currently holds. */
+export async function countOpenBookings(
+  userId: string | Types.ObjectId,
+  now: Date = new Date()
+): Promise<number> {
+  return Appointment.countDocuments({
+    userId,
+    status: { $in: OPEN_STATUSES },
+    scheduledAt: { $gte: now },
+  });
+}
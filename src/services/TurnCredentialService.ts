@@ -0,0 +1,89 @@
+// services/TurnCredentialService.ts
+//
+// Short-lived TURN credentials following the TURN REST API convention
+// (draft-uberti-behave-turn-rest): the username is "<expiry>:<user>", the
+// password is base64(HMAC-SHA1(sharedSecret, username)). The TURN server
+// recomputes the password from the same secret and rejects the username once
+// its expiry timestamp has passed, so nothing is stored here. Used by:
+//   - videoCallController.getIceServers
+//   - CallInviteService — ICE servers for invited guests, who have no account
+//
+// The user part is "<userId>_<appointmentId>", so coturn's logs attribute
+// relayed traffic to a person and a consultation — or just "<userId>" for
+// older app builds that fetch ICE servers without naming the appointment.
+import crypto from "crypto";
+import {
+  TURN_CREDENTIAL_TTL_SECONDS,
+  TURN_SERVER_URLS,
+  TURN_SHARED_SECRET,
+} from "../config/turn";
+
+export interface TurnCredentials {
+  urls: string[];
+  username: string;
+  credential: string;
+  ttl: number; // seconds
+  expiresAt: Date;
+}
+
+export const isTurnConfigured = (): boolean =>
+  !!TURN_SHARED_SECRET && TURN_SERVER_URLS.length > 0;
+
+/**
+ * Issues credentials for `userId` on `appointmentId` (or for the user alone
+ * when there is none), or null when no TURN server is configured.
+ */
+export function issueTurnCredentials(
+  userId: string,
+  appointmentId?: string,
+  now: Date = new Date()
+): TurnCredentials | null {
+  if (!isTurnConfigured()) return null;
+
+  const expiry = Math.floor(now.getTime() / 1000) + TURN_CREDENTIAL_TTL_SECONDS;
+  const username = appointmentId ? `${expiry}:${userId}_${appointmentId}` : `${expiry}:${userId}`;
+  const credential = crypto
+    .createHmac("sha1", TURN_SHARED_SECRET)
+    .update(username)
+    .digest("base64");
+
+  return {
+    urls: TURN_SERVER_URLS,
+    username,
+    credential,
+    ttl: TURN_CREDENTIAL_TTL_SECONDS,
+    expiresAt: new Date(expiry * 1000),
+  };
+}
+
+export interface IceServerConfig {
+  iceServers: { urls: string | string[]; username?: string; credential?: string }[];
+  ttl: number | null;
+  expiresAt: Date | null;
+}
+
+/**
+ * STUN servers plus, when configured, TURN credentials for this participant.
+ *
+ * Env vars (all optional — falls back to Google STUN if none are set):
+ *   STUN_SERVER_URL              e.g. stun:stun.relay.metered.ca:80
+ *   TURN_SERVER_URLS             comma-separated turn:/turns: URLs
+ *   TURN_SHARED_SECRET           coturn static-auth-secret
+ *   TURN_CREDENTIAL_TTL_SECONDS  credential lifetime (default 4h)
+ */
+export function buildIceServers(participantId: string, appointmentId?: string): IceServerConfig {
+  const iceServers: IceServerConfig["iceServers"] = [];
+
+  // Custom STUN (Metered) — falls back to Google STUN if not set
+  iceServers.push({ urls: process.env.STUN_SERVER_URL || "stun:stun.l.google.com:19302" });
+  iceServers.push({ urls: "stun:stun1.l.google.com:19302" });
+
+  const turn = issueTurnCredentials(participantId, appointmentId);
+  if (turn) {
+    iceServers.push({ urls: turn.urls, username: turn.username, credential: turn.credential });
+  } else {
+    console.warn("⚠️ TURN_SHARED_SECRET / TURN_SERVER_URLS not set — serving STUN only");
+  }
+
+  return { iceServers, ttl: turn?.ttl ?? null, expiresAt: turn?.expiresAt ?? null };
+}
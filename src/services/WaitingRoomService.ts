@@ -0,0 +1,327 @@
+// services/WaitingRoomService.ts
+//
+// Virtual waiting room for call-based consultations. The patient enters up to
+// WAITING_ROOM_OPENS_MINUTES before their slot; the doctor sees the queue and
+// admits them, and only an admitted patient may start the call. Used by:
+//   - videoCallController — enter / leave / admit / queue endpoints, and
+//     generateVideoToken, which seats a not-yet-admitted patient here instead
+//     of ringing the doctor (a doctor starting the call admits implicitly)
+//   - cron/reminderJob.ts — broadcastAllWaitEstimates, every minute
+//
+// Wait estimates walk the doctor's day forward from now: the consultation they
+// are in (assumed to run at least to its booked end), then every patient
+// waiting ahead in scheduled order, each taking their booked duration.
+import { Types } from "mongoose";
+import {
+  WAITING_ROOM_OPENS_MINUTES,
+  WAITING_ROOM_PRESENCE_SECONDS,
+} from "../config/waitingRoom";
+import { Appointment, AppointmentStatus, IAppointment, IWaitingRoom } from "../models/appointment";
+import { emitWaitingRoomEstimate, emitWaitingRoomUpdated } from "../index";
+
+// First-call statuses — once a call has started on the appointment, the
+// patient rejoins directly.
+export const WAITING_ROOM_STATUSES: AppointmentStatus[] = ["confirmed", "confirmed-upcoming", "about-to-start"];
+const CALL_BASED_TYPES = ["video", "audio"];
+// A consultation that has already overrun is given at least this much longer.
+const OVERRUN_ALLOWANCE_MS = 5 * 60 * 1000;
+
+// Patients still waiting. An appointment that has since been cancelled or
+// moved on drops out of the queue on its own.
+const WAITING_FILTER = { "waitingRoom.status": "waiting", status: { $in: WAITING_ROOM_STATUSES } };
+
+export class WaitingRoomError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "WaitingRoomError";
+  }
+}
+
+export interface WaitEstimate {
+  estimatedStartAt: Date;
+  estimatedWaitMinutes: number;
+  runningLateMinutes: number; // how far past the booked time the start is
+  doctorInConsultation: boolean;
+  patientsAhead: number;
+}
+
+export interface WaitingPatient {
+  appointmentId: string;
+  patientId: string;
+  patientName: string;
+  scheduledAt: Date;
+  duration: number;
+  consultationType?: string;
+  enteredAt: Date;
+  lastSeenAt: Date;
+  isPresent: boolean;
+  estimate: WaitEstimate;
+}
+
+const idOf = (field: any): string => String(field?._id ?? field ?? "");
+const minutesBetween = (from: Date, to: Date) => Math.max(0, Math.ceil((to.getTime() - from.getTime()) / 60000));
+
+function publicState(room: IWaitingRoom) {
+  return { status: room.status, enteredAt: room.enteredAt, admittedAt: room.admittedAt, leftAt: room.leftAt };
+}
+
+async function loadForPatient(appointmentId: string, userId: string) {
+  if (!Types.ObjectId.isValid(appointmentId)) throw new WaitingRoomError("Appointment not found", 404);
+  const appointment = await Appointment.findById(appointmentId)
+    .select("userId doctorId status scheduledAt consultationType waitingRoom")
+    .lean();
+  if (!appointment) throw new WaitingRoomError("Appointment not found", 404);
+  if (idOf(appointment.userId) !== userId) {
+    throw new WaitingRoomError("You are not the patient on this appointment", 403);
+  }
+  return appointment;
+}
+
+/**
+ * Whether a patient starting the call must be admitted first. Only the first
+ * call on a scheduled video / audio consultation goes through the room.
+ */
+export function mustWaitForAdmission(
+  appointment: Pick<IAppointment, "status" | "consultationType" | "waitingRoom">
+): boolean {
+  return (
+    CALL_BASED_TYPES.includes(appointment.consultationType || "video") &&
+    WAITING_ROOM_STATUSES.includes(appointment.status) &&
+    appointment.waitingRoom?.status !== "admitted"
+  );
+}
+
+// ─── Estimates ────────────────────────────────────────────────────────────────
+
+/** Wait estimates for every patient currently waiting for `doctorId`. */
+export async function estimateWaits(
+  doctorId: string | Types.ObjectId,
+  now: Date = new Date()
+): Promise<Map<string, WaitEstimate>> {
+  const [current, waiting] = await Promise.all([
+    Appointment.findOne({ doctorId, callStatus: { $in: ["ringing", "in-progress"] } })
+      .sort({ callStartedAt: -1 })
+      .select("scheduledAt duration callStartedAt")
+      .lean(),
+    Appointment.find({ doctorId, ...WAITING_FILTER })
+      .sort({ scheduledAt: 1 })
+      .select("scheduledAt duration")
+      .lean(),
+  ]);
+
+  let cursor = now.getTime();
+  if (current) {
+    const startedAt = new Date(current.callStartedAt || current.scheduledAt).getTime();
+    cursor = Math.max(startedAt + (current.duration || 30) * 60000, now.getTime() + OVERRUN_ALLOWANCE_MS);
+  }
+
+  const estimates = new Map<string, WaitEstimate>();
+  waiting.forEach((appointment, index) => {
+    const scheduledAt = new Date(appointment.scheduledAt);
+    const startsAt = new Date(Math.max(cursor, scheduledAt.getTime()));
+    estimates.set(String(appointment._id), {
+      estimatedStartAt: startsAt,
+      estimatedWaitMinutes: minutesBetween(now, startsAt),
+      runningLateMinutes: minutesBetween(scheduledAt, startsAt),
+      doctorInConsultation: !!current,
+      patientsAhead: index,
+    });
+    cursor = startsAt.getTime() + (appointment.duration || 30) * 60000;
+  });
+  return estimates;
+}
+
+/** Pushes a fresh estimate to every patient waiting for `doctorId`. */
+export async function broadcastWaitEstimates(doctorId: string | Types.ObjectId, now: Date = new Date()): Promise<number> {
+  const estimates = await estimateWaits(doctorId, now);
+  if (!estimates.size) return 0;
+  const patients = await Appointment.find({ _id: { $in: [...estimates.keys()] } }).select("userId").lean();
+  for (const appointment of patients) {
+    emitWaitingRoomEstimate(String(appointment._id), idOf(appointment.userId), estimates.get(String(appointment._id))!);
+  }
+  return estimates.size;
+}
+
+/** Every minute: re-estimate for every doctor with someone waiting. */
+export async function broadcastAllWaitEstimates(now: Date = new Date()): Promise<number> {
+  const doctorIds = await Appointment.distinct("doctorId", WAITING_FILTER);
+  let sent = 0;
+  for (const doctorId of doctorIds) {
+    try {
+      sent += await broadcastWaitEstimates(doctorId, now);
+    } catch (err) {
+      console.error(`❌ [WaitingRoom] Could not broadcast estimates for doctor ${doctorId}:`, err);
+    }
+  }
+  return sent;
+}
+
+const rebroadcast = (doctorId: string) =>
+  broadcastWaitEstimates(doctorId).catch((err) =>
+    console.error(`❌ [WaitingRoom] Could not broadcast estimates for doctor ${doctorId}:`, err)
+  );
+
+// ─── Patient ──────────────────────────────────────────────────────────────────
+
+/**
+ * Seats the patient in the waiting room, or refreshes their presence if they
+ * are already there. Safe to call repeatedly while the waiting screen is open.
+ */
+export async function enterWaitingRoom(
+  appointmentId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ waitingRoom: ReturnType<typeof publicState>; estimate: WaitEstimate | null }> {
+  const appointment = await loadForPatient(appointmentId, userId);
+  const doctorId = idOf(appointment.doctorId);
+
+  if (!CALL_BASED_TYPES.includes(appointment.consultationType || "video")) {
+    throw new WaitingRoomError("Only video and audio consultations have a waiting room", 400);
+  }
+  if (appointment.waitingRoom?.status === "admitted") {
+    return { waitingRoom: publicState(appointment.waitingRoom), estimate: null };
+  }
+  if (!WAITING_ROOM_STATUSES.includes(appointment.status)) {
+    throw new WaitingRoomError(`The waiting room is not open for a ${appointment.status} appointment`, 400);
+  }
+  const opensAt = new Date(new Date(appointment.scheduledAt).getTime() - WAITING_ROOM_OPENS_MINUTES * 60000);
+  if (now < opensAt) {
+    throw new WaitingRoomError(
+      `The waiting room opens ${WAITING_ROOM_OPENS_MINUTES} minutes before your appointment.`,
+      400,
+      "WAITING_ROOM_NOT_OPEN",
+      { minutesUntilOpen: minutesBetween(now, opensAt) }
+    );
+  }
+
+  const alreadyWaiting = appointment.waitingRoom?.status === "waiting";
+  const waitingRoom: IWaitingRoom = alreadyWaiting
+    ? { ...appointment.waitingRoom!, lastSeenAt: now }
+    : { status: "waiting", enteredAt: now, lastSeenAt: now };
+
+  const updated = await Appointment.updateOne(
+    { _id: appointment._id, "waitingRoom.status": { $ne: "admitted" } },
+    { $set: { waitingRoom } }
+  );
+  if (!updated.matchedCount) {
+    // Admitted between our read and this write.
+    const fresh = await loadForPatient(appointmentId, userId);
+    return { waitingRoom: publicState(fresh.waitingRoom!), estimate: null };
+  }
+
+  if (!alreadyWaiting) {
+    emitWaitingRoomUpdated(appointmentId, userId, doctorId, publicState(waitingRoom));
+    console.log(`🚪 [WaitingRoom] Patient ${userId} entered for appointment ${appointmentId}`);
+    rebroadcast(doctorId);
+  }
+
+  const estimates = await estimateWaits(doctorId, now);
+  return { waitingRoom: publicState(waitingRoom), estimate: estimates.get(appointmentId) || null };
+}
+
+export async function leaveWaitingRoom(appointmentId: string, userId: string, now: Date = new Date()): Promise<void> {
+  const appointment = await loadForPatient(appointmentId, userId);
+  const left = await Appointment.updateOne(
+    { _id: appointment._id, "waitingRoom.status": "waiting" },
+    { $set: { "waitingRoom.status": "left", "waitingRoom.leftAt": now } }
+  );
+  if (!left.modifiedCount) return;
+
+  const doctorId = idOf(appointment.doctorId);
+  emitWaitingRoomUpdated(appointmentId, userId, doctorId, {
+    ...publicState(appointment.waitingRoom!),
+    status: "left",
+    leftAt: now,
+  });
+  rebroadcast(doctorId);
+}
+
+// ─── Doctor ───────────────────────────────────────────────────────────────────
+
+export async function getDoctorWaitingRoom(doctorId: string, now: Date = new Date()): Promise<WaitingPatient[]> {
+  const [waiting, estimates] = await Promise.all([
+    Appointment.find({ doctorId, ...WAITING_FILTER })
+      .sort({ scheduledAt: 1 })
+      .select("userId scheduledAt duration consultationType waitingRoom patientSnapshot")
+      .populate("userId", "name firstName lastName")
+      .lean(),
+    estimateWaits(doctorId, now),
+  ]);
+
+  const presentSince = now.getTime() - WAITING_ROOM_PRESENCE_SECONDS * 1000;
+  return waiting.map((appointment) => {
+    const user = appointment.userId as any;
+    const room = appointment.waitingRoom!;
+    return {
+      appointmentId: String(appointment._id),
+      patientId: idOf(user),
+      patientName:
+        appointment.patientSnapshot?.name ||
+        user?.name ||
+        `${user?.firstName || ""} ${user?.lastName || ""}`.trim(),
+      scheduledAt: appointment.scheduledAt,
+      duration: appointment.duration,
+      consultationType: appointment.consultationType,
+      enteredAt: room.enteredAt,
+      lastSeenAt: room.lastSeenAt,
+      isPresent: new Date(room.lastSeenAt).getTime() >= presentSince,
+      estimate: estimates.get(String(appointment._id))!,
+    };
+  });
+}
+
+/**
+ * Lets the waiting patient in. They (or the doctor) can then start the call.
+ * With `implicit`, a patient who isn't waiting is admitted anyway — used when
+ * the doctor starts the call themselves.
+ */
+export async function admitPatient(
+  appointment: Pick<IAppointment, "_id" | "userId" | "doctorId" | "waitingRoom">,
+  now: Date = new Date(),
+  implicit = false
+): Promise<boolean> {
+  const admitted = await Appointment.updateOne(
+    implicit
+      ? { _id: appointment._id, "waitingRoom.status": { $ne: "admitted" } }
+      : { _id: appointment._id, "waitingRoom.status": "waiting" },
+    {
+      $set: {
+        "waitingRoom.status": "admitted",
+        "waitingRoom.admittedAt": now,
+        "waitingRoom.enteredAt": appointment.waitingRoom?.enteredAt || now,
+        "waitingRoom.lastSeenAt": appointment.waitingRoom?.lastSeenAt || now,
+      },
+    }
+  );
+  if (!admitted.modifiedCount) return false;
+
+  const doctorId = idOf(appointment.doctorId);
+  emitWaitingRoomUpdated(String(appointment._id), idOf(appointment.userId), doctorId, {
+    status: "admitted",
+    enteredAt: appointment.waitingRoom?.enteredAt || now,
+    admittedAt: now,
+  });
+  rebroadcast(doctorId);
+  return true;
+}
+
+/** Doctor admits a waiting patient. */
+export async function admitWaitingPatient(appointmentId: string, doctorId: string, now: Date = new Date()): Promise<void> {
+  if (!Types.ObjectId.isValid(appointmentId)) throw new WaitingRoomError("Appointment not found", 404);
+  const appointment = await Appointment.findById(appointmentId).select("userId doctorId waitingRoom").lean();
+  if (!appointment) throw new WaitingRoomError("Appointment not found", 404);
+  if (idOf(appointment.doctorId) !== doctorId) {
+    throw new WaitingRoomError("You are not part of this appointment", 403);
+  }
+  if (appointment.waitingRoom?.status === "admitted") return;
+
+  if (!(await admitPatient(appointment, now))) {
+    throw new WaitingRoomError("The patient is not in the waiting room", 409, "NOT_WAITING");
+  }
+  console.log(`🚪 [WaitingRoom] Doctor ${doctorId} admitted the patient on appointment ${appointmentId}`);
+}
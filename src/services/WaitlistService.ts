@@ -0,0 +1,210 @@
+// services/WaitlistService.ts
+//
+// Hands freed appointment slots to patients waiting on a fully booked doctor.
+// Used by:
+//   - appointmentController — offerFreedSlot after a cancellation, rejection
+//     or accepted reschedule frees a time; closeWaitlistOnBooking once the
+//     patient books
+//   - waitlistController — leaveWaitlist, passOnOffer
+//   - cron/reminderJob.ts — rollLapsedOffers, every minute
+//
+// A freed slot goes to the oldest "waiting" entry whose date range covers it,
+// and is held for that patient alone (see AvailabilityService) for
+// WAITLIST_OFFER_MINUTES. If they don't book it in time — or turn it down —
+// it rolls to the next patient in line. A patient is never offered the same
+// slot twice.
+//
+// Expiry is not a trigger: the expiry job (cron/reminderJob.ts) only closes
+// appointments 48h after their time, as "completed", so there is never a
+// future slot left to offer by then.
+import { Types } from "mongoose";
+import { WAITLIST_OFFER_MINUTES } from "../config/waitlist";
+import { Doctor } from "../models/doctor";
+import { IWaitlistEntry, WaitlistEntry } from "../models/WaitlistEntry";
+import { isSlotBookable, readAvailability } from "./AvailabilityService";
+import { NotificationService } from "./NotificationService";
+
+/**
+ * Offers `scheduledAt` to the next patient waiting on this doctor, if the
+ * slot is still in the future and nobody has taken it since. Never throws —
+ * callers are in the middle of freeing the slot and must not fail because of
+ * the waitlist. Returns the entry now holding the offer, if any.
+ */
+export async function offerFreedSlot(
+  doctorId: string | Types.ObjectId,
+  scheduledAt: Date,
+  now: Date = new Date()
+): Promise<IWaitlistEntry | null> {
+  try {
+    if (scheduledAt <= now) return null;
+
+    const doctor = await Doctor.findById(doctorId).select("firstName lastName availability").lean();
+    const availability = readAvailability(doctor?.availability);
+    if (!doctor || !availability) return null;
+    if (!(await isSlotBookable(doctorId, availability, scheduledAt))) return null;
+
+    // One atomic claim of the oldest eligible entry, so two freed slots can
+    // never land on the same patient.
+    const entry = await WaitlistEntry.findOneAndUpdate(
+      {
+        doctorId,
+        status: "waiting",
+        from: { $lte: scheduledAt },
+        to: { $gt: scheduledAt },
+        passedSlots: { $ne: scheduledAt },
+      },
+      {
+        $set: {
+          status: "offered",
+          offer: {
+            scheduledAt,
+            duration: availability.slotMinutes,
+            offeredAt: now,
+            expiresAt: new Date(now.getTime() + WAITLIST_OFFER_MINUTES * 60_000),
+          },
+        },
+      },
+      { new: true, sort: { createdAt: 1 } }
+    );
+    if (!entry) return null;
+
+    try {
+      await NotificationService.notifyWaitlistOffer(
+        String(entry.userId),
+        String(entry._id),
+        `Dr. ${doctor.lastName || doctor.firstName}`,
+        scheduledAt,
+        WAITLIST_OFFER_MINUTES
+      );
+    } catch (err) {
+      console.error("❌ [Waitlist] Offer notification failed:", err);
+    }
+    return entry;
+  } catch (err) {
+    console.error(`❌ [Waitlist] Could not offer slot ${scheduledAt.toISOString()} for doctor ${doctorId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Takes the current offer away from `entry` — lapsed or turned down — and
+ * puts the patient back in line (keeping their place) unless their range has
+ * passed. The slot then goes to the next patient. Returns the updated entry,
+ * or null when the offer had already moved on.
+ */
+export async function passOnOffer(
+  entry: IWaitlistEntry,
+  now: Date = new Date()
+): Promise<IWaitlistEntry | null> {
+  if (entry.status !== "offered" || !entry.offer) return null;
+  const { scheduledAt } = entry.offer;
+
+  const updated = await WaitlistEntry.findOneAndUpdate(
+    { _id: entry._id, status: "offered", "offer.scheduledAt": scheduledAt },
+    {
+      $set: { status: entry.to > now ? "waiting" : "expired" },
+      $unset: { offer: 1 },
+      $push: { passedSlots: scheduledAt },
+    },
+    { new: true }
+  );
+  if (!updated) return null;
+
+  await offerFreedSlot(entry.doctorId, scheduledAt, now);
+  return updated;
+}
+
+/** Removes a patient from the waitlist, releasing any slot held for them. */
+export async function leaveWaitlist(
+  entryId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<IWaitlistEntry | null> {
+  const previous = await WaitlistEntry.findOneAndUpdate(
+    { _id: entryId, userId, status: { $in: ["waiting", "offered"] } },
+    { $set: { status: "cancelled" }, $unset: { offer: 1 } },
+    { new: false }
+  );
+  if (!previous) return null;
+
+  if (previous.status === "offered" && previous.offer && previous.offer.expiresAt > now) {
+    await offerFreedSlot(previous.doctorId, previous.offer.scheduledAt, now);
+  }
+  return previous;
+}
+
+/**
+ * Closes the patient's waitlist entry for this doctor once they've booked —
+ * preferably the entry holding the exact slot they took, otherwise the one
+ * for the same patient/dependent. An offer for a different slot is released
+ * to the next patient. Never throws.
+ */
+export async function closeWaitlistOnBooking(
+  userId: string,
+  doctorId: string | Types.ObjectId,
+  familyMemberId: Types.ObjectId | undefined,
+  appointmentId: Types.ObjectId,
+  scheduledAt: Date,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    const close = { $set: { status: "booked", bookedAppointmentId: appointmentId } };
+
+    let previous = await WaitlistEntry.findOneAndUpdate(
+      { userId, doctorId, status: "offered", "offer.scheduledAt": scheduledAt },
+      close,
+      { new: false }
+    );
+    if (!previous) {
+      previous = await WaitlistEntry.findOneAndUpdate(
+        {
+          userId,
+          doctorId,
+          familyMemberId: familyMemberId ?? null,
+          status: { $in: ["waiting", "offered"] },
+        },
+        close,
+        { new: false }
+      );
+    }
+    if (!previous?.offer) return;
+
+    // They booked some other time — the slot held for them goes to the next
+    // person. (An offer they did take stays on the entry as a record.)
+    const { offer } = previous;
+    if (offer.scheduledAt.getTime() !== scheduledAt.getTime() && offer.expiresAt > now) {
+      await WaitlistEntry.updateOne({ _id: previous._id }, { $unset: { offer: 1 } });
+      await offerFreedSlot(doctorId, offer.scheduledAt, now);
+    }
+  } catch (err) {
+    console.error(`❌ [Waitlist] Could not close entry after booking ${appointmentId}:`, err);
+  }
+}
+
+/**
+ * Rolls every lapsed offer on to the next patient, and expires entries whose
+ * whole date range is now in the past. Returns how many offers rolled.
+ */
+export async function rollLapsedOffers(now: Date = new Date()): Promise<number> {
+  const lapsed = await WaitlistEntry.find({
+    status: "offered",
+    "offer.expiresAt": { $lte: now },
+  })
+    .sort({ "offer.expiresAt": 1 })
+    .limit(100);
+
+  let rolled = 0;
+  for (const entry of lapsed) {
+    try {
+      if (await passOnOffer(entry, now)) rolled++;
+    } catch (err) {
+      console.error(`❌ [Waitlist] Could not roll offer for entry ${entry._id}:`, err);
+    }
+  }
+
+  await WaitlistEntry.updateMany(
+    { status: "waiting", to: { $lte: now } },
+    { $set: { status: "expired" } }
+  );
+  return rolled;
+}
@@ -1,4 +1,7 @@
 import { IProduct } from '../models/product';
+import { IPendingAction } from '../models/ChatConversation';
+import { RedFlagCategory, TriageLanguage } from '../models/TriageEscalation';
+import { NormalizedClinic } from '../services/OverpassService';
 
 export type Intent =
   | 'health'
@@ -6,13 +9,19 @@ export type Intent =
   | 'info'
   | 'appointment'
   | 'general'
-  | 'greeting';
+  | 'greeting'
+  | 'cart'
+  | 'order-status';
 
 
 export interface ChatbotRequest {
     message: string;
     userId?: string; // Optional for guest users
     sessionId?: string; // Optional, will be generated if not provided
+    // Optional; used to list nearby clinics in an urgent reply
+    lat?: number;
+    lng?: number;
+    city?: string;
 }
 
 // Define a lean product type for API responses
@@ -33,12 +42,92 @@ export interface ProductResponse {
     status: string;
 }
 
+// Channels the engine (services/ChatbotEngine.ts) answers on
+export type ChatbotChannel = 'app' | 'whatsapp';
+
+// How a product search was satisfied: the query itself, the category it
+// implies, the popular fallback, or not at all
+export type ProductMatch = 'exact' | 'category' | 'popular' | 'none';
+
+// Something the user can do next; `path` is an app route (deep-linked on WhatsApp)
+export interface ChatbotAction {
+    type:
+        | 'book-appointment'
+        | 'browse-products'
+        | 'sign-in'
+        | 'complete-profile'
+        | 'view-appointments'
+        | 'view-cart'
+        | 'view-orders';
+    label: string;
+    path: string;
+    params?: Record<string, string>;
+}
+
+// Who is talking to the chatbot. `userId` is set only for a signed-in
+// patient; guests and WhatsApp users can read but not book, buy or see orders.
+// `location` / `city` are only used to find clinics for an urgent reply.
+export interface ChatbotCaller {
+    userId?: string;
+    location?: { lat: number; lng: number };
+    city?: string;
+}
+
+// A write the user has been asked to confirm, shown as Confirm / Cancel
+export interface ChatbotConfirmation {
+    actionId: string;
+    summary: string;
+}
+
+// A vetted advocacy article the answer cites as [ref]
+export interface ArticleSource {
+    ref: number;
+    slug: string;
+    title: string;
+}
+
+export type NearbyClinic = NormalizedClinic & { distanceKm?: number };
+
+// A red flag answered by the triage layer (services/ChatbotTriageService.ts)
+// rather than the model
+export interface ChatbotUrgent {
+    category: RedFlagCategory;
+    language: TriageLanguage;
+    headline: string;
+    steps: string[];
+    hotlines: Array<{ label: string; number: string }>;
+    clinics: NearbyClinic[];
+    needsLocation: boolean; // no location to search from — ask for one
+    escalationId: string;
+}
+
+// What the engine decided to say, before a channel renders it
+export interface ChatbotReply {
+    intent: Intent;
+    text: string;
+    products: ProductResponse[];
+    productQuery?: string;
+    productMatch?: ProductMatch;
+    category?: string;
+    actions: ChatbotAction[];
+    confirmation?: ChatbotConfirmation;
+    urgent?: ChatbotUrgent;
+    sources?: ArticleSource[];
+    // Stored on the conversation: set when a write awaits confirmation,
+    // null once it is done, cancelled or abandoned; undefined leaves it as is
+    pendingAction?: IPendingAction | null;
+}
+
 export interface ChatbotResponse {
     success: boolean;
     response: string;
     intent: Intent;
     products: ProductResponse[]; 
     sessionId: string;
+    actions?: ChatbotAction[];
+    confirmation?: ChatbotConfirmation & { confirmMessage: string; cancelMessage: string };
+    urgent?: ChatbotUrgent;
+    sources?: ArticleSource[];
 }
 
 export interface ConversationHistoryResponse {
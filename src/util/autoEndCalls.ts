@@ -14,6 +14,7 @@
 
 import { Appointment } from "../models/appointment";
 import { NotificationService } from "../services/NotificationService";
+import { closeOpenCallAttempt } from "../services/ReliabilityService";
 
 const ZOMBIE_RINGING_MINUTES = 5; // reset stuck 'ringing' calls after 5 min
 const HARD_CAP_HOURS = 48; // force-end call after 48h regardless
@@ -33,7 +34,8 @@ const extractId = (field: any): string => {
 
 export const resetZombieRingingCalls = async () => {
   try {
-    const cutoff = new Date(Date.now() - ZOMBIE_RINGING_MINUTES * 60 * 1000);
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - ZOMBIE_RINGING_MINUTES * 60 * 1000);
 
     const result = await Appointment.updateMany(
       {
@@ -45,8 +47,12 @@ export const resetZombieRingingCalls = async () => {
           callStatus: "idle",
           callParticipants: [],
           callInitiatedBy: null,
+          // Nobody answered — close the attempt so it can't absorb later joins.
+          "callAttempts.$[open].endedAt": now,
+          "callAttempts.$[open].endReason": "timeout",
         },
       },
+      { arrayFilters: [{ "open.endedAt": { $exists: false } }] },
     );
 
     if (result.modifiedCount > 0) {
@@ -101,6 +107,7 @@ export const autoEndExpiredCalls = async () => {
       // ✅ appointment.status intentionally NOT changed
 
       await appointment.save();
+      await closeOpenCallAttempt(appointment._id as any, "timeout", callDuration, now);
 
       try {
         await NotificationService.notifyCallAutoEnded(